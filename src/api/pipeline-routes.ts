@@ -5,6 +5,10 @@ import {
   EUDataRecord,
   PipelineConfig,
 } from "../pipeline/pipeline-orchestrator.ts";
+import { ConverterConfig } from "../shared/types/converter.ts";
+import { MappingRegistry } from "../converters/mappings/mapping-registry.ts";
+import { PRODUCT_CATEGORIES } from "../converters/tax/vat-rates.ts";
+import { ZipTaxRateTable } from "../converters/tax/zip-tax-rates.ts";
 import { z } from "zod";
 
 // Input validation schemas
@@ -13,10 +17,13 @@ const EUDataRecordSchema = z.object({
   currency: z.object({
     amount: z.number().positive(),
   }).optional(),
-  measurements: z.array(z.object({
-    value: z.number(),
-    unit: z.string(),
-  })).optional(),
+  measurements: z.array(z.union([
+    z.object({
+      value: z.number(),
+      unit: z.string(),
+    }),
+    z.string(), // Free text, e.g. "1,5 kg"
+  ])).optional(),
   dates: z.array(z.string()).optional(),
   numbers: z.array(z.string()).optional(),
   address: z.object({
@@ -31,6 +38,9 @@ const EUDataRecordSchema = z.object({
     amount: z.number(),
     rate: z.number(),
     country: z.string(),
+    invoiceDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+    productCategory: z.enum(PRODUCT_CATEGORIES).optional(),
+    destinationZip: z.string().regex(/^\d{5}(-?\d{4})?$/).optional(),
   }).optional(),
   privacy: z.object({
     requestType: z.enum(["access", "deletion", "portability", "rectification"]),
@@ -47,8 +57,31 @@ const BatchRequestSchema = z.object({
   }).optional(),
 });
 
+// Money output options (?money=decimal&rounding=half-even)
+const MoneyOptionsSchema = z.object({
+  money: z.enum(["number", "decimal", "minor-units"]).optional(),
+  rounding: z.enum(["half-up", "half-even", "truncate"]).optional(),
+});
+
 // Pipeline instance (singleton)
 let pipeline: PipelineOrchestrator | null = null;
+let pipelineTables: { mappings?: MappingRegistry; zipRates?: ZipTaxRateTable } = {};
+
+/**
+ * Rebuild the pipeline around loaded country mappings
+ */
+export function usePipelineMappings(mappings: MappingRegistry): void {
+  pipelineTables = { ...pipelineTables, mappings };
+  pipeline = createDefaultPipeline(pipelineTables);
+}
+
+/**
+ * Rebuild the pipeline around loaded ZIP code sales tax rates
+ */
+export function usePipelineZipRates(zipRates: ZipTaxRateTable): void {
+  pipelineTables = { ...pipelineTables, zipRates };
+  pipeline = createDefaultPipeline(pipelineTables);
+}
 
 /**
  * Initialize pipeline if not already created
@@ -60,6 +93,30 @@ function getPipeline(): PipelineOrchestrator {
   return pipeline;
 }
 
+/**
+ * Read money output options from the query string
+ */
+function parseMoneyOptions(
+  url: URL,
+): { success: true; config: ConverterConfig } | { success: false; details: z.ZodIssue[] } {
+  const result = MoneyOptionsSchema.safeParse({
+    money: url.searchParams.get("money") ?? undefined,
+    rounding: url.searchParams.get("rounding") ?? undefined,
+  });
+
+  if (!result.success) {
+    return { success: false, details: result.error.errors };
+  }
+
+  return {
+    success: true,
+    config: {
+      moneyRepresentation: result.data.money,
+      roundingMode: result.data.rounding,
+    },
+  };
+}
+
 /**
  * Create pipeline routes
  */
@@ -83,8 +140,19 @@ export function createPipelineRoutes(): Router {
         return;
       }
 
+      const moneyOptions = parseMoneyOptions(ctx.request.url);
+      if (!moneyOptions.success) {
+        ctx.response.status = 400;
+        ctx.response.body = {
+          error: "Validation Error",
+          message: "Invalid money options",
+          details: moneyOptions.details,
+        };
+        return;
+      }
+
       const pipeline = getPipeline();
-      const result = await pipeline.processRecord(validationResult.data);
+      const result = await pipeline.processRecord(validationResult.data, moneyOptions.config);
 
       if (result.success) {
         ctx.response.status = 200;
@@ -128,6 +196,17 @@ export function createPipelineRoutes(): Router {
         return;
       }
 
+      const moneyOptions = parseMoneyOptions(ctx.request.url);
+      if (!moneyOptions.success) {
+        ctx.response.status = 400;
+        ctx.response.body = {
+          error: "Validation Error",
+          message: "Invalid money options",
+          details: moneyOptions.details,
+        };
+        return;
+      }
+
       const pipeline = getPipeline();
       const startTime = Date.now();
       
@@ -138,7 +217,7 @@ export function createPipelineRoutes(): Router {
       if (validationResult.data.options?.parallel !== false) {
         // Parallel processing (default)
         const promises = validationResult.data.records.map(async (record) => {
-          const result = await pipeline.processRecord(record);
+          const result = await pipeline.processRecord(record, moneyOptions.config);
           if (result.success) {
             results.push(result.data);
           } else if (!validationResult.data.options?.continueOnError) {
@@ -152,7 +231,7 @@ export function createPipelineRoutes(): Router {
       } else {
         // Sequential processing
         for (const record of validationResult.data.records) {
-          const result = await pipeline.processRecord(record);
+          const result = await pipeline.processRecord(record, moneyOptions.config);
           if (result.success) {
             results.push(result.data);
           } else if (!validationResult.data.options?.continueOnError) {
@@ -299,6 +378,17 @@ async function handleSingleConversion(
 ): Promise<void> {
   try {
     const body = await ctx.request.body.json().catch(() => exampleData);
+
+    const moneyOptions = parseMoneyOptions(ctx.request.url);
+    if (!moneyOptions.success) {
+      ctx.response.status = 400;
+      ctx.response.body = {
+        error: "Validation Error",
+        message: "Invalid money options",
+        details: moneyOptions.details,
+      };
+      return;
+    }
     
     const pipeline = getPipeline();
     const record: EUDataRecord = {
@@ -333,7 +423,7 @@ async function handleSingleConversion(
         break;
     }
 
-    const result = await pipeline.processRecord(record);
+    const result = await pipeline.processRecord(record, moneyOptions.config);
 
     if (result.success) {
       // Extract the converted value
@@ -0,0 +1,218 @@
+import { Router } from "https://deno.land/x/oak@v17.1.3/mod.ts";
+import { GDPRRequestSchema } from "../converters/privacy/gdpr-to-ccpa.ts";
+import {
+  PrivacyRequestStatusSchema,
+  PrivacyRequestStore,
+} from "../converters/privacy/privacy-request-store.ts";
+import { Result } from "../shared/types/result.ts";
+import { z } from "zod";
+
+// Input validation schemas
+const CreatePrivacyRequestSchema = GDPRRequestSchema.extend({
+  receivedAt: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(), // Default: today
+  actor: z.string().optional(),
+});
+
+const TransitionSchema = z.object({
+  status: PrivacyRequestStatusSchema.exclude(["received"]),
+  actor: z.string().optional(),
+  reason: z.string().min(1).optional(),
+});
+
+// List filters (?status=extended&overdue=true)
+const ListOptionsSchema = z.object({
+  status: PrivacyRequestStatusSchema.optional(),
+  overdue: z.enum(["true", "false"]).optional(),
+});
+
+// Privacy request store (singleton); in memory until a file-backed store is loaded
+let store = new PrivacyRequestStore();
+
+/**
+ * Serve requests from a loaded, file-backed store
+ */
+export function usePrivacyRequestStore(requests: PrivacyRequestStore): void {
+  store = requests;
+}
+
+/**
+ * Create privacy request routes
+ */
+export function createPrivacyRoutes(): Router {
+  const router = new Router();
+
+  // Start tracking a GDPR request
+  router.post("/api/privacy/requests", async (ctx) => {
+    try {
+      const body = await ctx.request.body.json();
+
+      // Validate input
+      const validationResult = CreatePrivacyRequestSchema.safeParse(body);
+      if (!validationResult.success) {
+        ctx.response.status = 400;
+        ctx.response.body = {
+          error: "Validation Error",
+          message: "Invalid privacy request",
+          details: validationResult.error.errors,
+        };
+        return;
+      }
+
+      const { receivedAt, actor, ...gdpr } = validationResult.data;
+      const result = await store.create(gdpr, { receivedAt, actor });
+
+      if (Result.isOk(result)) {
+        ctx.response.status = 201;
+        ctx.response.body = {
+          success: true,
+          data: result.value,
+          timestamp: new Date().toISOString(),
+        };
+      } else {
+        ctx.response.status = result.error.retryable ? 503 : 422;
+        ctx.response.body = {
+          success: false,
+          error: result.error.message,
+          timestamp: new Date().toISOString(),
+        };
+      }
+    } catch (error) {
+      ctx.response.status = 500;
+      ctx.response.body = {
+        error: "Internal Server Error",
+        message: error instanceof Error ? error.message : "Unknown error",
+        timestamp: new Date().toISOString(),
+      };
+    }
+  });
+
+  // List tracked requests
+  router.get("/api/privacy/requests", (ctx) => {
+    const options = ListOptionsSchema.safeParse({
+      status: ctx.request.url.searchParams.get("status") ?? undefined,
+      overdue: ctx.request.url.searchParams.get("overdue") ?? undefined,
+    });
+    if (!options.success) {
+      ctx.response.status = 400;
+      ctx.response.body = {
+        error: "Validation Error",
+        message: "Invalid list options",
+        details: options.error.errors,
+      };
+      return;
+    }
+
+    const today = new Date().toISOString().slice(0, 10);
+    const requests = store.list({
+      status: options.data.status,
+      overdueOn: options.data.overdue === "true" ? today : undefined,
+    });
+
+    ctx.response.status = 200;
+    ctx.response.body = {
+      success: true,
+      data: requests,
+      count: requests.length,
+      timestamp: new Date().toISOString(),
+    };
+  });
+
+  // Get one request
+  router.get("/api/privacy/requests/:id", (ctx) => {
+    const record = store.get(ctx.params.id);
+    if (!record) {
+      ctx.response.status = 404;
+      ctx.response.body = {
+        error: "Not Found",
+        message: `Unknown privacy request ${ctx.params.id}`,
+        timestamp: new Date().toISOString(),
+      };
+      return;
+    }
+
+    ctx.response.status = 200;
+    ctx.response.body = {
+      success: true,
+      data: record,
+      timestamp: new Date().toISOString(),
+    };
+  });
+
+  // Get a request's audit history
+  router.get("/api/privacy/requests/:id/history", (ctx) => {
+    const record = store.get(ctx.params.id);
+    if (!record) {
+      ctx.response.status = 404;
+      ctx.response.body = {
+        error: "Not Found",
+        message: `Unknown privacy request ${ctx.params.id}`,
+        timestamp: new Date().toISOString(),
+      };
+      return;
+    }
+
+    ctx.response.status = 200;
+    ctx.response.body = {
+      success: true,
+      data: record.history,
+      timestamp: new Date().toISOString(),
+    };
+  });
+
+  // Verify, extend, fulfil or deny a request
+  router.post("/api/privacy/requests/:id/status", async (ctx) => {
+    try {
+      if (!store.get(ctx.params.id)) {
+        ctx.response.status = 404;
+        ctx.response.body = {
+          error: "Not Found",
+          message: `Unknown privacy request ${ctx.params.id}`,
+          timestamp: new Date().toISOString(),
+        };
+        return;
+      }
+
+      const body = await ctx.request.body.json();
+
+      // Validate input
+      const validationResult = TransitionSchema.safeParse(body);
+      if (!validationResult.success) {
+        ctx.response.status = 400;
+        ctx.response.body = {
+          error: "Validation Error",
+          message: "Invalid status change",
+          details: validationResult.error.errors,
+        };
+        return;
+      }
+
+      const { status, actor, reason } = validationResult.data;
+      const result = await store.transition(ctx.params.id, status, { actor, reason });
+
+      if (Result.isOk(result)) {
+        ctx.response.status = 200;
+        ctx.response.body = {
+          success: true,
+          data: result.value,
+          timestamp: new Date().toISOString(),
+        };
+      } else {
+        ctx.response.status = result.error.retryable ? 503 : 409;
+        ctx.response.body = {
+          success: false,
+          error: result.error.message,
+          timestamp: new Date().toISOString(),
+        };
+      }
+    } catch (error) {
+      ctx.response.status = 500;
+      ctx.response.body = {
+        error: "Internal Server Error",
+        message: error instanceof Error ? error.message : "Unknown error",
+        timestamp: new Date().toISOString(),
+      };
+    }
+  });
+
+  return router;
+}
@@ -0,0 +1,340 @@
+import { ConversionError, ErrorCode, Result } from "../../shared/types/index.ts";
+import { findCountry } from "../../shared/countries/index.ts";
+
+/**
+ * Postal code rule for one country
+ */
+export interface PostalCodeRule {
+  pattern: RegExp; // Matched against the uppercased code with any country prefix removed
+  template?: string; // Canonical form built from the pattern's groups (default: as matched)
+  description: string; // Human-readable rule, used in validation errors
+  example: string;
+}
+
+/**
+ * Postal and street-line conventions of an EU/EEA country
+ */
+export interface AddressFormat {
+  code: string; // ISO 3166-1 alpha-2
+  name: string;
+  postalCode: PostalCodeRule;
+  houseNumberFirst: boolean; // "12 rue de la Paix" rather than "Hauptstraße 12"
+  prefixes?: string[]; // Country prefixes seen in front of postal codes besides the ISO code ("D-10115")
+}
+
+/**
+ * Street line split into street name and house number
+ */
+export interface StreetLine {
+  streetName: string;
+  houseNumber?: string;
+}
+
+const FIVE_DIGITS: PostalCodeRule = {
+  pattern: /^\d{5}$/,
+  description: "5 digits",
+  example: "10115",
+};
+const FOUR_DIGITS: PostalCodeRule = {
+  pattern: /^\d{4}$/,
+  description: "4 digits",
+  example: "1010",
+};
+const THREE_TWO_DIGITS: PostalCodeRule = {
+  pattern: /^(\d{3}) ?(\d{2})$/,
+  template: "$1 $2",
+  description: "5 digits written as 123 45",
+  example: "110 00",
+};
+
+/**
+ * Address formats by ISO 3166-1 alpha-2 code (EU, EEA and Switzerland)
+ */
+export const ADDRESS_FORMATS: Record<string, AddressFormat> = {
+  AT: {
+    code: "AT",
+    name: "Austria",
+    postalCode: FOUR_DIGITS,
+    houseNumberFirst: false,
+    prefixes: ["A"],
+  },
+  BE: {
+    code: "BE",
+    name: "Belgium",
+    postalCode: FOUR_DIGITS,
+    houseNumberFirst: false,
+    prefixes: ["B"],
+  },
+  BG: { code: "BG", name: "Bulgaria", postalCode: FOUR_DIGITS, houseNumberFirst: false },
+  HR: { code: "HR", name: "Croatia", postalCode: FIVE_DIGITS, houseNumberFirst: false },
+  CY: { code: "CY", name: "Cyprus", postalCode: FOUR_DIGITS, houseNumberFirst: false },
+  CZ: {
+    code: "CZ",
+    name: "Czech Republic",
+    postalCode: THREE_TWO_DIGITS,
+    houseNumberFirst: false,
+  },
+  DK: { code: "DK", name: "Denmark", postalCode: FOUR_DIGITS, houseNumberFirst: false },
+  EE: { code: "EE", name: "Estonia", postalCode: FIVE_DIGITS, houseNumberFirst: false },
+  FI: {
+    code: "FI",
+    name: "Finland",
+    postalCode: FIVE_DIGITS,
+    houseNumberFirst: false,
+    prefixes: ["FIN"],
+  },
+  FR: {
+    code: "FR",
+    name: "France",
+    postalCode: FIVE_DIGITS,
+    houseNumberFirst: true,
+    prefixes: ["F"],
+  },
+  DE: {
+    code: "DE",
+    name: "Germany",
+    postalCode: FIVE_DIGITS,
+    houseNumberFirst: false,
+    prefixes: ["D"],
+  },
+  GR: { code: "GR", name: "Greece", postalCode: THREE_TWO_DIGITS, houseNumberFirst: false },
+  HU: {
+    code: "HU",
+    name: "Hungary",
+    postalCode: FOUR_DIGITS,
+    houseNumberFirst: false,
+    prefixes: ["H"],
+  },
+  IE: {
+    code: "IE",
+    name: "Ireland",
+    postalCode: {
+      // Eircode: routing key (letter and two digits, or D6W) and a four-character unique identifier
+      pattern: /^([AC-FHKNPRTV-Y]\d{2}|D6W) ?([0-9AC-FHKNPRTV-Y]{4})$/,
+      template: "$1 $2",
+      description: "an Eircode (routing key and 4-character identifier)",
+      example: "D02 X285",
+    },
+    houseNumberFirst: true,
+    prefixes: ["IRL"],
+  },
+  IT: {
+    code: "IT",
+    name: "Italy",
+    postalCode: FIVE_DIGITS,
+    houseNumberFirst: false,
+    prefixes: ["I"],
+  },
+  LV: {
+    code: "LV",
+    name: "Latvia",
+    postalCode: {
+      pattern: /^(\d{4})$/,
+      template: "LV-$1",
+      description: "4 digits written as LV-1234",
+      example: "LV-1050",
+    },
+    houseNumberFirst: false,
+  },
+  LT: {
+    code: "LT",
+    name: "Lithuania",
+    postalCode: {
+      pattern: /^(\d{5})$/,
+      template: "LT-$1",
+      description: "5 digits written as LT-12345",
+      example: "LT-01100",
+    },
+    houseNumberFirst: false,
+  },
+  LU: {
+    code: "LU",
+    name: "Luxembourg",
+    postalCode: FOUR_DIGITS,
+    houseNumberFirst: true,
+    prefixes: ["L"],
+  },
+  MT: {
+    code: "MT",
+    name: "Malta",
+    postalCode: {
+      pattern: /^([A-Z]{3}) ?(\d{4})$/,
+      template: "$1 $2",
+      description: "3 letters and 4 digits",
+      example: "VLT 1117",
+    },
+    houseNumberFirst: true,
+    prefixes: ["M"],
+  },
+  NL: {
+    code: "NL",
+    name: "Netherlands",
+    postalCode: {
+      // SA, SD and SS are never issued
+      pattern: /^([1-9]\d{3}) ?(?!SA|SD|SS)([A-Z]{2})$/,
+      template: "$1 $2",
+      description: "4 digits and 2 letters",
+      example: "1012 AB",
+    },
+    houseNumberFirst: false,
+  },
+  PL: {
+    code: "PL",
+    name: "Poland",
+    postalCode: {
+      pattern: /^(\d{2})-?(\d{3})$/,
+      template: "$1-$2",
+      description: "5 digits written as 00-000",
+      example: "00-950",
+    },
+    houseNumberFirst: false,
+  },
+  PT: {
+    code: "PT",
+    name: "Portugal",
+    postalCode: {
+      pattern: /^(\d{4})-?(\d{3})$/,
+      template: "$1-$2",
+      description: "7 digits written as 1234-567",
+      example: "1100-148",
+    },
+    houseNumberFirst: false,
+    prefixes: ["P"],
+  },
+  RO: {
+    code: "RO",
+    name: "Romania",
+    postalCode: { pattern: /^\d{6}$/, description: "6 digits", example: "010011" },
+    houseNumberFirst: false,
+  },
+  SK: { code: "SK", name: "Slovakia", postalCode: THREE_TWO_DIGITS, houseNumberFirst: false },
+  SI: {
+    code: "SI",
+    name: "Slovenia",
+    postalCode: FOUR_DIGITS,
+    houseNumberFirst: false,
+    prefixes: ["SLO"],
+  },
+  ES: {
+    code: "ES",
+    name: "Spain",
+    postalCode: {
+      // The first two digits are the province (01-52)
+      pattern: /^(?:0[1-9]|[1-4]\d|5[0-2])\d{3}$/,
+      description: "5 digits starting with a province number 01-52",
+      example: "28013",
+    },
+    houseNumberFirst: false,
+    prefixes: ["E"],
+  },
+  SE: {
+    code: "SE",
+    name: "Sweden",
+    postalCode: THREE_TWO_DIGITS,
+    houseNumberFirst: false,
+    prefixes: ["S"],
+  },
+  IS: {
+    code: "IS",
+    name: "Iceland",
+    postalCode: { pattern: /^\d{3}$/, description: "3 digits", example: "101" },
+    houseNumberFirst: false,
+  },
+  LI: {
+    code: "LI",
+    name: "Liechtenstein",
+    postalCode: {
+      pattern: /^94(?:8[5-9]|9[0-8])$/,
+      description: "4 digits from 9485 to 9498",
+      example: "9490",
+    },
+    houseNumberFirst: false,
+    prefixes: ["FL"],
+  },
+  NO: {
+    code: "NO",
+    name: "Norway",
+    postalCode: FOUR_DIGITS,
+    houseNumberFirst: false,
+    prefixes: ["N"],
+  },
+  CH: { code: "CH", name: "Switzerland", postalCode: FOUR_DIGITS, houseNumberFirst: false },
+};
+
+/**
+ * House number with letter suffixes, French repetition indices, ranges and Austrian stair/door parts:
+ * 12, 12a, 12 A, 12 bis, 12-14, 12/3/5
+ */
+const HOUSE_NUMBER =
+  /\d+(?:\s?[a-z](?![a-z]))?(?:\s(?:bis|ter|quater)\b)?(?:[-/]\d+[a-z]?)*/.source;
+
+const NUMBER_LAST = new RegExp(
+  String.raw`^(.*?\D)[\s,]+(?:(?:nr|no|n°|nº)\.?\s*)?(${HOUSE_NUMBER})$`,
+  "i",
+);
+const NUMBER_FIRST = new RegExp(String.raw`^(${HOUSE_NUMBER})(?:\s*,\s*|\s+)(.*\D.*)$`, "i");
+
+/**
+ * Find a country's address format by ISO code or any recognized country name
+ */
+export function getAddressFormat(country: string): AddressFormat | undefined {
+  const found = findCountry(country);
+  return found ? ADDRESS_FORMATS[found.alpha2] : undefined;
+}
+
+/**
+ * Check a postal code against its country's rule
+ * @returns The postal code in the country's canonical form ("1012ab" -> "1012 AB")
+ */
+export function validatePostalCode(
+  postalCode: string,
+  format: AddressFormat,
+): Result<string, ConversionError> {
+  const rule = format.postalCode;
+  const prefixes = [format.code, ...(format.prefixes ?? [])].join("|");
+  const code = postalCode
+    .trim()
+    .toUpperCase()
+    .replace(new RegExp(`^(?:${prefixes})[- ]`), "");
+
+  if (!rule.pattern.test(code)) {
+    return Result.err(
+      new ConversionError(
+        `Invalid postal code "${postalCode}" for ${format.name}: expected ${rule.description}, e.g. ${rule.example}`,
+        ErrorCode.INVALID_INPUT,
+        {
+          field: "postalCode",
+          postalCode,
+          country: format.code,
+          rule: rule.description,
+          example: rule.example,
+        },
+      ),
+    );
+  }
+
+  return Result.ok(rule.template ? code.replace(rule.pattern, rule.template) : code);
+}
+
+/**
+ * Split a street line into street name and house number using the country's word order,
+ * falling back to the other order ("Hauptstraße 12a", "12 bis rue de la Paix", "Calle Mayor, 5")
+ */
+export function parseStreetLine(street: string, format?: AddressFormat): StreetLine {
+  const line = street.trim().replace(/\s+/g, " ");
+
+  const numberFirst = (): StreetLine | null => {
+    const match = NUMBER_FIRST.exec(line);
+    return match ? { houseNumber: match[1], streetName: match[2].trim() } : null;
+  };
+  const numberLast = (): StreetLine | null => {
+    const match = NUMBER_LAST.exec(line);
+    return match ? { streetName: match[1].replace(/,$/, "").trim(), houseNumber: match[2] } : null;
+  };
+
+  const parsed = format?.houseNumberFirst
+    ? numberFirst() ?? numberLast()
+    : numberLast() ?? numberFirst();
+
+  return parsed ?? { streetName: line };
+}
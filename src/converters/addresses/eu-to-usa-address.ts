@@ -7,6 +7,10 @@ import {
   Result,
 } from "../../shared/types/index.ts";
 import { z } from "zod";
+import { AddressFormat, getAddressFormat, parseStreetLine, validatePostalCode } from "./address-formats.ts";
+import { StandardizedUSAddressSchema, UspsAddressNormalizer } from "./usps-normalizer.ts";
+import { MappingRegistry } from "../mappings/mapping-registry.ts";
+import { resolveCountry } from "../../shared/countries/index.ts";
 
 /**
  * EU address format schema
@@ -35,36 +39,36 @@ export const USAAddressSchema = z.object({
   zipCode: z.string(),
   country: z.string(),
   formatted: z.string(),
+  postalCode: z.string().optional(), // Source postal code in its country's canonical form ("1012 AB")
+  standardized: StandardizedUSAddressSchema.optional(), // USPS Pub 28 form when enabled
+  mappingVersion: z.string(), // Version of the country mapping table used for the state
 });
 
 export type USAAddress = z.infer<typeof USAAddressSchema>;
 
-/**
- * Country to state mapping for common EU countries
- */
-const EU_COUNTRY_TO_US_STATE: Record<string, string> = {
-  // Map EU countries to comparable US states (for demo purposes)
-  "Germany": "TX", // Texas (large industrial)
-  "France": "CA", // California (diverse economy)
-  "Italy": "NY", // New York (cultural center)
-  "Spain": "FL", // Florida (tourism)
-  "Netherlands": "MA", // Massachusetts (trade hub)
-  "Belgium": "DC", // Washington DC (capital region)
-  "Poland": "IL", // Illinois (industrial)
-  "Sweden": "WA", // Washington (tech hub)
-  "Denmark": "OR", // Oregon (progressive)
-  "Austria": "CO", // Colorado (mountainous)
-  "Ireland": "MA", // Massachusetts (Irish heritage)
-  "Portugal": "RI", // Rhode Island (coastal)
-  "Greece": "FL", // Florida (tourism, coastal)
-  "Czech Republic": "OH", // Ohio (industrial)
-  "Finland": "MN", // Minnesota (cold climate)
-};
+export interface EuToUsaAddressConverterOptions {
+  /** Standardize output per USPS Publication 28 (uppercase, abbreviations, ZIP+4) */
+  usps?: boolean;
+  /** Normalizer used for USPS output; defaults to one with standard line limits */
+  normalizer?: UspsAddressNormalizer;
+  /** Country to state mappings; defaults to the built-in table */
+  mappings?: MappingRegistry;
+}
 
 /**
  * Converts EU address format to USA address format
  */
 export class EuToUsaAddressConverter implements Converter<EUAddress, USAAddress> {
+  private readonly usps: boolean;
+  private readonly normalizer: UspsAddressNormalizer;
+  private readonly mappings: MappingRegistry;
+
+  constructor(options: EuToUsaAddressConverterOptions = {}) {
+    this.usps = options.usps ?? false;
+    this.normalizer = options.normalizer ?? new UspsAddressNormalizer();
+    this.mappings = options.mappings ?? MappingRegistry.default();
+  }
+
   /**
    * Convert EU address to USA format
    */
@@ -84,11 +88,27 @@ export class EuToUsaAddressConverter implements Converter<EUAddress, USAAddress>
         );
       }
 
+      const country = resolveCountry(input.country);
+      if (Result.isErr(country)) {
+        return country;
+      }
+
+      // Check the postal code against the country's rule when its format is known
+      const format = getAddressFormat(country.value.alpha2);
+      let postalCode: string | undefined;
+      if (format && !config?.skipValidation) {
+        const validated = validatePostalCode(input.postalCode, format);
+        if (Result.isErr(validated)) {
+          return validated;
+        }
+        postalCode = validated.value;
+      }
+
       // Parse and convert address components
-      const streetNumber = this.extractStreetNumber(input);
-      const streetName = this.extractStreetName(input);
-      const state = this.mapToUSState(input);
-      const zipCode = this.convertPostalCode(input.postalCode);
+      const streetNumber = this.extractStreetNumber(input, format);
+      const streetName = this.extractStreetName(input, format);
+      const state = this.mapToUSState(input, country.value.alpha2);
+      const zipCode = this.convertPostalCode(postalCode ?? input.postalCode);
 
       // Format USA address
       const formatted = this.formatUSAAddress({
@@ -109,8 +129,20 @@ export class EuToUsaAddressConverter implements Converter<EUAddress, USAAddress>
         zipCode,
         country: "USA",
         formatted,
+        postalCode,
+        mappingVersion: this.mappings.version,
       };
 
+      // Replace the display format with the USPS mailing format
+      if (this.usps) {
+        const standardized = this.normalizer.normalize(result);
+        if (Result.isErr(standardized)) {
+          return standardized;
+        }
+        result.standardized = standardized.value;
+        result.formatted = standardized.value.formatted;
+      }
+
       return Result.ok(result);
     } catch (error) {
       return Result.err(
@@ -153,28 +185,24 @@ export class EuToUsaAddressConverter implements Converter<EUAddress, USAAddress>
   /**
    * Extract street number from EU address
    */
-  private extractStreetNumber(address: EUAddress): string {
+  private extractStreetNumber(address: EUAddress, format?: AddressFormat): string {
     // EU addresses often have house number separate or at the end
     if (address.houseNumber) {
       return address.houseNumber;
     }
 
-    // Try to extract from street string
-    const match = address.street.match(/\d+[a-zA-Z]?/);
-    return match ? match[0] : "";
+    // Split the street line in the country's word order
+    return parseStreetLine(address.street, format).houseNumber ?? "";
   }
 
   /**
    * Extract street name from EU address
    */
-  private extractStreetName(address: EUAddress): string {
+  private extractStreetName(address: EUAddress, format?: AddressFormat): string {
     // Remove house number if present in street
-    let street = address.street;
-    
-    if (!address.houseNumber) {
-      // Remove trailing or leading numbers
-      street = street.replace(/^\d+[a-zA-Z]?\s*/, "").replace(/\s*\d+[a-zA-Z]?$/, "");
-    }
+    let street = address.houseNumber
+      ? address.street
+      : parseStreetLine(address.street, format).streetName;
 
     // Convert common EU street types to US equivalents
     street = street
@@ -199,7 +227,7 @@ export class EuToUsaAddressConverter implements Converter<EUAddress, USAAddress>
   /**
    * Map EU country/state to US state
    */
-  private mapToUSState(address: EUAddress): string {
+  private mapToUSState(address: EUAddress, country: string): string {
     // If state is provided, try to use it
     if (address.state) {
       // Check if it's already a US state code
@@ -208,22 +236,17 @@ export class EuToUsaAddressConverter implements Converter<EUAddress, USAAddress>
       }
     }
 
-    // Map country to a comparable US state
-    const mappedState = EU_COUNTRY_TO_US_STATE[address.country];
-    if (mappedState) {
-      return mappedState;
-    }
-
-    // Default to a generic state
-    return "NY";
+    // Map country to a comparable US state, or the table's default
+    return this.mappings.getState(country);
   }
 
   /**
-   * Convert EU postal code to US ZIP code format
+   * Convert EU postal code to US ZIP code format; letters of alphanumeric postal codes
+   * ("1015 CJ", "D02 X285") are dropped so the ZIP stays numeric
    */
   private convertPostalCode(postalCode: string): string {
-    // Remove all non-alphanumeric characters
-    const cleaned = postalCode.replace(/[^0-9A-Z]/gi, "");
+    // Remove all non-digit characters
+    const cleaned = postalCode.replace(/\D/g, "");
 
     // Pad or truncate to 5 digits for US ZIP
     if (cleaned.length >= 5) {
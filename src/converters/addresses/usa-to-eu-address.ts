@@ -0,0 +1,265 @@
+import {
+  ConversionError,
+  Converter,
+  ConverterConfig,
+  ConverterMetadata,
+  ErrorCode,
+  Result,
+} from "../../shared/types/index.ts";
+import { z } from "zod";
+import { AddressFormat, getAddressFormat, validatePostalCode } from "./address-formats.ts";
+import { MappingRegistry } from "../mappings/mapping-registry.ts";
+import { CountryInfo, findCountry, resolveCountry } from "../../shared/countries/index.ts";
+
+/**
+ * USA address input schema; `country` may name the EU country when the state maps to several
+ */
+export const USAAddressInputSchema = z.object({
+  streetNumber: z.string().optional(),
+  streetName: z.string(),
+  apartment: z.string().optional(),
+  city: z.string(),
+  state: z.string().regex(/^[A-Za-z]{2}$/),
+  zipCode: z.string(),
+  country: z.string().optional(), // "USA" or the EU country the address stands for
+  postalCode: z.string().optional(), // Original EU postal code, preferred over zipCode
+});
+
+export type USAAddressInput = z.infer<typeof USAAddressInputSchema>;
+
+/**
+ * EU address output schema
+ */
+export const EUAddressOutputSchema = z.object({
+  street: z.string(),
+  houseNumber: z.string().optional(),
+  postalCode: z.string(),
+  city: z.string(),
+  country: z.string(), // ISO 3166-1 alpha-2
+  apartment: z.string().optional(),
+  formatted: z.string(),
+  mappingVersion: z.string(), // Version of the country mapping table used for the state
+});
+
+export type EUAddressOutput = z.infer<typeof EUAddressOutputSchema>;
+
+export interface UsaToEuAddressConverterOptions {
+  /** Country to state mappings; defaults to the built-in table */
+  mappings?: MappingRegistry;
+}
+
+/**
+ * US street types written back in the country's language, as [US, local] pairs.
+ * German types are glued to the name ("HauptStreet" -> "Hauptstraße") or stand alone.
+ */
+const GERMAN_STREET_TYPES: Array<[string, string]> = [
+  ["Street", "straße"],
+  ["Plaza", "platz"],
+  ["Way", "weg"],
+  ["Avenue", "allee"],
+  ["Circle", "ring"],
+  ["Lane", "gasse"],
+];
+
+const STREET_TYPES: Record<string, Array<[string, string]>> = {
+  fr: [["Street", "Rue"], ["Plaza", "Place"]],
+  it: [["Street", "Via"], ["Plaza", "Piazza"], ["Avenue", "Viale"]],
+  es: [["Street", "Calle"], ["Avenue", "Avenida"]],
+};
+
+/**
+ * Language of street names by country (ISO 3166-1 alpha-2)
+ */
+const STREET_LANGUAGES: Record<string, string> = {
+  DE: "de",
+  AT: "de",
+  CH: "de",
+  LI: "de",
+  FR: "fr",
+  BE: "fr",
+  LU: "fr",
+  IT: "it",
+  ES: "es",
+};
+
+/**
+ * Converts USA address format to EU address format
+ */
+export class UsaToEuAddressConverter implements Converter<USAAddressInput, EUAddressOutput> {
+  private readonly mappings: MappingRegistry;
+
+  constructor(options: UsaToEuAddressConverterOptions = {}) {
+    this.mappings = options.mappings ?? MappingRegistry.default();
+  }
+
+  /**
+   * Convert USA address to EU format
+   */
+  async convert(
+    input: USAAddressInput,
+    config?: ConverterConfig,
+  ): Promise<Result<EUAddressOutput, ConversionError>> {
+    try {
+      // Validate input if not skipped
+      if (!config?.skipValidation && !this.validate(input)) {
+        return Result.err(
+          new ConversionError(
+            "Invalid USA address format",
+            ErrorCode.INVALID_INPUT,
+            { input },
+          ),
+        );
+      }
+
+      const country = this.resolveEUCountry(input);
+      if (Result.isErr(country)) {
+        return country;
+      }
+
+      // Check the postal code against the country's rule when its format is known
+      const format = getAddressFormat(country.value.alpha2);
+      let postalCode = input.postalCode ?? input.zipCode;
+      if (format && !config?.skipValidation) {
+        const validated = validatePostalCode(postalCode, format);
+        if (Result.isErr(validated)) {
+          return validated;
+        }
+        postalCode = validated.value;
+      }
+
+      const street = this.convertStreetName(input.streetName, country.value.alpha2);
+      const houseNumber = input.streetNumber || undefined;
+
+      const result: EUAddressOutput = {
+        street,
+        houseNumber,
+        postalCode,
+        city: input.city,
+        country: country.value.alpha2,
+        apartment: input.apartment,
+        formatted: this.formatEUAddress({
+          street,
+          houseNumber,
+          apartment: input.apartment,
+          postalCode,
+          city: input.city,
+          countryName: country.value.name,
+        }, format),
+        mappingVersion: this.mappings.version,
+      };
+
+      return Result.ok(result);
+    } catch (error) {
+      return Result.err(
+        new ConversionError(
+          `Address conversion failed: ${error instanceof Error ? error.message : "Unknown error"}`,
+          ErrorCode.CONVERSION_FAILED,
+          { input, error },
+          false,
+        ),
+      );
+    }
+  }
+
+  /**
+   * Validate input is a valid USA address
+   */
+  validate(input: unknown): input is USAAddressInput {
+    const result = USAAddressInputSchema.safeParse(input);
+    return result.success;
+  }
+
+  /**
+   * Get converter metadata
+   */
+  getMetadata(): ConverterMetadata {
+    return {
+      name: "USA to EU Address Converter",
+      version: "1.0.0",
+      inputType: "USAAddressInput",
+      outputType: "EUAddressOutput",
+      description: "Converts USA address format to EU address format",
+      performanceTarget: {
+        p50: 10,
+        p95: 20,
+        p99: 30,
+      },
+    };
+  }
+
+  /**
+   * Find the EU country an address stands for: an explicit non-US country, otherwise the
+   * country mapped to the state, narrowed by postal code format when several are mapped
+   */
+  private resolveEUCountry(input: USAAddressInput): Result<CountryInfo, ConversionError> {
+    if (input.country && findCountry(input.country)?.alpha2 !== "US") {
+      return resolveCountry(input.country);
+    }
+
+    // Countries sharing a state are told apart by the postal code format
+    const postalCode = input.postalCode ?? input.zipCode;
+    return this.mappings.getCountry(input.state, (country) => {
+      const format = getAddressFormat(country.alpha2);
+      return !format || Result.isOk(validatePostalCode(postalCode, format));
+    });
+  }
+
+  /**
+   * Convert US street types back to the country's language
+   */
+  private convertStreetName(streetName: string, country: string): string {
+    const language = STREET_LANGUAGES[country];
+
+    if (language === "de") {
+      return GERMAN_STREET_TYPES.reduce(
+        (street, [us, local]) =>
+          street
+            .replace(new RegExp(`(\\p{Ll})${us}\\b`, "gu"), `$1${local}`)
+            .replace(
+              new RegExp(`\\b${us}\\b`, "g"),
+              `${local.charAt(0).toUpperCase()}${local.slice(1)}`,
+            ),
+        streetName,
+      );
+    }
+
+    return (STREET_TYPES[language] ?? []).reduce(
+      (street, [us, local]) => street.replace(new RegExp(`\\b${us}\\b`, "g"), local),
+      streetName,
+    );
+  }
+
+  /**
+   * Format EU address string in the country's house number order
+   */
+  private formatEUAddress(components: {
+    street: string;
+    houseNumber?: string;
+    apartment?: string;
+    postalCode: string;
+    city: string;
+    countryName: string;
+  }, format?: AddressFormat): string {
+    const lines: string[] = [];
+
+    // Line 1: Street and house number
+    let line1 = components.street;
+    if (components.houseNumber) {
+      line1 = format?.houseNumberFirst
+        ? `${components.houseNumber} ${components.street}`
+        : `${components.street} ${components.houseNumber}`;
+    }
+    if (components.apartment) {
+      line1 += `, ${components.apartment}`;
+    }
+    lines.push(line1);
+
+    // Line 2: Postal code and city
+    lines.push(`${components.postalCode} ${components.city}`);
+
+    // Line 3: Country
+    lines.push(components.countryName.toUpperCase());
+
+    return lines.join("\n");
+  }
+}
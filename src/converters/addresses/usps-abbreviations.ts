@@ -0,0 +1,185 @@
+/**
+ * USPS Publication 28 abbreviations
+ *
+ * Keys are uppercase spellings seen in address data (full names and common variants);
+ * values are the Postal Service standard abbreviations.
+ */
+
+/**
+ * Street suffixes (Pub 28 Appendix C1, common entries)
+ */
+export const STREET_SUFFIXES: Record<string, string> = {
+  ALLEY: "ALY",
+  ALLY: "ALY",
+  ALY: "ALY",
+  AVENUE: "AVE",
+  AVEN: "AVE",
+  AVENU: "AVE",
+  AVN: "AVE",
+  AV: "AVE",
+  AVE: "AVE",
+  BOULEVARD: "BLVD",
+  BOUL: "BLVD",
+  BLVD: "BLVD",
+  BRIDGE: "BRG",
+  BRG: "BRG",
+  CAUSEWAY: "CSWY",
+  CSWY: "CSWY",
+  CENTER: "CTR",
+  CENTRE: "CTR",
+  CTR: "CTR",
+  CIRCLE: "CIR",
+  CIRC: "CIR",
+  CIR: "CIR",
+  COURT: "CT",
+  CT: "CT",
+  CROSSING: "XING",
+  XING: "XING",
+  DRIVE: "DR",
+  DRV: "DR",
+  DR: "DR",
+  EXPRESSWAY: "EXPY",
+  EXPY: "EXPY",
+  FREEWAY: "FWY",
+  FWY: "FWY",
+  GARDENS: "GDNS",
+  GDNS: "GDNS",
+  GROVE: "GRV",
+  GRV: "GRV",
+  HARBOR: "HBR",
+  HBR: "HBR",
+  HEIGHTS: "HTS",
+  HTS: "HTS",
+  HIGHWAY: "HWY",
+  HWY: "HWY",
+  HILL: "HL",
+  HL: "HL",
+  LANE: "LN",
+  LN: "LN",
+  LOOP: "LOOP",
+  MANOR: "MNR",
+  MNR: "MNR",
+  MOUNTAIN: "MTN",
+  MTN: "MTN",
+  PARK: "PARK",
+  PARKWAY: "PKWY",
+  PKWY: "PKWY",
+  PATH: "PATH",
+  PIKE: "PIKE",
+  PLACE: "PL",
+  PL: "PL",
+  PLAZA: "PLZ",
+  PLZ: "PLZ",
+  POINT: "PT",
+  PT: "PT",
+  RIDGE: "RDG",
+  RDG: "RDG",
+  ROAD: "RD",
+  RD: "RD",
+  ROUTE: "RTE",
+  RTE: "RTE",
+  ROW: "ROW",
+  RUN: "RUN",
+  SQUARE: "SQ",
+  SQ: "SQ",
+  STATION: "STA",
+  STA: "STA",
+  STREET: "ST",
+  STRT: "ST",
+  STR: "ST",
+  ST: "ST",
+  TERRACE: "TER",
+  TER: "TER",
+  TRAIL: "TRL",
+  TRL: "TRL",
+  TURNPIKE: "TPKE",
+  TPKE: "TPKE",
+  VALLEY: "VLY",
+  VLY: "VLY",
+  VIEW: "VW",
+  VW: "VW",
+  WALK: "WALK",
+  WAY: "WAY",
+};
+
+/**
+ * Secondary unit designators (Pub 28 Appendix C2)
+ */
+export const SECONDARY_UNITS: Record<string, string> = {
+  APARTMENT: "APT",
+  APT: "APT",
+  BASEMENT: "BSMT",
+  BSMT: "BSMT",
+  BUILDING: "BLDG",
+  BLDG: "BLDG",
+  DEPARTMENT: "DEPT",
+  DEPT: "DEPT",
+  FLOOR: "FL",
+  FL: "FL",
+  FRONT: "FRNT",
+  FRNT: "FRNT",
+  HANGAR: "HNGR",
+  HNGR: "HNGR",
+  LOBBY: "LBBY",
+  LBBY: "LBBY",
+  LOT: "LOT",
+  LOWER: "LOWR",
+  LOWR: "LOWR",
+  OFFICE: "OFC",
+  OFC: "OFC",
+  PENTHOUSE: "PH",
+  PH: "PH",
+  PIER: "PIER",
+  REAR: "REAR",
+  ROOM: "RM",
+  RM: "RM",
+  SIDE: "SIDE",
+  SLIP: "SLIP",
+  SPACE: "SPC",
+  SPC: "SPC",
+  STOP: "STOP",
+  SUITE: "STE",
+  STE: "STE",
+  TRAILER: "TRLR",
+  TRLR: "TRLR",
+  UNIT: "UNIT",
+  UPPER: "UPPR",
+  UPPR: "UPPR",
+};
+
+/**
+ * Designators that are used without a unit number
+ */
+export const UNNUMBERED_SECONDARY_UNITS = new Set([
+  "BSMT",
+  "FRNT",
+  "LBBY",
+  "LOWR",
+  "OFC",
+  "PH",
+  "REAR",
+  "SIDE",
+  "UPPR",
+]);
+
+/**
+ * Directionals (Pub 28 Appendix B)
+ */
+export const DIRECTIONALS: Record<string, string> = {
+  NORTH: "N",
+  SOUTH: "S",
+  EAST: "E",
+  WEST: "W",
+  NORTHEAST: "NE",
+  NORTHWEST: "NW",
+  SOUTHEAST: "SE",
+  SOUTHWEST: "SW",
+  N: "N",
+  S: "S",
+  E: "E",
+  W: "W",
+  NE: "NE",
+  NW: "NW",
+  SE: "SE",
+  SW: "SW",
+};
@@ -0,0 +1,257 @@
+import {
+  ConversionError,
+  Converter,
+  ConverterConfig,
+  ConverterMetadata,
+  ErrorCode,
+  Result,
+} from "../../shared/types/index.ts";
+import { z } from "zod";
+import {
+  DIRECTIONALS,
+  SECONDARY_UNITS,
+  STREET_SUFFIXES,
+  UNNUMBERED_SECONDARY_UNITS,
+} from "./usps-abbreviations.ts";
+
+/**
+ * US address to standardize: either street components or a single street line
+ */
+export const USAddressInputSchema = z.object({
+  street: z.string().optional(), // Whole delivery line, e.g. "123 North Main Street Suite 4"
+  streetNumber: z.string().optional(),
+  streetName: z.string().optional(),
+  apartment: z.string().optional(), // "3B", "Suite 4", "# 12"
+  city: z.string().min(1),
+  state: z.string().regex(/^[A-Za-z]{2}$/),
+  zipCode: z.string().regex(/^\d{5}(-?\d{4})?$/),
+}).refine((address) => address.street || address.streetName, {
+  message: "Either street or streetName is required",
+});
+
+export type USAddressInput = z.infer<typeof USAddressInputSchema>;
+
+/**
+ * Address standardized per USPS Publication 28
+ */
+export const StandardizedUSAddressSchema = z.object({
+  primaryNumber: z.string().optional(),
+  predirectional: z.string().optional(),
+  streetName: z.string(),
+  suffix: z.string().optional(),
+  postdirectional: z.string().optional(),
+  secondaryDesignator: z.string().optional(),
+  secondaryNumber: z.string().optional(),
+  city: z.string(),
+  state: z.string(),
+  zip5: z.string(),
+  zip4: z.string(),
+  zip4Placeholder: z.boolean(), // The +4 add-on was not in the input and is a placeholder
+  lines: z.array(z.string()), // Mailing lines, last line "CITY ST 12345-6789"
+  formatted: z.string(),
+});
+
+export type StandardizedUSAddress = z.infer<typeof StandardizedUSAddressSchema>;
+
+export interface UspsAddressNormalizerOptions {
+  /** Longest allowed address line (default 40) */
+  maxLineLength?: number;
+  /** ZIP+4 add-on used when the input has a 5-digit ZIP (default "0000") */
+  zip4Placeholder?: string;
+}
+
+/**
+ * Standardizes US addresses per USPS Publication 28: uppercase, no punctuation,
+ * abbreviated suffixes, directionals and secondary unit designators, ZIP+4
+ */
+export class UspsAddressNormalizer implements Converter<USAddressInput, StandardizedUSAddress> {
+  private readonly maxLineLength: number;
+  private readonly zip4Placeholder: string;
+
+  constructor(options: UspsAddressNormalizerOptions = {}) {
+    this.maxLineLength = options.maxLineLength ?? 40;
+    this.zip4Placeholder = options.zip4Placeholder ?? "0000";
+  }
+
+  /**
+   * Standardize a US address
+   */
+  async convert(
+    input: USAddressInput,
+    config?: ConverterConfig,
+  ): Promise<Result<StandardizedUSAddress, ConversionError>> {
+    if (!config?.skipValidation && !this.validate(input)) {
+      return Result.err(
+        new ConversionError(
+          "Invalid US address",
+          ErrorCode.INVALID_INPUT,
+          { input },
+        ),
+      );
+    }
+
+    return this.normalize(input);
+  }
+
+  /**
+   * Standardize a US address synchronously
+   */
+  normalize(input: USAddressInput): Result<StandardizedUSAddress, ConversionError> {
+    const zip = /^(\d{5})-?(\d{4})?$/.exec(input.zipCode.trim());
+    if (!zip) {
+      return Result.err(
+        new ConversionError(
+          `Invalid ZIP code: ${input.zipCode}`,
+          ErrorCode.INVALID_INPUT,
+          { field: "zipCode", zipCode: input.zipCode },
+        ),
+      );
+    }
+
+    const tokens = this.tokenize(
+      input.street ?? [input.streetNumber, input.streetName].filter(Boolean).join(" "),
+    );
+
+    // Secondary unit, from its own field or the tail of the street line
+    let secondary = input.apartment ? this.parseSecondary(this.tokenize(input.apartment)) : null;
+    const designatorIndex = this.findSecondary(tokens);
+    if (designatorIndex !== -1) {
+      secondary ??= this.parseSecondary(tokens.slice(designatorIndex));
+      tokens.splice(designatorIndex);
+    }
+
+    // Primary number, directionals and suffix around the street name
+    const primaryNumber = /^\d/.test(tokens[0] ?? "") ? tokens.shift() : undefined;
+    const predirectional = tokens.length > 1 ? DIRECTIONALS[tokens[0]] : undefined;
+    if (predirectional) tokens.shift();
+    const postdirectional = tokens.length > 1 ? DIRECTIONALS[tokens[tokens.length - 1]] : undefined;
+    if (postdirectional) tokens.pop();
+    const suffix = tokens.length > 1 ? STREET_SUFFIXES[tokens[tokens.length - 1]] : undefined;
+    if (suffix) tokens.pop();
+
+    const streetName = tokens.join(" ");
+    const [, zip5, zip4 = ""] = zip;
+    const city = this.tokenize(input.city).join(" ");
+    const state = input.state.toUpperCase();
+
+    const primaryLine = [primaryNumber, predirectional, streetName, suffix, postdirectional]
+      .filter(Boolean)
+      .join(" ");
+    const secondaryLine = secondary
+      ? [secondary.designator, secondary.number].filter(Boolean).join(" ")
+      : "";
+    const lastLine = `${city} ${state} ${zip5}-${zip4 || this.zip4Placeholder}`;
+
+    // Pub 28 allows the secondary unit on the line above when the delivery line is too long
+    const deliveryLine = secondaryLine ? `${primaryLine} ${secondaryLine}` : primaryLine;
+    const lines = deliveryLine.length > this.maxLineLength && secondaryLine
+      ? [secondaryLine, primaryLine, lastLine]
+      : [deliveryLine, lastLine];
+
+    const tooLong = lines.find((line) => line.length > this.maxLineLength);
+    if (tooLong) {
+      return Result.err(
+        new ConversionError(
+          `Address line exceeds ${this.maxLineLength} characters: ${tooLong}`,
+          ErrorCode.OUT_OF_RANGE,
+          { line: tooLong, length: tooLong.length, maxLineLength: this.maxLineLength },
+        ),
+      );
+    }
+
+    return Result.ok({
+      primaryNumber,
+      predirectional,
+      streetName,
+      suffix,
+      postdirectional,
+      secondaryDesignator: secondary?.designator,
+      secondaryNumber: secondary?.number,
+      city,
+      state,
+      zip5,
+      zip4: zip4 || this.zip4Placeholder,
+      zip4Placeholder: !zip4,
+      lines,
+      formatted: lines.join("\n"),
+    });
+  }
+
+  /**
+   * Validate input is a standardizable US address
+   */
+  validate(input: unknown): input is USAddressInput {
+    return USAddressInputSchema.safeParse(input).success;
+  }
+
+  /**
+   * Get converter metadata
+   */
+  getMetadata(): ConverterMetadata {
+    return {
+      name: "USPS Address Normalizer",
+      version: "1.0.0",
+      inputType: "USAddressInput",
+      outputType: "StandardizedUSAddress",
+      description: "Standardizes US addresses per USPS Publication 28",
+      performanceTarget: {
+        p50: 1,
+        p95: 2,
+        p99: 5,
+      },
+    };
+  }
+
+  /**
+   * Uppercase and split into words, dropping punctuation other than "#", "-" and "/"
+   */
+  private tokenize(text: string): string[] {
+    return text
+      .toUpperCase()
+      .replace(/#/g, " # ")
+      .replace(/[.,;:]/g, " ")
+      .split(/\s+/)
+      .filter(Boolean);
+  }
+
+  /**
+   * Position of a secondary unit designator after the street name ("123 MAIN ST APT 4"),
+   * ignoring designator words that belong to the name ("123 FRONT ST")
+   */
+  private findSecondary(tokens: string[]): number {
+    return tokens.findIndex((token, i) => {
+      if (i < 2) {
+        return false;
+      }
+      if (token === "#") {
+        return true;
+      }
+
+      const designator = SECONDARY_UNITS[token];
+      const next = tokens[i + 1];
+      if (!designator) {
+        return false;
+      }
+      return UNNUMBERED_SECONDARY_UNITS.has(designator)
+        ? next === undefined
+        : next !== undefined && /^(?:[A-Z]|[A-Z]?\d[\dA-Z-]*)$/.test(next);
+    });
+  }
+
+  /**
+   * Read a secondary unit ("APARTMENT 3B", "STE 4", "# 12", "3B")
+   */
+  private parseSecondary(tokens: string[]): { designator: string; number?: string } | null {
+    if (tokens.length === 0) {
+      return null;
+    }
+
+    const designator = tokens[0] === "#" ? "#" : SECONDARY_UNITS[tokens[0]];
+    if (!designator) {
+      // A bare unit number is an apartment
+      return { designator: "APT", number: tokens.join("") };
+    }
+
+    return { designator, number: tokens.slice(1).join("") || undefined };
+  }
+}
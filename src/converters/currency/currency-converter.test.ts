@@ -0,0 +1,103 @@
+import { assertEquals } from "@std/testing";
+import { CurrencyConverter } from "./currency-converter.ts";
+import { HistoricalRateStore } from "./historical-rate-store.ts";
+import { StaticRateProvider } from "./providers/index.ts";
+
+Deno.test("CurrencyConverter", async (t) => {
+  const converter = new CurrencyConverter({
+    providers: [{
+      provider: new StaticRateProvider({
+        name: "table",
+        rates: {
+          "EUR-USD": 1.08,
+          "EUR-GBP": 0.855,
+          "EUR-JPY": 162.5,
+          "EUR-CHF": 0.955,
+          "GBP-USD": 1.265,
+        },
+      }),
+      priority: 1,
+    }],
+  });
+
+  await t.step("should convert with a direct rate", async () => {
+    const result = await converter.convert({ amount: 100, currency: "GBP" });
+
+    assertEquals(result.success, true);
+    if (result.success) {
+      assertEquals(result.value.amount, 126.5);
+      assertEquals(result.value.currency, "USD");
+      assertEquals(result.value.triangulated, false);
+      assertEquals(result.value.originalCurrency, "GBP");
+    }
+  });
+
+  await t.step("should round to the target currency's minor units", async () => {
+    const result = await converter.convert({
+      amount: 12.34,
+      currency: "EUR",
+      targetCurrency: "JPY",
+    });
+
+    assertEquals(result.success, true);
+    if (result.success) {
+      assertEquals(result.value.amount, 2005);
+      assertEquals(result.value.precision, 0);
+    }
+  });
+
+  await t.step("should triangulate through EUR when no direct rate exists", async () => {
+    const result = await converter.convert({
+      amount: 100,
+      currency: "CHF",
+      targetCurrency: "JPY",
+    });
+
+    assertEquals(result.success, true);
+    if (result.success) {
+      // 100 CHF -> 104.712... EUR -> 17016 JPY
+      assertEquals(result.value.triangulated, true);
+      assertEquals(result.value.amount, 17016);
+    }
+  });
+
+  await t.step("should reject unknown currency codes", async () => {
+    assertEquals(converter.validate({ amount: 1, currency: "XXY" }), false);
+    assertEquals(converter.validate({ amount: 1, currency: "eur" }), false);
+    assertEquals(converter.validate({ amount: 1, currency: "SEK", targetCurrency: "ABC" }), false);
+
+    const result = await converter.convert({ amount: 1, currency: "XXY" });
+    assertEquals(result.success, false);
+    if (!result.success) {
+      assertEquals(result.error.code, "INVALID_INPUT");
+    }
+  });
+
+  await t.step("should fail when no rate can be derived", async () => {
+    const result = await converter.convert({ amount: 1, currency: "SEK" });
+
+    assertEquals(result.success, false);
+    if (!result.success) {
+      assertEquals(result.error.code, "SERVICE_UNAVAILABLE");
+    }
+  });
+
+  await t.step("should convert at historical cross rates", async () => {
+    const historicalRates = new HistoricalRateStore();
+    historicalRates.addRates("2024-03-01", { USD: 1.08, PLN: 4.32 });
+
+    const historical = new CurrencyConverter({ providers: [], historicalRates });
+    const result = await historical.convert({
+      amount: 100,
+      currency: "PLN",
+      asOf: "2024-03-01",
+    });
+
+    assertEquals(result.success, true);
+    if (result.success) {
+      assertEquals(result.value.amount, 25);
+      assertEquals(result.value.triangulated, true);
+      assertEquals(result.value.timestamp.toISOString(), "2024-03-01T00:00:00.000Z");
+    }
+  });
+});
@@ -0,0 +1,264 @@
+import { Decimal } from "decimal.js";
+import {
+  ConversionError,
+  Converter,
+  ConverterConfig,
+  ConverterMetadata,
+  ErrorCode,
+  Result,
+  roundMoney,
+  toExactMoney,
+} from "../../shared/types/index.ts";
+import { ConvertedAmount, CurrencyAmount, CurrencyAmountSchema, ExchangeRate } from "./types.ts";
+import { getCurrency } from "./iso4217.ts";
+import { ExchangeRateProviderChain, ExchangeRateProviderEntry } from "./providers/index.ts";
+import { HistoricalRateStore } from "./historical-rate-store.ts";
+import { RateCache } from "./rate-cache.ts";
+
+/**
+ * Currency converter options
+ */
+export interface CurrencyConverterOptions {
+  /** Rate providers with priority */
+  providers: ExchangeRateProviderEntry[];
+  /** Target currency when the input does not name one */
+  defaultTargetCurrency?: string;
+  /** Rate history for inputs with an `asOf` date */
+  historicalRates?: HistoricalRateStore;
+}
+
+/**
+ * Pivot currency for cross-rate triangulation
+ */
+const PIVOT_CURRENCY = "EUR";
+
+/**
+ * Converts amounts between any two ISO 4217 currencies
+ */
+export class CurrencyConverter implements Converter<CurrencyAmount, ConvertedAmount> {
+  private cache = new RateCache<ExchangeRate & { triangulated: boolean }>();
+  private readonly DEFAULT_CACHE_TTL = 5 * 60 * 1000; // 5 minutes
+  private readonly providers: ExchangeRateProviderChain;
+  private readonly defaultTargetCurrency: string;
+  private readonly historicalRates?: HistoricalRateStore;
+
+  constructor(options: CurrencyConverterOptions) {
+    this.providers = new ExchangeRateProviderChain(options.providers);
+    this.defaultTargetCurrency = options.defaultTargetCurrency ?? "USD";
+    this.historicalRates = options.historicalRates;
+  }
+
+  /**
+   * Convert an amount into the target currency
+   */
+  async convert(
+    input: CurrencyAmount,
+    config?: ConverterConfig,
+  ): Promise<Result<ConvertedAmount, ConversionError>> {
+    try {
+      // Validate input if not skipped
+      if (!config?.skipValidation && !this.validate(input)) {
+        return Result.err(
+          new ConversionError(
+            "Invalid currency amount format",
+            ErrorCode.INVALID_INPUT,
+            { input },
+          ),
+        );
+      }
+
+      const target = input.targetCurrency ?? this.defaultTargetCurrency;
+      const targetInfo = getCurrency(target);
+      if (!targetInfo) {
+        return Result.err(
+          new ConversionError(
+            `Unsupported target currency: ${target}`,
+            ErrorCode.UNSUPPORTED_FORMAT,
+            { targetCurrency: target },
+          ),
+        );
+      }
+
+      // Get exchange rate (from the rate history when an as-of date is given)
+      const rateResult = input.asOf !== undefined
+        ? this.getHistoricalRate(input.currency, target, input.asOf)
+        : await this.getExchangeRate(
+          input.currency,
+          target,
+          config?.useCache ?? true,
+          config?.cacheTTL ?? this.DEFAULT_CACHE_TTL,
+        );
+
+      if (Result.isErr(rateResult)) {
+        return Result.err(rateResult.error);
+      }
+      const rate = rateResult.value;
+
+      // Round to the target currency's minor unit unless overridden
+      const precision = input.precision ?? targetInfo.minorUnits;
+      const converted = roundMoney(
+        new Decimal(input.amount).mul(rate.rate),
+        precision,
+        config?.roundingMode,
+      );
+
+      const result: ConvertedAmount = {
+        amount: converted.toNumber(),
+        currency: target,
+        precision,
+        exchangeRate: rate.rate,
+        timestamp: rate.timestamp,
+        rateSource: rate.source,
+        exactAmount: toExactMoney(converted, precision, config?.moneyRepresentation),
+        triangulated: rate.triangulated,
+        originalAmount: input.amount,
+        originalCurrency: input.currency,
+      };
+
+      return Result.ok(result);
+    } catch (error) {
+      return Result.err(
+        new ConversionError(
+          `Currency conversion failed: ${error instanceof Error ? error.message : "Unknown error"}`,
+          ErrorCode.CONVERSION_FAILED,
+          { input, error },
+          true, // Retryable
+        ),
+      );
+    }
+  }
+
+  /**
+   * Validate input is a valid amount in a supported currency
+   */
+  validate(input: unknown): input is CurrencyAmount {
+    const result = CurrencyAmountSchema.safeParse(input);
+    return result.success;
+  }
+
+  /**
+   * Get converter metadata
+   */
+  getMetadata(): ConverterMetadata {
+    return {
+      name: "Currency Converter",
+      version: "1.0.0",
+      inputType: "CurrencyAmount",
+      outputType: "ConvertedAmount",
+      description: "Converts amounts between ISO 4217 currencies with EUR cross-rate triangulation",
+      performanceTarget: {
+        p50: 5,
+        p95: 8,
+        p99: 10,
+      },
+    };
+  }
+
+  /**
+   * Get exchange rate with caching, triangulating through EUR when needed
+   */
+  private async getExchangeRate(
+    from: string,
+    to: string,
+    useCache: boolean,
+    cacheTTL: number,
+  ): Promise<Result<ExchangeRate & { triangulated: boolean }, ConversionError>> {
+    if (from === to) {
+      return Result.ok({
+        from,
+        to,
+        rate: 1,
+        timestamp: new Date(),
+        source: "identity",
+        triangulated: false,
+      });
+    }
+
+    return await this.cache.getRate(
+      from,
+      to,
+      () => this.fetchExchangeRate(from, to),
+      { useCache, ttl: cacheTTL },
+    );
+  }
+
+  /**
+   * Fetch a direct quote, or triangulate through EUR when there is none
+   */
+  private async fetchExchangeRate(
+    from: string,
+    to: string,
+  ): Promise<Result<ExchangeRate & { triangulated: boolean }, ConversionError>> {
+    const direct = await this.providers.getRate(from, to);
+    if (Result.isOk(direct)) {
+      return Result.ok({ ...direct.value, triangulated: false });
+    }
+
+    // No direct quote: derive the cross rate through the pivot currency
+    if (from === PIVOT_CURRENCY || to === PIVOT_CURRENCY) {
+      return direct;
+    }
+
+    const fromLeg = await this.providers.getRate(from, PIVOT_CURRENCY);
+    if (Result.isErr(fromLeg)) {
+      return fromLeg;
+    }
+
+    const toLeg = await this.providers.getRate(PIVOT_CURRENCY, to);
+    if (Result.isErr(toLeg)) {
+      return toLeg;
+    }
+
+    const rate = {
+      from,
+      to,
+      rate: new Decimal(fromLeg.value.rate).mul(toLeg.value.rate).toSignificantDigits(10)
+        .toNumber(),
+      // A cross rate is only as fresh as its older leg
+      timestamp: fromLeg.value.timestamp < toLeg.value.timestamp
+        ? fromLeg.value.timestamp
+        : toLeg.value.timestamp,
+      source: fromLeg.value.source === toLeg.value.source
+        ? fromLeg.value.source
+        : `${fromLeg.value.source}+${toLeg.value.source}`,
+      triangulated: true,
+    };
+
+    return Result.ok(rate);
+  }
+
+  /**
+   * Get the rate in effect on a past date
+   */
+  private getHistoricalRate(
+    from: string,
+    to: string,
+    asOf: Date | string,
+  ): Result<ExchangeRate & { triangulated: boolean }, ConversionError> {
+    if (!this.historicalRates) {
+      return Result.err(
+        new ConversionError(
+          "As-of-date conversion requires a historical rate store",
+          ErrorCode.CONFIGURATION_ERROR,
+          { asOf },
+        ),
+      );
+    }
+
+    // The store quotes every currency against EUR, so non-EUR pairs are cross rates
+    return Result.map(
+      this.historicalRates.getRateAsOf(from, to, asOf),
+      (rate) => ({
+        ...rate,
+        triangulated: from !== to && from !== PIVOT_CURRENCY && to !== PIVOT_CURRENCY,
+      }),
+    );
+  }
+
+  /**
+   * Clear the exchange rate cache
+   */
+  clearCache(): void {
+    this.cache.clear();
+  }
+}
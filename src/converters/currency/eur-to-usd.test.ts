@@ -1,5 +1,8 @@
 import { assertEquals, assertExists } from "@std/testing";
+import { Result } from "../../shared/types/index.ts";
 import { EurToUsdConverter } from "./eur-to-usd.ts";
+import { StaticRateProvider } from "./providers/index.ts";
+import { HistoricalRateStore } from "./historical-rate-store.ts";
 import type { EURAmount } from "./types.ts";
 
 Deno.test("EurToUsdConverter", async (t) => {
@@ -127,6 +130,28 @@ Deno.test("EurToUsdConverter", async (t) => {
     }
   });
 
+  await t.step("should measure cache age from the fetch, not the publication time", async () => {
+    let fetches = 0;
+    const publishedConverter = new EurToUsdConverter({
+      providers: [{
+        provider: {
+          name: "daily",
+          getRate: (from: string, to: string) => {
+            fetches++;
+            const timestamp = new Date(Date.now() - 24 * 60 * 60 * 1000); // Yesterday's fixing
+            return Promise.resolve(Result.ok({ from, to, rate: 1.1, timestamp, source: "daily" }));
+          },
+        },
+        priority: 1,
+      }],
+    });
+
+    await publishedConverter.convert({ amount: 100, currency: "EUR" });
+    await publishedConverter.convert({ amount: 200, currency: "EUR" });
+
+    assertEquals(fetches, 1);
+  });
+
   await t.step("should skip cache when configured", async () => {
     const input: EURAmount = {
       amount: 100,
@@ -198,4 +223,86 @@ Deno.test("EurToUsdConverter", async (t) => {
       assertEquals(result.value.precision, 6);
     }
   });
-});
\ No newline at end of file
+
+  await t.step("should report the provider that supplied the rate", async () => {
+    const providerConverter = new EurToUsdConverter({
+      providers: [
+        { provider: new StaticRateProvider({ name: "empty", rates: {} }), priority: 2 },
+        { provider: new StaticRateProvider({ name: "table", rates: { "EUR-USD": 1.1 } }), priority: 1 },
+      ],
+    });
+
+    const result = await providerConverter.convert({ amount: 100, currency: "EUR" });
+
+    assertEquals(result.success, true);
+    if (result.success) {
+      assertEquals(result.value.amount, 110);
+      assertEquals(result.value.exchangeRate, 1.1);
+      assertEquals(result.value.rateSource, "table");
+    }
+  });
+
+  await t.step("should use the configured fallback rate when all providers fail", async () => {
+    const fallbackConverter = new EurToUsdConverter({
+      providers: [{ provider: new StaticRateProvider({ rates: {} }), priority: 1 }],
+      fallbackRate: 1.05,
+    });
+
+    const result = await fallbackConverter.convert({ amount: 100, currency: "EUR" });
+
+    assertEquals(result.success, true);
+    if (result.success) {
+      assertEquals(result.value.amount, 105);
+      assertEquals(result.value.rateSource, "fallback");
+    }
+  });
+
+  await t.step("should convert at the historical rate for the as-of date", async () => {
+    const historicalRates = new HistoricalRateStore();
+    historicalRates.addRates("2024-03-01", { USD: 1.0829 });
+    historicalRates.addRates("2024-03-04", { USD: 1.0855 });
+
+    const historicalConverter = new EurToUsdConverter({ historicalRates });
+
+    // Saturday resolves to Friday's fixing
+    const result = await historicalConverter.convert({
+      amount: 100,
+      currency: "EUR",
+      asOf: "2024-03-02",
+    });
+
+    assertEquals(result.success, true);
+    if (result.success) {
+      assertEquals(result.value.amount, 108.29);
+      assertEquals(result.value.timestamp.toISOString(), "2024-03-01T00:00:00.000Z");
+      assertEquals(result.value.rateSource, "historical");
+    }
+  });
+
+  await t.step("should reject as-of dates without a historical rate store", async () => {
+    const result = await converter.convert({
+      amount: 100,
+      currency: "EUR",
+      asOf: "2024-03-01",
+    });
+
+    assertEquals(result.success, false);
+    if (!result.success) {
+      assertEquals(result.error.code, "CONFIGURATION_ERROR");
+    }
+  });
+  await t.step("should return exact money representations when requested", async () => {
+    const fixedConverter = new EurToUsdConverter({
+      providers: [{ provider: new StaticRateProvider({ rates: { "EUR-USD": 1.0829 } }), priority: 1 }],
+    });
+    const input: EURAmount = { amount: 1234.5, currency: "EUR" };
+
+    const decimal = await fixedConverter.convert(input, { moneyRepresentation: "decimal" });
+    const minorUnits = await fixedConverter.convert(input, { moneyRepresentation: "minor-units" });
+    const plain = await fixedConverter.convert(input);
+
+    assertEquals(decimal.success && decimal.value.exactAmount, "1336.84");
+    assertEquals(minorUnits.success && minorUnits.value.exactAmount, 133684);
+    assertEquals(plain.success && plain.value.exactAmount, undefined);
+  });
+});
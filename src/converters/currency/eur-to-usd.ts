@@ -6,6 +6,8 @@ import {
   ConversionError,
   ErrorCode,
   Result,
+  roundMoney,
+  toExactMoney,
 } from "../../shared/types/index.ts";
 import {
   EURAmount,
@@ -13,14 +15,43 @@ import {
   ExchangeRate,
   USDAmount,
 } from "./types.ts";
+import {
+  ExchangeRateProviderChain,
+  ExchangeRateProviderEntry,
+  SimulatedRateProvider,
+} from "./providers/index.ts";
+import { HistoricalRateStore } from "./historical-rate-store.ts";
+import { RateCache } from "./rate-cache.ts";
+
+/**
+ * EUR to USD converter options
+ */
+export interface EurToUsdConverterOptions {
+  /** Rate providers with priority (defaults to the simulated provider) */
+  providers?: ExchangeRateProviderEntry[];
+  /** Rate used when every provider fails */
+  fallbackRate?: number;
+  /** Rate history for inputs with an `asOf` date */
+  historicalRates?: HistoricalRateStore;
+}
 
 /**
  * Converts EUR amounts to USD with precision handling and caching
  */
 export class EurToUsdConverter implements Converter<EURAmount, USDAmount> {
-  private cache = new Map<string, ExchangeRate>();
+  private cache = new RateCache();
   private readonly DEFAULT_CACHE_TTL = 5 * 60 * 1000; // 5 minutes
-  private readonly FALLBACK_RATE = 1.08; // Fallback exchange rate
+  private readonly fallbackRate: number;
+  private readonly providers: ExchangeRateProviderChain;
+  private readonly historicalRates?: HistoricalRateStore;
+
+  constructor(options: EurToUsdConverterOptions = {}) {
+    this.fallbackRate = options.fallbackRate ?? 1.08;
+    this.historicalRates = options.historicalRates;
+    this.providers = new ExchangeRateProviderChain(
+      options.providers ?? [{ provider: new SimulatedRateProvider(), priority: 0 }],
+    );
+  }
 
   /**
    * Convert EUR amount to USD
@@ -41,13 +72,22 @@ export class EurToUsdConverter implements Converter<EURAmount, USDAmount> {
         );
       }
 
-      // Get exchange rate
-      const rate = await this.getExchangeRate(
-        "EUR",
-        "USD",
-        config?.useCache ?? true,
-        config?.cacheTTL ?? this.DEFAULT_CACHE_TTL,
-      );
+      // Get exchange rate (from the rate history when an as-of date is given)
+      let rate: ExchangeRate;
+      if (input.asOf !== undefined) {
+        const historical = this.getHistoricalRate("EUR", "USD", input.asOf);
+        if (Result.isErr(historical)) {
+          return Result.err(historical.error);
+        }
+        rate = historical.value;
+      } else {
+        rate = await this.getExchangeRate(
+          "EUR",
+          "USD",
+          config?.useCache ?? true,
+          config?.cacheTTL ?? this.DEFAULT_CACHE_TTL,
+        );
+      }
 
       // Perform conversion with Decimal for precision
       const eurDecimal = new Decimal(input.amount);
@@ -55,10 +95,7 @@ export class EurToUsdConverter implements Converter<EURAmount, USDAmount> {
 
       // Round to specified precision
       const precision = input.precision ?? 2;
-      const roundedAmount = usdDecimal.toDecimalPlaces(
-        precision,
-        Decimal.ROUND_HALF_UP,
-      );
+      const roundedAmount = roundMoney(usdDecimal, precision, config?.roundingMode);
 
       const result: USDAmount = {
         amount: roundedAmount.toNumber(),
@@ -66,6 +103,8 @@ export class EurToUsdConverter implements Converter<EURAmount, USDAmount> {
         precision,
         exchangeRate: rate.rate,
         timestamp: rate.timestamp,
+        rateSource: rate.source,
+        exactAmount: toExactMoney(roundedAmount, precision, config?.moneyRepresentation),
       };
 
       return Result.ok(result);
@@ -116,72 +155,48 @@ export class EurToUsdConverter implements Converter<EURAmount, USDAmount> {
     useCache: boolean,
     cacheTTL: number,
   ): Promise<ExchangeRate> {
-    const cacheKey = `${from}-${to}`;
-
-    // Check cache if enabled
-    if (useCache) {
-      const cached = this.cache.get(cacheKey);
-      if (cached && this.isCacheValid(cached, cacheTTL)) {
-        return cached;
-      }
-    }
+    // Fetch new rate from the provider chain unless a cached one is fresh
+    const result = await this.cache.getRate(
+      from,
+      to,
+      () => this.providers.getRate(from, to),
+      { useCache, ttl: cacheTTL },
+    );
 
-    // Fetch new rate
-    try {
-      const rate = await this.fetchExchangeRate(from, to);
-      
-      // Update cache
-      this.cache.set(cacheKey, rate);
-      
-      return rate;
-    } catch (error) {
-      // Use fallback rate if API fails
-      console.warn(`Failed to fetch exchange rate, using fallback: ${error}`);
+    if (Result.isErr(result)) {
+      // Use fallback rate if every provider fails
+      console.warn(`Failed to fetch exchange rate, using fallback: ${result.error.message}`);
       return {
         from,
         to,
-        rate: this.FALLBACK_RATE,
+        rate: this.fallbackRate,
         timestamp: new Date(),
         source: "fallback",
       };
     }
-  }
 
-  /**
-   * Check if cached rate is still valid
-   */
-  private isCacheValid(rate: ExchangeRate, ttl: number): boolean {
-    const age = Date.now() - rate.timestamp.getTime();
-    return age < ttl;
+    return result.value;
   }
 
   /**
-   * Fetch exchange rate from API
-   * In production, this would call a real API
+   * Get the rate in effect on a past date
    */
-  private async fetchExchangeRate(
+  private getHistoricalRate(
     from: string,
     to: string,
-  ): Promise<ExchangeRate> {
-    // Simulate API call delay
-    await new Promise((resolve) => setTimeout(resolve, 10));
-
-    // In production, replace with actual API call
-    // const response = await fetch(`https://api.exchangerate.host/convert?from=${from}&to=${to}`);
-    // const data = await response.json();
-
-    // Simulated response with realistic variation
-    const baseRate = 1.08;
-    const variation = (Math.random() - 0.5) * 0.02; // ±1% variation
-    const rate = baseRate + variation;
+    asOf: Date | string,
+  ): Result<ExchangeRate, ConversionError> {
+    if (!this.historicalRates) {
+      return Result.err(
+        new ConversionError(
+          "As-of-date conversion requires a historical rate store",
+          ErrorCode.CONFIGURATION_ERROR,
+          { asOf },
+        ),
+      );
+    }
 
-    return {
-      from,
-      to,
-      rate: Number(rate.toFixed(4)),
-      timestamp: new Date(),
-      source: "simulated",
-    };
+    return this.historicalRates.getRateAsOf(from, to, asOf);
   }
 
   /**
@@ -0,0 +1,66 @@
+import { assertEquals } from "@std/testing";
+import { Result } from "../../shared/types/index.ts";
+import { HistoricalRateStore } from "./historical-rate-store.ts";
+
+// 2024-03-29 (Good Friday) is a holiday; 2024-03-30/31 is a weekend
+const HISTORY_CSV = `Date,USD,JPY,GBP,
+2024-04-02,1.0767,163.13,0.85573,
+2024-03-28,1.0811,163.45,0.85670,
+2024-03-27,1.0827,163.77,0.85720,
+`;
+
+Deno.test("HistoricalRateStore", async (t) => {
+  const store = new HistoricalRateStore({ holidays: ["2024-03-29", "2024-04-01"] });
+  store.loadCsv(HISTORY_CSV);
+
+  await t.step("should load a CSV time series", () => {
+    assertEquals(store.size(), 3);
+  });
+
+  await t.step("should return the rate published on the as-of date", () => {
+    const result = store.getRateAsOf("EUR", "USD", "2024-03-27");
+
+    assertEquals(Result.isOk(result), true);
+    if (Result.isOk(result)) {
+      assertEquals(result.value.rate, 1.0827);
+      assertEquals(result.value.timestamp.toISOString(), "2024-03-27T00:00:00.000Z");
+    }
+  });
+
+  await t.step("should fall back to the previous business day over weekends and holidays", () => {
+    for (const date of ["2024-03-29", "2024-03-30", "2024-03-31", "2024-04-01"]) {
+      const result = store.getRateAsOf("EUR", "USD", date);
+
+      assertEquals(Result.isOk(result), true);
+      if (Result.isOk(result)) {
+        assertEquals(result.value.rate, 1.0811);
+        assertEquals(result.value.timestamp.toISOString(), "2024-03-28T00:00:00.000Z");
+      }
+    }
+  });
+
+  await t.step("should not look back in exact mode", () => {
+    const exact = new HistoricalRateStore({ lookup: "exact" });
+    exact.loadCsv(HISTORY_CSV);
+
+    const result = exact.getRateAsOf("EUR", "USD", "2024-03-30");
+    assertEquals(Result.isErr(result), true);
+    if (Result.isErr(result)) {
+      assertEquals(result.error.code, "OUT_OF_RANGE");
+    }
+  });
+
+  await t.step("should derive cross rates from the same day", () => {
+    const result = store.getRateAsOf("GBP", "USD", new Date("2024-04-02T15:00:00Z"));
+
+    assertEquals(Result.isOk(result), true);
+    if (Result.isOk(result)) {
+      assertEquals(result.value.rate, 1.258223973);
+    }
+  });
+
+  await t.step("should reject dates before the series starts", () => {
+    const result = store.getRateAsOf("EUR", "USD", "2023-01-02");
+    assertEquals(Result.isErr(result), true);
+  });
+});
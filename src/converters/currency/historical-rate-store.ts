@@ -0,0 +1,171 @@
+import { ConversionError, ErrorCode, Result } from "../../shared/types/index.ts";
+import { ExchangeRate } from "./types.ts";
+import {
+  deriveEcbRate,
+  EcbReferenceDay,
+  ExchangeRateProvider,
+  parseEcbCsv,
+} from "./providers/index.ts";
+
+/**
+ * How to resolve dates that have no published rate
+ */
+export type HistoricalLookupRule = "exact" | "previous-business-day";
+
+/**
+ * Historical rate store configuration
+ */
+export interface HistoricalRateStoreConfig {
+  name?: string;
+  lookup?: HistoricalLookupRule;
+  holidays?: string[]; // ISO dates (YYYY-MM-DD) with no fixing
+  maxLookbackDays?: number; // Give up after this many calendar days
+}
+
+/**
+ * Time series of EUR reference rates for as-of-date conversions
+ */
+export class HistoricalRateStore implements ExchangeRateProvider {
+  readonly name: string;
+  private days = new Map<string, EcbReferenceDay>();
+  private readonly holidays: Set<string>;
+  private readonly lookup: HistoricalLookupRule;
+  private readonly maxLookbackDays: number;
+
+  constructor(config: HistoricalRateStoreConfig = {}) {
+    this.name = config.name ?? "historical";
+    this.lookup = config.lookup ?? "previous-business-day";
+    this.holidays = new Set(config.holidays ?? []);
+    this.maxLookbackDays = config.maxLookbackDays ?? 10;
+  }
+
+  /**
+   * Load an ECB-style CSV time series (Date,USD,JPY,... one row per day)
+   * @returns Number of days loaded
+   */
+  loadCsv(csv: string): number {
+    const days = parseEcbCsv(csv);
+    days.forEach((day) => this.days.set(toIsoDate(day.date), day));
+    return days.length;
+  }
+
+  /**
+   * Load a CSV time series from disk
+   */
+  async loadCsvFile(path: string): Promise<Result<number, ConversionError>> {
+    try {
+      return Result.ok(this.loadCsv(await Deno.readTextFile(path)));
+    } catch (error) {
+      return Result.err(
+        new ConversionError(
+          `Failed to load rate history: ${
+            error instanceof Error ? error.message : "Unknown error"
+          }`,
+          ErrorCode.CONFIGURATION_ERROR,
+          { path, error },
+        ),
+      );
+    }
+  }
+
+  /**
+   * Add rates for a single day (1 EUR = rate units)
+   */
+  addRates(date: Date | string, rates: Record<string, number>): void {
+    const day = parseDate(date);
+    this.days.set(toIsoDate(day), { date: day, rates: new Map(Object.entries(rates)) });
+  }
+
+  /**
+   * Get the most recent rate in the series
+   */
+  async getRate(from: string, to: string): Promise<Result<ExchangeRate, ConversionError>> {
+    const latest = Array.from(this.days.keys()).sort().at(-1);
+    if (!latest) {
+      return Result.err(
+        new ConversionError("Rate history is empty", ErrorCode.CONFIGURATION_ERROR, {
+          provider: this.name,
+        }),
+      );
+    }
+    return this.getRateAsOf(from, to, latest);
+  }
+
+  /**
+   * Get the rate in effect on a date; the result timestamp is the date actually used
+   */
+  getRateAsOf(
+    from: string,
+    to: string,
+    asOf: Date | string,
+  ): Result<ExchangeRate, ConversionError> {
+    const requested = parseDate(asOf);
+    if (Number.isNaN(requested.getTime())) {
+      return Result.err(
+        new ConversionError(`Invalid as-of date: ${asOf}`, ErrorCode.INVALID_INPUT, { asOf }),
+      );
+    }
+
+    const lookback = this.lookup === "exact" ? 0 : this.maxLookbackDays;
+    const cursor = new Date(requested);
+
+    for (let offset = 0; offset <= lookback; offset++) {
+      const key = toIsoDate(cursor);
+      const day = this.isBusinessDay(cursor) ? this.days.get(key) : undefined;
+
+      if (day) {
+        const rate = deriveEcbRate(day, from, to);
+        if (rate === null) {
+          return Result.err(
+            new ConversionError(
+              `No ${from}-${to} rate published on ${key}`,
+              ErrorCode.UNSUPPORTED_FORMAT,
+              { provider: this.name, from, to, date: key },
+            ),
+          );
+        }
+
+        return Result.ok({ from, to, rate, timestamp: day.date, source: this.name });
+      }
+
+      cursor.setUTCDate(cursor.getUTCDate() - 1);
+    }
+
+    return Result.err(
+      new ConversionError(
+        `No rate available for ${from}-${to} as of ${toIsoDate(requested)}`,
+        ErrorCode.OUT_OF_RANGE,
+        { provider: this.name, from, to, asOf: toIsoDate(requested), lookup: this.lookup },
+      ),
+    );
+  }
+
+  /**
+   * Check whether a date is a weekday that is not a configured holiday
+   */
+  isBusinessDay(date: Date): boolean {
+    const weekday = date.getUTCDay();
+    return weekday !== 0 && weekday !== 6 && !this.holidays.has(toIsoDate(date));
+  }
+
+  /**
+   * Get number of days in the series
+   */
+  size(): number {
+    return this.days.size;
+  }
+}
+
+/**
+ * Interpret a Date or ISO string as a UTC calendar day
+ */
+function parseDate(value: Date | string): Date {
+  if (value instanceof Date) {
+    return new Date(Date.UTC(value.getUTCFullYear(), value.getUTCMonth(), value.getUTCDate()));
+  }
+  return parseDate(new Date(value.length === 10 ? `${value}T00:00:00Z` : value));
+}
+
+function toIsoDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
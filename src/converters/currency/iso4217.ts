@@ -0,0 +1,71 @@
+/**
+ * ISO 4217 currency definition
+ */
+export interface CurrencyInfo {
+  code: string;
+  numeric: string;
+  name: string;
+  minorUnits: number; // Decimal places of the minor unit (0 for JPY, 2 for USD)
+}
+
+/**
+ * ISO 4217 currencies supported by the currency converters
+ */
+export const ISO_4217_CURRENCIES: Record<string, CurrencyInfo> = {
+  // Europe
+  EUR: { code: "EUR", numeric: "978", name: "Euro", minorUnits: 2 },
+  GBP: { code: "GBP", numeric: "826", name: "Pound Sterling", minorUnits: 2 },
+  CHF: { code: "CHF", numeric: "756", name: "Swiss Franc", minorUnits: 2 },
+  SEK: { code: "SEK", numeric: "752", name: "Swedish Krona", minorUnits: 2 },
+  NOK: { code: "NOK", numeric: "578", name: "Norwegian Krone", minorUnits: 2 },
+  DKK: { code: "DKK", numeric: "208", name: "Danish Krone", minorUnits: 2 },
+  ISK: { code: "ISK", numeric: "352", name: "Iceland Krona", minorUnits: 0 },
+  PLN: { code: "PLN", numeric: "985", name: "Zloty", minorUnits: 2 },
+  CZK: { code: "CZK", numeric: "203", name: "Czech Koruna", minorUnits: 2 },
+  HUF: { code: "HUF", numeric: "348", name: "Forint", minorUnits: 2 },
+  RON: { code: "RON", numeric: "946", name: "Romanian Leu", minorUnits: 2 },
+  BGN: { code: "BGN", numeric: "975", name: "Bulgarian Lev", minorUnits: 2 },
+  TRY: { code: "TRY", numeric: "949", name: "Turkish Lira", minorUnits: 2 },
+
+  // Americas
+  USD: { code: "USD", numeric: "840", name: "US Dollar", minorUnits: 2 },
+  CAD: { code: "CAD", numeric: "124", name: "Canadian Dollar", minorUnits: 2 },
+  MXN: { code: "MXN", numeric: "484", name: "Mexican Peso", minorUnits: 2 },
+  BRL: { code: "BRL", numeric: "986", name: "Brazilian Real", minorUnits: 2 },
+  CLP: { code: "CLP", numeric: "152", name: "Chilean Peso", minorUnits: 0 },
+
+  // Asia-Pacific
+  JPY: { code: "JPY", numeric: "392", name: "Yen", minorUnits: 0 },
+  CNY: { code: "CNY", numeric: "156", name: "Yuan Renminbi", minorUnits: 2 },
+  HKD: { code: "HKD", numeric: "344", name: "Hong Kong Dollar", minorUnits: 2 },
+  SGD: { code: "SGD", numeric: "702", name: "Singapore Dollar", minorUnits: 2 },
+  KRW: { code: "KRW", numeric: "410", name: "Won", minorUnits: 0 },
+  INR: { code: "INR", numeric: "356", name: "Indian Rupee", minorUnits: 2 },
+  IDR: { code: "IDR", numeric: "360", name: "Rupiah", minorUnits: 2 },
+  MYR: { code: "MYR", numeric: "458", name: "Malaysian Ringgit", minorUnits: 2 },
+  PHP: { code: "PHP", numeric: "608", name: "Philippine Peso", minorUnits: 2 },
+  THB: { code: "THB", numeric: "764", name: "Baht", minorUnits: 2 },
+  AUD: { code: "AUD", numeric: "036", name: "Australian Dollar", minorUnits: 2 },
+  NZD: { code: "NZD", numeric: "554", name: "New Zealand Dollar", minorUnits: 2 },
+
+  // Middle East and Africa
+  ILS: { code: "ILS", numeric: "376", name: "New Israeli Sheqel", minorUnits: 2 },
+  AED: { code: "AED", numeric: "784", name: "UAE Dirham", minorUnits: 2 },
+  KWD: { code: "KWD", numeric: "414", name: "Kuwaiti Dinar", minorUnits: 3 },
+  BHD: { code: "BHD", numeric: "048", name: "Bahraini Dinar", minorUnits: 3 },
+  ZAR: { code: "ZAR", numeric: "710", name: "Rand", minorUnits: 2 },
+};
+
+/**
+ * Look up a currency by alphabetic code
+ */
+export function getCurrency(code: string): CurrencyInfo | undefined {
+  return ISO_4217_CURRENCIES[code.toUpperCase()];
+}
+
+/**
+ * Check whether a currency code is in the table
+ */
+export function isSupportedCurrency(code: string): boolean {
+  return getCurrency(code) !== undefined;
+}
@@ -0,0 +1,105 @@
+import { ConversionError, ErrorCode, Result } from "../../../shared/types/index.ts";
+import { ExchangeRate } from "../types.ts";
+import { deriveEcbRate, EcbReferenceDay, parseEcbCsv, parseEcbXml } from "./ecb-reference-rates.ts";
+import { ExchangeRateProvider } from "./provider-interface.ts";
+
+/**
+ * ECB reference-rate file configuration
+ */
+export interface EcbFileRateProviderConfig {
+  path: string;
+  format?: "xml" | "csv"; // Detected from the file extension when omitted
+  name?: string;
+}
+
+/**
+ * Serves rates from an ECB-style daily reference-rate file (eurofxref XML or CSV)
+ */
+export class EcbFileRateProvider implements ExchangeRateProvider {
+  readonly name: string;
+  private days: EcbReferenceDay[] | null = null;
+
+  constructor(private config: EcbFileRateProviderConfig) {
+    this.name = config.name ?? "ecb-file";
+  }
+
+  async getRate(from: string, to: string): Promise<Result<ExchangeRate, ConversionError>> {
+    const loaded = await this.load();
+    if (Result.isErr(loaded)) {
+      return loaded;
+    }
+
+    // Files are sorted newest first; the latest day answers current-rate lookups
+    const latest = loaded.value[0];
+    const rate = deriveEcbRate(latest, from, to);
+
+    if (rate === null) {
+      return Result.err(
+        new ConversionError(
+          `No ECB reference rate for ${from}-${to}`,
+          ErrorCode.UNSUPPORTED_FORMAT,
+          { provider: this.name, from, to, date: latest.date },
+        ),
+      );
+    }
+
+    return Result.ok({
+      from,
+      to,
+      rate,
+      timestamp: latest.date,
+      source: this.name,
+    });
+  }
+
+  /**
+   * Read and parse the file (cached after the first successful load)
+   */
+  async load(): Promise<Result<EcbReferenceDay[], ConversionError>> {
+    if (this.days) {
+      return Result.ok(this.days);
+    }
+
+    try {
+      const text = await Deno.readTextFile(this.config.path);
+      const days = this.detectFormat() === "xml" ? parseEcbXml(text) : parseEcbCsv(text);
+
+      if (days.length === 0) {
+        return Result.err(
+          new ConversionError(
+            `No reference rates found in ${this.config.path}`,
+            ErrorCode.UNSUPPORTED_FORMAT,
+            { provider: this.name, path: this.config.path },
+          ),
+        );
+      }
+
+      this.days = days;
+      return Result.ok(days);
+    } catch (error) {
+      return Result.err(
+        new ConversionError(
+          `Failed to read ECB rate file: ${
+            error instanceof Error ? error.message : "Unknown error"
+          }`,
+          ErrorCode.CONFIGURATION_ERROR,
+          { provider: this.name, path: this.config.path, error },
+        ),
+      );
+    }
+  }
+
+  /**
+   * Drop the parsed file so the next lookup re-reads it
+   */
+  reload(): void {
+    this.days = null;
+  }
+
+  private detectFormat(): "xml" | "csv" {
+    if (this.config.format) {
+      return this.config.format;
+    }
+    return this.config.path.toLowerCase().endsWith(".xml") ? "xml" : "csv";
+  }
+}
@@ -0,0 +1,124 @@
+import { Decimal } from "decimal.js";
+
+/**
+ * One day of ECB euro foreign exchange reference rates (1 EUR = rate units)
+ */
+export interface EcbReferenceDay {
+  date: Date;
+  rates: Map<string, number>;
+}
+
+const MONTHS: Record<string, number> = {
+  january: 0,
+  february: 1,
+  march: 2,
+  april: 3,
+  may: 4,
+  june: 5,
+  july: 6,
+  august: 7,
+  september: 8,
+  october: 9,
+  november: 10,
+  december: 11,
+};
+
+/**
+ * Parse an ECB eurofxref XML document (daily or historical)
+ */
+export function parseEcbXml(xml: string): EcbReferenceDay[] {
+  const days: EcbReferenceDay[] = [];
+  const cubePattern = /<Cube\s+(time|currency)=["']([^"']+)["'](?:\s+rate=["']([^"']+)["'])?/g;
+  let current: EcbReferenceDay | null = null;
+
+  // Rate cubes belong to the closest preceding time cube
+  for (const match of xml.matchAll(cubePattern)) {
+    if (match[1] === "time") {
+      const date = parseEcbDate(match[2]);
+      current = date ? { date, rates: new Map() } : null;
+      if (current) days.push(current);
+    } else if (current && match[3] !== undefined) {
+      const rate = Number(match[3]);
+      if (Number.isFinite(rate) && rate > 0) {
+        current.rates.set(match[2], rate);
+      }
+    }
+  }
+
+  return sortNewestFirst(days);
+}
+
+/**
+ * Parse an ECB eurofxref CSV file (daily or historical)
+ */
+export function parseEcbCsv(csv: string): EcbReferenceDay[] {
+  const lines = csv.split(/\r?\n/).filter((line) => line.trim() !== "");
+  if (lines.length < 2) {
+    return [];
+  }
+
+  const headers = lines[0].split(",").map((header) => header.trim());
+  const days: EcbReferenceDay[] = [];
+
+  for (const line of lines.slice(1)) {
+    const cells = line.split(",").map((cell) => cell.trim());
+    const date = parseEcbDate(cells[0]);
+    if (!date) continue;
+
+    const rates = new Map<string, number>();
+    for (let i = 1; i < headers.length; i++) {
+      const currency = headers[i];
+      const rate = Number(cells[i]);
+      // Discontinued currencies are reported as "N/A"
+      if (/^[A-Z]{3}$/.test(currency) && cells[i] && Number.isFinite(rate) && rate > 0) {
+        rates.set(currency, rate);
+      }
+    }
+
+    days.push({ date, rates });
+  }
+
+  return sortNewestFirst(days);
+}
+
+/**
+ * Derive a rate between any two currencies quoted in an ECB reference day
+ */
+export function deriveEcbRate(day: EcbReferenceDay, from: string, to: string): number | null {
+  if (from === to) {
+    return 1;
+  }
+
+  const fromRate = from === "EUR" ? 1 : day.rates.get(from);
+  const toRate = to === "EUR" ? 1 : day.rates.get(to);
+
+  if (fromRate === undefined || toRate === undefined) {
+    return null;
+  }
+
+  return new Decimal(toRate).div(fromRate).toSignificantDigits(10).toNumber();
+}
+
+/**
+ * Parse "2024-03-01" or "01 March 2024" as a UTC date
+ */
+function parseEcbDate(value: string): Date | null {
+  const iso = value.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (iso) {
+    return new Date(Date.UTC(Number(iso[1]), Number(iso[2]) - 1, Number(iso[3])));
+  }
+
+  const long = value.match(/^(\d{1,2})\s+([A-Za-z]+)\s+(\d{4})$/);
+  if (long) {
+    const month = MONTHS[long[2].toLowerCase()];
+    if (month !== undefined) {
+      return new Date(Date.UTC(Number(long[3]), month, Number(long[1])));
+    }
+  }
+
+  return null;
+}
+
+function sortNewestFirst(days: EcbReferenceDay[]): EcbReferenceDay[] {
+  return days.sort((a, b) => b.date.getTime() - a.date.getTime());
+}
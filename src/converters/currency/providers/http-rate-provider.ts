@@ -0,0 +1,130 @@
+import { z } from "zod";
+import { ConversionError, ErrorCode, Result } from "../../../shared/types/index.ts";
+import { ExchangeRate } from "../types.ts";
+import { ExchangeRateProvider } from "./provider-interface.ts";
+
+/**
+ * HTTP rate provider configuration
+ */
+export interface HttpRateProviderConfig {
+  url: string; // Queried as `${url}?from=EUR&to=USD`
+  name?: string;
+  timeout?: number; // Request timeout in milliseconds
+  headers?: Record<string, string>;
+}
+
+/**
+ * Accepted response bodies: a single pair or a base/rates table
+ */
+const HttpRateResponseSchema = z.union([
+  z.object({
+    rate: z.number().positive().finite(),
+    timestamp: z.string().optional(),
+  }),
+  z.object({
+    base: z.string().optional(),
+    date: z.string().optional(),
+    rates: z.record(z.number().positive().finite()),
+  }),
+]);
+
+/**
+ * Fetches rates from an HTTP endpoint (a rate service or a local stub)
+ */
+export class HttpRateProvider implements ExchangeRateProvider {
+  readonly name: string;
+  private readonly timeout: number;
+
+  constructor(private config: HttpRateProviderConfig) {
+    this.name = config.name ?? "http";
+    this.timeout = config.timeout ?? 5000;
+  }
+
+  async getRate(from: string, to: string): Promise<Result<ExchangeRate, ConversionError>> {
+    const url = new URL(this.config.url);
+    url.searchParams.set("from", from);
+    url.searchParams.set("to", to);
+
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), this.timeout);
+
+    try {
+      const response = await fetch(url, {
+        headers: { accept: "application/json", ...this.config.headers },
+        signal: controller.signal,
+      });
+
+      if (!response.ok) {
+        await response.body?.cancel();
+        return Result.err(
+          new ConversionError(
+            `Rate service responded with ${response.status} ${response.statusText}`,
+            response.status === 429 ? ErrorCode.RATE_LIMIT_EXCEEDED : ErrorCode.API_ERROR,
+            { provider: this.name, status: response.status },
+            response.status === 429 || response.status >= 500,
+          ),
+        );
+      }
+
+      const parsed = HttpRateResponseSchema.safeParse(await response.json());
+      if (!parsed.success) {
+        return Result.err(
+          new ConversionError(
+            "Unexpected rate service response",
+            ErrorCode.API_ERROR,
+            { provider: this.name, issues: parsed.error.issues },
+          ),
+        );
+      }
+
+      const body = parsed.data;
+      // A table quoted against another base would give a rate for the wrong pair
+      if ("rates" in body && body.base !== undefined && body.base !== from) {
+        return Result.err(
+          new ConversionError(
+            `Rate service quoted ${body.base} rates for a ${from}-${to} request`,
+            ErrorCode.API_ERROR,
+            { provider: this.name, from, to, base: body.base },
+          ),
+        );
+      }
+      const rate = "rates" in body ? body.rates[to] : body.rate;
+      if (rate === undefined) {
+        return Result.err(
+          new ConversionError(
+            `Rate service has no rate for ${from}-${to}`,
+            ErrorCode.UNSUPPORTED_FORMAT,
+            { provider: this.name, from, to },
+          ),
+        );
+      }
+
+      const reported = "rates" in body ? body.date : body.timestamp;
+      const timestamp = reported ? new Date(reported) : new Date();
+
+      return Result.ok({
+        from,
+        to,
+        rate,
+        timestamp: Number.isNaN(timestamp.getTime()) ? new Date() : timestamp,
+        source: this.name,
+      });
+    } catch (error) {
+      const timedOut = controller.signal.aborted;
+      return Result.err(
+        new ConversionError(
+          timedOut
+            ? `Rate service timed out after ${this.timeout}ms`
+            : `Rate service request failed: ${
+              error instanceof Error ? error.message : "Unknown error"
+            }`,
+          timedOut ? ErrorCode.TIMEOUT : ErrorCode.SERVICE_UNAVAILABLE,
+          { provider: this.name, error },
+          true,
+        ),
+      );
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
@@ -0,0 +1,15 @@
+export type { ExchangeRateProvider, ExchangeRateProviderEntry } from "./provider-interface.ts";
+export { StaticRateProvider, type StaticRateProviderConfig } from "./static-rate-provider.ts";
+export {
+  SimulatedRateProvider,
+  type SimulatedRateProviderConfig,
+} from "./simulated-rate-provider.ts";
+export { EcbFileRateProvider, type EcbFileRateProviderConfig } from "./ecb-file-rate-provider.ts";
+export { HttpRateProvider, type HttpRateProviderConfig } from "./http-rate-provider.ts";
+export { ExchangeRateProviderChain } from "./provider-chain.ts";
+export {
+  deriveEcbRate,
+  type EcbReferenceDay,
+  parseEcbCsv,
+  parseEcbXml,
+} from "./ecb-reference-rates.ts";
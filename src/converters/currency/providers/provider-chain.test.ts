@@ -0,0 +1,182 @@
+import { assertEquals } from "@std/testing";
+import { Result } from "../../../shared/types/index.ts";
+import { ExchangeRateProviderChain } from "./provider-chain.ts";
+import { StaticRateProvider } from "./static-rate-provider.ts";
+import { EcbFileRateProvider } from "./ecb-file-rate-provider.ts";
+import { HttpRateProvider } from "./http-rate-provider.ts";
+import { parseEcbCsv, parseEcbXml } from "./ecb-reference-rates.ts";
+
+const ECB_XML = `<?xml version="1.0" encoding="UTF-8"?>
+<gesmes:Envelope xmlns:gesmes="http://www.gesmes.org/xml/2002-08-01" xmlns="http://www.ecb.int/vocabulary/2002-08-01/eurofxref">
+  <gesmes:subject>Reference rates</gesmes:subject>
+  <Cube>
+    <Cube time='2024-03-01'>
+      <Cube currency='USD' rate='1.0829'/>
+      <Cube currency='GBP' rate='0.85505'/>
+    </Cube>
+    <Cube time='2024-02-29'>
+      <Cube currency='USD' rate='1.0797'/>
+    </Cube>
+  </Cube>
+</gesmes:Envelope>`;
+
+const ECB_CSV = `Date, USD, JPY, GBP,
+01 March 2024, 1.0829, 162.45, 0.85505,
+`;
+
+Deno.test("Exchange rate providers", async (t) => {
+  await t.step("static provider should derive inverse rates", async () => {
+    const provider = new StaticRateProvider({ rates: { "EUR-USD": 1.25 } });
+
+    const direct = await provider.getRate("EUR", "USD");
+    const inverse = await provider.getRate("USD", "EUR");
+    const missing = await provider.getRate("EUR", "JPY");
+
+    assertEquals(Result.isOk(direct) && direct.value.rate, 1.25);
+    assertEquals(Result.isOk(inverse) && inverse.value.rate, 0.8);
+    assertEquals(Result.isErr(missing), true);
+  });
+
+  await t.step("should parse ECB XML and CSV reference files", () => {
+    const xmlDays = parseEcbXml(ECB_XML);
+    assertEquals(xmlDays.length, 2);
+    assertEquals(xmlDays[0].date.toISOString(), "2024-03-01T00:00:00.000Z");
+    assertEquals(xmlDays[0].rates.get("USD"), 1.0829);
+    assertEquals(xmlDays[1].rates.get("USD"), 1.0797);
+
+    const csvDays = parseEcbCsv(ECB_CSV);
+    assertEquals(csvDays.length, 1);
+    assertEquals(csvDays[0].date.toISOString(), "2024-03-01T00:00:00.000Z");
+    assertEquals(csvDays[0].rates.get("JPY"), 162.45);
+  });
+
+  await t.step("ECB file provider should answer from the latest day", async () => {
+    const path = await Deno.makeTempFile({ suffix: ".xml" });
+    try {
+      await Deno.writeTextFile(path, ECB_XML);
+      const provider = new EcbFileRateProvider({ path });
+
+      const result = await provider.getRate("EUR", "USD");
+      assertEquals(Result.isOk(result), true);
+      if (Result.isOk(result)) {
+        assertEquals(result.value.rate, 1.0829);
+        assertEquals(result.value.source, "ecb-file");
+        assertEquals(result.value.timestamp.toISOString(), "2024-03-01T00:00:00.000Z");
+      }
+
+      // Cross rate through EUR
+      const cross = await provider.getRate("GBP", "USD");
+      assertEquals(Result.isOk(cross) && cross.value.rate, 1.266475645);
+    } finally {
+      await Deno.remove(path);
+    }
+  });
+
+  await t.step("ECB file provider should report unreadable files", async () => {
+    const provider = new EcbFileRateProvider({ path: "/nonexistent/eurofxref.csv" });
+    const result = await provider.getRate("EUR", "USD");
+
+    assertEquals(Result.isErr(result), true);
+    if (Result.isErr(result)) {
+      assertEquals(result.error.code, "CONFIGURATION_ERROR");
+    }
+  });
+
+  await t.step("HTTP provider should query a local stub", async () => {
+    const server = Deno.serve({ port: 0, onListen() {} }, (request) => {
+      const url = new URL(request.url);
+      return Response.json({
+        base: url.searchParams.get("from"),
+        date: "2024-03-01",
+        rates: { [url.searchParams.get("to") ?? ""]: 1.09 },
+      });
+    });
+
+    try {
+      const provider = new HttpRateProvider({
+        url: `http://localhost:${server.addr.port}/rates`,
+        name: "stub",
+      });
+      const result = await provider.getRate("EUR", "USD");
+
+      assertEquals(Result.isOk(result), true);
+      if (Result.isOk(result)) {
+        assertEquals(result.value.rate, 1.09);
+        assertEquals(result.value.source, "stub");
+      }
+    } finally {
+      await server.shutdown();
+    }
+  });
+
+  await t.step("HTTP provider should reject rates quoted against another base", async () => {
+    const server = Deno.serve(
+      { port: 0, onListen() {} },
+      () => Response.json({ base: "USD", date: "2024-03-01", rates: { USD: 1, EUR: 0.92 } }),
+    );
+
+    try {
+      const provider = new HttpRateProvider({ url: `http://localhost:${server.addr.port}/` });
+      const result = await provider.getRate("EUR", "USD");
+
+      assertEquals(Result.isErr(result), true);
+      if (Result.isErr(result)) {
+        assertEquals(result.error.code, "API_ERROR");
+        assertEquals(result.error.retryable, false);
+      }
+    } finally {
+      await server.shutdown();
+    }
+  });
+
+  await t.step("HTTP provider should surface error responses", async () => {
+    const server = Deno.serve(
+      { port: 0, onListen() {} },
+      () => new Response("unavailable", { status: 503 }),
+    );
+
+    try {
+      const provider = new HttpRateProvider({ url: `http://localhost:${server.addr.port}/` });
+      const result = await provider.getRate("EUR", "USD");
+
+      assertEquals(Result.isErr(result), true);
+      if (Result.isErr(result)) {
+        assertEquals(result.error.code, "API_ERROR");
+        assertEquals(result.error.retryable, true);
+      }
+    } finally {
+      await server.shutdown();
+    }
+  });
+
+  await t.step("chain should fail over in priority order", async () => {
+    const chain = new ExchangeRateProviderChain([
+      {
+        provider: new StaticRateProvider({ name: "backup", rates: { "EUR-USD": 1.1 } }),
+        priority: 1,
+      },
+      { provider: new StaticRateProvider({ name: "primary", rates: {} }), priority: 10 },
+    ]);
+
+    assertEquals(chain.getProviderNames(), ["primary", "backup"]);
+
+    const result = await chain.getRate("EUR", "USD");
+    assertEquals(Result.isOk(result), true);
+    if (Result.isOk(result)) {
+      assertEquals(result.value.rate, 1.1);
+      assertEquals(result.value.source, "backup");
+    }
+  });
+
+  await t.step("chain should fail when no provider answers", async () => {
+    const chain = new ExchangeRateProviderChain([
+      { provider: new StaticRateProvider({ rates: {} }), priority: 1 },
+    ]);
+
+    const result = await chain.getRate("EUR", "USD");
+    assertEquals(Result.isErr(result), true);
+    if (Result.isErr(result)) {
+      assertEquals(result.error.code, "SERVICE_UNAVAILABLE");
+    }
+  });
+});
@@ -0,0 +1,64 @@
+import { ConversionError, ErrorCode, Result } from "../../../shared/types/index.ts";
+import { ExchangeRate } from "../types.ts";
+import { ExchangeRateProvider, ExchangeRateProviderEntry } from "./provider-interface.ts";
+
+/**
+ * Tries providers in priority order and fails over to the next on error
+ */
+export class ExchangeRateProviderChain implements ExchangeRateProvider {
+  readonly name = "chain";
+  private entries: ExchangeRateProviderEntry[] = [];
+
+  constructor(entries: ExchangeRateProviderEntry[] = []) {
+    entries.forEach((entry) => this.addProvider(entry.provider, entry.priority));
+  }
+
+  /**
+   * Register a provider (higher priority is tried first)
+   */
+  addProvider(provider: ExchangeRateProvider, priority: number): void {
+    this.entries.push({ provider, priority });
+
+    // Sort by priority (highest first)
+    this.entries.sort((a, b) => b.priority - a.priority);
+  }
+
+  /**
+   * Get rate from the first provider that answers
+   */
+  async getRate(from: string, to: string): Promise<Result<ExchangeRate, ConversionError>> {
+    const failures: Array<{ provider: string; error: string }> = [];
+
+    for (const { provider } of this.entries) {
+      try {
+        const result = await provider.getRate(from, to);
+        if (Result.isOk(result)) {
+          // Report the provider that actually answered
+          return Result.ok({ ...result.value, source: provider.name });
+        }
+        failures.push({ provider: provider.name, error: result.error.message });
+      } catch (error) {
+        failures.push({
+          provider: provider.name,
+          error: error instanceof Error ? error.message : "Unknown error",
+        });
+      }
+    }
+
+    return Result.err(
+      new ConversionError(
+        `No exchange rate provider could supply ${from}-${to}`,
+        ErrorCode.SERVICE_UNAVAILABLE,
+        { from, to, failures },
+        true,
+      ),
+    );
+  }
+
+  /**
+   * Get provider names in the order they are tried
+   */
+  getProviderNames(): string[] {
+    return this.entries.map((entry) => entry.provider.name);
+  }
+}
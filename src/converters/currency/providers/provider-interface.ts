@@ -0,0 +1,25 @@
+import { ConversionError, Result } from "../../../shared/types/index.ts";
+import { ExchangeRate } from "../types.ts";
+
+/**
+ * Source of exchange rates for the currency converters
+ */
+export interface ExchangeRateProvider {
+  /**
+   * Provider name, reported as `ExchangeRate.source`
+   */
+  readonly name: string;
+
+  /**
+   * Get the current rate for converting `from` into `to`
+   */
+  getRate(from: string, to: string): Promise<Result<ExchangeRate, ConversionError>>;
+}
+
+/**
+ * Provider registration with priority (higher number = tried first)
+ */
+export interface ExchangeRateProviderEntry {
+  provider: ExchangeRateProvider;
+  priority: number;
+}
@@ -0,0 +1,44 @@
+import { ConversionError, Result } from "../../../shared/types/index.ts";
+import { ExchangeRate } from "../types.ts";
+import { ExchangeRateProvider } from "./provider-interface.ts";
+
+/**
+ * Simulated provider configuration
+ */
+export interface SimulatedRateProviderConfig {
+  baseRate?: number;
+  variation?: number; // Maximum absolute deviation from the base rate
+  latency?: number; // Simulated API delay in milliseconds
+}
+
+/**
+ * Returns a randomized rate around a base value (demo and benchmark use)
+ */
+export class SimulatedRateProvider implements ExchangeRateProvider {
+  readonly name = "simulated";
+  private readonly config: Required<SimulatedRateProviderConfig>;
+
+  constructor(config: SimulatedRateProviderConfig = {}) {
+    this.config = {
+      baseRate: config.baseRate ?? 1.08,
+      variation: config.variation ?? 0.01,
+      latency: config.latency ?? 10,
+    };
+  }
+
+  async getRate(from: string, to: string): Promise<Result<ExchangeRate, ConversionError>> {
+    // Simulate API call delay
+    await new Promise((resolve) => setTimeout(resolve, this.config.latency));
+
+    const variation = (Math.random() - 0.5) * 2 * this.config.variation;
+    const rate = this.config.baseRate + variation;
+
+    return Result.ok({
+      from,
+      to,
+      rate: Number(rate.toFixed(4)),
+      timestamp: new Date(),
+      source: this.name,
+    });
+  }
+}
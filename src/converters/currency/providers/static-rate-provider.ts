@@ -0,0 +1,71 @@
+import { Decimal } from "decimal.js";
+import { ConversionError, ErrorCode, Result } from "../../../shared/types/index.ts";
+import { ExchangeRate } from "../types.ts";
+import { ExchangeRateProvider } from "./provider-interface.ts";
+
+/**
+ * Static rate table configuration
+ */
+export interface StaticRateProviderConfig {
+  name?: string;
+  rates: Record<string, number>; // Keyed by "FROM-TO", e.g. "EUR-USD"
+  timestamp?: Date; // Date the table was valid for
+}
+
+/**
+ * Serves rates from a fixed in-memory table (inverse pairs are derived)
+ */
+export class StaticRateProvider implements ExchangeRateProvider {
+  readonly name: string;
+  private readonly rates: Map<string, number>;
+  private readonly timestamp?: Date;
+
+  constructor(config: StaticRateProviderConfig) {
+    this.name = config.name ?? "static";
+    this.rates = new Map(Object.entries(config.rates));
+    this.timestamp = config.timestamp;
+  }
+
+  async getRate(from: string, to: string): Promise<Result<ExchangeRate, ConversionError>> {
+    const rate = this.lookup(from, to);
+
+    if (rate === null) {
+      return Result.err(
+        new ConversionError(
+          `No static rate for ${from}-${to}`,
+          ErrorCode.UNSUPPORTED_FORMAT,
+          { provider: this.name, from, to },
+        ),
+      );
+    }
+
+    return Result.ok({
+      from,
+      to,
+      rate,
+      timestamp: this.timestamp ?? new Date(),
+      source: this.name,
+    });
+  }
+
+  /**
+   * Find a direct or inverse rate in the table
+   */
+  private lookup(from: string, to: string): number | null {
+    if (from === to) {
+      return 1;
+    }
+
+    const direct = this.rates.get(`${from}-${to}`);
+    if (direct !== undefined) {
+      return direct;
+    }
+
+    const inverse = this.rates.get(`${to}-${from}`);
+    if (inverse !== undefined && inverse > 0) {
+      return new Decimal(1).div(inverse).toSignificantDigits(10).toNumber();
+    }
+
+    return null;
+  }
+}
@@ -0,0 +1,62 @@
+import { assertEquals } from "@std/testing";
+import { ConversionError, ErrorCode, Result } from "../../shared/types/index.ts";
+import { RateCache } from "./rate-cache.ts";
+import type { ExchangeRate } from "./types.ts";
+
+Deno.test("RateCache", async (t) => {
+  let clock = Date.parse("2025-03-03T12:00:00Z");
+  let fetches = 0;
+  const fetch = () => {
+    fetches++;
+    return Promise.resolve(Result.ok<ExchangeRate, ConversionError>({
+      from: "EUR",
+      to: "USD",
+      rate: 1.1,
+      timestamp: new Date("2025-02-28T16:00:00Z"), // Published days before the fetch
+      source: "test",
+    }));
+  };
+  const options = { useCache: true, ttl: 60_000 };
+
+  await t.step("should age rates from the fetch, not the publication time", async () => {
+    const cache = new RateCache(() => clock);
+    fetches = 0;
+
+    await cache.getRate("EUR", "USD", fetch, options);
+    clock += 59_000;
+    await cache.getRate("EUR", "USD", fetch, options);
+    assertEquals(fetches, 1);
+
+    clock += 1_000;
+    await cache.getRate("EUR", "USD", fetch, options);
+    assertEquals(fetches, 2);
+    assertEquals(cache.size, 1);
+  });
+
+  await t.step("should refetch when the cache is bypassed", async () => {
+    const cache = new RateCache(() => clock);
+    fetches = 0;
+
+    await cache.getRate("EUR", "USD", fetch, options);
+    await cache.getRate("EUR", "USD", fetch, { ...options, useCache: false });
+    await cache.getRate("EUR", "USD", fetch, options);
+
+    assertEquals(fetches, 2);
+  });
+
+  await t.step("should not cache failed fetches", async () => {
+    const cache = new RateCache(() => clock);
+    const failed = await cache.getRate(
+      "EUR",
+      "USD",
+      () =>
+        Promise.resolve(
+          Result.err(new ConversionError("down", ErrorCode.SERVICE_UNAVAILABLE, {}, true)),
+        ),
+      options,
+    );
+
+    assertEquals(Result.isErr(failed), true);
+    assertEquals(cache.size, 0);
+  });
+});
@@ -0,0 +1,57 @@
+import { ConversionError, Result } from "../../shared/types/index.ts";
+import { ExchangeRate } from "./types.ts";
+
+/**
+ * Options of a cached rate lookup
+ */
+export interface RateCacheLookupOptions {
+  useCache: boolean; // When false the rate is always fetched, and the cache refreshed
+  ttl: number; // Milliseconds a fetched rate is reused
+}
+
+/**
+ * Exchange rates by currency pair, reused until they are older than the TTL. Age counts from
+ * when a rate was fetched; the rate's own timestamp is its publication time.
+ */
+export class RateCache<T extends ExchangeRate = ExchangeRate> {
+  private entries = new Map<string, { rate: T; fetchedAt: number }>();
+
+  constructor(private readonly now: () => number = () => Date.now()) {}
+
+  /**
+   * Get the cached rate for a pair, or fetch one and cache it when the fetch succeeds
+   */
+  async getRate(
+    from: string,
+    to: string,
+    fetch: () => Promise<Result<T, ConversionError>>,
+    options: RateCacheLookupOptions,
+  ): Promise<Result<T, ConversionError>> {
+    const key = `${from}-${to}`;
+
+    const cached = this.entries.get(key);
+    if (options.useCache && cached && this.now() - cached.fetchedAt < options.ttl) {
+      return Result.ok(cached.rate);
+    }
+
+    const result = await fetch();
+    if (Result.isOk(result)) {
+      this.entries.set(key, { rate: result.value, fetchedAt: this.now() });
+    }
+    return result;
+  }
+
+  /**
+   * Drop all cached rates
+   */
+  clear(): void {
+    this.entries.clear();
+  }
+
+  /**
+   * Number of cached pairs
+   */
+  get size(): number {
+    return this.entries.size;
+  }
+}
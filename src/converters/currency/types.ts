@@ -1,4 +1,6 @@
 import { z } from "zod";
+import { ExactMoneySchema } from "../../shared/types/index.ts";
+import { isSupportedCurrency } from "./iso4217.ts";
 
 /**
  * EUR currency input schema
@@ -7,6 +9,7 @@ export const EURAmountSchema = z.object({
   amount: z.number().finite(),
   currency: z.literal("EUR"),
   precision: z.number().int().min(0).max(10).optional(),
+  asOf: z.union([z.date(), z.string().date()]).optional(), // Convert at the rate on this date
 });
 
 export type EURAmount = z.infer<typeof EURAmountSchema>;
@@ -20,10 +23,40 @@ export const USDAmountSchema = z.object({
   precision: z.number().int().min(0).max(10),
   exchangeRate: z.number().positive().finite(),
   timestamp: z.date(),
+  rateSource: z.string().optional(), // Provider that supplied the rate
+  exactAmount: ExactMoneySchema.optional(), // Set when an exact money representation is requested
 });
 
 export type USDAmount = z.infer<typeof USDAmountSchema>;
 
+/**
+ * USD currency input schema
+ */
+export const USDAmountInputSchema = z.object({
+  amount: z.number().finite(),
+  currency: z.literal("USD"),
+  precision: z.number().int().min(0).max(10).optional(),
+  asOf: z.union([z.date(), z.string().date()]).optional(), // Convert at the rate on this date
+});
+
+export type USDAmountInput = z.infer<typeof USDAmountInputSchema>;
+
+/**
+ * EUR currency output schema
+ */
+export const EURAmountOutputSchema = z.object({
+  amount: z.number().finite(),
+  currency: z.literal("EUR"),
+  precision: z.number().int().min(0).max(10),
+  exchangeRate: z.number().positive().finite(), // EUR per USD
+  quotedRate: z.number().positive().finite(), // USD per EUR, as quoted by the provider
+  timestamp: z.date(),
+  rateSource: z.string().optional(),
+  exactAmount: ExactMoneySchema.optional(),
+});
+
+export type EURAmountOutput = z.infer<typeof EURAmountOutputSchema>;
+
 /**
  * Exchange rate data
  */
@@ -33,4 +66,42 @@ export interface ExchangeRate {
   rate: number;
   timestamp: Date;
   source: string;
-}
\ No newline at end of file
+}
+
+/**
+ * ISO 4217 currency code validated against the currency table
+ */
+export const CurrencyCodeSchema = z.string().regex(/^[A-Z]{3}$/).refine(isSupportedCurrency, {
+  message: "Unsupported ISO 4217 currency code",
+});
+
+/**
+ * Amount in any supported currency
+ */
+export const CurrencyAmountSchema = z.object({
+  amount: z.number().finite(),
+  currency: CurrencyCodeSchema,
+  targetCurrency: CurrencyCodeSchema.optional(), // Defaults to the converter's target
+  precision: z.number().int().min(0).max(10).optional(), // Defaults to the target's minor units
+  asOf: z.union([z.date(), z.string().date()]).optional(),
+});
+
+export type CurrencyAmount = z.infer<typeof CurrencyAmountSchema>;
+
+/**
+ * Converted amount in the target currency
+ */
+export const ConvertedAmountSchema = z.object({
+  amount: z.number().finite(),
+  currency: CurrencyCodeSchema,
+  precision: z.number().int().min(0).max(10),
+  exchangeRate: z.number().positive().finite(),
+  timestamp: z.date(),
+  rateSource: z.string().optional(),
+  exactAmount: ExactMoneySchema.optional(),
+  triangulated: z.boolean(), // Rate was derived through EUR
+  originalAmount: z.number().finite(),
+  originalCurrency: CurrencyCodeSchema,
+});
+
+export type ConvertedAmount = z.infer<typeof ConvertedAmountSchema>;
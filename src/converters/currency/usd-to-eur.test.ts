@@ -0,0 +1,117 @@
+import { assertAlmostEquals, assertEquals } from "@std/testing";
+import { UsdToEurConverter } from "./usd-to-eur.ts";
+import { EurToUsdConverter } from "./eur-to-usd.ts";
+import { StaticRateProvider } from "./providers/index.ts";
+import { HistoricalRateStore } from "./historical-rate-store.ts";
+import { ErrorCode } from "../../shared/types/converter.ts";
+
+Deno.test("UsdToEurConverter", async (t) => {
+  const providers = [
+    { provider: new StaticRateProvider({ rates: { "EUR-USD": 1.0829 } }), priority: 1 },
+  ];
+  const converter = new UsdToEurConverter({ providers });
+
+  await t.step("should divide by the EUR-USD quote", async () => {
+    const result = await converter.convert({ amount: 108.29, currency: "USD" });
+
+    assertEquals(result.success, true);
+    if (result.success) {
+      assertEquals(result.value.amount, 100);
+      assertEquals(result.value.currency, "EUR");
+      assertEquals(result.value.quotedRate, 1.0829);
+      assertEquals(result.value.exchangeRate, 0.9234463016);
+    }
+  });
+
+  await t.step("should use the simulated provider's EUR-USD quote by default", async () => {
+    const result = await new UsdToEurConverter().convert({ amount: 100, currency: "USD" });
+
+    assertEquals(result.success, true);
+    if (result.success) {
+      // 100 USD should be roughly 90-95 EUR at the simulated 1.08
+      assertEquals(result.value.amount > 90 && result.value.amount < 95, true);
+    }
+  });
+
+  await t.step("should reject EUR input", async () => {
+    const result = await converter.convert({ amount: 100, currency: "EUR" } as any);
+
+    assertEquals(result.success, false);
+    if (!result.success) {
+      assertEquals(result.error.code, ErrorCode.INVALID_INPUT);
+    }
+  });
+
+  await t.step("should use the fallback rate when every provider fails", async () => {
+    const fallbackConverter = new UsdToEurConverter({
+      providers: [{ provider: new StaticRateProvider({ rates: {} }), priority: 1 }],
+      fallbackRate: 1.25,
+    });
+
+    const result = await fallbackConverter.convert({ amount: 100, currency: "USD" });
+
+    assertEquals(result.success, true);
+    if (result.success) {
+      assertEquals(result.value.amount, 80);
+      assertEquals(result.value.rateSource, "fallback");
+    }
+  });
+
+  await t.step("should convert at the rate on an as-of date", async () => {
+    const historicalRates = new HistoricalRateStore();
+    historicalRates.addRates("2024-03-01", { USD: 1.0829 });
+
+    const historicalConverter = new UsdToEurConverter({ historicalRates });
+    const result = await historicalConverter.convert({
+      amount: 1082.9,
+      currency: "USD",
+      asOf: "2024-03-01",
+    });
+
+    assertEquals(result.success, true);
+    if (result.success) {
+      assertEquals(result.value.amount, 1000);
+    }
+  });
+
+  await t.step("should require a rate store for as-of dates", async () => {
+    const result = await converter.convert({ amount: 100, currency: "USD", asOf: "2024-03-01" });
+
+    assertEquals(result.success, false);
+    if (!result.success) {
+      assertEquals(result.error.code, ErrorCode.CONFIGURATION_ERROR);
+    }
+  });
+
+  await t.step("should round-trip amounts converted by EurToUsdConverter", async () => {
+    const forward = new EurToUsdConverter({ providers });
+
+    // Cent amounts from -5000 to 5000 EUR; two roundings lose at most one cent
+    for (let i = 0; i < 250; i++) {
+      const amount = ((i * 7919) % 1000000 - 500000) / 100;
+      const usd = await forward.convert({ amount, currency: "EUR" });
+      assertEquals(usd.success, true);
+      if (!usd.success) continue;
+
+      const eur = await converter.convert(usd.value);
+      assertEquals(eur.success, true);
+      if (eur.success) {
+        assertAlmostEquals(eur.value.amount, amount, 0.01 + 1e-9);
+      }
+    }
+  });
+
+  await t.step("should round-trip exactly at higher precision", async () => {
+    const forward = new EurToUsdConverter({ providers });
+
+    for (let i = 1; i <= 100; i++) {
+      const amount = (i * 104729) / 100;
+      const usd = await forward.convert({ amount, currency: "EUR", precision: 8 });
+      assertEquals(usd.success, true);
+      if (!usd.success) continue;
+
+      const eur = await converter.convert({ ...usd.value, precision: 2 });
+      assertEquals(eur.success && eur.value.amount, amount);
+    }
+  });
+});
@@ -0,0 +1,194 @@
+import { Decimal } from "decimal.js";
+import {
+  ConversionError,
+  Converter,
+  ConverterConfig,
+  ConverterMetadata,
+  ErrorCode,
+  Result,
+  roundMoney,
+  toExactMoney,
+} from "../../shared/types/index.ts";
+import { EURAmountOutput, ExchangeRate, USDAmountInput, USDAmountInputSchema } from "./types.ts";
+import {
+  ExchangeRateProviderChain,
+  ExchangeRateProviderEntry,
+  SimulatedRateProvider,
+} from "./providers/index.ts";
+import { HistoricalRateStore } from "./historical-rate-store.ts";
+import { RateCache } from "./rate-cache.ts";
+
+/**
+ * USD to EUR converter options
+ *
+ * Rates are quoted as USD per EUR, like the ECB reference rates, so a converter pair can
+ * share providers, fallback rate and rate history.
+ */
+export interface UsdToEurConverterOptions {
+  /** Rate providers with priority (defaults to the simulated provider) */
+  providers?: ExchangeRateProviderEntry[];
+  /** EUR-USD rate used when every provider fails */
+  fallbackRate?: number;
+  /** Rate history for inputs with an `asOf` date */
+  historicalRates?: HistoricalRateStore;
+}
+
+/**
+ * Converts USD amounts to EUR by dividing by the EUR-USD rate
+ */
+export class UsdToEurConverter implements Converter<USDAmountInput, EURAmountOutput> {
+  private cache = new RateCache();
+  private readonly DEFAULT_CACHE_TTL = 5 * 60 * 1000; // 5 minutes
+  private readonly fallbackRate: number;
+  private readonly providers: ExchangeRateProviderChain;
+  private readonly historicalRates?: HistoricalRateStore;
+
+  constructor(options: UsdToEurConverterOptions = {}) {
+    this.fallbackRate = options.fallbackRate ?? 1.08;
+    this.historicalRates = options.historicalRates;
+    this.providers = new ExchangeRateProviderChain(
+      options.providers ?? [{ provider: new SimulatedRateProvider(), priority: 0 }],
+    );
+  }
+
+  /**
+   * Convert USD amount to EUR
+   */
+  async convert(
+    input: USDAmountInput,
+    config?: ConverterConfig,
+  ): Promise<Result<EURAmountOutput, ConversionError>> {
+    try {
+      // Validate input if not skipped
+      if (!config?.skipValidation && !this.validate(input)) {
+        return Result.err(
+          new ConversionError(
+            "Invalid USD amount format",
+            ErrorCode.INVALID_INPUT,
+            { input },
+          ),
+        );
+      }
+
+      // Get the EUR-USD quote (from the rate history when an as-of date is given)
+      let rate: ExchangeRate;
+      if (input.asOf !== undefined) {
+        if (!this.historicalRates) {
+          return Result.err(
+            new ConversionError(
+              "As-of-date conversion requires a historical rate store",
+              ErrorCode.CONFIGURATION_ERROR,
+              { asOf: input.asOf },
+            ),
+          );
+        }
+        const historical = this.historicalRates.getRateAsOf("EUR", "USD", input.asOf);
+        if (Result.isErr(historical)) {
+          return historical;
+        }
+        rate = historical.value;
+      } else {
+        rate = await this.getQuote(
+          config?.useCache ?? true,
+          config?.cacheTTL ?? this.DEFAULT_CACHE_TTL,
+        );
+      }
+
+      // Divide by the quote rather than multiplying by a rounded inverse
+      const eurDecimal = new Decimal(input.amount).div(rate.rate);
+
+      // Round to specified precision
+      const precision = input.precision ?? 2;
+      const roundedAmount = roundMoney(eurDecimal, precision, config?.roundingMode);
+
+      const result: EURAmountOutput = {
+        amount: roundedAmount.toNumber(),
+        currency: "EUR",
+        precision,
+        exchangeRate: new Decimal(1).div(rate.rate).toSignificantDigits(10).toNumber(),
+        quotedRate: rate.rate,
+        timestamp: rate.timestamp,
+        rateSource: rate.source,
+        exactAmount: toExactMoney(roundedAmount, precision, config?.moneyRepresentation),
+      };
+
+      return Result.ok(result);
+    } catch (error) {
+      return Result.err(
+        new ConversionError(
+          `Currency conversion failed: ${error instanceof Error ? error.message : "Unknown error"}`,
+          ErrorCode.CONVERSION_FAILED,
+          { input, error },
+          true, // Retryable
+        ),
+      );
+    }
+  }
+
+  /**
+   * Validate input is a valid USD amount
+   */
+  validate(input: unknown): input is USDAmountInput {
+    const result = USDAmountInputSchema.safeParse(input);
+    return result.success;
+  }
+
+  /**
+   * Get converter metadata
+   */
+  getMetadata(): ConverterMetadata {
+    return {
+      name: "USD to EUR Converter",
+      version: "1.0.0",
+      inputType: "USDAmountInput",
+      outputType: "EURAmountOutput",
+      description: "Converts USD currency amounts to EUR with real-time exchange rates",
+      performanceTarget: {
+        p50: 5,
+        p95: 8,
+        p99: 10,
+      },
+    };
+  }
+
+  /**
+   * Get the EUR-USD quote with caching
+   */
+  private async getQuote(useCache: boolean, cacheTTL: number): Promise<ExchangeRate> {
+    // Fetch new rate from the provider chain unless a cached one is fresh
+    const result = await this.cache.getRate(
+      "EUR",
+      "USD",
+      () => this.providers.getRate("EUR", "USD"),
+      { useCache, ttl: cacheTTL },
+    );
+
+    if (Result.isErr(result)) {
+      // Use fallback rate if every provider fails
+      console.warn(`Failed to fetch exchange rate, using fallback: ${result.error.message}`);
+      return {
+        from: "EUR",
+        to: "USD",
+        rate: this.fallbackRate,
+        timestamp: new Date(),
+        source: "fallback",
+      };
+    }
+
+    return result.value;
+  }
+
+  /**
+   * Clear the exchange rate cache
+   */
+  clearCache(): void {
+    this.cache.clear();
+  }
+
+  /**
+   * Get current cache size
+   */
+  getCacheSize(): number {
+    return this.cache.size;
+  }
+}
@@ -0,0 +1,175 @@
+/**
+ * Month and weekday names by language
+ *
+ * Names are matched case- and accent-insensitively, so "marz" matches "märz".
+ * Months are listed January first; weekdays Monday first (ISO 8601 numbering).
+ */
+export interface DateNames {
+  months: string[][]; // Full name first, then abbreviations
+  weekdays: string[][];
+}
+
+export const DATE_NAMES: Record<string, DateNames> = {
+  de: {
+    months: [
+      ["januar", "jänner", "jan"],
+      ["februar", "feb"],
+      ["märz", "mär", "mrz"],
+      ["april", "apr"],
+      ["mai"],
+      ["juni", "jun"],
+      ["juli", "jul"],
+      ["august", "aug"],
+      ["september", "sep", "sept"],
+      ["oktober", "okt"],
+      ["november", "nov"],
+      ["dezember", "dez"],
+    ],
+    weekdays: [
+      ["montag", "mo"],
+      ["dienstag", "di"],
+      ["mittwoch", "mi"],
+      ["donnerstag", "do"],
+      ["freitag", "fr"],
+      ["samstag", "sonnabend", "sa"],
+      ["sonntag", "so"],
+    ],
+  },
+  fr: {
+    months: [
+      ["janvier", "janv"],
+      ["février", "févr", "fév"],
+      ["mars"],
+      ["avril", "avr"],
+      ["mai"],
+      ["juin"],
+      ["juillet", "juil"],
+      ["août"],
+      ["septembre", "sept"],
+      ["octobre", "oct"],
+      ["novembre", "nov"],
+      ["décembre", "déc"],
+    ],
+    weekdays: [
+      ["lundi", "lun"],
+      ["mardi", "mar"],
+      ["mercredi", "mer"],
+      ["jeudi", "jeu"],
+      ["vendredi", "ven"],
+      ["samedi", "sam"],
+      ["dimanche", "dim"],
+    ],
+  },
+  it: {
+    months: [
+      ["gennaio", "gen"],
+      ["febbraio", "feb"],
+      ["marzo", "mar"],
+      ["aprile", "apr"],
+      ["maggio", "mag"],
+      ["giugno", "giu"],
+      ["luglio", "lug"],
+      ["agosto", "ago"],
+      ["settembre", "set"],
+      ["ottobre", "ott"],
+      ["novembre", "nov"],
+      ["dicembre", "dic"],
+    ],
+    weekdays: [
+      ["lunedì", "lun"],
+      ["martedì", "mar"],
+      ["mercoledì", "mer"],
+      ["giovedì", "gio"],
+      ["venerdì", "ven"],
+      ["sabato", "sab"],
+      ["domenica", "dom"],
+    ],
+  },
+  es: {
+    months: [
+      ["enero", "ene"],
+      ["febrero", "feb"],
+      ["marzo", "mar"],
+      ["abril", "abr"],
+      ["mayo", "may"],
+      ["junio", "jun"],
+      ["julio", "jul"],
+      ["agosto", "ago"],
+      ["septiembre", "setiembre", "sep", "sept"],
+      ["octubre", "oct"],
+      ["noviembre", "nov"],
+      ["diciembre", "dic"],
+    ],
+    weekdays: [
+      ["lunes", "lun"],
+      ["martes", "mar"],
+      ["miércoles", "mié"],
+      ["jueves", "jue"],
+      ["viernes", "vie"],
+      ["sábado", "sáb"],
+      ["domingo", "dom"],
+    ],
+  },
+  nl: {
+    months: [
+      ["januari", "jan"],
+      ["februari", "feb"],
+      ["maart", "mrt"],
+      ["april", "apr"],
+      ["mei"],
+      ["juni", "jun"],
+      ["juli", "jul"],
+      ["augustus", "aug"],
+      ["september", "sep", "sept"],
+      ["oktober", "okt"],
+      ["november", "nov"],
+      ["december", "dec"],
+    ],
+    weekdays: [
+      ["maandag", "ma"],
+      ["dinsdag", "di"],
+      ["woensdag", "wo"],
+      ["donderdag", "do"],
+      ["vrijdag", "vr"],
+      ["zaterdag", "za"],
+      ["zondag", "zo"],
+    ],
+  },
+  en: {
+    months: [
+      ["january", "jan"],
+      ["february", "feb"],
+      ["march", "mar"],
+      ["april", "apr"],
+      ["may"],
+      ["june", "jun"],
+      ["july", "jul"],
+      ["august", "aug"],
+      ["september", "sep", "sept"],
+      ["october", "oct"],
+      ["november", "nov"],
+      ["december", "dec"],
+    ],
+    weekdays: [
+      ["monday", "mon"],
+      ["tuesday", "tue"],
+      ["wednesday", "wed"],
+      ["thursday", "thu"],
+      ["friday", "fri"],
+      ["saturday", "sat"],
+      ["sunday", "sun"],
+    ],
+  },
+};
+
+/**
+ * Words that may surround date parts ("le 4 mars", "3 de marzo de 2024", "den 3. März")
+ */
+export const DATE_FILLER_WORDS = new Set(["le", "de", "del", "den", "am", "il", "el", "the", "of"]);
+
+/**
+ * US English month names for long-form output
+ */
+export const US_MONTH_NAMES = DATE_NAMES.en.months.map(([name]) =>
+  name.charAt(0).toUpperCase() + name.slice(1)
+);
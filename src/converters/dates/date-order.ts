@@ -0,0 +1,66 @@
+import { DateOrderHint } from "../../shared/types/index.ts";
+
+/**
+ * Day/month order evidence gathered from a column of numeric dates
+ */
+export interface DateOrderInference extends DateOrderHint {
+  dayFirst: number; // Values only valid as DD/MM (25/04/2024)
+  monthFirst: number; // Values only valid as MM/DD (04/25/2024)
+  ambiguous: number; // Values valid either way (04/05/2024)
+}
+
+const NUMERIC_DATE_PARTS = /^(\d{1,2})[\/\-.](\d{1,2})[\/\-.]\d{4}/;
+
+/**
+ * Classify the first two parts of a numeric date
+ * @returns The only order that yields a valid month, "ambiguous" when both do, or null when
+ *          the order does not matter (04/04) or neither part can be a month
+ */
+export function getDateOrderEvidence(
+  first: number,
+  second: number,
+): "DMY" | "MDY" | "ambiguous" | null {
+  const firstIsMonth = first >= 1 && first <= 12;
+  const secondIsMonth = second >= 1 && second <= 12;
+
+  if (first === second || (!firstIsMonth && !secondIsMonth)) {
+    return null;
+  }
+  if (firstIsMonth && secondIsMonth) {
+    return "ambiguous";
+  }
+  return secondIsMonth ? "DMY" : "MDY";
+}
+
+/**
+ * Infer a column's day/month convention from its unambiguous values
+ *
+ * Confidence is the Laplace-smoothed share of unambiguous values that agree with the
+ * chosen order, so a column without evidence gets 0.5. Day-first wins ties.
+ */
+export function inferDateOrder(dates: string[]): DateOrderInference {
+  let dayFirst = 0;
+  let monthFirst = 0;
+  let ambiguous = 0;
+
+  for (const date of dates) {
+    const parts = NUMERIC_DATE_PARTS.exec(date.trim());
+    if (!parts) {
+      continue;
+    }
+
+    const evidence = getDateOrderEvidence(
+      parseInt(parts[1], 10),
+      parseInt(parts[2], 10),
+    );
+    if (evidence === "DMY") dayFirst++;
+    else if (evidence === "MDY") monthFirst++;
+    else if (evidence === "ambiguous") ambiguous++;
+  }
+
+  const order = monthFirst > dayFirst ? "MDY" : "DMY";
+  const confidence = (Math.max(dayFirst, monthFirst) + 1) /
+    (dayFirst + monthFirst + 2);
+
+  return { order, confidence, dayFirst, monthFirst, ambiguous };
+}
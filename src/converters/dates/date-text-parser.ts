@@ -0,0 +1,218 @@
+import { ConversionError, ErrorCode, Result } from "../../shared/types/index.ts";
+import { DATE_FILLER_WORDS, DATE_NAMES, DateNames } from "./date-names.ts";
+
+/**
+ * How a date string was written
+ */
+export type DateTextFormat = "textual" | "iso-week" | "ordinal";
+
+/**
+ * Calendar date read from text
+ */
+export interface ParsedDateText {
+  day: number;
+  month: number;
+  year: number;
+  format: DateTextFormat;
+  weekday?: number; // ISO weekday (1 = Monday) when the text named one
+  locale?: string; // Language whose month name matched
+}
+
+/**
+ * ISO 8601 week date: 2024-W10-1, 2024W101, 2024-W10 (Monday)
+ */
+const ISO_WEEK_PATTERN = /^(\d{4})-?W(\d{2})(?:-?([1-7]))?$/i;
+
+/**
+ * ISO 8601 ordinal date: 2024-064, 2024064
+ */
+const ORDINAL_PATTERN = /^(\d{4})-?(\d{3})$/;
+
+/**
+ * Day of month with an optional ordinal suffix: 3, 3., 1er, 3rd
+ */
+const DAY_PATTERN = /^(\d{1,2})(?:er|e|st|nd|rd|th|º|°)?$/;
+
+const YEAR_PATTERN = /^\d{4}$/;
+
+/**
+ * Parse ISO week, ISO ordinal and textual dates ("3. März 2024", "lundi 4 mars 2024")
+ * @param locale Restricts month and weekday names to one language (e.g. "fr" or "fr-FR")
+ */
+export function parseDateText(
+  text: string,
+  locale?: string,
+): Result<ParsedDateText, ConversionError> {
+  const trimmed = text.trim();
+
+  const week = ISO_WEEK_PATTERN.exec(trimmed);
+  if (week) {
+    return fromIsoWeek(parseInt(week[1], 10), parseInt(week[2], 10), parseInt(week[3] ?? "1", 10));
+  }
+
+  const ordinal = ORDINAL_PATTERN.exec(trimmed);
+  if (ordinal) {
+    return fromOrdinal(parseInt(ordinal[1], 10), parseInt(ordinal[2], 10));
+  }
+
+  const languages = getLanguages(locale);
+  const tokens = normalizeName(trimmed)
+    .replace(/[,./]/g, " ")
+    .split(/\s+/)
+    .filter((token) => token && !DATE_FILLER_WORDS.has(token));
+
+  // A leading weekday is optional; "mar" may be Tuesday (fr) or March (it, es, en)
+  const weekday = tokens.length > 0 ? lookupName(tokens[0], "weekdays", languages) : null;
+  const afterWeekday = weekday ? readDayMonthYear(tokens.slice(1), languages) : null;
+  if (weekday && afterWeekday) {
+    return Result.ok({ ...afterWeekday, weekday: weekday.index });
+  }
+
+  const parsed = readDayMonthYear(tokens, languages);
+  if (!parsed) {
+    return Result.err(
+      new ConversionError(
+        `Unrecognized date: ${text}`,
+        ErrorCode.INVALID_INPUT,
+        { input: text, locale },
+      ),
+    );
+  }
+
+  return Result.ok(parsed);
+}
+
+/**
+ * ISO weekday (1 = Monday) of a calendar date
+ */
+export function isoWeekday(year: number, month: number, day: number): number {
+  return new Date(Date.UTC(year, month - 1, day)).getUTCDay() || 7;
+}
+
+/**
+ * Read "day month year" or "month day year" tokens
+ */
+function readDayMonthYear(
+  tokens: string[],
+  languages: string[],
+): ParsedDateText | null {
+  if (tokens.length !== 3 || !YEAR_PATTERN.test(tokens[2])) {
+    return null;
+  }
+
+  // EU order first, then English month-first ("March 3, 2024")
+  for (const [dayToken, monthToken] of [[tokens[0], tokens[1]], [tokens[1], tokens[0]]]) {
+    const day = DAY_PATTERN.exec(dayToken);
+    const month = lookupName(monthToken, "months", languages);
+
+    if (day && month) {
+      return {
+        day: parseInt(day[1], 10),
+        month: month.index,
+        year: parseInt(tokens[2], 10),
+        format: "textual",
+        locale: month.locale,
+      };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Find a month or weekday name; returns its 1-based index and language
+ */
+function lookupName(
+  token: string,
+  kind: keyof DateNames,
+  languages: string[],
+): { index: number; locale: string } | null {
+  for (const language of languages) {
+    const index = DATE_NAMES[language][kind].findIndex((names) =>
+      names.some((name) => normalizeName(name) === token)
+    );
+    if (index !== -1) {
+      return { index: index + 1, locale: language };
+    }
+  }
+  return null;
+}
+
+/**
+ * Languages to search, narrowed to the locale's language when it is supported
+ */
+function getLanguages(locale?: string): string[] {
+  const language = locale?.split(/[-_]/)[0].toLowerCase();
+  return language && DATE_NAMES[language] ? [language] : Object.keys(DATE_NAMES);
+}
+
+/**
+ * Lowercase and strip accents ("Août" -> "aout")
+ */
+function normalizeName(text: string): string {
+  return text.normalize("NFD").replace(/[\u0300-\u036f]/g, "").toLowerCase();
+}
+
+/**
+ * Resolve an ISO week date; week 1 is the week containing 4 January
+ */
+function fromIsoWeek(
+  year: number,
+  week: number,
+  weekday: number,
+): Result<ParsedDateText, ConversionError> {
+  if (week < 1 || week > isoWeeksInYear(year)) {
+    return Result.err(
+      new ConversionError(
+        `Week ${week} does not exist in ${year}`,
+        ErrorCode.OUT_OF_RANGE,
+        { year, week },
+      ),
+    );
+  }
+
+  const date = new Date(Date.UTC(year, 0, 4));
+  date.setUTCDate(4 - (isoWeekday(year, 1, 4) - 1) + (week - 1) * 7 + (weekday - 1));
+
+  return Result.ok({
+    day: date.getUTCDate(),
+    month: date.getUTCMonth() + 1,
+    year: date.getUTCFullYear(),
+    format: "iso-week",
+    weekday,
+  });
+}
+
+/**
+ * Resolve an ISO ordinal date (day of year)
+ */
+function fromOrdinal(year: number, dayOfYear: number): Result<ParsedDateText, ConversionError> {
+  const leap = (year % 4 === 0 && year % 100 !== 0) || year % 400 === 0;
+  if (dayOfYear < 1 || dayOfYear > (leap ? 366 : 365)) {
+    return Result.err(
+      new ConversionError(
+        `Day ${dayOfYear} does not exist in ${year}`,
+        ErrorCode.OUT_OF_RANGE,
+        { year, dayOfYear },
+      ),
+    );
+  }
+
+  const date = new Date(Date.UTC(year, 0, dayOfYear));
+  return Result.ok({
+    day: date.getUTCDate(),
+    month: date.getUTCMonth() + 1,
+    year,
+    format: "ordinal",
+  });
+}
+
+/**
+ * Number of ISO weeks (52 or 53) in a year
+ */
+function isoWeeksInYear(year: number): number {
+  // A year has 53 weeks when it starts or ends on a Thursday
+  const jan1 = isoWeekday(year, 1, 1);
+  const dec31 = isoWeekday(year, 12, 31);
+  return jan1 === 4 || dec31 === 4 ? 53 : 52;
+}
@@ -7,13 +7,39 @@ import {
   Result,
 } from "../../shared/types/index.ts";
 import { z } from "zod";
+import { Temporal } from "temporal-polyfill";
+import { isoWeekday, parseDateText } from "./date-text-parser.ts";
+import { US_MONTH_NAMES } from "./date-names.ts";
+import { getDateOrderEvidence } from "./date-order.ts";
 
 /**
- * EU date format schema (DD/MM/YYYY or DD-MM-YYYY)
+ * Lowest day/month order confidence strict mode accepts for an ambiguous date
+ */
+const STRICT_MIN_CONFIDENCE = 0.95;
+
+/**
+ * Zones assumed when a datetime arrives without one
+ */
+const DEFAULT_SOURCE_TIMEZONE = "Europe/Berlin";
+const DEFAULT_TARGET_TIMEZONE = "America/New_York";
+
+/**
+ * Numeric EU date (DD/MM/YYYY, DD-MM-YYYY or DD.MM.YYYY), optionally with 24-hour HH:MM[:SS]
+ */
+const NUMERIC_DATE_PATTERN = /^\d{1,2}[\/\-.]\d{1,2}[\/\-.]\d{4}(?:[ T]\d{1,2}:\d{2}(?::\d{2})?)?$/;
+
+/**
+ * EU date format schema: numeric dates, month names ("3. März 2024"), ISO week and ordinal dates
  */
 export const EUDateSchema = z.object({
-  date: z.string().regex(/^\d{1,2}[\/\-]\d{1,2}[\/\-]\d{4}$/),
-  separator: z.enum(["/", "-"]).optional(),
+  date: z.string().refine((date) =>
+    NUMERIC_DATE_PATTERN.test(date.trim()) || Result.isOk(parseDateText(date))
+  ),
+  separator: z.enum(["/", "-", "."]).optional(),
+  timezone: z.string().optional(), // Source IANA zone for datetimes, e.g. "Europe/Berlin"
+  targetTimezone: z.string().optional(), // US zone; defaults to config.timezone
+  disambiguation: z.enum(["compatible", "earlier", "later", "reject"]).optional(), // Wall-clock times skipped or repeated by DST
+  longForm: z.boolean().optional(), // Also return "March 3, 2024"
 });
 
 export type EUDate = z.infer<typeof EUDateSchema>;
@@ -28,6 +54,14 @@ export const USADateSchema = z.object({
   month: z.number(),
   year: z.number(),
   isValid: z.boolean(),
+  time: z.string().optional(), // 12-hour clock, e.g. "5:30 PM"
+  datetime: z.string().optional(), // "12/31/2024 5:30 PM"
+  timezone: z.string().optional(),
+  localDateTime: z.string().optional(), // ISO 8601 with offset and zone
+  utc: z.string().optional(), // ISO 8601 instant
+  longForm: z.string().optional(), // "March 3, 2024"
+  ambiguous: z.boolean().optional(), // Both DD/MM and MM/DD would be valid (04/05/2024)
+  confidence: z.number().min(0).max(1).optional(), // Confidence in the day/month reading
 });
 
 export type USADate = z.infer<typeof USADateSchema>;
@@ -55,25 +89,41 @@ export class EuToUsaDateConverter implements Converter<EUDate, USADate> {
         );
       }
 
+      // Month names, ISO week and ordinal dates
+      if (!NUMERIC_DATE_PATTERN.test(input.date.trim())) {
+        return this.convertDateText(input, config);
+      }
+
+      // Split off the time of day, if any
+      const [datePart, timePart] = input.date.trim().split(/[ T]/);
+
       // Detect separator
-      const separator = input.separator || this.detectSeparator(input.date);
+      const separator = input.separator || this.detectSeparator(datePart);
       
       // Parse date components
-      const parts = input.date.split(separator);
+      const parts = datePart.split(separator);
       if (parts.length !== 3) {
         return Result.err(
           new ConversionError(
-            "Invalid date format: expected DD/MM/YYYY or DD-MM-YYYY",
+            "Invalid date format: expected DD/MM/YYYY, DD-MM-YYYY or DD.MM.YYYY",
             ErrorCode.INVALID_INPUT,
             { input },
           ),
         );
       }
 
-      const day = parseInt(parts[0], 10);
-      const month = parseInt(parts[1], 10);
+      const first = parseInt(parts[0], 10);
+      const second = parseInt(parts[1], 10);
       const year = parseInt(parts[2], 10);
 
+      // Decide which part is the day
+      const reading = this.resolveDateOrder(first, second, input, config);
+      if (Result.isErr(reading)) {
+        return reading;
+      }
+      const { ambiguous, confidence } = reading.value;
+      const [day, month] = reading.value.order === "DMY" ? [first, second] : [second, first];
+
       // Validate date components
       const validationError = this.validateDateComponents(day, month, year);
       if (validationError) {
@@ -83,6 +133,15 @@ export class EuToUsaDateConverter implements Converter<EUDate, USADate> {
       // Check if date is valid (handle leap years, etc.)
       const isValid = this.isValidDate(day, month, year);
 
+      if (timePart !== undefined) {
+        return this.convertDateTime(
+          input,
+          { day, month, year, isValid, ambiguous, confidence },
+          timePart,
+          config,
+        );
+      }
+
       // Format as USA date (MM/DD/YYYY)
       const usaDate = `${month.toString().padStart(2, "0")}/${day.toString().padStart(2, "0")}/${year}`;
 
@@ -93,7 +152,12 @@ export class EuToUsaDateConverter implements Converter<EUDate, USADate> {
         month,
         year,
         isValid,
+        ambiguous,
+        confidence,
       };
+      if (input.longForm) {
+        result.longForm = this.formatUsaLongDate(day, month, year);
+      }
 
       return Result.ok(result);
     } catch (error) {
@@ -125,7 +189,7 @@ export class EuToUsaDateConverter implements Converter<EUDate, USADate> {
       version: "1.0.0",
       inputType: "EUDate",
       outputType: "USADate",
-      description: "Converts EU date format (DD/MM/YYYY) to USA format (MM/DD/YYYY)",
+      description: "Converts EU dates, datetimes, month names and ISO week/ordinal dates to USA format (MM/DD/YYYY)",
       performanceTarget: {
         p50: 3,
         p95: 5,
@@ -137,8 +201,191 @@ export class EuToUsaDateConverter implements Converter<EUDate, USADate> {
   /**
    * Detect the separator used in the date string
    */
-  private detectSeparator(date: string): "/" | "-" {
-    return date.includes("/") ? "/" : "-";
+  private detectSeparator(date: string): "/" | "-" | "." {
+    if (date.includes("/")) return "/";
+    return date.includes(".") ? "." : "-";
+  }
+
+  /**
+   * Convert a 24-hour EU wall-clock datetime into a 12-hour datetime in a US zone
+   */
+  private convertDateTime(
+    input: EUDate,
+    date: {
+      day: number;
+      month: number;
+      year: number;
+      isValid: boolean;
+      ambiguous: boolean;
+      confidence: number;
+    },
+    time: string,
+    config?: ConverterConfig,
+  ): Result<USADate, ConversionError> {
+    const [hour, minute, second = 0] = time.split(":").map((part) => parseInt(part, 10));
+
+    if (hour > 23 || minute > 59 || second > 59) {
+      return Result.err(
+        new ConversionError(`Invalid time: ${time}`, ErrorCode.OUT_OF_RANGE, { time }),
+      );
+    }
+
+    if (!date.isValid) {
+      return Result.err(
+        new ConversionError(
+          `Invalid calendar date: ${input.date}`,
+          ErrorCode.INVALID_INPUT,
+          { input },
+        ),
+      );
+    }
+
+    const sourceZone = input.timezone ?? DEFAULT_SOURCE_TIMEZONE;
+    const targetZone = input.targetTimezone ?? config?.timezone ?? DEFAULT_TARGET_TIMEZONE;
+    for (const zone of [sourceZone, targetZone]) {
+      if (!this.isValidTimeZone(zone)) {
+        return Result.err(
+          new ConversionError(`Unknown time zone: ${zone}`, ErrorCode.INVALID_INPUT, { zone }),
+        );
+      }
+    }
+
+    // Resolve the wall-clock time in the source zone; DST gaps and overlaps follow `disambiguation`
+    let source: Temporal.ZonedDateTime;
+    try {
+      source = Temporal.PlainDateTime.from({ ...date, hour, minute, second })
+        .toZonedDateTime(sourceZone, { disambiguation: input.disambiguation ?? "compatible" });
+    } catch {
+      return Result.err(
+        new ConversionError(
+          `${input.date} does not exist or is ambiguous in ${sourceZone} due to a DST transition`,
+          ErrorCode.OUT_OF_RANGE,
+          { input, timezone: sourceZone },
+        ),
+      );
+    }
+
+    const local = source.withTimeZone(targetZone);
+    const usaDate = this.formatUsaDate(local.day, local.month, local.year);
+    const withSeconds = time.split(":").length > 2;
+    const usaTime = this.formatUsaTime(local.hour, local.minute, withSeconds ? local.second : undefined);
+
+    const result: USADate = {
+      date: usaDate,
+      originalDate: input.date,
+      day: local.day,
+      month: local.month,
+      year: local.year,
+      isValid: true,
+      ambiguous: date.ambiguous,
+      confidence: date.confidence,
+      time: usaTime,
+      datetime: `${usaDate} ${usaTime}`,
+      timezone: targetZone,
+      localDateTime: local.toString(),
+      utc: local.toInstant().toString(),
+    };
+    if (input.longForm) {
+      result.longForm = this.formatUsaLongDate(local.day, local.month, local.year);
+    }
+
+    return Result.ok(result);
+  }
+
+  /**
+   * Convert a date written with month names, or as an ISO week or ordinal date
+   */
+  private convertDateText(
+    input: EUDate,
+    config?: ConverterConfig,
+  ): Result<USADate, ConversionError> {
+    const parsed = parseDateText(input.date, config?.locale);
+    if (Result.isErr(parsed)) {
+      return parsed;
+    }
+
+    const { day, month, year, weekday } = parsed.value;
+    const validationError = this.validateDateComponents(day, month, year);
+    if (validationError) {
+      return Result.err(validationError);
+    }
+
+    const isValid = this.isValidDate(day, month, year);
+    if (isValid && weekday !== undefined && weekday !== isoWeekday(year, month, day)) {
+      return Result.err(
+        new ConversionError(
+          `Weekday does not match date: ${input.date}`,
+          ErrorCode.INVALID_INPUT,
+          { input },
+        ),
+      );
+    }
+
+    const result: USADate = {
+      date: this.formatUsaDate(day, month, year),
+      originalDate: input.date,
+      day,
+      month,
+      year,
+      isValid,
+      ambiguous: false,
+      confidence: 1,
+    };
+    if (input.longForm) {
+      result.longForm = this.formatUsaLongDate(day, month, year);
+    }
+
+    return Result.ok(result);
+  }
+
+  /**
+   * Decide the day/month order of a numeric date
+   *
+   * Values with a part above 12 can only be read one way. Otherwise the batch hint in
+   * `config.dateOrder` is used, defaulting to DD/MM at confidence 0.5; strict mode rejects
+   * such guesses unless the hint is confident.
+   */
+  private resolveDateOrder(
+    first: number,
+    second: number,
+    input: EUDate,
+    config?: ConverterConfig,
+  ): Result<{ order: "DMY" | "MDY"; ambiguous: boolean; confidence: number }, ConversionError> {
+    const evidence = getDateOrderEvidence(first, second);
+
+    if (evidence === "DMY" || evidence === "MDY") {
+      return Result.ok({ order: evidence, ambiguous: false, confidence: 1 });
+    }
+    if (evidence === null) {
+      return Result.ok({ order: "DMY", ambiguous: false, confidence: 1 });
+    }
+
+    const order = config?.dateOrder?.order ?? "DMY";
+    const confidence = config?.dateOrder?.confidence ?? 0.5;
+
+    if (config?.strict && confidence < STRICT_MIN_CONFIDENCE) {
+      return Result.err(
+        new ConversionError(
+          `Ambiguous date: ${input.date} could be DD/MM or MM/DD`,
+          ErrorCode.AMBIGUOUS_INPUT,
+          { input, order, confidence },
+        ),
+      );
+    }
+
+    return Result.ok({ order, ambiguous: true, confidence });
+  }
+
+  /**
+   * Check whether a string names an IANA time zone
+   */
+  private isValidTimeZone(zone: string): boolean {
+    try {
+      Temporal.Now.zonedDateTimeISO(zone);
+      return true;
+    } catch {
+      return false;
+    }
   }
 
   /**
@@ -225,4 +472,20 @@ export class EuToUsaDateConverter implements Converter<EUDate, USADate> {
   formatUsaDate(day: number, month: number, year: number): string {
     return `${month.toString().padStart(2, "0")}/${day.toString().padStart(2, "0")}/${year}`;
   }
+
+  /**
+   * Format date components as a USA long-form date (March 3, 2024)
+   */
+  formatUsaLongDate(day: number, month: number, year: number): string {
+    return `${US_MONTH_NAMES[month - 1]} ${day}, ${year}`;
+  }
+
+  /**
+   * Format a 24-hour time as a USA 12-hour time (17:30 -> 5:30 PM)
+   */
+  formatUsaTime(hour: number, minute: number, second?: number): string {
+    const clock = `${hour % 12 || 12}:${minute.toString().padStart(2, "0")}`;
+    const seconds = second === undefined ? "" : `:${second.toString().padStart(2, "0")}`;
+    return `${clock}${seconds} ${hour < 12 ? "AM" : "PM"}`;
+  }
 }
\ No newline at end of file
@@ -0,0 +1,368 @@
+import {
+  ConversionError,
+  Converter,
+  ConverterConfig,
+  ConverterMetadata,
+  ErrorCode,
+  Result,
+} from "../../shared/types/index.ts";
+import { z } from "zod";
+import { Temporal } from "temporal-polyfill";
+import { parseDateText } from "./date-text-parser.ts";
+import { DATE_NAMES } from "./date-names.ts";
+
+/**
+ * Zones assumed when a datetime arrives without one
+ */
+const DEFAULT_SOURCE_TIMEZONE = "America/New_York";
+const DEFAULT_TARGET_TIMEZONE = "Europe/Berlin";
+
+/**
+ * Numeric US date (MM/DD/YYYY, MM-DD-YYYY or MM.DD.YYYY), optionally with a 12-hour
+ * "5:30 PM" or 24-hour "17:30" time
+ */
+const NUMERIC_DATE_PATTERN =
+  /^(\d{1,2})[\/\-.](\d{1,2})[\/\-.](\d{4})(?:[ T](\d{1,2}):(\d{2})(?::(\d{2}))?(?:\s*([AP])\.?M\.?)?)?$/i;
+
+/**
+ * USA date input schema: numeric dates and month names ("March 3, 2024")
+ */
+export const USADateInputSchema = z.object({
+  date: z.string().refine((date) =>
+    NUMERIC_DATE_PATTERN.test(date.trim()) || Result.isOk(parseDateText(date, "en"))
+  ),
+  separator: z.enum(["/", "-", "."]).optional(), // Output separator (default "/")
+  timezone: z.string().optional(), // Source IANA zone for datetimes, e.g. "America/Chicago"
+  targetTimezone: z.string().optional(), // EU zone; defaults to config.timezone
+  disambiguation: z.enum(["compatible", "earlier", "later", "reject"]).optional(), // Wall-clock times skipped or repeated by DST
+  longForm: z.boolean().optional(), // Also return "3. März 2024"
+  locale: z.string().optional(), // Language of the long form; defaults to config.locale, then English
+});
+
+export type USADateInput = z.infer<typeof USADateInputSchema>;
+
+/**
+ * EU date output schema (DD/MM/YYYY)
+ */
+export const EUDateOutputSchema = z.object({
+  date: z.string(),
+  originalDate: z.string(),
+  day: z.number(),
+  month: z.number(),
+  year: z.number(),
+  isValid: z.boolean(),
+  time: z.string().optional(), // 24-hour clock, e.g. "17:30"
+  datetime: z.string().optional(), // "31/12/2024 17:30"
+  timezone: z.string().optional(),
+  localDateTime: z.string().optional(), // ISO 8601 with offset and zone
+  utc: z.string().optional(), // ISO 8601 instant
+  longForm: z.string().optional(), // "3. März 2024", "3 mars 2024"
+});
+
+export type EUDateOutput = z.infer<typeof EUDateOutputSchema>;
+
+/**
+ * Converts USA date format (MM/DD/YYYY) to EU format (DD/MM/YYYY)
+ */
+export class UsaToEuDateConverter implements Converter<USADateInput, EUDateOutput> {
+  /**
+   * Convert USA date format to EU format
+   */
+  async convert(
+    input: USADateInput,
+    config?: ConverterConfig,
+  ): Promise<Result<EUDateOutput, ConversionError>> {
+    try {
+      // Validate input if not skipped
+      if (!config?.skipValidation && !this.validate(input)) {
+        return Result.err(
+          new ConversionError(
+            "Invalid USA date format",
+            ErrorCode.INVALID_INPUT,
+            { input },
+          ),
+        );
+      }
+
+      const separator = input.separator ?? "/";
+      const match = NUMERIC_DATE_PATTERN.exec(input.date.trim());
+
+      // Month names ("March 3, 2024", "Sunday, March 3, 2024")
+      if (!match) {
+        const parsed = parseDateText(input.date, "en");
+        if (Result.isErr(parsed)) {
+          return parsed;
+        }
+        const { day, month, year } = parsed.value;
+        return this.dateResult(input, { day, month, year }, separator, config);
+      }
+
+      const [, month, day, year, hour, minute, second, meridiem] = match;
+      const date = { day: parseInt(day, 10), month: parseInt(month, 10), year: parseInt(year, 10) };
+      if (hour === undefined) {
+        return this.dateResult(input, date, separator, config);
+      }
+
+      // 12-hour clock when AM/PM is given, otherwise 24-hour
+      const clock = this.parseTime(parseInt(hour, 10), parseInt(minute, 10), second, meridiem);
+      if (Result.isErr(clock)) {
+        return clock;
+      }
+      return this.convertDateTime(input, date, clock.value, second !== undefined, config);
+    } catch (error) {
+      return Result.err(
+        new ConversionError(
+          `Date conversion failed: ${error instanceof Error ? error.message : "Unknown error"}`,
+          ErrorCode.CONVERSION_FAILED,
+          { input, error },
+          false,
+        ),
+      );
+    }
+  }
+
+  /**
+   * Validate input is a valid USA date format
+   */
+  validate(input: unknown): input is USADateInput {
+    const result = USADateInputSchema.safeParse(input);
+    return result.success;
+  }
+
+  /**
+   * Get converter metadata
+   */
+  getMetadata(): ConverterMetadata {
+    return {
+      name: "USA to EU Date Converter",
+      version: "1.0.0",
+      inputType: "USADateInput",
+      outputType: "EUDateOutput",
+      description:
+        "Converts USA dates, 12-hour datetimes and month names to EU format (DD/MM/YYYY)",
+      performanceTarget: {
+        p50: 3,
+        p95: 5,
+        p99: 8,
+      },
+    };
+  }
+
+  /**
+   * Build the result for a date without a time of day
+   */
+  private dateResult(
+    input: USADateInput,
+    date: { day: number; month: number; year: number },
+    separator: string,
+    config?: ConverterConfig,
+  ): Result<EUDateOutput, ConversionError> {
+    const { day, month, year } = date;
+    const validationError = this.validateDateComponents(day, month, year);
+    if (validationError) {
+      return Result.err(validationError);
+    }
+
+    const result: EUDateOutput = {
+      date: this.formatEuDate(day, month, year, separator),
+      originalDate: input.date,
+      day,
+      month,
+      year,
+      isValid: this.isValidDate(day, month, year),
+    };
+    if (input.longForm) {
+      result.longForm = this.formatEuLongDate(day, month, year, input.locale ?? config?.locale);
+    }
+
+    return Result.ok(result);
+  }
+
+  /**
+   * Convert a US wall-clock datetime into a 24-hour datetime in an EU zone
+   */
+  private convertDateTime(
+    input: USADateInput,
+    date: { day: number; month: number; year: number },
+    time: { hour: number; minute: number; second: number },
+    withSeconds: boolean,
+    config?: ConverterConfig,
+  ): Result<EUDateOutput, ConversionError> {
+    const validationError = this.validateDateComponents(date.day, date.month, date.year);
+    if (validationError) {
+      return Result.err(validationError);
+    }
+    if (!this.isValidDate(date.day, date.month, date.year)) {
+      return Result.err(
+        new ConversionError(
+          `Invalid calendar date: ${input.date}`,
+          ErrorCode.INVALID_INPUT,
+          { input },
+        ),
+      );
+    }
+
+    const sourceZone = input.timezone ?? DEFAULT_SOURCE_TIMEZONE;
+    const targetZone = input.targetTimezone ?? config?.timezone ?? DEFAULT_TARGET_TIMEZONE;
+    for (const zone of [sourceZone, targetZone]) {
+      if (!this.isValidTimeZone(zone)) {
+        return Result.err(
+          new ConversionError(`Unknown time zone: ${zone}`, ErrorCode.INVALID_INPUT, { zone }),
+        );
+      }
+    }
+
+    // Resolve the wall-clock time in the source zone; DST gaps and overlaps follow `disambiguation`
+    let source: Temporal.ZonedDateTime;
+    try {
+      source = Temporal.PlainDateTime.from({ ...date, ...time })
+        .toZonedDateTime(sourceZone, { disambiguation: input.disambiguation ?? "compatible" });
+    } catch {
+      return Result.err(
+        new ConversionError(
+          `${input.date} does not exist or is ambiguous in ${sourceZone} due to a DST transition`,
+          ErrorCode.OUT_OF_RANGE,
+          { input, timezone: sourceZone },
+        ),
+      );
+    }
+
+    const local = source.withTimeZone(targetZone);
+    const euDate = this.formatEuDate(local.day, local.month, local.year, input.separator ?? "/");
+    const euTime = this.formatEuTime(
+      local.hour,
+      local.minute,
+      withSeconds ? local.second : undefined,
+    );
+
+    const result: EUDateOutput = {
+      date: euDate,
+      originalDate: input.date,
+      day: local.day,
+      month: local.month,
+      year: local.year,
+      isValid: true,
+      time: euTime,
+      datetime: `${euDate} ${euTime}`,
+      timezone: targetZone,
+      localDateTime: local.toString(),
+      utc: local.toInstant().toString(),
+    };
+    if (input.longForm) {
+      result.longForm = this.formatEuLongDate(
+        local.day,
+        local.month,
+        local.year,
+        input.locale ?? config?.locale,
+      );
+    }
+
+    return Result.ok(result);
+  }
+
+  /**
+   * Read a 12-hour (with AM/PM) or 24-hour time
+   */
+  private parseTime(
+    hour: number,
+    minute: number,
+    second: string | undefined,
+    meridiem: string | undefined,
+  ): Result<{ hour: number; minute: number; second: number }, ConversionError> {
+    const seconds = second === undefined ? 0 : parseInt(second, 10);
+    const invalidHour = meridiem ? hour < 1 || hour > 12 : hour > 23;
+    if (invalidHour || minute > 59 || seconds > 59) {
+      const time = `${hour}:${minute}${second === undefined ? "" : `:${second}`}${
+        meridiem ? ` ${meridiem}M` : ""
+      }`;
+      return Result.err(
+        new ConversionError(`Invalid time: ${time}`, ErrorCode.OUT_OF_RANGE, { time }),
+      );
+    }
+
+    // 12 AM is midnight, 12 PM is noon
+    const hour24 = meridiem ? (hour % 12) + (meridiem.toUpperCase() === "P" ? 12 : 0) : hour;
+    return Result.ok({ hour: hour24, minute, second: seconds });
+  }
+
+  /**
+   * Check whether a string names an IANA time zone
+   */
+  private isValidTimeZone(zone: string): boolean {
+    try {
+      Temporal.Now.zonedDateTimeISO(zone);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Validate date components
+   */
+  private validateDateComponents(
+    day: number,
+    month: number,
+    year: number,
+  ): ConversionError | null {
+    if (month < 1 || month > 12) {
+      return new ConversionError(`Invalid month: ${month}`, ErrorCode.OUT_OF_RANGE, { month });
+    }
+
+    if (day < 1 || day > 31) {
+      return new ConversionError(`Invalid day: ${day}`, ErrorCode.OUT_OF_RANGE, { day });
+    }
+
+    if (year < 1900 || year > 2100) {
+      return new ConversionError(`Year out of range: ${year}`, ErrorCode.OUT_OF_RANGE, { year });
+    }
+
+    return null;
+  }
+
+  /**
+   * Check if a date exists (considering leap years and month lengths)
+   */
+  private isValidDate(day: number, month: number, year: number): boolean {
+    return day <= Temporal.PlainYearMonth.from({ year, month }).daysInMonth;
+  }
+
+  /**
+   * Format date components to EU format
+   */
+  formatEuDate(day: number, month: number, year: number, separator = "/"): string {
+    return [day.toString().padStart(2, "0"), month.toString().padStart(2, "0"), year].join(
+      separator,
+    );
+  }
+
+  /**
+   * Format date components as a long-form date in a European language
+   * ("3. März 2024", "3 mars 2024", "3 de marzo de 2024", "3 March 2024")
+   */
+  formatEuLongDate(day: number, month: number, year: number, locale?: string): string {
+    const requested = locale?.split(/[-_]/)[0].toLowerCase();
+    const language = requested && DATE_NAMES[requested] ? requested : "en";
+    const name = DATE_NAMES[language].months[month - 1][0];
+
+    switch (language) {
+      case "de":
+        return `${day}. ${name.charAt(0).toUpperCase()}${name.slice(1)} ${year}`;
+      case "es":
+        return `${day} de ${name} de ${year}`;
+      case "en":
+        return `${day} ${name.charAt(0).toUpperCase()}${name.slice(1)} ${year}`;
+      default:
+        return `${day} ${name} ${year}`;
+    }
+  }
+
+  /**
+   * Format a time on the 24-hour clock (5:30 PM -> 17:30)
+   */
+  formatEuTime(hour: number, minute: number, second?: number): string {
+    return [hour, minute, ...(second === undefined ? [] : [second])]
+      .map((part) => part.toString().padStart(2, "0"))
+      .join(":");
+  }
+}
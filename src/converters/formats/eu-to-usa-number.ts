@@ -8,13 +8,23 @@ import {
 } from "../../shared/types/index.ts";
 import { z } from "zod";
 import { Decimal } from "decimal.js";
+import {
+  getLocaleNumberFormat,
+  NUMBER_FORMAT_NAMES,
+  NumberFormatOption,
+  ParsedNumber,
+  parseLocaleNumber,
+} from "./number-formats.ts";
+import { formatUsaAffixes, NumberAffixes, stripNumberAffixes } from "./number-affixes.ts";
 
 /**
- * EU number format schema (1.234.567,89)
+ * EU number format schema (1.234.567,89, or Swiss, French, Indian, US and scientific notation)
  */
 export const EUNumberSchema = z.object({
-  value: z.string().regex(/^-?\d{1,3}(\.\d{3})*(\,\d+)?$/),
+  value: z.string(),
   precision: z.number().int().min(0).max(10).optional(),
+  sourceFormat: z.enum([...NUMBER_FORMAT_NAMES, "auto"]).optional(), // Overrides locale
+  locale: z.string().optional(), // Source locale, e.g. "de-CH"; defaults to config.locale
 });
 
 export type EUNumber = z.infer<typeof EUNumberSchema>;
@@ -27,6 +37,11 @@ export const USANumberSchema = z.object({
   numericValue: z.number(),
   originalValue: z.string(),
   precision: z.number(),
+  format: z.enum(NUMBER_FORMAT_NAMES), // Format the value was read as
+  kind: z.enum(["number", "percent", "currency"]), // Percent values keep their points (12.5, not 0.125)
+  currency: z.string().optional(), // ISO 4217 code of a currency-tagged value
+  accountingNegative: z.boolean(), // Negative written in parentheses: (1.234,00)
+  formatted: z.string(), // Value with its affixes in US conventions: "12.5%", "$1,234.00"
 });
 
 export type USANumber = z.infer<typeof USANumberSchema>;
@@ -44,7 +59,7 @@ export class EuToUsaNumberConverter implements Converter<EUNumber, USANumber> {
   ): Promise<Result<USANumber, ConversionError>> {
     try {
       // Validate input if not skipped
-      if (!config?.skipValidation && !this.validate(input)) {
+      if (!config?.skipValidation && !EUNumberSchema.safeParse(input).success) {
         return Result.err(
           new ConversionError(
             "Invalid EU number format",
@@ -54,21 +69,17 @@ export class EuToUsaNumberConverter implements Converter<EUNumber, USANumber> {
         );
       }
 
-      // Parse EU number to numeric value
-      const numericValue = this.parseEuNumber(input.value);
-      
-      if (numericValue === null) {
-        return Result.err(
-          new ConversionError(
-            "Failed to parse EU number",
-            ErrorCode.CONVERSION_FAILED,
-            { input },
-          ),
-        );
+      // Read the value in the requested, locale or detected format
+      const parsed = this.parseNumber(input.value, this.resolveFormat(input, config));
+      if (Result.isErr(parsed)) {
+        return parsed;
       }
 
+      const { number, affixes } = parsed.value;
+      const numericValue = new Decimal(number.normalized).toNumber();
+
       // Determine precision
-      const precision = input.precision ?? this.detectPrecision(input.value);
+      const precision = input.precision ?? number.precision;
 
       // Format as USA number
       const usaFormatted = this.formatUsaNumber(numericValue, precision);
@@ -78,6 +89,11 @@ export class EuToUsaNumberConverter implements Converter<EUNumber, USANumber> {
         numericValue,
         originalValue: input.value,
         precision,
+        format: number.format,
+        kind: affixes.kind,
+        currency: affixes.currency,
+        accountingNegative: affixes.accountingNegative,
+        formatted: formatUsaAffixes(usaFormatted, affixes),
       };
 
       return Result.ok(result);
@@ -97,22 +113,13 @@ export class EuToUsaNumberConverter implements Converter<EUNumber, USANumber> {
    * Validate input is a valid EU number format
    */
   validate(input: unknown): input is EUNumber {
-    if (typeof input !== "object" || input === null) {
+    const parsed = EUNumberSchema.safeParse(input);
+    if (!parsed.success) {
       return false;
     }
 
-    const obj = input as any;
-    
-    // Check if value is string and matches EU format
-    if (typeof obj.value !== "string") {
-      return false;
-    }
-
-    // EU format: thousands separator is dot, decimal separator is comma
-    // Examples: 1.234,56 or 1.234.567,89 or 1234,5
-    const euPattern = /^-?\d{1,3}(\.\d{3})*(\,\d+)?$|^-?\d+(\,\d+)?$/;
-    
-    return euPattern.test(obj.value);
+    // EU format unless the input names another: 1.234,56 or 1.234.567,89 or 1234,5
+    return Result.isOk(this.parseNumber(parsed.data.value, this.resolveFormat(parsed.data)));
   }
 
   /**
@@ -124,7 +131,8 @@ export class EuToUsaNumberConverter implements Converter<EUNumber, USANumber> {
       version: "1.0.0",
       inputType: "EUNumber",
       outputType: "USANumber",
-      description: "Converts EU number format (1.234,56) to USA format (1,234.56)",
+      description:
+        "Converts EU-style numbers, percentages and amounts to USA format (1,234.56)",
       performanceTarget: {
         p50: 1,
         p95: 2,
@@ -134,31 +142,22 @@ export class EuToUsaNumberConverter implements Converter<EUNumber, USANumber> {
   }
 
   /**
-   * Parse EU number string to numeric value
+   * Pick the source format: explicit option, then input or config locale, then EU
    */
-  private parseEuNumber(euNumber: string): number | null {
-    try {
-      // Remove thousand separators (dots) and replace decimal comma with dot
-      const normalized = euNumber
-        .replace(/\./g, "")  // Remove thousand separators
-        .replace(",", ".");   // Replace decimal comma with dot
-
-      const decimal = new Decimal(normalized);
-      return decimal.toNumber();
-    } catch {
-      return null;
-    }
+  private resolveFormat(input: EUNumber, config?: ConverterConfig): NumberFormatOption {
+    const locale = input.locale ?? config?.locale;
+    return input.sourceFormat ?? (locale ? getLocaleNumberFormat(locale) : "eu");
   }
 
   /**
-   * Detect precision from EU number string
+   * Strip percent, currency and accounting affixes, then parse the number in the given format
    */
-  private detectPrecision(euNumber: string): number {
-    const parts = euNumber.split(",");
-    if (parts.length === 2) {
-      return parts[1].length;
-    }
-    return 0;
+  private parseNumber(
+    value: string,
+    format: NumberFormatOption,
+  ): Result<{ number: ParsedNumber; affixes: NumberAffixes }, ConversionError> {
+    const affixes = stripNumberAffixes(value);
+    return Result.map(parseLocaleNumber(affixes.body, format), (number) => ({ number, affixes }));
   }
 
   /**
@@ -170,7 +169,7 @@ export class EuToUsaNumberConverter implements Converter<EUNumber, USANumber> {
     const rounded = decimal.toDecimalPlaces(precision, Decimal.ROUND_HALF_UP);
     
     // Convert to string with fixed precision
-    let str = rounded.toFixed(precision);
+    const str = rounded.toFixed(precision);
     
     // Split into integer and decimal parts
     const parts = str.split(".");
@@ -183,22 +182,27 @@ export class EuToUsaNumberConverter implements Converter<EUNumber, USANumber> {
   }
 
   /**
-   * Convert EU number string directly (convenience method)
+   * Convert EU number string directly, keeping percent and currency affixes (convenience method)
    */
-  convertString(euNumber: string): string | null {
-    const numericValue = this.parseEuNumber(euNumber);
-    if (numericValue === null) {
+  convertString(euNumber: string, format: NumberFormatOption = "eu"): string | null {
+    const parsed = this.parseNumber(euNumber, format);
+    if (Result.isErr(parsed)) {
       return null;
     }
-    
-    const precision = this.detectPrecision(euNumber);
-    return this.formatUsaNumber(numericValue, precision);
+
+    const { number, affixes } = parsed.value;
+    const usaFormatted = this.formatUsaNumber(
+      new Decimal(number.normalized).toNumber(),
+      number.precision,
+    );
+    return formatUsaAffixes(usaFormatted, affixes);
   }
 
   /**
    * Parse and return numeric value (convenience method)
    */
-  toNumber(euNumber: string): number | null {
-    return this.parseEuNumber(euNumber);
+  toNumber(euNumber: string, format: NumberFormatOption = "eu"): number | null {
+    const parsed = this.parseNumber(euNumber, format);
+    return Result.isOk(parsed) ? new Decimal(parsed.value.number.normalized).toNumber() : null;
   }
 }
\ No newline at end of file
@@ -0,0 +1,147 @@
+import { getCurrency } from "../currency/iso4217.ts";
+
+/**
+ * What a number string represents once its affixes are stripped
+ */
+export type NumberKind = "number" | "percent" | "currency";
+
+/**
+ * Number string split into its bare number and its affixes
+ */
+export interface NumberAffixes {
+  body: string; // Number without affixes; "-" prefixed for accounting negatives
+  kind: NumberKind;
+  currency?: string; // ISO 4217 code of a currency-tagged value
+  accountingNegative: boolean; // Negative written in parentheses: (1.234,00)
+}
+
+/**
+ * Currency symbols seen in EU spreadsheet exports
+ */
+const CURRENCY_SYMBOLS: Record<string, string> = {
+  "€": "EUR",
+  "£": "GBP",
+  "US$": "USD",
+  "$": "USD",
+  "¥": "JPY",
+  "₹": "INR",
+  "₺": "TRY",
+  "zł": "PLN",
+  "Kč": "CZK",
+  "Ft": "HUF",
+  "Fr.": "CHF",
+};
+
+/**
+ * Symbols written before the amount in US conventions and after it in EU conventions;
+ * other currencies use their code
+ */
+const US_CURRENCY_SYMBOLS: Record<string, string> = {
+  USD: "$",
+  EUR: "€",
+  GBP: "£",
+  JPY: "¥",
+  INR: "₹",
+};
+
+const CURRENCY_TOKEN = [
+  ...Object.keys(CURRENCY_SYMBOLS)
+    .sort((a, b) => b.length - a.length)
+    .map((symbol) => symbol.replace(/[.$]/g, "\\$&")),
+  "[A-Z]{3}",
+].join("|");
+
+const CURRENCY_PREFIX = new RegExp(`^([-−]?)\\s*(${CURRENCY_TOKEN})\\s*(?=[-−+]?\\d)`);
+const CURRENCY_SUFFIX = new RegExp(`(?<=\\d)\\s*(${CURRENCY_TOKEN})$`);
+
+/**
+ * Strip parentheses, percent signs and currency symbols or codes ("(€ 1.234,00)", "12,5 %")
+ */
+export function stripNumberAffixes(text: string): NumberAffixes {
+  let body = text.trim();
+  let kind: NumberKind = "number";
+  let currency: string | undefined;
+
+  const accounting = /^\((.+)\)$/.exec(body);
+  if (accounting) {
+    body = accounting[1].trim();
+  }
+
+  if (body.endsWith("%")) {
+    body = body.slice(0, -1).trim();
+    kind = "percent";
+  } else {
+    const prefix = CURRENCY_PREFIX.exec(body);
+    const suffix = prefix ? null : CURRENCY_SUFFIX.exec(body);
+    const code = resolveCurrency(prefix?.[2] ?? suffix?.[1]);
+
+    if (prefix && code) {
+      body = prefix[1] + body.slice(prefix[0].length);
+    } else if (suffix && code) {
+      body = body.slice(0, suffix.index).trim();
+    }
+    if (code && (prefix || suffix)) {
+      kind = "currency";
+      currency = code;
+    }
+  }
+
+  return {
+    body: accounting ? `-${body}` : body,
+    kind,
+    currency,
+    accountingNegative: accounting !== null,
+  };
+}
+
+/**
+ * Render a US-formatted number with its affixes: "12.5%", "$1,234.00", "(€1,234.00)"
+ */
+export function formatUsaAffixes(value: string, affixes: NumberAffixes): string {
+  const negative = value.startsWith("-");
+  const unsigned = negative ? value.slice(1) : value;
+
+  let core = unsigned;
+  if (affixes.kind === "percent") {
+    core = `${unsigned}%`;
+  } else if (affixes.kind === "currency" && affixes.currency) {
+    const symbol = US_CURRENCY_SYMBOLS[affixes.currency];
+    core = symbol ? `${symbol}${unsigned}` : `${affixes.currency} ${unsigned}`;
+  }
+
+  if (!negative) {
+    return core;
+  }
+  return affixes.accountingNegative ? `(${core})` : `-${core}`;
+}
+
+/**
+ * Render an EU-formatted number with its affixes, symbols after the amount:
+ * "12,5 %", "1.234,00 €", "(1.234,00 $)"
+ */
+export function formatEuAffixes(value: string, affixes: NumberAffixes): string {
+  const negative = value.startsWith("-");
+  const unsigned = negative ? value.slice(1) : value;
+
+  let core = unsigned;
+  if (affixes.kind === "percent") {
+    core = `${unsigned} %`;
+  } else if (affixes.kind === "currency" && affixes.currency) {
+    core = `${unsigned} ${US_CURRENCY_SYMBOLS[affixes.currency] ?? affixes.currency}`;
+  }
+
+  if (!negative) {
+    return core;
+  }
+  return affixes.accountingNegative ? `(${core})` : `-${core}`;
+}
+
+/**
+ * ISO code for a currency symbol or a supported three-letter code
+ */
+function resolveCurrency(token?: string): string | undefined {
+  if (!token) {
+    return undefined;
+  }
+  return CURRENCY_SYMBOLS[token] ?? getCurrency(token)?.code;
+}
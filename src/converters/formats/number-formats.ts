@@ -0,0 +1,209 @@
+import { ConversionError, ErrorCode, Result } from "../../shared/types/index.ts";
+
+/**
+ * Source number conventions
+ */
+export const NUMBER_FORMAT_NAMES = ["eu", "swiss", "french", "indian", "us", "scientific"] as const;
+
+export type NumberFormat = typeof NUMBER_FORMAT_NAMES[number];
+
+/**
+ * A number format, or "auto" to detect it from the value
+ */
+export type NumberFormatOption = NumberFormat | "auto";
+
+/**
+ * Number read from a locale-formatted string
+ */
+export interface ParsedNumber {
+  normalized: string; // Plain decimal or exponent notation ("-1234.56", "1.5e3")
+  format: NumberFormat;
+  precision: number; // Decimal places of the value as written
+}
+
+interface NumberFormatRule {
+  pattern: RegExp;
+  group: RegExp; // Grouping characters to strip
+  separator: string; // Grouping character written on output
+  decimal: string;
+}
+
+const NUMBER_FORMATS: Record<Exclude<NumberFormat, "scientific">, NumberFormatRule> = {
+  // 1.234.567,89
+  eu: {
+    pattern: /^\d{1,3}(\.\d{3})*(,\d+)?$|^\d+(,\d+)?$/,
+    group: /\./g,
+    separator: ".",
+    decimal: ",",
+  },
+  // 1'234'567.89
+  swiss: {
+    pattern: /^\d{1,3}(['’]\d{3})*(\.\d+)?$|^\d+(\.\d+)?$/,
+    group: /['’]/g,
+    separator: "'",
+    decimal: ".",
+  },
+  // 1 234 567,89 with a space, no-break space or narrow no-break space (French, Nordic)
+  french: {
+    pattern: /^\d{1,3}([ \u00A0\u202F]\d{3})*(,\d+)?$|^\d+(,\d+)?$/,
+    group: /[ \u00A0\u202F]/g,
+    separator: "\u202F",
+    decimal: ",",
+  },
+  // 12,34,567.89 (lakh/crore grouping)
+  indian: {
+    pattern: /^(\d{1,2}(,\d{2})*,)?\d{1,3}(\.\d+)?$|^\d+(\.\d+)?$/,
+    group: /,/g,
+    separator: ",",
+    decimal: ".",
+  },
+  // 1,234,567.89
+  us: {
+    pattern: /^\d{1,3}(,\d{3})*(\.\d+)?$|^\d+(\.\d+)?$/,
+    group: /,/g,
+    separator: ",",
+    decimal: ".",
+  },
+};
+
+/**
+ * 1,5e3, 1.5E-3, 2e10
+ */
+const SCIENTIFIC_PATTERN = /^(\d+)(?:[.,](\d+))?e([+-]?\d+)$/i;
+
+/**
+ * Formats tried in auto mode; the first that accepts the value wins,
+ * so "1.234" reads as EU thousands rather than a decimal, and only values with
+ * two-digit groups ("12,34,567") read as Indian
+ */
+const DETECTION_ORDER: Exclude<NumberFormat, "scientific">[] = [
+  "eu",
+  "swiss",
+  "french",
+  "us",
+  "indian",
+];
+
+/**
+ * Locales whose conventions differ from the EU default, by language or language-region
+ */
+const LOCALE_FORMATS: Record<string, NumberFormat> = {
+  "de-ch": "swiss",
+  "fr-ch": "swiss",
+  "it-ch": "swiss",
+  "de-li": "swiss",
+  fr: "french",
+  sv: "french",
+  nb: "french",
+  nn: "french",
+  no: "french",
+  fi: "french",
+  pl: "french",
+  cs: "french",
+  sk: "french",
+  hu: "french",
+  "en-in": "indian",
+  hi: "indian",
+};
+
+/**
+ * Number format conventionally used by a locale ("de-CH" -> swiss, "fr-FR" -> french)
+ */
+export function getLocaleNumberFormat(locale: string): NumberFormat {
+  const [language, region] = locale.toLowerCase().split(/[-_]/);
+  return LOCALE_FORMATS[`${language}-${region}`] ?? LOCALE_FORMATS[language] ?? "eu";
+}
+
+/**
+ * Parse a number written in the given format, or detect the format in auto mode
+ */
+export function parseLocaleNumber(
+  text: string,
+  format: NumberFormatOption = "auto",
+): Result<ParsedNumber, ConversionError> {
+  const trimmed = text.trim();
+  const negative = /^[-−]/.test(trimmed);
+  const digits = trimmed.replace(/^[-−+]/, "");
+
+  const formats = format === "auto" ? ["scientific", ...DETECTION_ORDER] : [format];
+  for (const candidate of formats as NumberFormat[]) {
+    const parsed = candidate === "scientific"
+      ? parseScientific(digits)
+      : parseGrouped(digits, candidate);
+
+    if (parsed) {
+      return Result.ok({
+        ...parsed,
+        normalized: negative ? `-${parsed.normalized}` : parsed.normalized,
+      });
+    }
+  }
+
+  return Result.err(
+    new ConversionError(
+      format === "auto"
+        ? `Unrecognized number format: ${text}`
+        : `Invalid ${format} number: ${text}`,
+      ErrorCode.INVALID_INPUT,
+      { input: text, format },
+    ),
+  );
+}
+
+/**
+ * Write a plain decimal ("-1234567.89") in a grouped format: "1.234.567,89" (eu),
+ * "1'234'567.89" (swiss), "1 234 567,89" (french), "12,34,567.89" (indian),
+ * "1,234,567.89" (us)
+ */
+export function formatLocaleNumber(
+  plain: string,
+  format: Exclude<NumberFormat, "scientific">,
+): string {
+  const rule = NUMBER_FORMATS[format];
+  const negative = plain.startsWith("-");
+  const [integer, fraction] = plain.replace(/^-/, "").split(".");
+
+  // Indian grouping puts the last three digits together, then pairs
+  const grouped = format === "indian"
+    ? integer.replace(/\B(?=(\d{2})*\d{3}$)/g, rule.separator)
+    : integer.replace(/\B(?=(\d{3})+$)/g, rule.separator);
+
+  return `${negative ? "-" : ""}${grouped}${fraction ? `${rule.decimal}${fraction}` : ""}`;
+}
+
+/**
+ * Read an unsigned number with grouping and decimal separators
+ */
+function parseGrouped(
+  digits: string,
+  format: Exclude<NumberFormat, "scientific">,
+): ParsedNumber | null {
+  const rule = NUMBER_FORMATS[format];
+  if (!rule.pattern.test(digits)) {
+    return null;
+  }
+
+  const [integer, fraction = ""] = digits.replace(rule.group, "").split(rule.decimal);
+  return {
+    normalized: fraction ? `${integer}.${fraction}` : integer,
+    format,
+    precision: fraction.length,
+  };
+}
+
+/**
+ * Read an unsigned number in exponent notation; precision counts the decimals of the expanded value
+ */
+function parseScientific(digits: string): ParsedNumber | null {
+  const match = SCIENTIFIC_PATTERN.exec(digits);
+  if (!match) {
+    return null;
+  }
+
+  const [, integer, fraction = "", exponent] = match;
+  return {
+    normalized: `${integer}${fraction ? `.${fraction}` : ""}e${exponent}`,
+    format: "scientific",
+    precision: Math.max(0, fraction.length - parseInt(exponent, 10)),
+  };
+}
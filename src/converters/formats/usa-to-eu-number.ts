@@ -0,0 +1,207 @@
+import {
+  ConversionError,
+  Converter,
+  ConverterConfig,
+  ConverterMetadata,
+  ErrorCode,
+  Result,
+} from "../../shared/types/index.ts";
+import { z } from "zod";
+import { Decimal } from "decimal.js";
+import { formatLocaleNumber, getLocaleNumberFormat, parseLocaleNumber } from "./number-formats.ts";
+import { formatEuAffixes, NumberAffixes, stripNumberAffixes } from "./number-affixes.ts";
+
+/**
+ * European formats a US number can be written in
+ */
+const EU_TARGET_FORMATS = ["eu", "swiss", "french"] as const;
+
+type EUTargetFormat = typeof EU_TARGET_FORMATS[number];
+
+/**
+ * 1,234,567.89 or 1234567.89
+ */
+const USA_NUMBER_PATTERN = /^\d{1,3}(,\d{3})*(\.\d+)?$|^\d+(\.\d+)?$/;
+
+/**
+ * USA number input schema (1,234,567.89, "$1,234.00", "12.5%", "(1,234.00)")
+ */
+export const USANumberInputSchema = z.object({
+  value: z.string(),
+  precision: z.number().int().min(0).max(10).optional(),
+  targetFormat: z.enum(EU_TARGET_FORMATS).optional(), // Overrides locale
+  locale: z.string().optional(), // Target locale, e.g. "fr-FR"; defaults to config.locale
+});
+
+export type USANumberInput = z.infer<typeof USANumberInputSchema>;
+
+/**
+ * EU number output schema (1.234.567,89)
+ */
+export const EUNumberOutputSchema = z.object({
+  value: z.string(),
+  numericValue: z.number(),
+  originalValue: z.string(),
+  precision: z.number(),
+  format: z.enum(EU_TARGET_FORMATS), // Format the value was written in
+  kind: z.enum(["number", "percent", "currency"]),
+  currency: z.string().optional(), // ISO 4217 code of a currency-tagged value
+  accountingNegative: z.boolean(), // Negative written in parentheses: ($1,234.00)
+  formatted: z.string(), // Value with its affixes in EU conventions: "12,5 %", "1.234,00 $"
+});
+
+export type EUNumberOutput = z.infer<typeof EUNumberOutputSchema>;
+
+/**
+ * Converts USA number format (1,234.56) to EU format (1.234,56)
+ */
+export class UsaToEuNumberConverter implements Converter<USANumberInput, EUNumberOutput> {
+  /**
+   * Convert USA number format to EU format
+   */
+  async convert(
+    input: USANumberInput,
+    config?: ConverterConfig,
+  ): Promise<Result<EUNumberOutput, ConversionError>> {
+    try {
+      // Validate input if not skipped
+      if (!config?.skipValidation && !USANumberInputSchema.safeParse(input).success) {
+        return Result.err(
+          new ConversionError(
+            "Invalid USA number format",
+            ErrorCode.INVALID_INPUT,
+            { input },
+          ),
+        );
+      }
+
+      const parsed = this.parseNumber(input.value);
+      if (Result.isErr(parsed)) {
+        return parsed;
+      }
+
+      const { normalized, precision: writtenPrecision, affixes } = parsed.value;
+      const precision = input.precision ?? writtenPrecision;
+      const format = this.resolveFormat(input, config);
+      const euFormatted = this.formatEuNumber(normalized, precision, format);
+
+      const result: EUNumberOutput = {
+        value: euFormatted,
+        numericValue: new Decimal(normalized).toNumber(),
+        originalValue: input.value,
+        precision,
+        format,
+        kind: affixes.kind,
+        currency: affixes.currency,
+        accountingNegative: affixes.accountingNegative,
+        formatted: formatEuAffixes(euFormatted, affixes),
+      };
+
+      return Result.ok(result);
+    } catch (error) {
+      return Result.err(
+        new ConversionError(
+          `Number format conversion failed: ${
+            error instanceof Error ? error.message : "Unknown error"
+          }`,
+          ErrorCode.CONVERSION_FAILED,
+          { input, error },
+          false,
+        ),
+      );
+    }
+  }
+
+  /**
+   * Validate input is a valid USA number format
+   */
+  validate(input: unknown): input is USANumberInput {
+    const parsed = USANumberInputSchema.safeParse(input);
+    return parsed.success && Result.isOk(this.parseNumber(parsed.data.value));
+  }
+
+  /**
+   * Get converter metadata
+   */
+  getMetadata(): ConverterMetadata {
+    return {
+      name: "USA to EU Number Format Converter",
+      version: "1.0.0",
+      inputType: "USANumberInput",
+      outputType: "EUNumberOutput",
+      description: "Converts USA-style numbers, percentages and amounts to EU format (1.234,56)",
+      performanceTarget: {
+        p50: 1,
+        p95: 2,
+        p99: 3,
+      },
+    };
+  }
+
+  /**
+   * Pick the target format: explicit option, then input or config locale, then EU
+   */
+  private resolveFormat(input: USANumberInput, config?: ConverterConfig): EUTargetFormat {
+    const locale = input.locale ?? config?.locale;
+    const format = locale ? getLocaleNumberFormat(locale) : "eu";
+    return input.targetFormat ??
+      (EU_TARGET_FORMATS.find((target) => target === format) ?? "eu");
+  }
+
+  /**
+   * Strip percent, currency and accounting affixes, then read a US or exponent-notation number
+   */
+  private parseNumber(
+    value: string,
+  ): Result<{ normalized: string; precision: number; affixes: NumberAffixes }, ConversionError> {
+    const affixes = stripNumberAffixes(value);
+    const body = affixes.body.trim();
+    const negative = /^[-−]/.test(body);
+    const digits = body.replace(/^[-−+]/, "");
+
+    if (USA_NUMBER_PATTERN.test(digits)) {
+      const [, fraction = ""] = digits.split(".");
+      const normalized = digits.replace(/,/g, "");
+      return Result.ok({
+        normalized: negative ? `-${normalized}` : normalized,
+        precision: fraction.length,
+        affixes,
+      });
+    }
+
+    const scientific = parseLocaleNumber(body, "scientific");
+    if (Result.isOk(scientific)) {
+      const { normalized, precision } = scientific.value;
+      return Result.ok({ normalized, precision, affixes });
+    }
+
+    return Result.err(
+      new ConversionError(
+        `Invalid USA number: ${value}`,
+        ErrorCode.INVALID_INPUT,
+        { input: value, format: "usa" },
+      ),
+    );
+  }
+
+  /**
+   * Round and write a number in an EU format
+   */
+  private formatEuNumber(normalized: string, precision: number, format: EUTargetFormat): string {
+    const rounded = new Decimal(normalized).toDecimalPlaces(precision, Decimal.ROUND_HALF_UP);
+    return formatLocaleNumber(rounded.toFixed(precision), format);
+  }
+
+  /**
+   * Convert USA number string directly, keeping percent and currency affixes (convenience method)
+   */
+  convertString(usaNumber: string, format: EUTargetFormat = "eu"): string | null {
+    const parsed = this.parseNumber(usaNumber);
+    if (Result.isErr(parsed)) {
+      return null;
+    }
+
+    const { normalized, precision, affixes } = parsed.value;
+    return formatEuAffixes(this.formatEuNumber(normalized, precision, format), affixes);
+  }
+}
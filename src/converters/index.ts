@@ -3,18 +3,66 @@
  */
 
 export { EurToUsdConverter } from "./currency/eur-to-usd.ts";
+export type { EurToUsdConverterOptions } from "./currency/eur-to-usd.ts";
 export type { EURAmount, USDAmount, ExchangeRate } from "./currency/types.ts";
+export { UsdToEurConverter } from "./currency/usd-to-eur.ts";
+export type { UsdToEurConverterOptions } from "./currency/usd-to-eur.ts";
+export type { USDAmountInput, EURAmountOutput } from "./currency/types.ts";
+export { CurrencyConverter } from "./currency/currency-converter.ts";
+export type { CurrencyConverterOptions } from "./currency/currency-converter.ts";
+export type { CurrencyAmount, ConvertedAmount } from "./currency/types.ts";
+export { ISO_4217_CURRENCIES, getCurrency, isSupportedCurrency } from "./currency/iso4217.ts";
+export type { CurrencyInfo } from "./currency/iso4217.ts";
+export { HistoricalRateStore } from "./currency/historical-rate-store.ts";
+export type {
+  HistoricalLookupRule,
+  HistoricalRateStoreConfig,
+} from "./currency/historical-rate-store.ts";
+export {
+  StaticRateProvider,
+  SimulatedRateProvider,
+  EcbFileRateProvider,
+  HttpRateProvider,
+  ExchangeRateProviderChain,
+} from "./currency/providers/index.ts";
+export type { ExchangeRateProvider, ExchangeRateProviderEntry } from "./currency/providers/index.ts";
 
 export { MetricToImperialConverter } from "./units/metric-to-imperial.ts";
+export type { MetricToImperialConverterOptions } from "./units/metric-to-imperial.ts";
+export { ImperialToMetricConverter } from "./units/imperial-to-metric.ts";
+export type { ImperialToMetricConverterOptions } from "./units/imperial-to-metric.ts";
 export type { 
   MetricMeasurement, 
   ImperialMeasurement, 
+  ImperialMeasurementInput,
+  MetricMeasurementOutput,
   MetricUnit, 
-  ImperialUnit 
+  ImperialUnit,
+  UnitDefinition,
+  UnitDimension,
 } from "./units/types.ts";
+export { UnitRegistry } from "./units/unit-registry.ts";
+export { MeasurementParser } from "./units/measurement-parser.ts";
+export { DEFAULT_UNIT_DEFINITIONS } from "./units/unit-definitions.ts";
 
 export { EuToUsaDateConverter } from "./dates/eu-to-usa-date.ts";
 export type { EUDate, USADate } from "./dates/eu-to-usa-date.ts";
+export { UsaToEuDateConverter } from "./dates/usa-to-eu-date.ts";
+export type { USADateInput, EUDateOutput } from "./dates/usa-to-eu-date.ts";
+export { parseDateText } from "./dates/date-text-parser.ts";
+export type { DateTextFormat, ParsedDateText } from "./dates/date-text-parser.ts";
+export { getDateOrderEvidence, inferDateOrder } from "./dates/date-order.ts";
+export type { DateOrderInference } from "./dates/date-order.ts";
 
 export { EuToUsaNumberConverter } from "./formats/eu-to-usa-number.ts";
-export type { EUNumber, USANumber } from "./formats/eu-to-usa-number.ts";
\ No newline at end of file
+export type { EUNumber, USANumber } from "./formats/eu-to-usa-number.ts";
+export { UsaToEuNumberConverter } from "./formats/usa-to-eu-number.ts";
+export type { USANumberInput, EUNumberOutput } from "./formats/usa-to-eu-number.ts";
+export {
+  formatLocaleNumber,
+  getLocaleNumberFormat,
+  parseLocaleNumber,
+} from "./formats/number-formats.ts";
+export type { NumberFormat, NumberFormatOption, ParsedNumber } from "./formats/number-formats.ts";
+export { formatEuAffixes, formatUsaAffixes, stripNumberAffixes } from "./formats/number-affixes.ts";
+export type { NumberAffixes, NumberKind } from "./formats/number-affixes.ts";
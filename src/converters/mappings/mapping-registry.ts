@@ -0,0 +1,222 @@
+import { ConversionError, ErrorCode, Result } from "../../shared/types/index.ts";
+import { CountryInfo, findCountry } from "../../shared/countries/index.ts";
+import { z } from "zod";
+
+/**
+ * Country mapping table: which US state or area code stands in for an EU country
+ */
+export const CountryMappingsSchema = z.object({
+  version: z.string().min(1), // Recorded on every conversion that used the table
+  defaults: z.object({
+    state: z.string().regex(/^[A-Z]{2}$/), // For countries without a state mapping
+    areaCode: z.string().regex(/^\d{3}$/), // For dialing codes without an area code mapping
+  }),
+  countryToState: z.record(z.string(), z.string().regex(/^[A-Z]{2}$/)), // "Germany", "DE" or "Deutschland" -> "TX"
+  dialingCodeToAreaCode: z.record(z.string().regex(/^\d{1,3}$/), z.string().regex(/^\d{3}$/)), // "49" -> "312"
+});
+
+export type CountryMappings = z.infer<typeof CountryMappingsSchema>;
+
+/**
+ * Built-in mappings used when no mapping file is configured
+ */
+export const DEFAULT_COUNTRY_MAPPINGS: CountryMappings = {
+  version: "builtin-1",
+  defaults: {
+    state: "NY",
+    areaCode: "212",
+  },
+  countryToState: {
+    "Germany": "TX", // Texas (large industrial)
+    "France": "CA", // California (diverse economy)
+    "Italy": "NY", // New York (cultural center)
+    "Spain": "FL", // Florida (tourism)
+    "Netherlands": "MA", // Massachusetts (trade hub)
+    "Belgium": "DC", // Washington DC (capital region)
+    "Poland": "IL", // Illinois (industrial)
+    "Sweden": "WA", // Washington (tech hub)
+    "Denmark": "OR", // Oregon (progressive)
+    "Austria": "CO", // Colorado (mountainous)
+    "Ireland": "MA", // Massachusetts (Irish heritage)
+    "Portugal": "RI", // Rhode Island (coastal)
+    "Greece": "FL", // Florida (tourism, coastal)
+    "Czech Republic": "OH", // Ohio (industrial)
+    "Finland": "MN", // Minnesota (cold climate)
+    "Luxembourg": "DE", // Delaware (finance)
+    "Hungary": "NJ", // New Jersey
+  },
+  dialingCodeToAreaCode: {
+    "44": "212", // UK → New York
+    "33": "310", // France → Los Angeles
+    "49": "312", // Germany → Chicago
+    "39": "305", // Italy → Miami
+    "34": "415", // Spain → San Francisco
+    "31": "617", // Netherlands → Boston
+    "32": "202", // Belgium → Washington DC
+    "48": "773", // Poland → Chicago
+    "46": "206", // Sweden → Seattle
+    "45": "503", // Denmark → Portland
+    "43": "303", // Austria → Denver
+    "353": "617", // Ireland → Boston
+    "351": "401", // Portugal → Rhode Island
+    "30": "305", // Greece → Miami
+    "420": "216", // Czech Republic → Cleveland
+    "358": "612", // Finland → Minneapolis
+  },
+};
+
+/**
+ * Validated country mapping tables shared by the address, tax and phone converters
+ */
+export class MappingRegistry {
+  private readonly states = new Map<string, string>(); // By ISO alpha-2 code
+
+  private constructor(private readonly mappings: CountryMappings) {
+    for (const [country, state] of Object.entries(mappings.countryToState)) {
+      const found = findCountry(country);
+      if (found) {
+        this.states.set(found.alpha2, state);
+      }
+    }
+  }
+
+  /**
+   * Registry over the built-in mappings
+   */
+  static default(): MappingRegistry {
+    return new MappingRegistry(DEFAULT_COUNTRY_MAPPINGS);
+  }
+
+  /**
+   * Validate parsed mapping data
+   */
+  static fromObject(data: unknown, source = "mappings"): Result<MappingRegistry, ConversionError> {
+    const parsed = CountryMappingsSchema.safeParse(data);
+    if (!parsed.success) {
+      return Result.err(
+        new ConversionError(
+          `Invalid country mappings in ${source}: ${
+            parsed.error.issues
+              .map((issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`)
+              .join("; ")
+          }`,
+          ErrorCode.CONFIGURATION_ERROR,
+          { source, issues: parsed.error.issues },
+        ),
+      );
+    }
+
+    const unknown = Object.keys(parsed.data.countryToState).filter((country) =>
+      !findCountry(country)
+    );
+    if (unknown.length > 0) {
+      return Result.err(
+        new ConversionError(
+          `Invalid country mappings in ${source}: unknown countries ${unknown.join(", ")}`,
+          ErrorCode.CONFIGURATION_ERROR,
+          { source, unknownCountries: unknown },
+        ),
+      );
+    }
+
+    return Result.ok(new MappingRegistry(parsed.data));
+  }
+
+  /**
+   * Load and validate a mapping file (.json, .yaml or .yml)
+   */
+  static async fromFile(path: string): Promise<Result<MappingRegistry, ConversionError>> {
+    try {
+      const text = await Deno.readTextFile(path);
+      const data = /\.ya?ml$/i.test(path)
+        ? (await import("yaml")).parse(text)
+        : JSON.parse(text);
+      return MappingRegistry.fromObject(data, path);
+    } catch (error) {
+      return Result.err(
+        new ConversionError(
+          `Failed to load country mappings: ${
+            error instanceof Error ? error.message : "Unknown error"
+          }`,
+          ErrorCode.CONFIGURATION_ERROR,
+          { path, error },
+        ),
+      );
+    }
+  }
+
+  /**
+   * Version of the loaded mapping table
+   */
+  get version(): string {
+    return this.mappings.version;
+  }
+
+  /**
+   * US state standing in for an EU country, given by code or any recognized name
+   */
+  getState(country: string): string {
+    const found = findCountry(country);
+    return (found && this.states.get(found.alpha2)) ?? this.mappings.defaults.state;
+  }
+
+  /**
+   * EU countries a US state stands in for; several when the table maps more than one country
+   * to the state (the built-in table maps both the Netherlands and Ireland to MA)
+   */
+  getCountries(state: string): CountryInfo[] {
+    const code = state.trim().toUpperCase();
+    return [...this.states.entries()]
+      .filter(([, mapped]) => mapped === code)
+      .flatMap(([alpha2]) => findCountry(alpha2) ?? []);
+  }
+
+  /**
+   * The one EU country a US state stands in for
+   * @param prefer Narrows several mapped countries to those it accepts, when any are left
+   * @returns The country, UNKNOWN_COUNTRY when none is mapped to the state, or AMBIGUOUS_INPUT
+   *   when several remain
+   */
+  getCountry(
+    state: string,
+    prefer?: (country: CountryInfo) => boolean,
+  ): Result<CountryInfo, ConversionError> {
+    const code = state.trim().toUpperCase();
+    let countries = this.getCountries(code);
+    if (prefer && countries.length > 1) {
+      const preferred = countries.filter(prefer);
+      countries = preferred.length > 0 ? preferred : countries;
+    }
+
+    if (countries.length === 0) {
+      return Result.err(
+        new ConversionError(
+          `No EU country is mapped to state ${code}`,
+          ErrorCode.UNKNOWN_COUNTRY,
+          { field: "state", state: code, mappingVersion: this.version },
+        ),
+      );
+    }
+
+    if (countries.length > 1) {
+      const alpha2 = countries.map((country) => country.alpha2);
+      return Result.err(
+        new ConversionError(
+          `State ${code} maps to several EU countries (${alpha2.join(", ")}); pass the country`,
+          ErrorCode.AMBIGUOUS_INPUT,
+          { field: "state", state: code, countries: alpha2 },
+        ),
+      );
+    }
+
+    return Result.ok(countries[0]);
+  }
+
+  /**
+   * US area code standing in for an international dialing code ("+49" or "49")
+   */
+  getAreaCode(dialingCode: string): string {
+    const code = dialingCode.replace("+", "");
+    return this.mappings.dialingCodeToAreaCode[code] ?? this.mappings.defaults.areaCode;
+  }
+}
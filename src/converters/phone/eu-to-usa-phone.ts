@@ -7,12 +7,19 @@ import {
   Result,
 } from "../../shared/types/index.ts";
 import { z } from "zod";
+import { MappingRegistry } from "../mappings/mapping-registry.ts";
+import {
+  CountryInfo,
+  findCountry,
+  findCountryByDialingCode,
+} from "../../shared/countries/index.ts";
+import { InternationalPhoneSchema, NUMBERING_PLANS, parsePhoneNumber } from "./numbering-plans.ts";
 
 /**
  * EU phone number format schema
  */
 export const EUPhoneSchema = z.object({
-  countryCode: z.string(),
+  countryCode: z.string(), // Dialing code ("+49", "0049", "49") or country ("DE", "DEU", "Deutschland")
   number: z.string(),
   extension: z.string().optional(),
   type: z.enum(["mobile", "landline", "voip"]).optional(),
@@ -25,43 +32,41 @@ export type EUPhone = z.infer<typeof EUPhoneSchema>;
  */
 export const USAPhoneSchema = z.object({
   countryCode: z.string(),
-  areaCode: z.string(),
-  exchangeCode: z.string(),
-  lineNumber: z.string(),
+  areaCode: z.string().optional(), // Mapped US components; omitted in international mode
+  exchangeCode: z.string().optional(),
+  lineNumber: z.string().optional(),
   extension: z.string().optional(),
   formatted: z.string(),
   e164: z.string(),
   type: z.enum(["mobile", "landline", "voip"]).optional(),
+  mappingVersion: z.string(), // Version of the country mapping table used for the area code
+  international: InternationalPhoneSchema.optional(), // The real number when international mode is enabled
 });
 
 export type USAPhone = z.infer<typeof USAPhoneSchema>;
 
-/**
- * EU country codes to US area codes mapping (for demonstration)
- */
-const EU_COUNTRY_CODE_TO_US_AREA: Record<string, string> = {
-  "44": "212",  // UK → New York
-  "33": "310",  // France → Los Angeles
-  "49": "312",  // Germany → Chicago
-  "39": "305",  // Italy → Miami
-  "34": "415",  // Spain → San Francisco
-  "31": "617",  // Netherlands → Boston
-  "32": "202",  // Belgium → Washington DC
-  "48": "773",  // Poland → Chicago
-  "46": "206",  // Sweden → Seattle
-  "45": "503",  // Denmark → Portland
-  "43": "303",  // Austria → Denver
-  "353": "617", // Ireland → Boston
-  "351": "401", // Portugal → Rhode Island
-  "30": "305",  // Greece → Miami
-  "420": "216", // Czech Republic → Cleveland
-  "358": "612", // Finland → Minneapolis
-};
+export interface EuToUsaPhoneConverterOptions {
+  /** Dialing code to area code mappings; defaults to the built-in table */
+  mappings?: MappingRegistry;
+  /**
+   * Keep the real number: validate it against the country's numbering plan and output
+   * its E.164 form and US international dialing format instead of a mapped US number
+   */
+  international?: boolean;
+}
 
 /**
  * Converts EU phone numbers to USA format
  */
 export class EuToUsaPhoneConverter implements Converter<EUPhone, USAPhone> {
+  private readonly mappings: MappingRegistry;
+  private readonly international: boolean;
+
+  constructor(options: EuToUsaPhoneConverterOptions = {}) {
+    this.mappings = options.mappings ?? MappingRegistry.default();
+    this.international = options.international ?? false;
+  }
+
   /**
    * Convert EU phone to USA format
    */
@@ -81,11 +86,46 @@ export class EuToUsaPhoneConverter implements Converter<EUPhone, USAPhone> {
         );
       }
 
+      const country = this.resolveCountry(input.countryCode);
+      if (Result.isErr(country)) {
+        return country;
+      }
+
+      // Keep the real number, dialed from the US; the mapped US components are omitted
+      if (this.international) {
+        const plan = NUMBERING_PLANS[country.value.alpha2];
+        if (!plan) {
+          return Result.err(
+            new ConversionError(
+              `No numbering plan for ${country.value.name}`,
+              ErrorCode.UNSUPPORTED_FORMAT,
+              { field: "countryCode", countryCode: input.countryCode },
+            ),
+          );
+        }
+
+        const parsed = parsePhoneNumber(input.number, plan);
+        if (Result.isErr(parsed)) {
+          return parsed;
+        }
+        return Result.ok({
+          countryCode: parsed.value.countryCode,
+          extension: input.extension,
+          formatted: input.extension
+            ? `${parsed.value.usDialing} ext. ${input.extension}`
+            : parsed.value.usDialing,
+          e164: parsed.value.e164,
+          type: input.type ?? parsed.value.type,
+          mappingVersion: this.mappings.version,
+          international: parsed.value,
+        });
+      }
+
       // Clean the phone number
       const cleanedNumber = this.cleanPhoneNumber(input.number);
       
       // Map to US area code based on country
-      const areaCode = this.mapToUSAreaCode(input.countryCode);
+      const areaCode = this.mapToUSAreaCode(country.value.dialingCode);
       
       // Extract or generate exchange and line numbers
       const { exchangeCode, lineNumber } = this.extractUSPhoneComponents(cleanedNumber);
@@ -103,6 +143,7 @@ export class EuToUsaPhoneConverter implements Converter<EUPhone, USAPhone> {
         formatted,
         e164,
         type: input.type,
+        mappingVersion: this.mappings.version,
       };
 
       return Result.ok(result);
@@ -152,19 +193,31 @@ export class EuToUsaPhoneConverter implements Converter<EUPhone, USAPhone> {
   }
 
   /**
-   * Map EU country code to US area code
+   * Country of a dialing code, or of a country code or name; digits are always a dialing code
    */
-  private mapToUSAreaCode(countryCode: string): string {
-    // Remove + if present
-    const code = countryCode.replace("+", "");
-    
-    const areaCode = EU_COUNTRY_CODE_TO_US_AREA[code];
-    if (areaCode) {
-      return areaCode;
+  private resolveCountry(countryCode: string): Result<CountryInfo, ConversionError> {
+    const country = /^\s*(?:\+|00)?\d{1,3}\s*$/.test(countryCode)
+      ? findCountryByDialingCode(countryCode)
+      : findCountry(countryCode);
+
+    if (!country) {
+      return Result.err(
+        new ConversionError(
+          `Unknown country: ${countryCode}`,
+          ErrorCode.UNKNOWN_COUNTRY,
+          { field: "countryCode", countryCode },
+        ),
+      );
     }
-    
-    // Default to New York area code
-    return "212";
+    return Result.ok(country);
+  }
+
+  /**
+   * Map EU dialing code to US area code
+   */
+  private mapToUSAreaCode(countryCode: string): string {
+    // Mapped area code, or the table's default (New York in the built-in table)
+    return this.mappings.getAreaCode(countryCode);
   }
 
   /**
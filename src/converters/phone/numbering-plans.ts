@@ -0,0 +1,344 @@
+import { ConversionError, ErrorCode, Result } from "../../shared/types/index.ts";
+import { z } from "zod";
+
+/**
+ * National numbering plan of a country, as far as needed to dial it from abroad
+ */
+export interface NumberingPlan {
+  country: string; // ISO 3166-1 alpha-2
+  dialingCode: string;
+  trunkPrefix?: string; // Dialed only within the country and dropped from abroad ("0" in "030 1234567")
+  minLength: number; // Digits of the national significant number, without trunk prefix
+  maxLength: number;
+  mobilePrefixes: string[]; // Leading digits of mobile national significant numbers
+}
+
+/**
+ * Phone number in international form
+ */
+export const InternationalPhoneSchema = z.object({
+  country: z.string(), // ISO 3166-1 alpha-2
+  countryCode: z.string(), // "+49"
+  nationalNumber: z.string(), // National significant number: "301234567"
+  e164: z.string(), // "+49301234567"
+  national: z.string(), // Dialed within the country, keeping the input's grouping: "030 1234567"
+  internationalFormat: z.string(), // ITU-T E.123 international notation: "+49 30 1234567"
+  usDialing: z.string(), // Dialed from the US, keeping the input's grouping: "011 49 30 1234567"
+  type: z.enum(["mobile", "landline"]),
+});
+
+export type InternationalPhone = z.infer<typeof InternationalPhoneSchema>;
+
+/**
+ * Numbering plans by ISO 3166-1 alpha-2 code (EU, EEA, Switzerland and the UK)
+ */
+export const NUMBERING_PLANS: Record<string, NumberingPlan> = {
+  AT: {
+    country: "AT",
+    dialingCode: "43",
+    trunkPrefix: "0",
+    minLength: 4,
+    maxLength: 13,
+    mobilePrefixes: ["6"],
+  },
+  BE: {
+    country: "BE",
+    dialingCode: "32",
+    trunkPrefix: "0",
+    minLength: 8,
+    maxLength: 9,
+    mobilePrefixes: ["46", "47", "48", "49"],
+  },
+  BG: {
+    country: "BG",
+    dialingCode: "359",
+    trunkPrefix: "0",
+    minLength: 8,
+    maxLength: 9,
+    mobilePrefixes: ["87", "88", "89", "98"],
+  },
+  HR: {
+    country: "HR",
+    dialingCode: "385",
+    trunkPrefix: "0",
+    minLength: 8,
+    maxLength: 9,
+    mobilePrefixes: ["9"],
+  },
+  CY: { country: "CY", dialingCode: "357", minLength: 8, maxLength: 8, mobilePrefixes: ["9"] },
+  CZ: {
+    country: "CZ",
+    dialingCode: "420",
+    minLength: 9,
+    maxLength: 9,
+    mobilePrefixes: ["60", "70", "72", "73", "77", "79"],
+  },
+  DK: {
+    country: "DK",
+    dialingCode: "45",
+    minLength: 8,
+    maxLength: 8,
+    mobilePrefixes: [
+      "2",
+      "30",
+      "31",
+      "40",
+      "41",
+      "42",
+      "50",
+      "51",
+      "52",
+      "53",
+      "60",
+      "61",
+      "71",
+      "81",
+      "91",
+      "92",
+      "93",
+    ],
+  },
+  EE: { country: "EE", dialingCode: "372", minLength: 7, maxLength: 8, mobilePrefixes: ["5", "8"] },
+  FI: {
+    country: "FI",
+    dialingCode: "358",
+    trunkPrefix: "0",
+    minLength: 5,
+    maxLength: 12,
+    mobilePrefixes: ["4", "50"],
+  },
+  FR: {
+    country: "FR",
+    dialingCode: "33",
+    trunkPrefix: "0",
+    minLength: 9,
+    maxLength: 9,
+    mobilePrefixes: ["6", "7"],
+  },
+  DE: {
+    country: "DE",
+    dialingCode: "49",
+    trunkPrefix: "0",
+    minLength: 6,
+    maxLength: 11,
+    mobilePrefixes: ["15", "16", "17"],
+  },
+  GR: { country: "GR", dialingCode: "30", minLength: 10, maxLength: 10, mobilePrefixes: ["69"] },
+  HU: {
+    country: "HU",
+    dialingCode: "36",
+    trunkPrefix: "06",
+    minLength: 8,
+    maxLength: 9,
+    mobilePrefixes: ["20", "30", "31", "50", "70"],
+  },
+  IE: {
+    country: "IE",
+    dialingCode: "353",
+    trunkPrefix: "0",
+    minLength: 7,
+    maxLength: 9,
+    mobilePrefixes: ["83", "85", "86", "87", "89"],
+  },
+  IT: {
+    // Landline numbers keep their leading 0 from abroad
+    country: "IT",
+    dialingCode: "39",
+    minLength: 6,
+    maxLength: 11,
+    mobilePrefixes: ["3"],
+  },
+  LV: { country: "LV", dialingCode: "371", minLength: 8, maxLength: 8, mobilePrefixes: ["2"] },
+  LT: {
+    country: "LT",
+    dialingCode: "370",
+    trunkPrefix: "8",
+    minLength: 8,
+    maxLength: 8,
+    mobilePrefixes: ["6"],
+  },
+  LU: { country: "LU", dialingCode: "352", minLength: 4, maxLength: 11, mobilePrefixes: ["6"] },
+  MT: {
+    country: "MT",
+    dialingCode: "356",
+    minLength: 8,
+    maxLength: 8,
+    mobilePrefixes: ["7", "9"],
+  },
+  NL: {
+    country: "NL",
+    dialingCode: "31",
+    trunkPrefix: "0",
+    minLength: 9,
+    maxLength: 9,
+    mobilePrefixes: ["6"],
+  },
+  PL: {
+    country: "PL",
+    dialingCode: "48",
+    minLength: 9,
+    maxLength: 9,
+    mobilePrefixes: ["45", "50", "51", "53", "57", "60", "66", "69", "72", "73", "78", "79", "88"],
+  },
+  PT: { country: "PT", dialingCode: "351", minLength: 9, maxLength: 9, mobilePrefixes: ["9"] },
+  RO: {
+    country: "RO",
+    dialingCode: "40",
+    trunkPrefix: "0",
+    minLength: 9,
+    maxLength: 9,
+    mobilePrefixes: ["7"],
+  },
+  SK: {
+    country: "SK",
+    dialingCode: "421",
+    trunkPrefix: "0",
+    minLength: 9,
+    maxLength: 9,
+    mobilePrefixes: ["9"],
+  },
+  SI: {
+    country: "SI",
+    dialingCode: "386",
+    trunkPrefix: "0",
+    minLength: 8,
+    maxLength: 8,
+    mobilePrefixes: ["30", "31", "40", "41", "51", "64", "65", "68", "69", "70", "71"],
+  },
+  ES: {
+    country: "ES",
+    dialingCode: "34",
+    minLength: 9,
+    maxLength: 9,
+    mobilePrefixes: ["6", "7"],
+  },
+  SE: {
+    country: "SE",
+    dialingCode: "46",
+    trunkPrefix: "0",
+    minLength: 7,
+    maxLength: 9,
+    mobilePrefixes: ["70", "72", "73", "76", "79"],
+  },
+  IS: {
+    country: "IS",
+    dialingCode: "354",
+    minLength: 7,
+    maxLength: 7,
+    mobilePrefixes: ["6", "7", "8"],
+  },
+  LI: { country: "LI", dialingCode: "423", minLength: 7, maxLength: 7, mobilePrefixes: ["7"] },
+  NO: {
+    country: "NO",
+    dialingCode: "47",
+    minLength: 8,
+    maxLength: 8,
+    mobilePrefixes: ["4", "9"],
+  },
+  CH: {
+    country: "CH",
+    dialingCode: "41",
+    trunkPrefix: "0",
+    minLength: 9,
+    maxLength: 9,
+    mobilePrefixes: ["75", "76", "77", "78", "79"],
+  },
+  GB: {
+    country: "GB",
+    dialingCode: "44",
+    trunkPrefix: "0",
+    minLength: 9,
+    maxLength: 10,
+    mobilePrefixes: ["71", "72", "73", "74", "75", "77", "78", "79"],
+  },
+};
+
+/**
+ * International call prefix dialed from the US (NANP)
+ */
+const US_EXIT_CODE = "011";
+
+/**
+ * Parse a number written in national ("030 1234567") or international ("+49 (0)30 1234567",
+ * "0049 30 1234567") form against a country's numbering plan
+ */
+export function parsePhoneNumber(
+  number: string,
+  plan: NumberingPlan,
+): Result<InternationalPhone, ConversionError> {
+  const invalid = (reason: string): Result<InternationalPhone, ConversionError> =>
+    Result.err(
+      new ConversionError(
+        `Invalid phone number "${number}" for ${plan.country}: ${reason}`,
+        ErrorCode.INVALID_INPUT,
+        { field: "number", number, country: plan.country },
+      ),
+    );
+
+  // Groups of digits as written, without the "(0)" trunk prefix hint
+  let groups = number
+    .replace(/\(0\)/g, " ")
+    .split(/[\s\-/().]+/)
+    .filter(Boolean);
+  if (groups.some((group) => !/^\+?\d+$/.test(group))) {
+    return invalid("unexpected characters");
+  }
+
+  // Drop the international prefix and country code, or the trunk prefix
+  const international = /^(?:\+|00)(\d*)$/.exec(groups[0] ?? "");
+  if (international) {
+    const digits = [international[1], ...groups.slice(1)].join("");
+    if (!digits.startsWith(plan.dialingCode)) {
+      return invalid(`country code is not +${plan.dialingCode}`);
+    }
+    groups = stripLeadingDigits([international[1], ...groups.slice(1)], plan.dialingCode.length);
+  } else if (plan.trunkPrefix && groups.join("").startsWith(plan.trunkPrefix)) {
+    groups = stripLeadingDigits(groups, plan.trunkPrefix.length);
+  }
+
+  const nationalNumber = groups.join("");
+  if (plan.trunkPrefix && nationalNumber.startsWith("0")) {
+    return invalid("unexpected leading 0");
+  }
+  if (nationalNumber.length < plan.minLength || nationalNumber.length > plan.maxLength) {
+    return invalid(
+      plan.minLength === plan.maxLength
+        ? `expected ${plan.minLength} digits`
+        : `expected ${plan.minLength}-${plan.maxLength} digits`,
+    );
+  }
+
+  // A one-digit trunk prefix joins the area code ("030"); longer ones stand apart ("06 20")
+  const trunkPrefix = plan.trunkPrefix ?? "";
+
+  return Result.ok({
+    country: plan.country,
+    countryCode: `+${plan.dialingCode}`,
+    nationalNumber,
+    e164: `+${plan.dialingCode}${nationalNumber}`,
+    national: trunkPrefix.length > 1
+      ? [trunkPrefix, ...groups].join(" ")
+      : `${trunkPrefix}${groups.join(" ")}`,
+    internationalFormat: [`+${plan.dialingCode}`, ...groups].join(" "),
+    usDialing: [US_EXIT_CODE, plan.dialingCode, ...groups].join(" "),
+    type: plan.mobilePrefixes.some((prefix) => nationalNumber.startsWith(prefix))
+      ? "mobile"
+      : "landline",
+  });
+}
+
+/**
+ * Remove leading digits across groups, dropping groups that become empty
+ */
+function stripLeadingDigits(groups: string[], count: number): string[] {
+  const result: string[] = [];
+  let remaining = count;
+  for (const group of groups) {
+    const dropped = Math.min(remaining, group.length);
+    remaining -= dropped;
+    if (group.length > dropped) {
+      result.push(group.slice(dropped));
+    }
+  }
+  return result;
+}
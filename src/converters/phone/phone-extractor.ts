@@ -0,0 +1,152 @@
+import { findCountry, findCountryByDialingCode } from "../../shared/countries/index.ts";
+import type { EUPhone } from "./eu-to-usa-phone.ts";
+
+export interface PhoneExtractionOptions {
+  /** Country of numbers written without a country code; such numbers are skipped without it */
+  defaultCountry?: string;
+  /** Fewest digits a match needs to count as a phone number (default 6) */
+  minDigits?: number;
+}
+
+/**
+ * Extension keywords in EU languages, matched case-insensitively after a number
+ */
+const EXTENSION_KEYWORDS = [
+  "extension", // English
+  "ext",
+  "x",
+  "durchwahl", // German
+  "dw",
+  "apparat",
+  "app",
+  "nebenstelle",
+  "poste", // French
+  "extensión", // Spanish
+  "interno", // Italian
+  "int",
+  "toestel", // Dutch
+  "tst",
+  "wewnętrzny", // Polish
+  "wewn",
+  "wew",
+  "anknytning", // Swedish
+  "ankn",
+  "lokal", // Danish and Norwegian
+  "ramal", // Portuguese
+  "klapka", // Czech and Slovak
+  "kl",
+  "mellék", // Hungarian
+];
+
+const KEYWORD_PATTERN = [...EXTENSION_KEYWORDS]
+  .sort((a, b) => b.length - a.length)
+  .join("|");
+
+/**
+ * International or national number: digits with spaces, hyphens, slashes, dots and parentheses,
+ * optionally ending in vanity words ("0800 FLOWERS", "800 CALL NOW")
+ */
+const PHONE_CANDIDATE = new RegExp(
+  String.raw`(?<![\w+])(?:\+|00)?\(?\d[\d \t\-/.()]*\d\)?` +
+    String.raw`(?:[ \t-]?(?!(?:${KEYWORD_PATTERN.toUpperCase()})\b)[A-Z]{3,}\d*)*`,
+  "g",
+);
+
+const EXTENSION = new RegExp(
+  String.raw`^\s*[,;]?\s*(?:${KEYWORD_PATTERN})\.?\s*[.:#]?\s*(\d{1,6})\b`,
+  "iu",
+);
+
+/**
+ * Dates written with digits only ("12.03.2024", "01/02/24") look like numbers
+ */
+const DATE = /^\d{1,2}[./]\d{1,2}[./](?:\d{2}|\d{4})$/;
+
+/**
+ * Telephone keypad letters
+ */
+const KEYPAD: Record<string, string> = Object.fromEntries(
+  ["ABC", "DEF", "GHI", "JKL", "MNO", "PQRS", "TUV", "WXYZ"].flatMap((letters, i) =>
+    [...letters].map((letter) => [letter, String(i + 2)])
+  ),
+);
+
+/**
+ * Find phone numbers in free text ("Tel.: +49 (0)30 123 456-78 Durchwahl 12",
+ * "0044 20 7946 0958 ext. 3") and split them into country code, number and extension
+ */
+export function extractPhoneNumbers(text: string, options: PhoneExtractionOptions = {}): EUPhone[] {
+  const minDigits = options.minDigits ?? 6;
+  const defaultCountry = options.defaultCountry ? findCountry(options.defaultCountry) : undefined;
+  const phones: EUPhone[] = [];
+
+  for (const match of text.matchAll(PHONE_CANDIDATE)) {
+    const candidate = match[0].replace(/[ \t\-/.(]+$/, "");
+    if (DATE.test(candidate)) {
+      continue;
+    }
+    const number = candidate.replace(/[A-Z]/g, (letter) => KEYPAD[letter]);
+    if (number.replace(/\D/g, "").length < minDigits) {
+      continue;
+    }
+
+    const extension = EXTENSION.exec(text.slice(match.index + match[0].length))?.[1];
+    const phone = splitCountryCode(number, defaultCountry?.dialingCode);
+    if (phone) {
+      phones.push(extension ? { ...phone, extension } : phone);
+    }
+  }
+
+  return phones;
+}
+
+/**
+ * Separate the country code of an international number, or apply the default country
+ */
+function splitCountryCode(number: string, defaultDialingCode?: string): EUPhone | null {
+  const international = /^(?:\+|00)/.exec(number);
+  if (!international) {
+    return defaultDialingCode
+      ? { countryCode: `+${defaultDialingCode}`, number: normalizeSeparators(number) }
+      : null;
+  }
+
+  // "(0)" marks the trunk prefix, which is not dialed after the country code
+  const rest = number.slice(international[0].length).replace(/\(0\)/g, " ");
+  const digits = rest.replace(/\D/g, "");
+  for (const length of [1, 2, 3]) {
+    const country = findCountryByDialingCode(digits.slice(0, length));
+    if (country) {
+      return {
+        countryCode: `+${country.dialingCode}`,
+        number: normalizeSeparators(skipDigits(rest, length)),
+      };
+    }
+  }
+  return null;
+}
+
+/**
+ * Text after the first `count` digits
+ */
+function skipDigits(text: string, count: number): string {
+  let seen = 0;
+  for (let i = 0; i < text.length; i++) {
+    if (/\d/.test(text[i]) && ++seen === count) {
+      return text.slice(i + 1);
+    }
+  }
+  return "";
+}
+
+/**
+ * Keep digit groups and hyphens, with single spaces between groups
+ */
+function normalizeSeparators(number: string): string {
+  return number
+    .replace(/[()/.\t]/g, " ")
+    .replace(/\s+/g, " ")
+    .replace(/\s*-\s*/g, "-")
+    .replace(/^[\s-]+/, "")
+    .trim();
+}
@@ -0,0 +1,218 @@
+import {
+  ConversionError,
+  Converter,
+  ConverterConfig,
+  ConverterMetadata,
+  ErrorCode,
+  Result,
+} from "../../shared/types/index.ts";
+import { z } from "zod";
+import { findCountryByDialingCode } from "../../shared/countries/index.ts";
+import { NUMBERING_PLANS, parsePhoneNumber } from "./numbering-plans.ts";
+
+/**
+ * USA phone input schema: a NANP number ("(312) 555-1234", "+1 312 555 1234") or an
+ * international number dialed from the US ("011 49 30 1234567", "+49 30 1234567")
+ */
+export const USAPhoneInputSchema = z.object({
+  number: z.string(),
+  extension: z.string().optional(), // Otherwise read from "ext. 12" or "x12" after the number
+  type: z.enum(["mobile", "landline", "voip"]).optional(),
+});
+
+export type USAPhoneInput = z.infer<typeof USAPhoneInputSchema>;
+
+/**
+ * EU phone output schema
+ */
+export const EUPhoneOutputSchema = z.object({
+  countryCode: z.string(), // "+49"
+  country: z.string(), // ISO 3166-1 alpha-2
+  number: z.string(), // National form: "030 1234567"
+  extension: z.string().optional(),
+  e164: z.string(),
+  euDialing: z.string(), // Dialed from the EU: "00 49 30 1234567"
+  formatted: z.string(), // ITU-T E.123 international notation: "+49 30 1234567"
+  type: z.enum(["mobile", "landline", "voip"]).optional(),
+});
+
+export type EUPhoneOutput = z.infer<typeof EUPhoneOutputSchema>;
+
+/**
+ * International call prefix dialed from the EU
+ */
+const EU_EXIT_CODE = "00";
+
+/**
+ * US international call prefix or "+" in front of a number
+ */
+const INTERNATIONAL_PREFIX = /^\s*(?:\+|011[\s\-.]*)/;
+
+const EXTENSION_SUFFIX = /\s*(?:ext\.?|x|#)\s*(\d+)\s*$/i;
+
+/**
+ * NANP number: optional country code 1, then area code and exchange code starting with 2-9
+ */
+const NANP_NUMBER = /^1?([2-9]\d{2})([2-9]\d{2})(\d{4})$/;
+
+/**
+ * Converts USA phone numbers to EU format
+ */
+export class UsaToEuPhoneConverter implements Converter<USAPhoneInput, EUPhoneOutput> {
+  /**
+   * Convert USA phone to EU format
+   */
+  async convert(
+    input: USAPhoneInput,
+    config?: ConverterConfig,
+  ): Promise<Result<EUPhoneOutput, ConversionError>> {
+    try {
+      // Validate input if not skipped
+      if (!config?.skipValidation && !this.validate(input)) {
+        return Result.err(
+          new ConversionError(
+            "Invalid USA phone format",
+            ErrorCode.INVALID_INPUT,
+            { input },
+          ),
+        );
+      }
+
+      const extensionMatch = EXTENSION_SUFFIX.exec(input.number);
+      const extension = input.extension ?? extensionMatch?.[1];
+      const number = extensionMatch ? input.number.slice(0, extensionMatch.index) : input.number;
+
+      // "+1" numbers are North American; any other country code is dialed internationally
+      const prefix = INTERNATIONAL_PREFIX.exec(number);
+      const dialed = prefix ? number.slice(prefix[0].length).trim() : undefined;
+      const result = dialed !== undefined && !dialed.startsWith("1")
+        ? this.convertInternational(dialed, input)
+        : this.convertNanp(number, input);
+      if (Result.isErr(result)) {
+        return result;
+      }
+
+      if (extension) {
+        result.value.extension = extension;
+        result.value.formatted += ` ext. ${extension}`;
+      }
+
+      return result;
+    } catch (error) {
+      return Result.err(
+        new ConversionError(
+          `Phone conversion failed: ${error instanceof Error ? error.message : "Unknown error"}`,
+          ErrorCode.CONVERSION_FAILED,
+          { input, error },
+          false,
+        ),
+      );
+    }
+  }
+
+  /**
+   * Validate input is a valid USA phone
+   */
+  validate(input: unknown): input is USAPhoneInput {
+    const result = USAPhoneInputSchema.safeParse(input);
+    return result.success;
+  }
+
+  /**
+   * Get converter metadata
+   */
+  getMetadata(): ConverterMetadata {
+    return {
+      name: "USA to EU Phone Converter",
+      version: "1.0.0",
+      inputType: "USAPhoneInput",
+      outputType: "EUPhoneOutput",
+      description: "Converts USA and internationally dialed phone numbers to EU format",
+      performanceTarget: {
+        p50: 5,
+        p95: 10,
+        p99: 20,
+      },
+    };
+  }
+
+  /**
+   * Convert a number dialed internationally, validated against its country's numbering plan
+   * @param number The number after the international prefix ("49 30 1234567")
+   */
+  private convertInternational(
+    number: string,
+    input: USAPhoneInput,
+  ): Result<EUPhoneOutput, ConversionError> {
+    // Dialing codes are prefix-free, so the first 1-3 digits name exactly one country
+    const digits = number.replace(/\D/g, "");
+    const country = [1, 2, 3]
+      .map((length) => findCountryByDialingCode(digits.slice(0, length)))
+      .find((found) => found !== undefined);
+    if (!country) {
+      return Result.err(
+        new ConversionError(
+          `Unknown country code in ${input.number}`,
+          ErrorCode.UNKNOWN_COUNTRY,
+          { field: "number", number: input.number },
+        ),
+      );
+    }
+
+    const plan = NUMBERING_PLANS[country.alpha2];
+    if (!plan) {
+      return Result.err(
+        new ConversionError(
+          `No numbering plan for ${country.name}`,
+          ErrorCode.UNSUPPORTED_FORMAT,
+          { field: "number", number: input.number },
+        ),
+      );
+    }
+
+    const parsed = parsePhoneNumber(`+${number}`, plan);
+    if (Result.isErr(parsed)) {
+      return parsed;
+    }
+
+    return Result.ok({
+      countryCode: parsed.value.countryCode,
+      country: parsed.value.country,
+      number: parsed.value.national,
+      e164: parsed.value.e164,
+      euDialing: `${EU_EXIT_CODE} ${parsed.value.internationalFormat.slice(1)}`,
+      formatted: parsed.value.internationalFormat,
+      type: input.type ?? parsed.value.type,
+    });
+  }
+
+  /**
+   * Convert a North American number, written for dialing from the EU
+   */
+  private convertNanp(
+    number: string,
+    input: USAPhoneInput,
+  ): Result<EUPhoneOutput, ConversionError> {
+    const match = NANP_NUMBER.exec(number.replace(/\D/g, ""));
+    if (!match) {
+      return Result.err(
+        new ConversionError(
+          `Invalid USA phone number "${input.number}": expected a 10-digit NANP number`,
+          ErrorCode.INVALID_INPUT,
+          { field: "number", number: input.number },
+        ),
+      );
+    }
+
+    const [, areaCode, exchangeCode, lineNumber] = match;
+    return Result.ok({
+      countryCode: "+1",
+      country: "US",
+      number: `(${areaCode}) ${exchangeCode}-${lineNumber}`,
+      e164: `+1${areaCode}${exchangeCode}${lineNumber}`,
+      euDialing: `${EU_EXIT_CODE} 1 ${areaCode} ${exchangeCode} ${lineNumber}`,
+      formatted: `+1 ${areaCode} ${exchangeCode} ${lineNumber}`,
+      type: input.type,
+    });
+  }
+}
@@ -0,0 +1,201 @@
+import {
+  ConversionError,
+  Converter,
+  ConverterConfig,
+  ConverterMetadata,
+  ErrorCode,
+  Result,
+} from "../../shared/types/index.ts";
+import { z } from "zod";
+import { CCPARequestSchema, GDPRRequest, GDPRRequestSchema } from "./gdpr-to-ccpa.ts";
+
+/**
+ * CCPA consumer request input schema; `originalGDPR` is set on requests that started as GDPR
+ */
+export const CCPARequestInputSchema = CCPARequestSchema.partial({
+  verificationRequired: true,
+  responseTimeLimit: true,
+  categories: true,
+  originalGDPR: true,
+});
+
+export type CCPARequestInput = z.infer<typeof CCPARequestInputSchema>;
+
+/**
+ * GDPR data subject request output schema
+ */
+export const GDPRRequestOutputSchema = GDPRRequestSchema.extend({
+  responseTimeLimit: z.number(), // days; one month under GDPR Art. 12(3)
+  originalCCPA: z.object({
+    requestType: z.string(),
+    saleOfPersonalInfo: z.boolean(),
+    optOutOfSale: z.boolean(),
+  }),
+});
+
+export type GDPRRequestOutput = z.infer<typeof GDPRRequestOutputSchema>;
+
+type GDPRRequestType = GDPRRequest["requestType"];
+type GDPRLegalBasis = GDPRRequest["legalBasis"];
+
+/**
+ * CCPA to GDPR request type mapping; non-discrimination has no data subject request
+ */
+const CCPA_TO_GDPR_REQUEST_MAPPING: Record<string, GDPRRequestType> = {
+  "know": "access",
+  "delete": "erasure",
+  "opt_out": "objection",
+};
+
+/**
+ * CCPA personal information category names to GDPR data categories
+ */
+const CCPA_TO_GDPR_CATEGORIES: Record<string, string> = {
+  "identifiers": "personal_identifiers",
+  "contact": "contact_information",
+  "financial": "financial_information",
+  "biometric": "biometric_data",
+  "location": "location_data",
+  "online activity": "online_activity",
+  "audio visual": "audio_visual_data",
+  "employment": "employment_data",
+  "education": "education_data",
+  "profile": "profile_data",
+  "health": "health_data",
+  "demographic": "demographic_data",
+};
+
+/**
+ * Converts CCPA requests to GDPR format
+ */
+export class CcpaToGdprConverter implements Converter<CCPARequestInput, GDPRRequestOutput> {
+  /**
+   * Convert CCPA request to GDPR format
+   */
+  async convert(
+    input: CCPARequestInput,
+    config?: ConverterConfig,
+  ): Promise<Result<GDPRRequestOutput, ConversionError>> {
+    try {
+      // Validate input if not skipped
+      if (!config?.skipValidation && !this.validate(input)) {
+        return Result.err(
+          new ConversionError(
+            "Invalid CCPA request format",
+            ErrorCode.INVALID_INPUT,
+            { input },
+          ),
+        );
+      }
+
+      // Restore the original GDPR request type, or map the CCPA one
+      const requestType = this.mapRequestType(input);
+      if (!requestType) {
+        return Result.err(
+          new ConversionError(
+            `CCPA ${input.requestType} requests have no GDPR equivalent`,
+            ErrorCode.UNSUPPORTED_FORMAT,
+            { field: "requestType", requestType: input.requestType },
+          ),
+        );
+      }
+
+      const result: GDPRRequestOutput = {
+        requestType,
+        personalDataCategories: this.mapPersonalDataCategories(input.personalInfoCategories),
+        legalBasis: this.mapLegalBasis(input),
+        dataRetentionPeriod: input.dataRetentionPeriod,
+        consentGiven: input.originalGDPR?.consentGiven ?? !input.optOutOfSale,
+        consentWithdrawable: true, // Always withdrawable under GDPR Art. 7(3)
+        dataProcessingPurposes: [...input.businessPurposes, ...(input.commercialPurposes ?? [])],
+        dataRecipients: input.thirdPartyDisclosure ? ["third_parties"] : undefined,
+        crossBorderTransfers: false, // Not recorded by CCPA
+        automatedDecisionMaking: input.categories?.inferences ?? false,
+        rightToObject: requestType === "objection" || input.optOutOfSale,
+        responseTimeLimit: 30,
+        originalCCPA: {
+          requestType: input.requestType,
+          saleOfPersonalInfo: input.saleOfPersonalInfo,
+          optOutOfSale: input.optOutOfSale,
+        },
+      };
+
+      return Result.ok(result);
+    } catch (error) {
+      return Result.err(
+        new ConversionError(
+          `Privacy compliance conversion failed: ${
+            error instanceof Error ? error.message : "Unknown error"
+          }`,
+          ErrorCode.CONVERSION_FAILED,
+          { input, error },
+          false,
+        ),
+      );
+    }
+  }
+
+  /**
+   * Validate input is a valid CCPA request
+   */
+  validate(input: unknown): input is CCPARequestInput {
+    const result = CCPARequestInputSchema.safeParse(input);
+    return result.success;
+  }
+
+  /**
+   * Get converter metadata
+   */
+  getMetadata(): ConverterMetadata {
+    return {
+      name: "CCPA to GDPR Converter",
+      version: "1.0.0",
+      inputType: "CCPARequestInput",
+      outputType: "GDPRRequestOutput",
+      description: "Converts CCPA privacy requests to GDPR format",
+      performanceTarget: {
+        p50: 8,
+        p95: 15,
+        p99: 25,
+      },
+    };
+  }
+
+  /**
+   * Original GDPR request type when recorded, otherwise the mapped CCPA type
+   */
+  private mapRequestType(input: CCPARequestInput): GDPRRequestType | undefined {
+    const original = GDPRRequestSchema.shape.requestType.safeParse(
+      input.originalGDPR?.requestType,
+    );
+    return original.success ? original.data : CCPA_TO_GDPR_REQUEST_MAPPING[input.requestType];
+  }
+
+  /**
+   * Original legal basis when recorded; selling personal information otherwise relies on
+   * legitimate interests, everything else on consent
+   */
+  private mapLegalBasis(input: CCPARequestInput): GDPRLegalBasis {
+    const original = GDPRRequestSchema.shape.legalBasis.safeParse(input.originalGDPR?.legalBasis);
+    if (original.success) {
+      return original.data;
+    }
+    return input.saleOfPersonalInfo ? "legitimate_interests" : "consent";
+  }
+
+  /**
+   * Map CCPA personal info category names to GDPR data categories
+   */
+  private mapPersonalDataCategories(ccpaCategories: string[]): string[] {
+    return ccpaCategories.map((category) =>
+      CCPA_TO_GDPR_CATEGORIES[category] ?? category.trim().replace(/\s+/g, "_")
+    );
+  }
+
+  /**
+   * Get GDPR category mapping for a CCPA category name
+   */
+  getGDPRCategoryMapping(ccpaCategory: string): string | undefined {
+    return CCPA_TO_GDPR_CATEGORIES[ccpaCategory];
+  }
+}
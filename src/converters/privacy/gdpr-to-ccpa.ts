@@ -285,7 +285,7 @@ export class GdprToCcpaConverter implements Converter<GDPRRequest, CCPARequest>
    */
   private determineSaleOfPersonalInfo(gdpr: GDPRRequest): boolean {
     // CCPA considers sharing for commercial purposes as "sale"
-    return gdpr.dataRecipients && gdpr.dataRecipients.length > 0 && 
+    return gdpr.dataRecipients !== undefined && gdpr.dataRecipients.length > 0 &&
            gdpr.legalBasis === "legitimate_interests";
   }
 
@@ -0,0 +1,235 @@
+import {
+  ConversionError,
+  Converter,
+  ConverterConfig,
+  ConverterMetadata,
+  ErrorCode,
+  Result,
+} from "../../shared/types/index.ts";
+import { z } from "zod";
+import {
+  CCPARequestSchema,
+  GDPRRequest,
+  GDPRRequestSchema,
+  GdprToCcpaConverter,
+} from "./gdpr-to-ccpa.ts";
+import {
+  OptOutCategory,
+  OptOutCategorySchema,
+  PRIVACY_JURISDICTIONS,
+  PrivacyJurisdiction,
+  PrivacyJurisdictionSchema,
+  STATE_PRIVACY_LAWS,
+  StatePrivacyLaw,
+  StateRequestTypeSchema,
+} from "./state-privacy-laws.ts";
+
+const ISO_DATE = z.string().regex(/^\d{4}-\d{2}-\d{2}$/);
+
+/**
+ * GDPR data subject request with the US state whose privacy law applies
+ */
+export const GDPRStateRequestInputSchema = GDPRRequestSchema.extend({
+  jurisdiction: PrivacyJurisdictionSchema,
+  requestDate: ISO_DATE.optional(), // Day the request was received (default: today)
+});
+
+export type GDPRStateRequestInput = z.infer<typeof GDPRStateRequestInputSchema>;
+
+/**
+ * Consumer request under a US state privacy law
+ */
+export const StatePrivacyRequestSchema = CCPARequestSchema.extend({
+  requestType: StateRequestTypeSchema,
+  jurisdiction: PrivacyJurisdictionSchema,
+  law: z.string(), // Short name, e.g. "VCDPA"
+  optOutCategories: z.array(OptOutCategorySchema), // What an opt-out covers; empty for other requests
+  requestDate: ISO_DATE,
+  responseDeadline: ISO_DATE,
+  extendedDeadline: ISO_DATE.optional(), // With the law's one-time extension
+  appealResponseDays: z.number().optional(), // Days to decide an appeal; omitted when the law has none
+});
+
+export type StatePrivacyRequest = z.infer<typeof StatePrivacyRequestSchema>;
+
+export interface GdprToStatePrivacyConverterOptions {
+  /** Rule table per state law; defaults to the built-in table */
+  laws?: Record<PrivacyJurisdiction, StatePrivacyLaw>;
+}
+
+/**
+ * Converts GDPR requests to the privacy law of a US state
+ */
+export class GdprToStatePrivacyConverter
+  implements Converter<GDPRStateRequestInput, StatePrivacyRequest> {
+  private readonly laws: Record<PrivacyJurisdiction, StatePrivacyLaw>;
+  private readonly ccpa = new GdprToCcpaConverter();
+
+  constructor(options: GdprToStatePrivacyConverterOptions = {}) {
+    this.laws = options.laws ?? STATE_PRIVACY_LAWS;
+  }
+
+  /**
+   * Convert GDPR request to the jurisdiction's state privacy law
+   */
+  async convert(
+    input: GDPRStateRequestInput,
+    config?: ConverterConfig,
+  ): Promise<Result<StatePrivacyRequest, ConversionError>> {
+    try {
+      // Validate input if not skipped
+      if (!config?.skipValidation && !this.validate(input)) {
+        return Result.err(
+          new ConversionError(
+            "Invalid GDPR state request format",
+            ErrorCode.INVALID_INPUT,
+            { input },
+          ),
+        );
+      }
+
+      const law = this.laws[input.jurisdiction];
+      const requestType = law.requestTypes[input.requestType];
+      if (!requestType) {
+        return Result.err(
+          new ConversionError(
+            `GDPR ${input.requestType} requests have no equivalent under the ${law.law}`,
+            ErrorCode.UNSUPPORTED_FORMAT,
+            {
+              field: "requestType",
+              requestType: input.requestType,
+              jurisdiction: law.jurisdiction,
+            },
+          ),
+        );
+      }
+
+      const requestDate = input.requestDate ?? this.today();
+      const parsedDate = new Date(`${requestDate}T00:00:00Z`);
+      if (
+        Number.isNaN(parsedDate.getTime()) ||
+        parsedDate.toISOString().slice(0, 10) !== requestDate
+      ) {
+        return Result.err(
+          new ConversionError(
+            `Invalid request date ${requestDate}`,
+            ErrorCode.INVALID_INPUT,
+            { field: "requestDate", requestDate },
+          ),
+        );
+      }
+
+      // Categories, purposes and sale flags are shared with the CCPA mapping
+      const { jurisdiction: _, requestDate: __, ...gdpr } = input;
+      const base = await this.ccpa.convert(gdpr, { skipValidation: true });
+      if (Result.isErr(base)) {
+        return base;
+      }
+
+      const optOut = requestType === "opt_out";
+      const responseTimeLimit = optOut
+        ? law.optOutResponseDays ?? law.responseDays
+        : law.responseDays;
+
+      const result: StatePrivacyRequest = {
+        ...base.value,
+        requestType,
+        verificationRequired: law.verifiedRequestTypes.includes(requestType),
+        responseTimeLimit,
+        jurisdiction: law.jurisdiction,
+        law: law.law,
+        optOutCategories: optOut ? this.selectOptOutCategories(gdpr, law) : [],
+        requestDate,
+        responseDeadline: this.addDays(requestDate, responseTimeLimit),
+        // Opt-outs with their own short deadline (California) cannot be extended
+        extendedDeadline: optOut && law.optOutResponseDays !== undefined
+          ? undefined
+          : this.addDays(requestDate, responseTimeLimit + law.extensionDays),
+        appealResponseDays: law.appealResponseDays,
+      };
+
+      return Result.ok(result);
+    } catch (error) {
+      return Result.err(
+        new ConversionError(
+          `Privacy compliance conversion failed: ${
+            error instanceof Error ? error.message : "Unknown error"
+          }`,
+          ErrorCode.CONVERSION_FAILED,
+          { input, error },
+          false,
+        ),
+      );
+    }
+  }
+
+  /**
+   * Validate input is a valid GDPR request with a supported jurisdiction
+   */
+  validate(input: unknown): input is GDPRStateRequestInput {
+    const result = GDPRStateRequestInputSchema.safeParse(input);
+    return result.success;
+  }
+
+  /**
+   * Get converter metadata
+   */
+  getMetadata(): ConverterMetadata {
+    return {
+      name: "GDPR to US State Privacy Converter",
+      version: "1.0.0",
+      inputType: "GDPRStateRequestInput",
+      outputType: "StatePrivacyRequest",
+      description: "Converts GDPR privacy requests to the privacy laws of US states",
+      performanceTarget: {
+        p50: 8,
+        p95: 15,
+        p99: 25,
+      },
+    };
+  }
+
+  /**
+   * Opt-outs the request points at; a general objection covers all of the law's opt-outs
+   */
+  private selectOptOutCategories(gdpr: GDPRRequest, law: StatePrivacyLaw): OptOutCategory[] {
+    const purposes = gdpr.dataProcessingPurposes.map((purpose) => purpose.toLowerCase());
+    const advertising = purposes.some((purpose) =>
+      ["advertising", "marketing", "targeting"].some((keyword) => purpose.includes(keyword))
+    );
+
+    const applies: Record<OptOutCategory, boolean> = {
+      sale: (gdpr.dataRecipients?.length ?? 0) > 0,
+      sharing: advertising,
+      targeted_advertising: advertising,
+      profiling: gdpr.automatedDecisionMaking ||
+        purposes.some((purpose) => purpose.includes("profiling")),
+    };
+
+    const selected = law.optOutCategories.filter((category) => applies[category]);
+    return selected.length > 0 ? selected : [...law.optOutCategories];
+  }
+
+  /**
+   * Date the given number of calendar days after an ISO date
+   */
+  private addDays(date: string, days: number): string {
+    const result = new Date(`${date}T00:00:00Z`);
+    result.setUTCDate(result.getUTCDate() + days);
+    return result.toISOString().slice(0, 10);
+  }
+
+  /**
+   * Today's date (UTC) as YYYY-MM-DD
+   */
+  private today(): string {
+    return new Date().toISOString().slice(0, 10);
+  }
+
+  /**
+   * Get all supported jurisdictions
+   */
+  getAllJurisdictions(): PrivacyJurisdiction[] {
+    return [...PRIVACY_JURISDICTIONS];
+  }
+}
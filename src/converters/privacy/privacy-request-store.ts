@@ -0,0 +1,360 @@
+import { ConversionError, ErrorCode, Result } from "../../shared/types/index.ts";
+import { z } from "zod";
+import { CCPARequestSchema, GDPRRequest, GdprToCcpaConverter } from "./gdpr-to-ccpa.ts";
+
+const ISO_DATE = z.string().regex(/^\d{4}-\d{2}-\d{2}$/);
+
+/**
+ * Where a privacy request is in its lifecycle; fulfilled and denied are final
+ */
+export const PrivacyRequestStatusSchema = z.enum([
+  "received",
+  "verified",
+  "extended",
+  "fulfilled",
+  "denied",
+]);
+
+export type PrivacyRequestStatus = z.infer<typeof PrivacyRequestStatusSchema>;
+
+/**
+ * Audit history entry, one per status change
+ */
+export const PrivacyRequestEventSchema = z.object({
+  at: z.string(), // ISO timestamp
+  action: PrivacyRequestStatusSchema, // Status change requested
+  status: PrivacyRequestStatusSchema, // Status afterwards; verifying keeps a request extended
+  actor: z.string().optional(),
+  reason: z.string().optional(), // Required for extensions and denials
+});
+
+export type PrivacyRequestEvent = z.infer<typeof PrivacyRequestEventSchema>;
+
+/**
+ * Tracked privacy request with its statutory due dates
+ */
+export const PrivacyRequestRecordSchema = z.object({
+  id: z.string(),
+  status: PrivacyRequestStatusSchema,
+  receivedAt: ISO_DATE,
+  request: CCPARequestSchema, // GdprToCcpaConverter output
+  dueDates: z.object({
+    gdpr: ISO_DATE, // One month from receipt; three months once extended
+    ccpa: ISO_DATE, // responseTimeLimit days from receipt; 45 more once extended
+  }),
+  dueDate: ISO_DATE, // Earlier of the two
+  verifiedAt: z.string().optional(),
+  extendedAt: z.string().optional(),
+  closedAt: z.string().optional(), // Set when fulfilled or denied
+  history: z.array(PrivacyRequestEventSchema),
+});
+
+export type PrivacyRequestRecord = z.infer<typeof PrivacyRequestRecordSchema>;
+
+const PrivacyRequestFileSchema = z.object({
+  requests: z.array(PrivacyRequestRecordSchema),
+});
+
+/**
+ * Status changes allowed from each status
+ */
+const TRANSITIONS: Record<PrivacyRequestStatus, PrivacyRequestStatus[]> = {
+  received: ["verified", "extended", "fulfilled", "denied"],
+  verified: ["extended", "fulfilled", "denied"],
+  extended: ["verified", "fulfilled", "denied"],
+  fulfilled: [],
+  denied: [],
+};
+
+const CCPA_EXTENSION_DAYS = 45;
+const GDPR_MONTHS = 1;
+const GDPR_EXTENDED_MONTHS = 3; // One month plus the two-month extension of GDPR Art. 12(3)
+
+export interface PrivacyRequestStoreOptions {
+  /** JSON file the requests are persisted to; in memory only when omitted */
+  path?: string;
+  /** Clock for timestamps and default receipt dates */
+  now?: () => Date;
+}
+
+/**
+ * Privacy requests tracked from receipt to fulfilment or denial
+ */
+export class PrivacyRequestStore {
+  private requests = new Map<string, PrivacyRequestRecord>();
+  private readonly path?: string;
+  private readonly now: () => Date;
+  private readonly converter = new GdprToCcpaConverter();
+  private writes: Promise<void> = Promise.resolve(); // Pending file writes, in save order
+
+  constructor(options: PrivacyRequestStoreOptions = {}) {
+    this.path = options.path;
+    this.now = options.now ?? (() => new Date());
+  }
+
+  /**
+   * Open a file-backed store, loading the requests already in the file; a missing file starts
+   * an empty store
+   */
+  static async fromFile(
+    path: string,
+    options: Omit<PrivacyRequestStoreOptions, "path"> = {},
+  ): Promise<Result<PrivacyRequestStore, ConversionError>> {
+    const store = new PrivacyRequestStore({ ...options, path });
+
+    try {
+      const parsed = PrivacyRequestFileSchema.safeParse(JSON.parse(await Deno.readTextFile(path)));
+      if (!parsed.success) {
+        return Result.err(
+          new ConversionError(
+            `Invalid privacy request file ${path}`,
+            ErrorCode.CONFIGURATION_ERROR,
+            { path, issues: parsed.error.errors },
+          ),
+        );
+      }
+      parsed.data.requests.forEach((record) => store.requests.set(record.id, record));
+      return Result.ok(store);
+    } catch (error) {
+      if (error instanceof Deno.errors.NotFound) {
+        return Result.ok(store);
+      }
+      return Result.err(
+        new ConversionError(
+          `Failed to load privacy requests: ${
+            error instanceof Error ? error.message : "Unknown error"
+          }`,
+          ErrorCode.CONFIGURATION_ERROR,
+          { path, error },
+        ),
+      );
+    }
+  }
+
+  /**
+   * Convert a GDPR request and start tracking it as received
+   */
+  async create(
+    gdpr: GDPRRequest,
+    options: { receivedAt?: string; actor?: string } = {},
+  ): Promise<Result<PrivacyRequestRecord, ConversionError>> {
+    const request = await this.converter.convert(gdpr);
+    if (Result.isErr(request)) {
+      return request;
+    }
+
+    const timestamp = this.now().toISOString();
+    const receivedAt = options.receivedAt ?? timestamp.slice(0, 10);
+    if (!isIsoDate(receivedAt)) {
+      return Result.err(
+        new ConversionError(
+          `Invalid receipt date ${receivedAt}`,
+          ErrorCode.INVALID_INPUT,
+          { field: "receivedAt", receivedAt },
+        ),
+      );
+    }
+
+    const dueDates = {
+      gdpr: addMonths(receivedAt, GDPR_MONTHS),
+      ccpa: addDays(receivedAt, request.value.responseTimeLimit),
+    };
+    const record: PrivacyRequestRecord = {
+      id: crypto.randomUUID(),
+      status: "received",
+      receivedAt,
+      request: request.value,
+      dueDates,
+      dueDate: earliest(dueDates),
+      history: [{ at: timestamp, action: "received", status: "received", actor: options.actor }],
+    };
+
+    return await this.save(record);
+  }
+
+  /**
+   * Move a request to a new status. Extensions and denials need a reason, a request is
+   * extended at most once, and requests that need verification are verified before fulfilment.
+   */
+  async transition(
+    id: string,
+    status: PrivacyRequestStatus,
+    options: { actor?: string; reason?: string } = {},
+  ): Promise<Result<PrivacyRequestRecord, ConversionError>> {
+    const current = this.requests.get(id);
+    if (!current) {
+      return Result.err(
+        new ConversionError(`Unknown privacy request ${id}`, ErrorCode.INVALID_INPUT, {
+          field: "id",
+          id,
+        }),
+      );
+    }
+
+    const invalid = (message: string): Result<PrivacyRequestRecord, ConversionError> =>
+      Result.err(
+        new ConversionError(message, ErrorCode.INVALID_INPUT, {
+          field: "status",
+          id,
+          from: current.status,
+          to: status,
+        }),
+      );
+
+    if (!TRANSITIONS[current.status].includes(status)) {
+      return invalid(`Cannot move a ${current.status} privacy request to ${status}`);
+    }
+    if ((status === "extended" || status === "denied") && !options.reason) {
+      return invalid(`A reason is required to mark a privacy request ${status}`);
+    }
+    if (status === "extended" && current.extendedAt) {
+      return invalid("A privacy request can only be extended once");
+    }
+    if (status === "verified" && current.verifiedAt) {
+      return invalid("The privacy request is already verified");
+    }
+    if (status === "fulfilled" && current.request.verificationRequired && !current.verifiedAt) {
+      return invalid(`A ${current.request.requestType} request must be verified before fulfilment`);
+    }
+
+    const at = this.now().toISOString();
+    const record: PrivacyRequestRecord = { ...current, status };
+
+    switch (status) {
+      case "verified":
+        record.verifiedAt = at;
+        // Verifying an extended request keeps its extended due dates
+        record.status = current.extendedAt ? "extended" : "verified";
+        break;
+      case "extended":
+        record.extendedAt = at;
+        record.dueDates = {
+          gdpr: addMonths(current.receivedAt, GDPR_EXTENDED_MONTHS),
+          // CCPA opt-outs have no extension
+          ccpa: current.request.requestType === "opt_out"
+            ? current.dueDates.ccpa
+            : addDays(current.dueDates.ccpa, CCPA_EXTENSION_DAYS),
+        };
+        record.dueDate = earliest(record.dueDates);
+        break;
+      case "fulfilled":
+      case "denied":
+        record.closedAt = at;
+        break;
+    }
+
+    record.history = [
+      ...current.history,
+      { at, action: status, status: record.status, actor: options.actor, reason: options.reason },
+    ];
+
+    return await this.save(record);
+  }
+
+  /**
+   * Get a request by id
+   */
+  get(id: string): PrivacyRequestRecord | undefined {
+    const record = this.requests.get(id);
+    return record ? structuredClone(record) : undefined;
+  }
+
+  /**
+   * Requests in receipt order, optionally by status or still open past their due date on a day
+   */
+  list(filter: { status?: PrivacyRequestStatus; overdueOn?: string } = {}): PrivacyRequestRecord[] {
+    return [...this.requests.values()]
+      .filter((record) => !filter.status || record.status === filter.status)
+      .filter((record) =>
+        !filter.overdueOn || (!record.closedAt && record.dueDate < filter.overdueOn)
+      )
+      .sort((a, b) => a.receivedAt.localeCompare(b.receivedAt))
+      .map((record) => structuredClone(record));
+  }
+
+  /**
+   * Store a record and persist the store when file-backed
+   */
+  private async save(
+    record: PrivacyRequestRecord,
+  ): Promise<Result<PrivacyRequestRecord, ConversionError>> {
+    const previous = this.requests.get(record.id);
+    this.requests.set(record.id, record);
+
+    if (this.path) {
+      // Concurrent saves write one after another so they never share the temporary file
+      const write = this.writes.then(() => this.write(this.path!));
+      this.writes = write.catch(() => {});
+      try {
+        await write;
+      } catch (error) {
+        if (previous) {
+          this.requests.set(record.id, previous);
+        } else {
+          this.requests.delete(record.id);
+        }
+        return Result.err(
+          new ConversionError(
+            `Failed to save privacy requests: ${
+              error instanceof Error ? error.message : "Unknown error"
+            }`,
+            ErrorCode.INTERNAL_ERROR,
+            { path: this.path, error },
+            true,
+          ),
+        );
+      }
+    }
+
+    return Result.ok(structuredClone(record));
+  }
+
+  /**
+   * Write the store to a temporary file and rename it so a crash never leaves a partial file
+   */
+  private async write(path: string): Promise<void> {
+    const temporary = `${path}.tmp`;
+    await Deno.writeTextFile(
+      temporary,
+      JSON.stringify({ requests: [...this.requests.values()] }, null, 2),
+    );
+    await Deno.rename(temporary, path);
+  }
+}
+
+/**
+ * Whether a string is a real YYYY-MM-DD date
+ */
+function isIsoDate(date: string): boolean {
+  const parsed = new Date(`${date}T00:00:00Z`);
+  return ISO_DATE.safeParse(date).success && !Number.isNaN(parsed.getTime()) &&
+    parsed.toISOString().slice(0, 10) === date;
+}
+
+/**
+ * Date the given number of calendar days after an ISO date
+ */
+function addDays(date: string, days: number): string {
+  const result = new Date(`${date}T00:00:00Z`);
+  result.setUTCDate(result.getUTCDate() + days);
+  return result.toISOString().slice(0, 10);
+}
+
+/**
+ * Same day the given number of months later, or the month's last day when it is shorter
+ * (31 January + 1 month = 28 or 29 February)
+ */
+function addMonths(date: string, months: number): string {
+  const [year, month, day] = date.split("-").map(Number);
+  const lastDay = new Date(Date.UTC(year, month - 1 + months + 1, 0)).getUTCDate();
+  return new Date(Date.UTC(year, month - 1 + months, Math.min(day, lastDay)))
+    .toISOString()
+    .slice(0, 10);
+}
+
+/**
+ * Earlier of the GDPR and CCPA due dates
+ */
+function earliest(dueDates: { gdpr: string; ccpa: string }): string {
+  return dueDates.gdpr < dueDates.ccpa ? dueDates.gdpr : dueDates.ccpa;
+}
@@ -0,0 +1,149 @@
+import { z } from "zod";
+import { GDPRRequest } from "./gdpr-to-ccpa.ts";
+
+/**
+ * US states with a comprehensive consumer privacy law
+ */
+export const PRIVACY_JURISDICTIONS = ["CA", "VA", "CO", "CT", "UT", "TX"] as const;
+
+export const PrivacyJurisdictionSchema = z.enum(PRIVACY_JURISDICTIONS);
+
+export type PrivacyJurisdiction = z.infer<typeof PrivacyJurisdictionSchema>;
+
+/**
+ * Consumer request types across the state laws; California calls access "know"
+ */
+export const StateRequestTypeSchema = z.enum([
+  "know",
+  "access",
+  "correct",
+  "delete",
+  "portability",
+  "opt_out",
+  "non_discrimination",
+]);
+
+export type StateRequestType = z.infer<typeof StateRequestTypeSchema>;
+
+/**
+ * Processing a consumer can opt out of
+ */
+export const OptOutCategorySchema = z.enum([
+  "sale",
+  "sharing", // California: cross-context behavioral advertising
+  "targeted_advertising",
+  "profiling", // In furtherance of decisions with legal or similarly significant effects
+]);
+
+export type OptOutCategory = z.infer<typeof OptOutCategorySchema>;
+
+/**
+ * Consumer rights, deadlines and opt-outs of one state privacy law
+ */
+export interface StatePrivacyLaw {
+  jurisdiction: PrivacyJurisdiction;
+  law: string; // Short name, e.g. "VCDPA"
+  name: string;
+  requestTypes: Partial<Record<GDPRRequest["requestType"], StateRequestType>>; // Unlisted: no equivalent right
+  responseDays: number; // Calendar days from receipt
+  optOutResponseDays?: number; // When opt-outs have a shorter deadline
+  extensionDays: number; // One-time extension when reasonably necessary
+  appealResponseDays?: number; // Days to decide an appeal; omitted when the law has no appeal
+  optOutCategories: OptOutCategory[];
+  verifiedRequestTypes: StateRequestType[]; // Requests the business must authenticate
+}
+
+const RIGHTS_WITH_CORRECTION: StatePrivacyLaw["requestTypes"] = {
+  access: "access",
+  rectification: "correct",
+  erasure: "delete",
+  portability: "portability",
+  restriction: "opt_out",
+  objection: "opt_out",
+};
+
+const VERIFIED_WITH_CORRECTION: StateRequestType[] = ["access", "correct", "delete", "portability"];
+
+/**
+ * State privacy laws by jurisdiction; California follows `GdprToCcpaConverter`
+ */
+export const STATE_PRIVACY_LAWS: Record<PrivacyJurisdiction, StatePrivacyLaw> = {
+  CA: {
+    jurisdiction: "CA",
+    law: "CCPA",
+    name: "California Consumer Privacy Act",
+    requestTypes: {
+      access: "know",
+      rectification: "know",
+      erasure: "delete",
+      portability: "know",
+      restriction: "opt_out",
+      objection: "opt_out",
+    },
+    responseDays: 45,
+    optOutResponseDays: 15,
+    extensionDays: 45,
+    optOutCategories: ["sale", "sharing"],
+    verifiedRequestTypes: ["delete"],
+  },
+  VA: {
+    jurisdiction: "VA",
+    law: "VCDPA",
+    name: "Virginia Consumer Data Protection Act",
+    requestTypes: RIGHTS_WITH_CORRECTION,
+    responseDays: 45,
+    extensionDays: 45,
+    appealResponseDays: 60,
+    optOutCategories: ["targeted_advertising", "sale", "profiling"],
+    verifiedRequestTypes: VERIFIED_WITH_CORRECTION,
+  },
+  CO: {
+    jurisdiction: "CO",
+    law: "CPA",
+    name: "Colorado Privacy Act",
+    requestTypes: RIGHTS_WITH_CORRECTION,
+    responseDays: 45,
+    extensionDays: 45,
+    appealResponseDays: 45,
+    optOutCategories: ["targeted_advertising", "sale", "profiling"],
+    verifiedRequestTypes: VERIFIED_WITH_CORRECTION,
+  },
+  CT: {
+    jurisdiction: "CT",
+    law: "CTDPA",
+    name: "Connecticut Data Privacy Act",
+    requestTypes: RIGHTS_WITH_CORRECTION,
+    responseDays: 45,
+    extensionDays: 45,
+    appealResponseDays: 60,
+    optOutCategories: ["targeted_advertising", "sale", "profiling"],
+    verifiedRequestTypes: VERIFIED_WITH_CORRECTION,
+  },
+  UT: {
+    jurisdiction: "UT",
+    law: "UCPA",
+    name: "Utah Consumer Privacy Act",
+    requestTypes: {
+      access: "access",
+      erasure: "delete",
+      portability: "portability",
+      restriction: "opt_out",
+      objection: "opt_out",
+    },
+    responseDays: 45,
+    extensionDays: 45,
+    optOutCategories: ["targeted_advertising", "sale"],
+    verifiedRequestTypes: ["access", "delete", "portability"],
+  },
+  TX: {
+    jurisdiction: "TX",
+    law: "TDPSA",
+    name: "Texas Data Privacy and Security Act",
+    requestTypes: RIGHTS_WITH_CORRECTION,
+    responseDays: 45,
+    extensionDays: 45,
+    appealResponseDays: 60,
+    optOutCategories: ["targeted_advertising", "sale", "profiling"],
+    verifiedRequestTypes: VERIFIED_WITH_CORRECTION,
+  },
+};
@@ -0,0 +1,249 @@
+import {
+  ConversionError,
+  Converter,
+  ConverterConfig,
+  ConverterMetadata,
+  ErrorCode,
+  ExactMoneySchema,
+  MoneyRepresentation,
+  Result,
+  roundMoney,
+  toExactMoney,
+} from "../../shared/types/index.ts";
+import { z } from "zod";
+import { Decimal } from "decimal.js";
+import { MappingRegistry } from "../mappings/mapping-registry.ts";
+import { CountryInfo, resolveCountry } from "../../shared/countries/index.ts";
+import { PRODUCT_CATEGORIES, VatRateKindSchema, VatRateLookup, VatRateTable } from "./vat-rates.ts";
+import { CATEGORY_RATE_KINDS } from "./vat-to-sales-tax.ts";
+import { getSalesTaxRates } from "./us-sales-tax-rates.ts";
+
+/**
+ * USA sales tax input schema; the EU country comes from `country` or the state mapped to it
+ */
+export const SalesTaxInputSchema = z.object({
+  amount: z.number().positive(),
+  isInclusive: z.boolean().optional().default(false), // Sales tax usually added at checkout in the US
+  taxRate: z.number().min(0).max(100).optional(), // Percentage; the state's combined rate when omitted
+  state: z.string().regex(/^[A-Za-z]{2}$/).optional(),
+  country: z.string().optional(), // EU country; overrides the state mapping
+  vatRate: z.number().min(0).max(100).optional(), // Percentage; looked up from the rate table when omitted
+  category: z.enum(["standard", "reduced", "zero", "exempt"]).optional(),
+  productCategory: z.enum(PRODUCT_CATEGORIES).optional(), // Picks the country's rate for the product
+  invoiceDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(), // Selects historical rates (default: today)
+}).refine((input) => input.state !== undefined || input.country !== undefined, {
+  message: "Either state or country is required",
+  path: ["state"],
+});
+
+export type SalesTaxInput = z.input<typeof SalesTaxInputSchema>;
+
+/**
+ * EU VAT output schema
+ */
+export const VATOutputSchema = z.object({
+  netAmount: z.number(),
+  vatAmount: z.number(),
+  grossAmount: z.number(),
+  vatRate: z.number(), // Percentage
+  country: z.string(), // ISO 3166-1 alpha-2
+  kind: VatRateKindSchema.optional(), // Set when the rate was looked up
+  effectiveFrom: z.string().optional(), // Start of the rate period that applied
+  originalSalesTax: z.object({
+    amount: z.number(),
+    rate: z.number(),
+    state: z.string().optional(),
+    isInclusive: z.boolean(),
+  }),
+  exact: z.object({
+    netAmount: ExactMoneySchema,
+    vatAmount: ExactMoneySchema,
+    grossAmount: ExactMoneySchema,
+  }).optional(), // Set when an exact money representation is requested
+  mappingVersion: z.string(), // Version of the country mapping table used for the country
+  vatRateVersion: z.string().optional(), // Version of the VAT rate table, when the rate was looked up
+});
+
+export type VATOutput = z.infer<typeof VATOutputSchema>;
+
+export interface SalesTaxToVatConverterOptions {
+  /** Country to state mappings; defaults to the built-in table */
+  mappings?: MappingRegistry;
+  /** Dated VAT rates used when the input has no explicit rate; defaults to the built-in table */
+  rates?: VatRateTable;
+}
+
+/**
+ * Converts USA Sales Tax to EU VAT
+ */
+export class SalesTaxToVatConverter implements Converter<SalesTaxInput, VATOutput> {
+  private readonly mappings: MappingRegistry;
+  private readonly rates: VatRateTable;
+
+  constructor(options: SalesTaxToVatConverterOptions = {}) {
+    this.mappings = options.mappings ?? MappingRegistry.default();
+    this.rates = options.rates ?? VatRateTable.default();
+  }
+
+  /**
+   * Convert USA Sales Tax to EU VAT
+   */
+  async convert(
+    input: SalesTaxInput,
+    config?: ConverterConfig,
+  ): Promise<Result<VATOutput, ConversionError>> {
+    try {
+      // Validate input if not skipped
+      if (!config?.skipValidation && !this.validate(input)) {
+        return Result.err(
+          new ConversionError(
+            "Invalid USA sales tax format",
+            ErrorCode.INVALID_INPUT,
+            { input },
+          ),
+        );
+      }
+
+      const country = this.resolveEUCountry(input);
+      if (Result.isErr(country)) {
+        return country;
+      }
+
+      // Use the provided VAT rate, or the one in force on the invoice date
+      let vatRate = input.vatRate;
+      let lookup: VatRateLookup | undefined;
+      if (vatRate === undefined) {
+        const found = this.rates.getRate(country.value.alpha2, input.invoiceDate ?? this.today(), {
+          kind: input.category && CATEGORY_RATE_KINDS[input.category],
+          productCategory: input.productCategory,
+        });
+        if (Result.isErr(found)) {
+          return found;
+        }
+        lookup = found.value;
+        vatRate = lookup.rate;
+      }
+
+      // Remove sales tax from an inclusive amount, at the given or the state's combined rate
+      const isInclusive = input.isInclusive ?? false;
+      const salesTaxRate = input.taxRate ?? this.getStateTaxRate(input.state);
+      const netBeforeRounding = isInclusive
+        ? new Decimal(input.amount).div(new Decimal(1).plus(new Decimal(salesTaxRate).div(100)))
+        : new Decimal(input.amount);
+
+      // Round each component to cents when exact money output or a rounding mode is requested
+      const settle = config?.moneyRepresentation !== undefined ||
+        config?.roundingMode !== undefined;
+      const round = (value: Decimal) => settle ? roundMoney(value, 2, config?.roundingMode) : value;
+
+      const netAmount = round(netBeforeRounding);
+      const vatAmount = round(netAmount.mul(new Decimal(vatRate).div(100)));
+      const grossAmount = netAmount.plus(vatAmount);
+
+      const result: VATOutput = {
+        netAmount: netAmount.toNumber(),
+        vatAmount: vatAmount.toNumber(),
+        grossAmount: grossAmount.toNumber(),
+        vatRate,
+        country: country.value.alpha2,
+        kind: lookup?.kind,
+        effectiveFrom: lookup?.effectiveFrom,
+        originalSalesTax: {
+          amount: input.amount,
+          rate: salesTaxRate,
+          state: input.state?.toUpperCase(),
+          isInclusive,
+        },
+        exact: this.toExactAmounts(
+          { netAmount, vatAmount, grossAmount },
+          config?.moneyRepresentation,
+        ),
+        mappingVersion: this.mappings.version,
+        vatRateVersion: lookup ? this.rates.version : undefined,
+      };
+
+      return Result.ok(result);
+    } catch (error) {
+      return Result.err(
+        new ConversionError(
+          `Tax conversion failed: ${error instanceof Error ? error.message : "Unknown error"}`,
+          ErrorCode.CONVERSION_FAILED,
+          { input, error },
+          false,
+        ),
+      );
+    }
+  }
+
+  /**
+   * Validate input is valid USA sales tax
+   */
+  validate(input: unknown): input is SalesTaxInput {
+    const result = SalesTaxInputSchema.safeParse(input);
+    return result.success;
+  }
+
+  /**
+   * Get converter metadata
+   */
+  getMetadata(): ConverterMetadata {
+    return {
+      name: "Sales Tax to VAT Converter",
+      version: "1.0.0",
+      inputType: "SalesTaxInput",
+      outputType: "VATOutput",
+      description: "Converts USA Sales Tax to EU VAT calculations",
+      performanceTarget: {
+        p50: 5,
+        p95: 10,
+        p99: 15,
+      },
+    };
+  }
+
+  /**
+   * Today's date (UTC) as YYYY-MM-DD
+   */
+  private today(): string {
+    return new Date().toISOString().slice(0, 10);
+  }
+
+  /**
+   * EU country given explicitly, or the one the mapping table maps to the state
+   */
+  private resolveEUCountry(input: SalesTaxInput): Result<CountryInfo, ConversionError> {
+    if (input.country !== undefined) {
+      return resolveCountry(input.country);
+    }
+    return this.mappings.getCountry(input.state ?? "");
+  }
+
+  /**
+   * Combined state and average local sales tax rate; 0 without a state
+   */
+  private getStateTaxRate(state: string | undefined): number {
+    if (state === undefined) {
+      return 0;
+    }
+    const rates = getSalesTaxRates(state.toUpperCase());
+    return rates.state + rates.avgLocal;
+  }
+
+  /**
+   * Express settled amounts in the requested exact representation
+   */
+  private toExactAmounts(
+    amounts: { netAmount: Decimal; vatAmount: Decimal; grossAmount: Decimal },
+    representation: MoneyRepresentation | undefined,
+  ): VATOutput["exact"] {
+    if (representation === undefined || representation === "number") {
+      return undefined;
+    }
+
+    return {
+      netAmount: toExactMoney(amounts.netAmount, 2, representation)!,
+      vatAmount: toExactMoney(amounts.vatAmount, 2, representation)!,
+      grossAmount: toExactMoney(amounts.grossAmount, 2, representation)!,
+    };
+  }
+}
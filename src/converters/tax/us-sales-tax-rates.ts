@@ -0,0 +1,76 @@
+/**
+ * State and average local sales tax rates of a US state, as percentages
+ */
+export interface SalesTaxRates {
+  state: number;
+  avgLocal: number;
+}
+
+/**
+ * US state sales tax rates (2024 averages including local)
+ */
+export const US_SALES_TAX_RATES: Record<string, SalesTaxRates> = {
+  "AL": { state: 4.0, avgLocal: 5.24 },
+  "AK": { state: 0.0, avgLocal: 1.76 },
+  "AZ": { state: 5.6, avgLocal: 2.80 },
+  "AR": { state: 6.5, avgLocal: 2.97 },
+  "CA": { state: 7.25, avgLocal: 1.43 },
+  "CO": { state: 2.9, avgLocal: 4.88 },
+  "CT": { state: 6.35, avgLocal: 0.0 },
+  "DE": { state: 0.0, avgLocal: 0.0 },
+  "FL": { state: 6.0, avgLocal: 1.05 },
+  "GA": { state: 4.0, avgLocal: 3.35 },
+  "HI": { state: 4.0, avgLocal: 0.44 },
+  "ID": { state: 6.0, avgLocal: 0.03 },
+  "IL": { state: 6.25, avgLocal: 2.57 },
+  "IN": { state: 7.0, avgLocal: 0.0 },
+  "IA": { state: 6.0, avgLocal: 0.94 },
+  "KS": { state: 6.5, avgLocal: 2.19 },
+  "KY": { state: 6.0, avgLocal: 0.0 },
+  "LA": { state: 4.45, avgLocal: 5.07 },
+  "ME": { state: 5.5, avgLocal: 0.0 },
+  "MD": { state: 6.0, avgLocal: 0.0 },
+  "MA": { state: 6.25, avgLocal: 0.0 },
+  "MI": { state: 6.0, avgLocal: 0.0 },
+  "MN": { state: 6.875, avgLocal: 0.60 },
+  "MS": { state: 7.0, avgLocal: 0.07 },
+  "MO": { state: 4.225, avgLocal: 4.01 },
+  "MT": { state: 0.0, avgLocal: 0.0 },
+  "NE": { state: 5.5, avgLocal: 1.44 },
+  "NV": { state: 6.85, avgLocal: 1.38 },
+  "NH": { state: 0.0, avgLocal: 0.0 },
+  "NJ": { state: 6.625, avgLocal: 0.0 },
+  "NM": { state: 5.125, avgLocal: 2.70 },
+  "NY": { state: 4.0, avgLocal: 4.53 },
+  "NC": { state: 4.75, avgLocal: 2.22 },
+  "ND": { state: 5.0, avgLocal: 1.96 },
+  "OH": { state: 5.75, avgLocal: 1.48 },
+  "OK": { state: 4.5, avgLocal: 4.45 },
+  "OR": { state: 0.0, avgLocal: 0.0 },
+  "PA": { state: 6.0, avgLocal: 0.34 },
+  "RI": { state: 7.0, avgLocal: 0.0 },
+  "SC": { state: 6.0, avgLocal: 1.46 },
+  "SD": { state: 4.5, avgLocal: 1.9 },
+  "TN": { state: 7.0, avgLocal: 2.55 },
+  "TX": { state: 6.25, avgLocal: 1.95 },
+  "UT": { state: 6.1, avgLocal: 1.09 },
+  "VT": { state: 6.0, avgLocal: 0.24 },
+  "VA": { state: 5.3, avgLocal: 0.45 },
+  "WA": { state: 6.5, avgLocal: 2.73 },
+  "WV": { state: 6.0, avgLocal: 0.52 },
+  "WI": { state: 5.0, avgLocal: 0.46 },
+  "WY": { state: 4.0, avgLocal: 1.34 },
+  "DC": { state: 6.0, avgLocal: 0.0 },
+};
+
+/**
+ * Rates assumed for states missing from the table
+ */
+const FALLBACK_SALES_TAX_RATES: SalesTaxRates = { state: 6.25, avgLocal: 1.0 };
+
+/**
+ * Sales tax rates of a US state by postal code ("TX"), or the fallback rates
+ */
+export function getSalesTaxRates(state: string): SalesTaxRates {
+  return US_SALES_TAX_RATES[state] ?? FALLBACK_SALES_TAX_RATES;
+}
@@ -0,0 +1,115 @@
+import { ConversionError, ErrorCode, Result } from "../../shared/types/index.ts";
+
+/**
+ * VAT identification number format of one member state
+ */
+export interface VatIdFormat {
+  country: string; // ISO 3166-1 alpha-2
+  prefix: string; // VIES prefix; "EL" for Greece
+  pattern: RegExp; // Matched against the uppercased number without prefix, spaces, dots or dashes
+  description: string; // Human-readable rule, used in validation errors
+  example: string;
+}
+
+/**
+ * A VAT identification number split into member state and number
+ */
+export interface VatId {
+  country: string; // ISO 3166-1 alpha-2
+  number: string;
+  vatId: string; // Canonical form: prefix and number without separators ("DE123456789")
+}
+
+const format = (
+  country: string,
+  pattern: RegExp,
+  description: string,
+  example: string,
+  prefix = country,
+): VatIdFormat => ({ country, prefix, pattern, description, example });
+
+/**
+ * VAT identification number formats of the EU member states, as checked by VIES
+ */
+export const VAT_ID_FORMATS: Record<string, VatIdFormat> = {
+  AT: format("AT", /^U\d{8}$/, "U followed by 8 digits", "ATU12345678"),
+  BE: format("BE", /^[01]\d{9}$/, "10 digits starting with 0 or 1", "BE0123456789"),
+  BG: format("BG", /^\d{9,10}$/, "9 or 10 digits", "BG123456789"),
+  CY: format("CY", /^\d{8}[A-Z]$/, "8 digits and a letter", "CY12345678X"),
+  CZ: format("CZ", /^\d{8,10}$/, "8 to 10 digits", "CZ12345678"),
+  DE: format("DE", /^\d{9}$/, "9 digits", "DE123456789"),
+  DK: format("DK", /^\d{8}$/, "8 digits", "DK12345678"),
+  EE: format("EE", /^\d{9}$/, "9 digits", "EE123456789"),
+  ES: format(
+    "ES",
+    /^(?:[A-Z]\d{7}[A-Z0-9]|\d{8}[A-Z])$/,
+    "9 characters, the first or last a letter",
+    "ESA1234567B",
+  ),
+  FI: format("FI", /^\d{8}$/, "8 digits", "FI12345678"),
+  FR: format(
+    "FR",
+    /^[A-HJ-NP-Z0-9]{2}\d{9}$/,
+    "2 check characters and 9 digits",
+    "FR12345678901",
+  ),
+  GR: format("GR", /^\d{9}$/, "9 digits", "EL123456789", "EL"),
+  HR: format("HR", /^\d{11}$/, "11 digits", "HR12345678901"),
+  HU: format("HU", /^\d{8}$/, "8 digits", "HU12345678"),
+  IE: format(
+    "IE",
+    /^(?:\d{7}[A-W][A-IW]?|\d[A-Z+*]\d{5}[A-W])$/,
+    "7 digits and 1 or 2 letters",
+    "IE1234567WA",
+  ),
+  IT: format("IT", /^\d{11}$/, "11 digits", "IT12345678901"),
+  LT: format("LT", /^(?:\d{9}|\d{12})$/, "9 or 12 digits", "LT123456789"),
+  LU: format("LU", /^\d{8}$/, "8 digits", "LU12345678"),
+  LV: format("LV", /^\d{11}$/, "11 digits", "LV12345678901"),
+  MT: format("MT", /^\d{8}$/, "8 digits", "MT12345678"),
+  NL: format("NL", /^\d{9}B\d{2}$/, "9 digits, B and 2 digits", "NL123456789B01"),
+  PL: format("PL", /^\d{10}$/, "10 digits", "PL1234567890"),
+  PT: format("PT", /^\d{9}$/, "9 digits", "PT123456789"),
+  RO: format("RO", /^[1-9]\d{1,9}$/, "2 to 10 digits", "RO1234567890"),
+  SE: format("SE", /^\d{10}01$/, "10 digits followed by 01", "SE123456789001"),
+  SI: format("SI", /^\d{8}$/, "8 digits", "SI12345678"),
+  SK: format("SK", /^\d{10}$/, "10 digits", "SK1234567890"),
+};
+
+const FORMATS_BY_PREFIX: Record<string, VatIdFormat> = Object.fromEntries(
+  Object.values(VAT_ID_FORMATS).map((f) => [f.prefix, f]),
+);
+
+/**
+ * Check a VAT identification number's format against its member state's rule. Greek numbers
+ * may use "GR" as well as the VIES prefix "EL".
+ * @returns The number split by member state, in canonical form ("de 123 456 789" -> "DE123456789")
+ */
+export function parseVatId(vatId: string, field = "vatId"): Result<VatId, ConversionError> {
+  const normalized = vatId.toUpperCase().replace(/[\s.\-]/g, "");
+  const prefix = normalized.slice(0, 2);
+  const rule = FORMATS_BY_PREFIX[prefix] ?? (prefix === "GR" ? VAT_ID_FORMATS.GR : undefined);
+
+  if (!rule) {
+    return Result.err(
+      new ConversionError(
+        `VAT ID "${vatId}" does not start with an EU member state prefix`,
+        ErrorCode.INVALID_INPUT,
+        { field, vatId },
+      ),
+    );
+  }
+
+  const number = normalized.slice(2);
+  if (!rule.pattern.test(number)) {
+    return Result.err(
+      new ConversionError(
+        `Invalid VAT ID "${vatId}" for ${rule.country}: expected ${rule.description}, e.g. ${rule.example}`,
+        ErrorCode.INVALID_INPUT,
+        { field, vatId, country: rule.country, rule: rule.description, example: rule.example },
+      ),
+    );
+  }
+
+  return Result.ok({ country: rule.country, number, vatId: `${rule.prefix}${number}` });
+}
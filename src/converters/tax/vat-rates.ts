@@ -0,0 +1,661 @@
+import { ConversionError, ErrorCode, Result } from "../../shared/types/index.ts";
+import { z } from "zod";
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+const RateSchema = z.number().min(0).max(100);
+
+/**
+ * Product categories with their own VAT treatment in at least one member state
+ */
+export const PRODUCT_CATEGORIES = [
+  "food",
+  "books",
+  "newspapers",
+  "medicine",
+  "passengerTransport",
+  "accommodation",
+  "restaurants",
+] as const;
+
+export type ProductCategory = typeof PRODUCT_CATEGORIES[number];
+
+/**
+ * Which of a member state's rates applies
+ */
+export const VatRateKindSchema = z.enum([
+  "standard",
+  "reduced",
+  "secondReduced",
+  "superReduced",
+  "parking",
+  "zero",
+]);
+
+export type VatRateKind = z.infer<typeof VatRateKindSchema>;
+
+/**
+ * A member state's VAT rates over a date range
+ */
+export const VatRatePeriodSchema = z.object({
+  country: z.string().regex(/^[A-Z]{2}$/), // ISO 3166-1 alpha-2
+  effectiveFrom: z.string().regex(ISO_DATE), // Inclusive
+  effectiveTo: z.string().regex(ISO_DATE).optional(), // Inclusive; open-ended when omitted
+  standard: RateSchema,
+  reduced: RateSchema.optional(),
+  secondReduced: RateSchema.optional(), // Lower of two reduced rates
+  superReduced: RateSchema.optional(), // Below 5%, kept from before 1991
+  parking: RateSchema.optional(), // At least 12%, kept from before 1991
+  productCategories: z.record(z.enum(PRODUCT_CATEGORIES), VatRateKindSchema).optional(), // Unlisted: standard
+});
+
+export type VatRatePeriod = z.infer<typeof VatRatePeriodSchema>;
+
+export const VatRateTableSchema = z.object({
+  version: z.string().min(1), // Recorded on every conversion that looked up a rate
+  periods: z.array(VatRatePeriodSchema),
+});
+
+export type VatRateTableData = z.infer<typeof VatRateTableSchema>;
+
+/**
+ * Rate picked for a country, date and category
+ */
+export interface VatRateLookup {
+  rate: number;
+  kind: VatRateKind;
+  effectiveFrom: string;
+  effectiveTo?: string;
+}
+
+/**
+ * Built-in EU VAT rates from 2020-01-01, including the temporary German, Irish and
+ * Luxembourg reductions
+ */
+export const DEFAULT_VAT_RATES: VatRateTableData = {
+  version: "eu-vat-2025-08",
+  periods: [
+    {
+      country: "AT",
+      effectiveFrom: "2020-01-01",
+      standard: 20,
+      reduced: 13,
+      secondReduced: 10,
+      parking: 13,
+      productCategories: {
+        food: "secondReduced",
+        books: "secondReduced",
+        newspapers: "secondReduced",
+        medicine: "secondReduced",
+        passengerTransport: "secondReduced",
+        accommodation: "secondReduced",
+        restaurants: "secondReduced",
+      },
+    },
+    {
+      country: "BE",
+      effectiveFrom: "2020-01-01",
+      standard: 21,
+      reduced: 12,
+      secondReduced: 6,
+      parking: 12,
+      productCategories: {
+        food: "secondReduced",
+        books: "secondReduced",
+        newspapers: "secondReduced",
+        medicine: "secondReduced",
+        passengerTransport: "secondReduced",
+        accommodation: "secondReduced",
+        restaurants: "reduced",
+      },
+    },
+    { country: "BG", effectiveFrom: "2020-01-01", standard: 20, reduced: 9 },
+    { country: "HR", effectiveFrom: "2020-01-01", standard: 25, reduced: 13, secondReduced: 5 },
+    {
+      country: "CY",
+      effectiveFrom: "2020-01-01",
+      standard: 19,
+      reduced: 9,
+      secondReduced: 5,
+      superReduced: 3,
+    },
+    {
+      country: "CZ",
+      effectiveFrom: "2020-01-01",
+      effectiveTo: "2023-12-31",
+      standard: 21,
+      reduced: 15,
+      secondReduced: 10,
+      productCategories: {
+        food: "reduced",
+        books: "secondReduced",
+        newspapers: "secondReduced",
+        medicine: "secondReduced",
+        passengerTransport: "secondReduced",
+        accommodation: "reduced",
+        restaurants: "secondReduced",
+      },
+    },
+    {
+      country: "CZ",
+      effectiveFrom: "2024-01-01",
+      standard: 21,
+      reduced: 12,
+      productCategories: {
+        food: "reduced",
+        books: "zero",
+        newspapers: "reduced",
+        medicine: "reduced",
+        passengerTransport: "reduced",
+        accommodation: "reduced",
+        restaurants: "reduced",
+      },
+    },
+    {
+      country: "DK",
+      effectiveFrom: "2020-01-01",
+      standard: 25,
+      productCategories: { newspapers: "zero" },
+    },
+    {
+      country: "EE",
+      effectiveFrom: "2020-01-01",
+      effectiveTo: "2023-12-31",
+      standard: 20,
+      reduced: 9,
+      secondReduced: 5,
+    },
+    {
+      country: "EE",
+      effectiveFrom: "2024-01-01",
+      effectiveTo: "2025-06-30",
+      standard: 22,
+      reduced: 9,
+      secondReduced: 5,
+    },
+    { country: "EE", effectiveFrom: "2025-07-01", standard: 24, reduced: 9, secondReduced: 5 },
+    {
+      country: "FI",
+      effectiveFrom: "2020-01-01",
+      effectiveTo: "2024-08-31",
+      standard: 24,
+      reduced: 14,
+      secondReduced: 10,
+      productCategories: {
+        food: "reduced",
+        books: "secondReduced",
+        newspapers: "secondReduced",
+        medicine: "secondReduced",
+        passengerTransport: "secondReduced",
+        accommodation: "secondReduced",
+        restaurants: "reduced",
+      },
+    },
+    {
+      country: "FI",
+      effectiveFrom: "2024-09-01",
+      standard: 25.5,
+      reduced: 14,
+      secondReduced: 10,
+      productCategories: {
+        food: "reduced",
+        books: "secondReduced",
+        newspapers: "secondReduced",
+        medicine: "secondReduced",
+        passengerTransport: "secondReduced",
+        accommodation: "secondReduced",
+        restaurants: "reduced",
+      },
+    },
+    {
+      country: "FR",
+      effectiveFrom: "2020-01-01",
+      standard: 20,
+      reduced: 10,
+      secondReduced: 5.5,
+      superReduced: 2.1,
+      productCategories: {
+        food: "secondReduced",
+        books: "secondReduced",
+        newspapers: "superReduced",
+        medicine: "superReduced",
+        passengerTransport: "reduced",
+        accommodation: "reduced",
+        restaurants: "reduced",
+      },
+    },
+    {
+      country: "DE",
+      effectiveFrom: "2020-01-01",
+      effectiveTo: "2020-06-30",
+      standard: 19,
+      reduced: 7,
+      productCategories: {
+        food: "reduced",
+        books: "reduced",
+        newspapers: "reduced",
+        passengerTransport: "reduced",
+        accommodation: "reduced",
+      },
+    },
+    {
+      // Temporary reduction during the COVID-19 pandemic
+      country: "DE",
+      effectiveFrom: "2020-07-01",
+      effectiveTo: "2020-12-31",
+      standard: 16,
+      reduced: 5,
+      productCategories: {
+        food: "reduced",
+        books: "reduced",
+        newspapers: "reduced",
+        passengerTransport: "reduced",
+        accommodation: "reduced",
+        restaurants: "reduced",
+      },
+    },
+    {
+      country: "DE",
+      effectiveFrom: "2021-01-01",
+      effectiveTo: "2023-12-31",
+      standard: 19,
+      reduced: 7,
+      productCategories: {
+        food: "reduced",
+        books: "reduced",
+        newspapers: "reduced",
+        passengerTransport: "reduced",
+        accommodation: "reduced",
+        restaurants: "reduced",
+      },
+    },
+    {
+      country: "DE",
+      effectiveFrom: "2024-01-01",
+      standard: 19,
+      reduced: 7,
+      productCategories: {
+        food: "reduced",
+        books: "reduced",
+        newspapers: "reduced",
+        passengerTransport: "reduced",
+        accommodation: "reduced",
+      },
+    },
+    {
+      country: "GR",
+      effectiveFrom: "2020-01-01",
+      standard: 24,
+      reduced: 13,
+      secondReduced: 6,
+      productCategories: {
+        food: "reduced",
+        books: "secondReduced",
+        newspapers: "secondReduced",
+        medicine: "secondReduced",
+        passengerTransport: "reduced",
+        accommodation: "reduced",
+        restaurants: "reduced",
+      },
+    },
+    {
+      country: "HU",
+      effectiveFrom: "2020-01-01",
+      standard: 27,
+      reduced: 18,
+      secondReduced: 5,
+      productCategories: {
+        food: "secondReduced",
+        books: "secondReduced",
+        newspapers: "secondReduced",
+        medicine: "secondReduced",
+        accommodation: "reduced",
+        restaurants: "secondReduced",
+      },
+    },
+    {
+      country: "IE",
+      effectiveFrom: "2020-01-01",
+      effectiveTo: "2020-08-31",
+      standard: 23,
+      reduced: 13.5,
+      secondReduced: 9,
+      superReduced: 4.8,
+      parking: 13.5,
+      productCategories: {
+        food: "zero",
+        books: "zero",
+        newspapers: "secondReduced",
+        medicine: "zero",
+        passengerTransport: "zero",
+        accommodation: "secondReduced",
+        restaurants: "secondReduced",
+      },
+    },
+    {
+      // Temporary reduction during the COVID-19 pandemic
+      country: "IE",
+      effectiveFrom: "2020-09-01",
+      effectiveTo: "2021-02-28",
+      standard: 21,
+      reduced: 13.5,
+      secondReduced: 9,
+      superReduced: 4.8,
+      parking: 13.5,
+      productCategories: {
+        food: "zero",
+        books: "zero",
+        newspapers: "secondReduced",
+        medicine: "zero",
+        passengerTransport: "zero",
+        accommodation: "secondReduced",
+        restaurants: "secondReduced",
+      },
+    },
+    {
+      country: "IE",
+      effectiveFrom: "2021-03-01",
+      effectiveTo: "2023-08-31",
+      standard: 23,
+      reduced: 13.5,
+      secondReduced: 9,
+      superReduced: 4.8,
+      parking: 13.5,
+      productCategories: {
+        food: "zero",
+        books: "zero",
+        newspapers: "secondReduced",
+        medicine: "zero",
+        passengerTransport: "zero",
+        accommodation: "secondReduced",
+        restaurants: "secondReduced",
+      },
+    },
+    {
+      country: "IE",
+      effectiveFrom: "2023-09-01",
+      standard: 23,
+      reduced: 13.5,
+      secondReduced: 9,
+      superReduced: 4.8,
+      parking: 13.5,
+      productCategories: {
+        food: "zero",
+        books: "zero",
+        newspapers: "secondReduced",
+        medicine: "zero",
+        passengerTransport: "zero",
+        accommodation: "reduced",
+        restaurants: "reduced",
+      },
+    },
+    {
+      country: "IT",
+      effectiveFrom: "2020-01-01",
+      standard: 22,
+      reduced: 10,
+      secondReduced: 5,
+      superReduced: 4,
+      productCategories: {
+        food: "superReduced",
+        books: "superReduced",
+        newspapers: "superReduced",
+        medicine: "reduced",
+        passengerTransport: "reduced",
+        accommodation: "reduced",
+        restaurants: "reduced",
+      },
+    },
+    { country: "LV", effectiveFrom: "2020-01-01", standard: 21, reduced: 12, secondReduced: 5 },
+    { country: "LT", effectiveFrom: "2020-01-01", standard: 21, reduced: 9, secondReduced: 5 },
+    {
+      country: "LU",
+      effectiveFrom: "2020-01-01",
+      effectiveTo: "2022-12-31",
+      standard: 17,
+      reduced: 8,
+      superReduced: 3,
+      parking: 14,
+      productCategories: {
+        food: "superReduced",
+        books: "superReduced",
+        newspapers: "superReduced",
+        medicine: "superReduced",
+        passengerTransport: "superReduced",
+        accommodation: "superReduced",
+        restaurants: "superReduced",
+      },
+    },
+    {
+      // Temporary reduction during the 2023 energy crisis; the super-reduced rate was unchanged
+      country: "LU",
+      effectiveFrom: "2023-01-01",
+      effectiveTo: "2023-12-31",
+      standard: 16,
+      reduced: 7,
+      superReduced: 3,
+      parking: 13,
+      productCategories: {
+        food: "superReduced",
+        books: "superReduced",
+        newspapers: "superReduced",
+        medicine: "superReduced",
+        passengerTransport: "superReduced",
+        accommodation: "superReduced",
+        restaurants: "superReduced",
+      },
+    },
+    {
+      country: "LU",
+      effectiveFrom: "2024-01-01",
+      standard: 17,
+      reduced: 8,
+      superReduced: 3,
+      parking: 14,
+      productCategories: {
+        food: "superReduced",
+        books: "superReduced",
+        newspapers: "superReduced",
+        medicine: "superReduced",
+        passengerTransport: "superReduced",
+        accommodation: "superReduced",
+        restaurants: "superReduced",
+      },
+    },
+    { country: "MT", effectiveFrom: "2020-01-01", standard: 18, reduced: 7, secondReduced: 5 },
+    {
+      country: "NL",
+      effectiveFrom: "2020-01-01",
+      standard: 21,
+      reduced: 9,
+      productCategories: {
+        food: "reduced",
+        books: "reduced",
+        newspapers: "reduced",
+        medicine: "reduced",
+        passengerTransport: "reduced",
+        accommodation: "reduced",
+        restaurants: "reduced",
+      },
+    },
+    {
+      country: "PL",
+      effectiveFrom: "2020-01-01",
+      standard: 23,
+      reduced: 8,
+      secondReduced: 5,
+      productCategories: {
+        food: "secondReduced",
+        books: "secondReduced",
+        newspapers: "secondReduced",
+        medicine: "reduced",
+        passengerTransport: "reduced",
+        accommodation: "reduced",
+        restaurants: "reduced",
+      },
+    },
+    {
+      country: "PT",
+      effectiveFrom: "2020-01-01",
+      standard: 23,
+      reduced: 13,
+      secondReduced: 6,
+      parking: 13,
+      productCategories: {
+        food: "secondReduced",
+        books: "secondReduced",
+        newspapers: "secondReduced",
+        medicine: "secondReduced",
+        passengerTransport: "secondReduced",
+        accommodation: "secondReduced",
+        restaurants: "reduced",
+      },
+    },
+    {
+      country: "RO",
+      effectiveFrom: "2020-01-01",
+      effectiveTo: "2025-07-31",
+      standard: 19,
+      reduced: 9,
+      secondReduced: 5,
+    },
+    { country: "RO", effectiveFrom: "2025-08-01", standard: 21, reduced: 11 }, // 9% and 5% merged
+    {
+      country: "SK",
+      effectiveFrom: "2020-01-01",
+      effectiveTo: "2024-12-31",
+      standard: 20,
+      reduced: 10,
+    },
+    { country: "SK", effectiveFrom: "2025-01-01", standard: 23, reduced: 19, secondReduced: 5 },
+    { country: "SI", effectiveFrom: "2020-01-01", standard: 22, reduced: 9.5, secondReduced: 5 },
+    {
+      country: "ES",
+      effectiveFrom: "2020-01-01",
+      standard: 21,
+      reduced: 10,
+      superReduced: 4,
+      productCategories: {
+        food: "superReduced",
+        books: "superReduced",
+        newspapers: "superReduced",
+        medicine: "superReduced",
+        passengerTransport: "reduced",
+        accommodation: "reduced",
+        restaurants: "reduced",
+      },
+    },
+    {
+      country: "SE",
+      effectiveFrom: "2020-01-01",
+      standard: 25,
+      reduced: 12,
+      secondReduced: 6,
+      productCategories: {
+        food: "reduced",
+        books: "secondReduced",
+        newspapers: "secondReduced",
+        medicine: "zero",
+        passengerTransport: "secondReduced",
+        accommodation: "reduced",
+        restaurants: "reduced",
+      },
+    },
+  ],
+};
+
+/**
+ * Validated, dated VAT rate table with per-category rate assignments
+ */
+export class VatRateTable {
+  private constructor(private readonly table: VatRateTableData) {}
+
+  /**
+   * Table over the built-in rates
+   */
+  static default(): VatRateTable {
+    return new VatRateTable(DEFAULT_VAT_RATES);
+  }
+
+  /**
+   * Validate parsed rate table data
+   */
+  static fromObject(data: unknown, source = "VAT rates"): Result<VatRateTable, ConversionError> {
+    const parsed = VatRateTableSchema.safeParse(data);
+    if (!parsed.success) {
+      return Result.err(
+        new ConversionError(
+          `Invalid VAT rate table in ${source}: ${
+            parsed.error.issues
+              .map((issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`)
+              .join("; ")
+          }`,
+          ErrorCode.CONFIGURATION_ERROR,
+          { source, issues: parsed.error.issues },
+        ),
+      );
+    }
+    return Result.ok(new VatRateTable(parsed.data));
+  }
+
+  /**
+   * Version of the loaded rate table
+   */
+  get version(): string {
+    return this.table.version;
+  }
+
+  /**
+   * Rates in force in a country on a date (YYYY-MM-DD)
+   */
+  getPeriod(country: string, date: string): VatRatePeriod | undefined {
+    return this.table.periods.find((period) =>
+      period.country === country &&
+      period.effectiveFrom <= date &&
+      (period.effectiveTo === undefined || date <= period.effectiveTo)
+    );
+  }
+
+  /**
+   * Pick the rate for a country, date and rate kind or product category
+   * @param country ISO 3166-1 alpha-2 code
+   * @param options.kind Rate kind requested by the invoice; overrides the product category
+   * @param options.productCategory Product category, mapped to the country's rate kind
+   */
+  getRate(
+    country: string,
+    date: string,
+    options: { kind?: VatRateKind; productCategory?: ProductCategory } = {},
+  ): Result<VatRateLookup, ConversionError> {
+    const period = this.getPeriod(country, date);
+    if (!period) {
+      return Result.err(
+        new ConversionError(
+          `No VAT rates for ${country} on ${date}`,
+          ErrorCode.OUT_OF_RANGE,
+          { field: "invoiceDate", country, date, version: this.version },
+        ),
+      );
+    }
+
+    const kind = options.kind ??
+      (options.productCategory && period.productCategories?.[options.productCategory]) ??
+      "standard";
+    const rate = kind === "zero" ? 0 : period[kind];
+    if (rate === undefined) {
+      return Result.err(
+        new ConversionError(
+          `${country} has no ${kind} VAT rate on ${date}`,
+          ErrorCode.INVALID_INPUT,
+          { field: "category", country, date, kind },
+        ),
+      );
+    }
+
+    return Result.ok({
+      rate,
+      kind,
+      effectiveFrom: period.effectiveFrom,
+      effectiveTo: period.effectiveTo,
+    });
+  }
+}
@@ -4,20 +4,66 @@ import {
   ConverterMetadata,
   ConversionError,
   ErrorCode,
+  ExactMoneySchema,
+  MoneyRepresentation,
   Result,
+  roundMoney,
+  toExactMoney,
 } from "../../shared/types/index.ts";
 import { z } from "zod";
 import { Decimal } from "decimal.js";
+import { MappingRegistry } from "../mappings/mapping-registry.ts";
+import { resolveCountry } from "../../shared/countries/index.ts";
+import {
+  PRODUCT_CATEGORIES,
+  VatRateKind,
+  VatRateKindSchema,
+  VatRateLookup,
+  VatRateTable,
+} from "./vat-rates.ts";
+import { ZipTaxRate, ZipTaxRateTable } from "./zip-tax-rates.ts";
+import { parseVatId, VatId } from "./vat-ids.ts";
+import { getSalesTaxRates, SalesTaxRates, US_SALES_TAX_RATES } from "./us-sales-tax-rates.ts";
+
+/**
+ * How VAT applies to a transaction: charged by the seller (`standard`), accounted for by a
+ * business buyer in another member state (`reverse_charge`), charged at the buyer's rate on a
+ * One-Stop-Shop distance sale (`oss`), or not at all (`exempt`)
+ */
+export const VatTransactionTypeSchema = z.enum(["standard", "reverse_charge", "oss", "exempt"]);
+
+export type VatTransactionType = z.infer<typeof VatTransactionTypeSchema>;
+
+/**
+ * VAT treatment applied to a transaction
+ */
+export const VatTreatmentSchema = z.object({
+  transactionType: VatTransactionTypeSchema,
+  vatCharged: z.boolean(), // False when the buyer accounts for the VAT or the supply is exempt
+  vatCountry: z.string(), // ISO 3166-1 alpha-2 of the member state whose VAT applies
+  sellerVatId: z.string().optional(), // Canonical form
+  buyerVatId: z.string().optional(), // Canonical form
+});
+
+export type VatTreatment = z.infer<typeof VatTreatmentSchema>;
 
 /**
  * EU VAT (Value Added Tax) schema
  */
 export const EUVATSchema = z.object({
   amount: z.number().positive(),
-  vatRate: z.number().min(0).max(100), // Percentage
+  vatRate: z.number().min(0).max(100).optional(), // Percentage; looked up from the rate table when omitted
   country: z.string(),
   isInclusive: z.boolean().optional().default(true), // VAT usually included in EU
   category: z.enum(["standard", "reduced", "zero", "exempt"]).optional(),
+  productCategory: z.enum(PRODUCT_CATEGORIES).optional(), // Picks the country's rate for the product
+  invoiceDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(), // Selects historical rates (default: today)
+  transactionType: VatTransactionTypeSchema.optional(), // Inferred from the VAT IDs and buyer country when omitted
+  sellerVatId: z.string().optional(), // Must belong to `country`
+  buyerVatId: z.string().optional(), // From another member state for reverse charge
+  buyerCountry: z.string().optional(), // Buyer's member state for OSS; defaults to the buyer VAT ID's
+  destinationZip: z.string().regex(/^\d{5}(-?\d{4})?$/).optional(), // US ZIP code the sale ships to
+  destinationAddress: z.object({ zipCode: z.string() }).optional(), // E.g. a USAAddress; used without destinationZip
 });
 
 export type EUVAT = z.infer<typeof EUVATSchema>;
@@ -38,118 +84,176 @@ export const USASalesTaxSchema = z.object({
     amount: z.number(),
     rate: z.number(),
     country: z.string(),
+    kind: VatRateKindSchema.optional(), // Set when the rate was looked up
+    effectiveFrom: z.string().optional(), // Start of the rate period that applied
   }),
+  exact: z.object({
+    subtotal: ExactMoneySchema,
+    taxAmount: ExactMoneySchema,
+    total: ExactMoneySchema,
+    stateTax: ExactMoneySchema,
+    localTax: ExactMoneySchema.optional(),
+  }).optional(), // Set when an exact money representation is requested
+  mappingVersion: z.string(), // Version of the country mapping table used for the state
+  vatRateVersion: z.string().optional(), // Version of the VAT rate table, when the rate was looked up
+  zipCode: z.string().optional(), // Destination ZIP code whose jurisdictions were taxed
+  jurisdictions: z.array(z.object({
+    type: z.enum(["state", "county", "city", "district"]),
+    name: z.string(),
+    rate: z.number(), // Percentage
+    amount: z.number(),
+  })).optional(), // Itemized taxes when a destination ZIP code was given
+  zipRateVersion: z.string().optional(), // Version of the ZIP rate table used for the jurisdictions
+  vatTreatment: VatTreatmentSchema, // Reverse charge, OSS and exempt transactions are flagged here
 });
 
 export type USASalesTax = z.infer<typeof USASalesTaxSchema>;
 
 /**
- * EU country VAT rates (2024)
+ * EU VAT invoice schema; line amounts share the invoice's VAT-inclusive or exclusive terms
  */
-const EU_VAT_RATES: Record<string, number> = {
-  "Germany": 19,
-  "France": 20,
-  "Italy": 22,
-  "Spain": 21,
-  "Netherlands": 21,
-  "Belgium": 21,
-  "Poland": 23,
-  "Sweden": 25,
-  "Denmark": 25,
-  "Austria": 20,
-  "Ireland": 23,
-  "Portugal": 23,
-  "Greece": 24,
-  "Czech Republic": 21,
-  "Finland": 24,
-  "Luxembourg": 17,
-  "Hungary": 27,
-};
+export const EUVATInvoiceSchema = z.object({
+  country: z.string(),
+  isInclusive: z.boolean().optional().default(true), // VAT usually included in EU
+  invoiceDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(), // Selects historical rates (default: today)
+  lines: z.array(z.object({
+    description: z.string().optional(),
+    kind: z.enum(["item", "shipping"]).optional().default("item"), // Shipping is left out of invoice discounts
+    quantity: z.number().positive().optional().default(1),
+    unitPrice: z.number().min(0),
+    discount: z.number().min(0).optional(), // Amount off this line
+    vatRate: z.number().min(0).max(100).optional(), // Percentage; looked up from the rate table when omitted
+    category: z.enum(["standard", "reduced", "zero", "exempt"]).optional(),
+    productCategory: z.enum(PRODUCT_CATEGORIES).optional(), // Picks the country's rate for the product
+  }).refine((line) => (line.discount ?? 0) <= line.unitPrice * (line.quantity ?? 1), {
+    message: "Line discount exceeds the line amount",
+    path: ["discount"],
+  })).min(1),
+  discounts: z.array(z.object({
+    description: z.string().optional(),
+    amount: z.number().positive().optional(),
+    percent: z.number().positive().max(100).optional(), // Of the item lines after line discounts
+  }).refine((discount) => (discount.amount === undefined) !== (discount.percent === undefined), {
+    message: "A discount has either an amount or a percentage",
+  })).optional(), // Spread over the item lines in proportion to their amounts
+  rounding: z.enum(["line", "invoice"]).optional().default("line"), // Where amounts are rounded to cents
+  transactionType: VatTransactionTypeSchema.optional(), // Inferred from the VAT IDs and buyer country when omitted
+  sellerVatId: z.string().optional(), // Must belong to `country`
+  buyerVatId: z.string().optional(), // From another member state for reverse charge
+  buyerCountry: z.string().optional(), // Buyer's member state for OSS; defaults to the buyer VAT ID's
+  destinationZip: z.string().regex(/^\d{5}(-?\d{4})?$/).optional(), // US ZIP code the sale ships to
+  destinationAddress: z.object({ zipCode: z.string() }).optional(), // E.g. a USAAddress; used without destinationZip
+});
+
+export type EUVATInvoice = z.input<typeof EUVATInvoiceSchema>;
 
 /**
- * US state sales tax rates (2024 averages including local)
+ * USA Sales Tax invoice schema
  */
-const US_SALES_TAX_RATES: Record<string, { state: number; avgLocal: number }> = {
-  "AL": { state: 4.0, avgLocal: 5.24 },
-  "AK": { state: 0.0, avgLocal: 1.76 },
-  "AZ": { state: 5.6, avgLocal: 2.80 },
-  "AR": { state: 6.5, avgLocal: 2.97 },
-  "CA": { state: 7.25, avgLocal: 1.43 },
-  "CO": { state: 2.9, avgLocal: 4.88 },
-  "CT": { state: 6.35, avgLocal: 0.0 },
-  "DE": { state: 0.0, avgLocal: 0.0 },
-  "FL": { state: 6.0, avgLocal: 1.05 },
-  "GA": { state: 4.0, avgLocal: 3.35 },
-  "HI": { state: 4.0, avgLocal: 0.44 },
-  "ID": { state: 6.0, avgLocal: 0.03 },
-  "IL": { state: 6.25, avgLocal: 2.57 },
-  "IN": { state: 7.0, avgLocal: 0.0 },
-  "IA": { state: 6.0, avgLocal: 0.94 },
-  "KS": { state: 6.5, avgLocal: 2.19 },
-  "KY": { state: 6.0, avgLocal: 0.0 },
-  "LA": { state: 4.45, avgLocal: 5.07 },
-  "ME": { state: 5.5, avgLocal: 0.0 },
-  "MD": { state: 6.0, avgLocal: 0.0 },
-  "MA": { state: 6.25, avgLocal: 0.0 },
-  "MI": { state: 6.0, avgLocal: 0.0 },
-  "MN": { state: 6.875, avgLocal: 0.60 },
-  "MS": { state: 7.0, avgLocal: 0.07 },
-  "MO": { state: 4.225, avgLocal: 4.01 },
-  "MT": { state: 0.0, avgLocal: 0.0 },
-  "NE": { state: 5.5, avgLocal: 1.44 },
-  "NV": { state: 6.85, avgLocal: 1.38 },
-  "NH": { state: 0.0, avgLocal: 0.0 },
-  "NJ": { state: 6.625, avgLocal: 0.0 },
-  "NM": { state: 5.125, avgLocal: 2.70 },
-  "NY": { state: 4.0, avgLocal: 4.53 },
-  "NC": { state: 4.75, avgLocal: 2.22 },
-  "ND": { state: 5.0, avgLocal: 1.96 },
-  "OH": { state: 5.75, avgLocal: 1.48 },
-  "OK": { state: 4.5, avgLocal: 4.45 },
-  "OR": { state: 0.0, avgLocal: 0.0 },
-  "PA": { state: 6.0, avgLocal: 0.34 },
-  "RI": { state: 7.0, avgLocal: 0.0 },
-  "SC": { state: 6.0, avgLocal: 1.46 },
-  "SD": { state: 4.5, avgLocal: 1.9 },
-  "TN": { state: 7.0, avgLocal: 2.55 },
-  "TX": { state: 6.25, avgLocal: 1.95 },
-  "UT": { state: 6.1, avgLocal: 1.09 },
-  "VT": { state: 6.0, avgLocal: 0.24 },
-  "VA": { state: 5.3, avgLocal: 0.45 },
-  "WA": { state: 6.5, avgLocal: 2.73 },
-  "WV": { state: 6.0, avgLocal: 0.52 },
-  "WI": { state: 5.0, avgLocal: 0.46 },
-  "WY": { state: 4.0, avgLocal: 1.34 },
-  "DC": { state: 6.0, avgLocal: 0.0 },
-};
+export const USASalesTaxInvoiceSchema = z.object({
+  lines: z.array(z.object({
+    description: z.string().optional(),
+    kind: z.enum(["item", "shipping"]),
+    quantity: z.number(),
+    discount: z.number(), // Line and invoice discounts, in the invoice's VAT terms
+    netAmount: z.number(), // Taxable amount without VAT
+    vatRate: z.number(), // Percentage
+    vatKind: VatRateKindSchema.optional(), // Set when the rate was looked up
+    vatAmount: z.number(),
+    stateTax: z.number(),
+    localTax: z.number().optional(),
+    salesTax: z.number(),
+    total: z.number(),
+  })),
+  subtotal: z.number(),
+  discountTotal: z.number(),
+  taxAmount: z.number(),
+  total: z.number(),
+  taxRate: z.number(), // Percentage
+  state: z.string(),
+  locality: z.string().optional(),
+  stateTax: z.number(),
+  localTax: z.number().optional(),
+  rounding: z.enum(["line", "invoice"]),
+  reconciliation: z.object({
+    euTotal: z.number(), // Invoice total including VAT
+    vatRemoved: z.number(),
+    salesTaxAdded: z.number(),
+    difference: z.number(), // Sales tax added minus VAT removed
+    usTotal: z.number(),
+  }),
+  originalVAT: z.object({
+    country: z.string(),
+    isInclusive: z.boolean(),
+  }),
+  exact: USASalesTaxSchema.shape.exact, // Set when an exact money representation is requested
+  mappingVersion: z.string(), // Version of the country mapping table used for the state
+  vatRateVersion: z.string().optional(), // Version of the VAT rate table, when a rate was looked up
+  zipCode: z.string().optional(), // Destination ZIP code whose jurisdictions were taxed
+  jurisdictions: USASalesTaxSchema.shape.jurisdictions, // Itemized taxes when a destination ZIP code was given
+  zipRateVersion: z.string().optional(), // Version of the ZIP rate table used for the jurisdictions
+  vatTreatment: VatTreatmentSchema, // Reverse charge, OSS and exempt transactions are flagged here
+});
+
+export type USASalesTaxInvoice = z.infer<typeof USASalesTaxInvoiceSchema>;
 
 /**
- * Map EU countries to comparable US states
+ * Rate kinds for the invoice-level VAT categories
  */
-const EU_COUNTRY_TO_US_STATE: Record<string, string> = {
-  "Germany": "TX",
-  "France": "CA",
-  "Italy": "NY",
-  "Spain": "FL",
-  "Netherlands": "MA",
-  "Belgium": "DC",
-  "Poland": "IL",
-  "Sweden": "WA",
-  "Denmark": "OR",
-  "Austria": "CO",
-  "Ireland": "MA",
-  "Portugal": "RI",
-  "Greece": "FL",
-  "Czech Republic": "OH",
-  "Finland": "MN",
-  "Luxembourg": "DE",
-  "Hungary": "NJ",
+export const CATEGORY_RATE_KINDS: Record<NonNullable<EUVAT["category"]>, VatRateKind> = {
+  standard: "standard",
+  reduced: "reduced",
+  zero: "zero",
+  exempt: "zero",
 };
 
+/**
+ * Tax owed to one jurisdiction of the destination ZIP code
+ */
+interface JurisdictionTax {
+  type: "state" | "county" | "city" | "district";
+  name: string;
+  rate: number;
+  amount: Decimal;
+}
+
+/**
+ * Amounts of one invoice line, rounded to cents under line rounding
+ */
+interface InvoiceLineTax {
+  line: EUVATInvoice["lines"][number];
+  vat: { rate: number; lookup?: VatRateLookup };
+  discount: Decimal;
+  netAmount: Decimal;
+  grossAmount: Decimal;
+  stateTax: Decimal;
+  localTax: Decimal;
+  jurisdictions?: JurisdictionTax[];
+}
+
+export interface VatToSalesTaxConverterOptions {
+  /** Country to state mappings; defaults to the built-in table */
+  mappings?: MappingRegistry;
+  /** Dated VAT rates used when the input has no explicit rate; defaults to the built-in table */
+  rates?: VatRateTable;
+  /** Sales tax rates by ZIP code, required for inputs with a destination ZIP code */
+  zipRates?: ZipTaxRateTable;
+}
+
 /**
  * Converts EU VAT to USA Sales Tax
  */
 export class VatToSalesTaxConverter implements Converter<EUVAT, USASalesTax> {
+  private readonly mappings: MappingRegistry;
+  private readonly rates: VatRateTable;
+  private readonly zipRates?: ZipTaxRateTable;
+
+  constructor(options: VatToSalesTaxConverterOptions = {}) {
+    this.mappings = options.mappings ?? MappingRegistry.default();
+    this.rates = options.rates ?? VatRateTable.default();
+    this.zipRates = options.zipRates;
+  }
+
   /**
    * Convert EU VAT to USA Sales Tax
    */
@@ -169,38 +273,266 @@ export class VatToSalesTaxConverter implements Converter<EUVAT, USASalesTax> {
         );
       }
 
-      // Get or use provided VAT rate
-      const vatRate = input.vatRate ?? this.getVATRate(input.country);
+      const country = resolveCountry(input.country);
+      if (Result.isErr(country)) {
+        return country;
+      }
+
+      // Reverse charge, OSS or exemption, from the transaction type or the parties' VAT IDs
+      const treatment = this.resolveVatTreatment(input, country.value.alpha2);
+      if (Result.isErr(treatment)) {
+        return treatment;
+      }
+
+      // Use the provided VAT rate, or the one in force on the invoice date
+      const vat = this.lookupVatRate(treatment.value, input, input.invoiceDate);
+      if (Result.isErr(vat)) {
+        return vat;
+      }
+      const { rate: vatRate, lookup } = vat.value;
       
-      // Calculate base amount (excluding VAT)
+      // Calculate base amount (excluding VAT); VAT that was never charged is not stripped
       const baseAmount = this.calculateBaseAmount(input.amount, vatRate, input.isInclusive);
       
+      // Destination jurisdictions, when the sale has a US ZIP code
+      const destination = this.resolveDestination(input);
+      if (Result.isErr(destination)) {
+        return destination;
+      }
+      const zipRate = destination.value;
+
       // Map to US state
-      const state = this.mapToUSState(input.country);
+      const state = zipRate?.state ?? this.mapToUSState(country.value.alpha2);
       
       // Get US tax rates
-      const taxRates = this.getUSTaxRates(state);
+      const taxRates = this.getDestinationTaxRates(state, zipRate);
       
+      // Round each component to cents when exact money output or a rounding mode is requested
+      const settle = config?.moneyRepresentation !== undefined || config?.roundingMode !== undefined;
+      const round = (value: Decimal) =>
+        settle ? roundMoney(value, 2, config?.roundingMode) : value;
+
       // Calculate US sales tax
-      const stateTax = this.calculateTax(baseAmount, taxRates.state);
-      const localTax = this.calculateTax(baseAmount, taxRates.avgLocal);
+      const subtotal = round(baseAmount);
+      const stateTax = round(this.calculateTax(subtotal, taxRates.state));
+      const jurisdictions = zipRate
+        ? this.itemizeJurisdictions(zipRate, subtotal, stateTax, round)
+        : undefined;
+      const localTax = jurisdictions
+        ? jurisdictions.slice(1).reduce((sum, j) => sum.plus(j.amount), new Decimal(0))
+        : round(this.calculateTax(subtotal, taxRates.avgLocal));
       const totalTax = stateTax.plus(localTax);
-      const total = baseAmount.plus(totalTax);
+      const total = subtotal.plus(totalTax);
 
       const result: USASalesTax = {
-        subtotal: baseAmount.toNumber(),
+        subtotal: subtotal.toNumber(),
         taxAmount: totalTax.toNumber(),
         total: total.toNumber(),
         taxRate: taxRates.state + taxRates.avgLocal,
         state,
-        locality: taxRates.avgLocal > 0 ? "Average Local Rate" : undefined,
+        locality: zipRate
+          ? zipRate.city ?? zipRate.county
+          : taxRates.avgLocal > 0
+          ? "Average Local Rate"
+          : undefined,
         stateTax: stateTax.toNumber(),
         localTax: taxRates.avgLocal > 0 ? localTax.toNumber() : undefined,
         originalVAT: {
           amount: input.amount,
           rate: vatRate,
           country: input.country,
+          kind: lookup?.kind,
+          effectiveFrom: lookup?.effectiveFrom,
         },
+        exact: this.toExactAmounts(
+          { subtotal, taxAmount: totalTax, total, stateTax },
+          taxRates.avgLocal > 0 ? localTax : undefined,
+          config?.moneyRepresentation,
+        ),
+        mappingVersion: this.mappings.version,
+        vatRateVersion: lookup ? this.rates.version : undefined,
+        zipCode: zipRate?.zipCode,
+        jurisdictions: jurisdictions?.map((j) => ({ ...j, amount: j.amount.toNumber() })),
+        zipRateVersion: zipRate ? this.zipRates?.version : undefined,
+        vatTreatment: treatment.value,
+      };
+
+      return Result.ok(result);
+    } catch (error) {
+      return Result.err(
+        new ConversionError(
+          `Tax conversion failed: ${error instanceof Error ? error.message : "Unknown error"}`,
+          ErrorCode.CONVERSION_FAILED,
+          { input, error },
+          false,
+        ),
+      );
+    }
+  }
+
+  /**
+   * Convert a multi-line EU VAT invoice to USA Sales Tax, line by line
+   */
+  async convertInvoice(
+    input: EUVATInvoice,
+    config?: ConverterConfig,
+  ): Promise<Result<USASalesTaxInvoice, ConversionError>> {
+    try {
+      // Validate input if not skipped
+      if (!config?.skipValidation && !EUVATInvoiceSchema.safeParse(input).success) {
+        return Result.err(
+          new ConversionError(
+            "Invalid EU VAT invoice format",
+            ErrorCode.INVALID_INPUT,
+            { input },
+          ),
+        );
+      }
+
+      const country = resolveCountry(input.country);
+      if (Result.isErr(country)) {
+        return country;
+      }
+
+      const treatment = this.resolveVatTreatment(input, country.value.alpha2);
+      if (Result.isErr(treatment)) {
+        return treatment;
+      }
+
+      const destination = this.resolveDestination(input);
+      if (Result.isErr(destination)) {
+        return destination;
+      }
+      const zipRate = destination.value;
+      const state = zipRate?.state ?? this.mapToUSState(country.value.alpha2);
+      const taxRates = this.getDestinationTaxRates(state, zipRate);
+
+      // Line rounding settles every line to cents; invoice rounding only settles the totals
+      const isInclusive = input.isInclusive ?? true;
+      const rounding = input.rounding ?? "line";
+      const settle = (value: Decimal) => roundMoney(value, 2, config?.roundingMode);
+      const round = rounding === "line" ? settle : (value: Decimal) => value;
+
+      const amounts = input.lines.map((line) =>
+        round(new Decimal(line.unitPrice).mul(line.quantity ?? 1)).minus(line.discount ?? 0)
+      );
+      const discounts = this.allocateDiscounts(input, amounts, round);
+      if (Result.isErr(discounts)) {
+        return discounts;
+      }
+
+      let lookedUp = false;
+      const lines: InvoiceLineTax[] = [];
+      for (const [i, line] of input.lines.entries()) {
+        const vat = this.lookupVatRate(treatment.value, line, input.invoiceDate);
+        if (Result.isErr(vat)) {
+          return vat;
+        }
+        lookedUp ||= vat.value.lookup !== undefined;
+
+        // An inclusive line keeps its gross amount; the VAT is what is left after the net
+        const amount = amounts[i].minus(discounts.value[i]);
+        const multiplier = new Decimal(vat.value.rate).div(100).plus(1);
+        const netAmount = round(isInclusive ? amount.div(multiplier) : amount);
+        const grossAmount = isInclusive ? amount : round(netAmount.mul(multiplier));
+
+        const stateTax = round(this.calculateTax(netAmount, taxRates.state));
+        const jurisdictions = zipRate
+          ? this.itemizeJurisdictions(zipRate, netAmount, stateTax, round)
+          : undefined;
+        const localTax = jurisdictions
+          ? jurisdictions.slice(1).reduce((sum, j) => sum.plus(j.amount), new Decimal(0))
+          : round(this.calculateTax(netAmount, taxRates.avgLocal));
+
+        lines.push({
+          line,
+          vat: vat.value,
+          discount: new Decimal(line.discount ?? 0).plus(discounts.value[i]),
+          netAmount,
+          grossAmount,
+          stateTax,
+          localTax,
+          jurisdictions,
+        });
+      }
+
+      const sum = (values: Decimal[]) => values.reduce((total, v) => total.plus(v), new Decimal(0));
+
+      // Invoice totals; VAT is derived from the settled gross or net so the totals reconcile
+      const subtotal = settle(sum(lines.map((l) => l.netAmount)));
+      const euTotal = isInclusive
+        ? settle(sum(lines.map((l) => l.grossAmount)))
+        : subtotal.plus(settle(sum(lines.map((l) => l.grossAmount.minus(l.netAmount)))));
+      const vatRemoved = euTotal.minus(subtotal);
+      const stateTax = settle(sum(lines.map((l) => l.stateTax)));
+      const jurisdictions = zipRate
+        ? lines[0].jurisdictions!.map((j, k) => ({
+          ...j,
+          amount: k === 0 ? stateTax : settle(sum(lines.map((l) => l.jurisdictions![k].amount))),
+        }))
+        : undefined;
+      const localTax = jurisdictions
+        ? sum(jurisdictions.slice(1).map((j) => j.amount))
+        : settle(sum(lines.map((l) => l.localTax)));
+      const taxAmount = stateTax.plus(localTax);
+      const total = subtotal.plus(taxAmount);
+
+      const result: USASalesTaxInvoice = {
+        lines: lines.map((l) => {
+          const netAmount = settle(l.netAmount);
+          const stateTax = settle(l.stateTax);
+          const localTax = settle(l.localTax);
+          return {
+            description: l.line.description,
+            kind: l.line.kind ?? "item",
+            quantity: l.line.quantity ?? 1,
+            discount: settle(l.discount).toNumber(),
+            netAmount: netAmount.toNumber(),
+            vatRate: l.vat.rate,
+            vatKind: l.vat.lookup?.kind,
+            vatAmount: settle(l.grossAmount).minus(netAmount).toNumber(),
+            stateTax: stateTax.toNumber(),
+            localTax: taxRates.avgLocal > 0 ? localTax.toNumber() : undefined,
+            salesTax: stateTax.plus(localTax).toNumber(),
+            total: netAmount.plus(stateTax).plus(localTax).toNumber(),
+          };
+        }),
+        subtotal: subtotal.toNumber(),
+        discountTotal: settle(sum(lines.map((l) => l.discount))).toNumber(),
+        taxAmount: taxAmount.toNumber(),
+        total: total.toNumber(),
+        taxRate: taxRates.state + taxRates.avgLocal,
+        state,
+        locality: zipRate
+          ? zipRate.city ?? zipRate.county
+          : taxRates.avgLocal > 0
+          ? "Average Local Rate"
+          : undefined,
+        stateTax: stateTax.toNumber(),
+        localTax: taxRates.avgLocal > 0 ? localTax.toNumber() : undefined,
+        rounding,
+        reconciliation: {
+          euTotal: euTotal.toNumber(),
+          vatRemoved: vatRemoved.toNumber(),
+          salesTaxAdded: taxAmount.toNumber(),
+          difference: taxAmount.minus(vatRemoved).toNumber(),
+          usTotal: total.toNumber(),
+        },
+        originalVAT: {
+          country: input.country,
+          isInclusive,
+        },
+        exact: this.toExactAmounts(
+          { subtotal, taxAmount, total, stateTax },
+          taxRates.avgLocal > 0 ? localTax : undefined,
+          config?.moneyRepresentation,
+        ),
+        mappingVersion: this.mappings.version,
+        vatRateVersion: lookedUp ? this.rates.version : undefined,
+        zipCode: zipRate?.zipCode,
+        jurisdictions: jurisdictions?.map((j) => ({ ...j, amount: j.amount.toNumber() })),
+        zipRateVersion: zipRate ? this.zipRates?.version : undefined,
+        vatTreatment: treatment.value,
       };
 
       return Result.ok(result);
@@ -243,10 +575,10 @@ export class VatToSalesTaxConverter implements Converter<EUVAT, USASalesTax> {
   }
 
   /**
-   * Get VAT rate for country
+   * Today's date (UTC) as YYYY-MM-DD
    */
-  private getVATRate(country: string): number {
-    return EU_VAT_RATES[country] || 20; // Default to 20%
+  private today(): string {
+    return new Date().toISOString().slice(0, 10);
   }
 
   /**
@@ -269,18 +601,235 @@ export class VatToSalesTaxConverter implements Converter<EUVAT, USASalesTax> {
     }
   }
 
+  /**
+   * The given VAT rate, or the one in force on the invoice date in the member state whose VAT
+   * applies; zero when no VAT was charged
+   */
+  private lookupVatRate(
+    treatment: VatTreatment,
+    source: Pick<EUVAT, "vatRate" | "category" | "productCategory">,
+    invoiceDate: string | undefined,
+  ): Result<{ rate: number; lookup?: VatRateLookup }, ConversionError> {
+    if (!treatment.vatCharged) {
+      return Result.ok({ rate: 0 });
+    }
+    if (source.vatRate !== undefined) {
+      return Result.ok({ rate: source.vatRate });
+    }
+
+    const found = this.rates.getRate(treatment.vatCountry, invoiceDate ?? this.today(), {
+      kind: source.category && CATEGORY_RATE_KINDS[source.category],
+      productCategory: source.productCategory,
+    });
+    if (Result.isErr(found)) {
+      return found;
+    }
+    return Result.ok({ rate: found.value.rate, lookup: found.value });
+  }
+
+  /**
+   * Work out how VAT applies from the transaction type, or infer it: a buyer VAT ID from another
+   * member state means reverse charge, a buyer country elsewhere in the EU without one means OSS
+   */
+  private resolveVatTreatment(
+    input: Pick<EUVAT, "transactionType" | "sellerVatId" | "buyerVatId" | "buyerCountry">,
+    sellerCountry: string,
+  ): Result<VatTreatment, ConversionError> {
+    let seller: VatId | undefined;
+    if (input.sellerVatId !== undefined) {
+      const parsed = parseVatId(input.sellerVatId, "sellerVatId");
+      if (Result.isErr(parsed)) {
+        return parsed;
+      }
+      if (parsed.value.country !== sellerCountry) {
+        return Result.err(
+          new ConversionError(
+            `Seller VAT ID ${parsed.value.vatId} is not from ${sellerCountry}`,
+            ErrorCode.INVALID_INPUT,
+            { field: "sellerVatId", vatId: input.sellerVatId, country: sellerCountry },
+          ),
+        );
+      }
+      seller = parsed.value;
+    }
+
+    let buyer: VatId | undefined;
+    if (input.buyerVatId !== undefined) {
+      const parsed = parseVatId(input.buyerVatId, "buyerVatId");
+      if (Result.isErr(parsed)) {
+        return parsed;
+      }
+      buyer = parsed.value;
+    }
+
+    let buyerCountry = buyer?.country;
+    if (input.buyerCountry !== undefined) {
+      const resolved = resolveCountry(input.buyerCountry);
+      if (Result.isErr(resolved)) {
+        return resolved;
+      }
+      buyerCountry = resolved.value.alpha2;
+    }
+
+    const crossBorder = buyerCountry !== undefined && buyerCountry !== sellerCountry;
+    const transactionType = input.transactionType ??
+      (crossBorder ? (buyer ? "reverse_charge" : "oss") : "standard");
+
+    if (transactionType === "reverse_charge" && (!buyer || buyer.country === sellerCountry)) {
+      return Result.err(
+        new ConversionError(
+          "Reverse charge requires a buyer VAT ID from another member state",
+          buyer ? ErrorCode.INVALID_INPUT : ErrorCode.MISSING_REQUIRED_FIELD,
+          { field: "buyerVatId", buyerVatId: input.buyerVatId, sellerCountry },
+        ),
+      );
+    }
+    if (transactionType === "oss" && (buyer || !crossBorder)) {
+      return Result.err(
+        new ConversionError(
+          buyer
+            ? "OSS covers sales to consumers; a buyer with a VAT ID is reverse charged"
+            : "OSS requires a buyer country in another member state",
+          buyerCountry === undefined ? ErrorCode.MISSING_REQUIRED_FIELD : ErrorCode.INVALID_INPUT,
+          { field: buyer ? "buyerVatId" : "buyerCountry", buyerCountry, sellerCountry },
+        ),
+      );
+    }
+
+    return Result.ok({
+      transactionType,
+      vatCharged: transactionType === "standard" || transactionType === "oss",
+      vatCountry: transactionType === "oss" ? buyerCountry! : sellerCountry,
+      sellerVatId: seller?.vatId,
+      buyerVatId: buyer?.vatId,
+    });
+  }
+
+  /**
+   * Spread invoice discounts over the item lines in proportion to their amounts; the
+   * rounding remainder goes to the last item line
+   */
+  private allocateDiscounts(
+    input: EUVATInvoice,
+    amounts: Decimal[],
+    round: (value: Decimal) => Decimal,
+  ): Result<Decimal[], ConversionError> {
+    const items = input.lines.map((line, i) =>
+      (line.kind ?? "item") === "item" ? amounts[i] : new Decimal(0)
+    );
+    const itemTotal = items.reduce((sum, amount) => sum.plus(amount), new Decimal(0));
+    const discount = round(
+      (input.discounts ?? []).reduce(
+        (sum, d) => sum.plus(d.amount ?? itemTotal.mul(d.percent ?? 0).div(100)),
+        new Decimal(0),
+      ),
+    );
+
+    if (discount.gt(itemTotal)) {
+      return Result.err(
+        new ConversionError(
+          "Invoice discounts exceed the item total",
+          ErrorCode.INVALID_INPUT,
+          { field: "discounts", discount: discount.toNumber(), itemTotal: itemTotal.toNumber() },
+        ),
+      );
+    }
+    if (discount.isZero()) {
+      return Result.ok(items.map(() => new Decimal(0)));
+    }
+
+    const shares = items.map((amount) => round(discount.mul(amount).div(itemTotal)));
+    const last = items.findLastIndex((amount) => amount.gt(0));
+    const allocated = shares.reduce((sum, share) => sum.plus(share), new Decimal(0));
+    shares[last] = shares[last].plus(discount.minus(allocated));
+    return Result.ok(shares);
+  }
+
   /**
    * Map EU country to US state
    */
   private mapToUSState(country: string): string {
-    return EU_COUNTRY_TO_US_STATE[country] || "NY";
+    return this.mappings.getState(country);
+  }
+
+  /**
+   * Look up the destination ZIP code's jurisdictions
+   */
+  private resolveDestination(
+    input: Pick<EUVAT, "destinationZip" | "destinationAddress">,
+  ): Result<ZipTaxRate | undefined, ConversionError> {
+    const zipCode = input.destinationZip ?? input.destinationAddress?.zipCode;
+    if (zipCode === undefined) {
+      return Result.ok(undefined);
+    }
+
+    if (!this.zipRates) {
+      return Result.err(
+        new ConversionError(
+          "A destination ZIP code requires a ZIP tax rate table",
+          ErrorCode.CONFIGURATION_ERROR,
+          { zipCode },
+        ),
+      );
+    }
+
+    const rate = this.zipRates.getRate(zipCode);
+    if (!rate) {
+      return Result.err(
+        new ConversionError(
+          `No sales tax rates for ZIP code ${zipCode}`,
+          ErrorCode.INVALID_INPUT,
+          { field: "destinationZip", zipCode, version: this.zipRates.version },
+        ),
+      );
+    }
+    return Result.ok(rate);
+  }
+
+  /**
+   * Tax per jurisdiction, state first; local jurisdictions without a rate are left out
+   */
+  private itemizeJurisdictions(
+    zipRate: ZipTaxRate,
+    subtotal: Decimal,
+    stateTax: Decimal,
+    round: (value: Decimal) => Decimal,
+  ): JurisdictionTax[] {
+    const local = [
+      { type: "county" as const, name: zipRate.county, rate: zipRate.countyRate },
+      { type: "city" as const, name: zipRate.city, rate: zipRate.cityRate },
+      { type: "district" as const, name: zipRate.district, rate: zipRate.districtRate },
+    ].filter((j) => j.rate > 0);
+
+    return [
+      { type: "state" as const, name: zipRate.state, rate: zipRate.stateRate, amount: stateTax },
+      ...local.map((j) => ({
+        type: j.type,
+        name: j.name ?? `${zipRate.zipCode} ${j.type}`,
+        rate: j.rate,
+        amount: round(this.calculateTax(subtotal, j.rate)),
+      })),
+    ];
+  }
+
+  /**
+   * Rates of the destination ZIP code's jurisdictions, or the state's average rates
+   */
+  private getDestinationTaxRates(state: string, zipRate: ZipTaxRate | undefined): SalesTaxRates {
+    if (!zipRate) {
+      return this.getUSTaxRates(state);
+    }
+    return {
+      state: zipRate.stateRate,
+      avgLocal: zipRate.countyRate + zipRate.cityRate + zipRate.districtRate,
+    };
   }
 
   /**
    * Get US tax rates for state
    */
-  private getUSTaxRates(state: string): { state: number; avgLocal: number } {
-    return US_SALES_TAX_RATES[state] || { state: 6.25, avgLocal: 1.0 };
+  private getUSTaxRates(state: string): SalesTaxRates {
+    return getSalesTaxRates(state);
   }
 
   /**
@@ -290,6 +839,27 @@ export class VatToSalesTaxConverter implements Converter<EUVAT, USASalesTax> {
     return baseAmount.mul(new Decimal(rate).div(100));
   }
 
+  /**
+   * Express settled amounts in the requested exact representation
+   */
+  private toExactAmounts(
+    amounts: { subtotal: Decimal; taxAmount: Decimal; total: Decimal; stateTax: Decimal },
+    localTax: Decimal | undefined,
+    representation: MoneyRepresentation | undefined,
+  ): USASalesTax["exact"] {
+    if (representation === undefined || representation === "number") {
+      return undefined;
+    }
+
+    return {
+      subtotal: toExactMoney(amounts.subtotal, 2, representation)!,
+      taxAmount: toExactMoney(amounts.taxAmount, 2, representation)!,
+      total: toExactMoney(amounts.total, 2, representation)!,
+      stateTax: toExactMoney(amounts.stateTax, 2, representation)!,
+      localTax: localTax ? toExactMoney(localTax, 2, representation) : undefined,
+    };
+  }
+
   /**
    * Calculate total with tax (convenience method)
    */
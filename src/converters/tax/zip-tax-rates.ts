@@ -0,0 +1,198 @@
+import { ConversionError, ErrorCode, Result } from "../../shared/types/index.ts";
+import { z } from "zod";
+
+const RateSchema = z.number().min(0).max(100); // Percentage
+
+/**
+ * Combined sales tax jurisdictions of one US ZIP code
+ */
+export const ZipTaxRateSchema = z.object({
+  zipCode: z.string().regex(/^\d{5}$/),
+  state: z.string().regex(/^[A-Z]{2}$/),
+  stateRate: RateSchema,
+  county: z.string().optional(),
+  countyRate: RateSchema.default(0),
+  city: z.string().optional(),
+  cityRate: RateSchema.default(0),
+  district: z.string().optional(), // Special taxing districts (transit, stadium, ...), combined
+  districtRate: RateSchema.default(0),
+});
+
+export type ZipTaxRate = z.infer<typeof ZipTaxRateSchema>;
+
+export const ZipTaxRateTableSchema = z.object({
+  version: z.string().min(1), // Recorded on every conversion that used the table
+  rates: z.array(ZipTaxRateSchema),
+});
+
+export type ZipTaxRateTableData = z.infer<typeof ZipTaxRateTableSchema>;
+
+/**
+ * Columns of a rate table CSV file; a header row names them in any order
+ */
+const CSV_COLUMNS = [
+  "zipCode",
+  "state",
+  "stateRate",
+  "county",
+  "countyRate",
+  "city",
+  "cityRate",
+  "district",
+  "districtRate",
+] as const;
+
+const NUMERIC_COLUMNS = new Set(["stateRate", "countyRate", "cityRate", "districtRate"]);
+
+/**
+ * US sales tax rates by ZIP code, loaded from a local rate table file
+ */
+export class ZipTaxRateTable {
+  private readonly byZip = new Map<string, ZipTaxRate>();
+
+  private constructor(private readonly table: ZipTaxRateTableData) {
+    for (const rate of table.rates) {
+      this.byZip.set(rate.zipCode, rate);
+    }
+  }
+
+  /**
+   * Validate parsed rate table data
+   */
+  static fromObject(data: unknown, source = "ZIP rates"): Result<ZipTaxRateTable, ConversionError> {
+    const parsed = ZipTaxRateTableSchema.safeParse(data);
+    if (!parsed.success) {
+      return Result.err(
+        new ConversionError(
+          `Invalid ZIP tax rates in ${source}: ${
+            parsed.error.issues
+              .map((issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`)
+              .join("; ")
+          }`,
+          ErrorCode.CONFIGURATION_ERROR,
+          { source, issues: parsed.error.issues },
+        ),
+      );
+    }
+
+    const seen = new Set<string>();
+    const duplicates = parsed.data.rates
+      .map((rate) => rate.zipCode)
+      .filter((zipCode) => seen.has(zipCode) || !seen.add(zipCode));
+    if (duplicates.length > 0) {
+      return Result.err(
+        new ConversionError(
+          `Invalid ZIP tax rates in ${source}: duplicate ZIP codes ${duplicates.join(", ")}`,
+          ErrorCode.CONFIGURATION_ERROR,
+          { source, duplicates },
+        ),
+      );
+    }
+
+    return Result.ok(new ZipTaxRateTable(parsed.data));
+  }
+
+  /**
+   * Parse a CSV rate table with a header row; empty cells are omitted and lines starting
+   * with "#" are comments
+   */
+  static fromCsv(
+    text: string,
+    version: string,
+    source = "CSV",
+  ): Result<ZipTaxRateTable, ConversionError> {
+    const [header, ...rows] = text
+      .split(/\r?\n/)
+      .filter((line) => line.trim() !== "" && !line.startsWith("#"))
+      .map(splitCsvLine);
+
+    const columns = header ?? [];
+    const unknown = columns.filter((column) =>
+      !(CSV_COLUMNS as readonly string[]).includes(column)
+    );
+    if (unknown.length > 0) {
+      return Result.err(
+        new ConversionError(
+          `Invalid ZIP tax rates in ${source}: unknown columns ${unknown.join(", ")}`,
+          ErrorCode.CONFIGURATION_ERROR,
+          { source, unknownColumns: unknown },
+        ),
+      );
+    }
+
+    const rates = rows.map((cells) =>
+      Object.fromEntries(
+        columns
+          .map((column, i) => [column, cells[i]?.trim() ?? ""] as const)
+          .filter(([, cell]) => cell !== "")
+          .map(([column, cell]) => [column, NUMERIC_COLUMNS.has(column) ? Number(cell) : cell]),
+      )
+    );
+
+    return ZipTaxRateTable.fromObject({ version, rates }, source);
+  }
+
+  /**
+   * Load and validate a rate table file: .json with version and rates, or .csv versioned
+   * by its file name
+   */
+  static async fromFile(path: string): Promise<Result<ZipTaxRateTable, ConversionError>> {
+    try {
+      const text = await Deno.readTextFile(path);
+      if (/\.csv$/i.test(path)) {
+        const version = path.replace(/^.*[\\/]/, "").replace(/\.csv$/i, "");
+        return ZipTaxRateTable.fromCsv(text, version, path);
+      }
+      return ZipTaxRateTable.fromObject(JSON.parse(text), path);
+    } catch (error) {
+      return Result.err(
+        new ConversionError(
+          `Failed to load ZIP tax rates: ${
+            error instanceof Error ? error.message : "Unknown error"
+          }`,
+          ErrorCode.CONFIGURATION_ERROR,
+          { path, error },
+        ),
+      );
+    }
+  }
+
+  /**
+   * Version of the loaded rate table
+   */
+  get version(): string {
+    return this.table.version;
+  }
+
+  /**
+   * Jurisdictions of a 5-digit ZIP or ZIP+4 code
+   */
+  getRate(zipCode: string): ZipTaxRate | undefined {
+    return this.byZip.get(zipCode.trim().slice(0, 5));
+  }
+}
+
+/**
+ * Split a CSV line on commas outside double quotes
+ */
+function splitCsvLine(line: string): string[] {
+  const cells: string[] = [];
+  let cell = "";
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (char === '"' && quoted && line[i + 1] === '"') {
+      cell += '"';
+      i++;
+    } else if (char === '"') {
+      quoted = !quoted;
+    } else if (char === "," && !quoted) {
+      cells.push(cell);
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+  cells.push(cell);
+  return cells.map((value) => value.trim());
+}
@@ -0,0 +1,121 @@
+import { assertAlmostEquals, assertEquals } from "@std/testing";
+import { ImperialToMetricConverter } from "./imperial-to-metric.ts";
+import { MetricToImperialConverter } from "./metric-to-imperial.ts";
+import { ImperialUnit, MetricUnit } from "./types.ts";
+import { ErrorCode } from "../../shared/types/converter.ts";
+
+Deno.test("ImperialToMetricConverter", async (t) => {
+  const converter = new ImperialToMetricConverter();
+
+  await t.step("should convert feet to meters", async () => {
+    const result = await converter.convert({ value: 10, unit: ImperialUnit.FOOT });
+
+    assertEquals(result.success, true);
+    if (result.success) {
+      assertEquals(result.value.value, 3.05);
+      assertEquals(result.value.unit, MetricUnit.METER);
+      assertEquals(result.value.originalUnit, ImperialUnit.FOOT);
+      assertEquals(result.value.dimension, "length");
+    }
+  });
+
+  await t.step("should convert Fahrenheit to Celsius", async () => {
+    const result = await converter.convert({ value: 98.6, unit: ImperialUnit.FAHRENHEIT });
+
+    assertEquals(result.success, true);
+    if (result.success) {
+      assertEquals(result.value.value, 37);
+      assertEquals(result.value.unit, MetricUnit.CELSIUS);
+    }
+  });
+
+  await t.step("should convert fuel economy to consumption", async () => {
+    const result = await converter.convert({ value: 30, unit: ImperialUnit.MILE_PER_GALLON });
+
+    assertEquals(result.success, true);
+    if (result.success) {
+      assertEquals(result.value.unit, MetricUnit.LITER_PER_100_KILOMETERS);
+      assertAlmostEquals(result.value.value, 7.84, 0.01);
+    }
+  });
+
+  await t.step("should pick a readable metric unit in auto mode", async () => {
+    const short = await converter.convert({
+      value: 0.5,
+      unit: ImperialUnit.MILE,
+      targetUnit: "auto",
+    });
+    const long = await converter.convert({
+      value: 26.2,
+      unit: ImperialUnit.MILE,
+      targetUnit: "auto",
+    });
+    const small = await converter.convert({
+      value: 0.03,
+      unit: ImperialUnit.INCH,
+      targetUnit: "auto",
+    });
+
+    assertEquals(short.success && short.value.unit, MetricUnit.METER);
+    assertEquals(long.success && long.value.unit, MetricUnit.KILOMETER);
+    assertEquals(small.success && small.value.unit, MetricUnit.MILLIMETER);
+  });
+
+  await t.step("should read free text with US thousands separators", async () => {
+    const result = await converter.convert("1,500 lb");
+
+    assertEquals(result.success, true);
+    if (result.success) {
+      assertEquals(result.value.originalValue, 1500);
+      assertEquals(result.value.value, 680.39);
+      assertEquals(result.value.unit, MetricUnit.KILOGRAM);
+    }
+  });
+
+  await t.step("should convert both ends of a range", async () => {
+    const result = await converter.convert("68-77 °F");
+
+    assertEquals(result.success, true);
+    if (result.success) {
+      assertEquals(result.value.range, { min: 20, max: 25 });
+    }
+  });
+
+  await t.step("should reject metric input", async () => {
+    const result = await converter.convert({ value: 1, unit: MetricUnit.KILOGRAM });
+
+    assertEquals(result.success, false);
+    if (!result.success) {
+      assertEquals(result.error.code, ErrorCode.INVALID_INPUT);
+    }
+  });
+
+  await t.step(
+    "should round-trip every metric unit through MetricToImperialConverter",
+    async () => {
+      const forward = new MetricToImperialConverter();
+      const metricUnits = forward.getRegistry().list(undefined, "metric");
+
+      for (const unit of metricUnits) {
+        for (let i = 1; i <= 20; i++) {
+          const value = (i * 7919) % 10007 / 100;
+          const imperial = await forward.convert({ value, unit: unit.symbol, precision: 10 });
+          assertEquals(imperial.success, true);
+          if (!imperial.success) continue;
+
+          const metric = await converter.convert({
+            value: imperial.value.value,
+            unit: imperial.value.unit,
+            targetUnit: unit.symbol,
+            precision: 10,
+          });
+          assertEquals(metric.success, true);
+          if (metric.success) {
+            assertEquals(metric.value.unit, unit.symbol);
+            assertAlmostEquals(metric.value.value, value, Math.max(1e-6, value * 1e-8));
+          }
+        }
+      }
+    },
+  );
+});
@@ -0,0 +1,182 @@
+import { Decimal } from "decimal.js";
+import {
+  ConversionError,
+  Converter,
+  ConverterConfig,
+  ConverterMetadata,
+  ErrorCode,
+  Result,
+} from "../../shared/types/index.ts";
+import {
+  ImperialMeasurementInput,
+  ImperialMeasurementInputSchema,
+  MetricMeasurementOutput,
+} from "./types.ts";
+import { UnitRegistry } from "./unit-registry.ts";
+import { MeasurementParser } from "./measurement-parser.ts";
+
+/**
+ * Imperial to metric converter options
+ */
+export interface ImperialToMetricConverterOptions {
+  /** Unit table; defaults to the built-in definitions */
+  registry?: UnitRegistry;
+}
+
+/**
+ * Converts imperial (US customary) units to metric units with precision handling
+ */
+export class ImperialToMetricConverter
+  implements Converter<ImperialMeasurementInput | string, MetricMeasurementOutput> {
+  private readonly registry: UnitRegistry;
+  private readonly parser: MeasurementParser;
+
+  constructor(options: ImperialToMetricConverterOptions = {}) {
+    this.registry = options.registry ?? new UnitRegistry();
+    this.parser = new MeasurementParser(this.registry, "us");
+  }
+
+  /**
+   * Convert imperial measurement (structured or free text such as "1,500 lb") to metric
+   */
+  async convert(
+    measurement: ImperialMeasurementInput | string,
+    config?: ConverterConfig,
+  ): Promise<Result<MetricMeasurementOutput, ConversionError>> {
+    try {
+      // Parse free text with US separators, reporting the part that could not be read
+      const parsed: Result<ImperialMeasurementInput, ConversionError> =
+        typeof measurement === "string" ? this.parser.parse(measurement) : Result.ok(measurement);
+      if (Result.isErr(parsed)) {
+        return parsed;
+      }
+      const input = parsed.value;
+
+      // Validate input if not skipped
+      if (!config?.skipValidation && !this.validate(input)) {
+        return Result.err(
+          new ConversionError(
+            "Invalid imperial measurement format",
+            ErrorCode.INVALID_INPUT,
+            { input },
+          ),
+        );
+      }
+
+      const imperialUnit = this.registry.get(input.unit);
+      if (!imperialUnit) {
+        return Result.err(
+          new ConversionError(
+            `Unknown unit: ${input.unit}`,
+            ErrorCode.UNSUPPORTED_FORMAT,
+            { unit: input.unit },
+          ),
+        );
+      }
+
+      // Find appropriate conversion ("auto" picks the most readable unit for the magnitude)
+      const metricUnit = input.targetUnit === "auto"
+        ? this.registry.bestFit(new Decimal(input.value), imperialUnit.symbol)
+        : input.targetUnit ?? imperialUnit.metricUnit;
+      if (!metricUnit) {
+        return Result.err(
+          new ConversionError(
+            `No metric conversion available for ${input.unit}`,
+            ErrorCode.UNSUPPORTED_FORMAT,
+            { unit: input.unit },
+          ),
+        );
+      }
+
+      // Perform conversion with Decimal for precision
+      const converted = this.registry.convert(
+        new Decimal(input.value),
+        imperialUnit.symbol,
+        metricUnit,
+      );
+      if (Result.isErr(converted)) {
+        return converted;
+      }
+
+      // Round to specified precision
+      const precision = input.precision ?? 2;
+      const result: MetricMeasurementOutput = {
+        value: converted.value.toDecimalPlaces(precision, Decimal.ROUND_HALF_UP).toNumber(),
+        unit: this.registry.get(metricUnit)?.symbol ?? metricUnit,
+        precision,
+        originalValue: input.value,
+        originalUnit: imperialUnit.symbol,
+        dimension: imperialUnit.dimension,
+      };
+
+      if (input.range) {
+        const upper = this.registry.convert(
+          new Decimal(input.range.max),
+          imperialUnit.symbol,
+          metricUnit,
+        );
+        if (Result.isErr(upper)) {
+          return upper;
+        }
+        result.range = {
+          min: result.value,
+          max: upper.value.toDecimalPlaces(precision, Decimal.ROUND_HALF_UP).toNumber(),
+        };
+      }
+
+      if (input.quantity !== undefined) {
+        result.quantity = input.quantity;
+      }
+
+      return Result.ok(result);
+    } catch (error) {
+      return Result.err(
+        new ConversionError(
+          `Unit conversion failed: ${error instanceof Error ? error.message : "Unknown error"}`,
+          ErrorCode.CONVERSION_FAILED,
+          { input: measurement, error },
+          false,
+        ),
+      );
+    }
+  }
+
+  /**
+   * Validate input is a valid imperial measurement
+   */
+  validate(input: unknown): input is ImperialMeasurementInput | string {
+    if (typeof input === "string") {
+      const parsed = this.parser.parse(input);
+      return Result.isOk(parsed) && this.validate(parsed.value);
+    }
+
+    const result = ImperialMeasurementInputSchema.safeParse(input);
+    return result.success && this.registry.get(result.data.unit)?.system === "imperial";
+  }
+
+  /**
+   * Get converter metadata
+   */
+  getMetadata(): ConverterMetadata {
+    return {
+      name: "Imperial to Metric Converter",
+      version: "1.0.0",
+      inputType: "ImperialMeasurementInput",
+      outputType: "MetricMeasurementOutput",
+      description:
+        "Converts imperial units to metric units (length, weight, volume, temperature, area, speed, pressure, energy, density, fuel economy)",
+      performanceTarget: {
+        p50: 2,
+        p95: 3,
+        p99: 5,
+      },
+    };
+  }
+
+  /**
+   * Get the unit table used by this converter
+   */
+  getRegistry(): UnitRegistry {
+    return this.registry;
+  }
+}
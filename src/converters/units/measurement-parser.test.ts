@@ -0,0 +1,84 @@
+import { assertEquals } from "@std/testing";
+import { Result } from "../../shared/types/index.ts";
+import { MeasurementParser } from "./measurement-parser.ts";
+
+Deno.test("MeasurementParser", async (t) => {
+  const parser = new MeasurementParser();
+
+  await t.step("should parse EU decimal commas and spacing variants", () => {
+    assertEquals(parser.parse("1,5 kg"), Result.ok({ value: 1.5, unit: "kg" }));
+    assertEquals(parser.parse("180cm"), Result.ok({ value: 180, unit: "cm" }));
+    assertEquals(parser.parse("  1.250,75 ml "), Result.ok({ value: 1250.75, unit: "ml" }));
+    assertEquals(parser.parse("−5 °C"), Result.ok({ value: -5, unit: "°C" }));
+  });
+
+  await t.step("should read a lone dot before three digits as EU thousands grouping", () => {
+    assertEquals(parser.parse("1.500 kg"), Result.ok({ value: 1500, unit: "kg" }));
+    assertEquals(parser.parse("2.5 kg"), Result.ok({ value: 2.5, unit: "kg" }));
+    assertEquals(parser.parse("0.750 l"), Result.ok({ value: 0.75, unit: "l" }));
+    assertEquals(
+      new MeasurementParser(undefined, "us").parse("1.500 lb"),
+      Result.ok({ value: 1.5, unit: "lb" }),
+    );
+  });
+
+  await t.step("should resolve unit aliases and spelled-out names", () => {
+    assertEquals(parser.parse("2 Kilograms"), Result.ok({ value: 2, unit: "kg" }));
+    assertEquals(parser.parse("3 litres"), Result.ok({ value: 3, unit: "l" }));
+    assertEquals(parser.parse("50 m2"), Result.ok({ value: 50, unit: "m²" }));
+    assertEquals(parser.parse("6,5 L/100 km"), Result.ok({ value: 6.5, unit: "l/100km" }));
+    assertEquals(parser.parse("120 KM/H"), Result.ok({ value: 120, unit: "km/h" }));
+  });
+
+  await t.step("should parse pack multipliers", () => {
+    assertEquals(
+      parser.parse("2 x 500 ml"),
+      Result.ok({ value: 500, unit: "ml", quantity: 2 }),
+    );
+    assertEquals(
+      parser.parse("6×1,5 l"),
+      Result.ok({ value: 1.5, unit: "l", quantity: 6 }),
+    );
+  });
+
+  await t.step("should parse ranges", () => {
+    assertEquals(
+      parser.parse("20–25 °C"),
+      Result.ok({ value: 20, unit: "°C", range: { min: 20, max: 25 } }),
+    );
+    assertEquals(
+      parser.parse("20 °C - 25 °C"),
+      Result.ok({ value: 20, unit: "°C", range: { min: 20, max: 25 } }),
+    );
+    assertEquals(
+      parser.parse("1 bis 2 kg"),
+      Result.ok({ value: 1, unit: "kg", range: { min: 1, max: 2 } }),
+    );
+  });
+
+  await t.step("should report the part that failed to parse", () => {
+    type ParseFailure = { position: number; fragment: string; expected: string };
+
+    const unknownUnit = parser.parse("12 furlongs");
+    assertEquals(Result.isErr(unknownUnit), true);
+    if (Result.isErr(unknownUnit)) {
+      assertEquals(unknownUnit.error.code, "INVALID_INPUT");
+      assertEquals((unknownUnit.error.details as ParseFailure).fragment, "furlongs");
+      assertEquals((unknownUnit.error.details as ParseFailure).position, 3);
+    }
+
+    const noNumber = parser.parse("approx. 5 kg");
+    if (Result.isErr(noNumber)) {
+      assertEquals((noNumber.error.details as ParseFailure).fragment, "approx. 5 kg");
+      assertEquals((noNumber.error.details as ParseFailure).expected, "a number");
+    }
+
+    const noUnit = parser.parse("42");
+    if (Result.isErr(noUnit)) {
+      assertEquals((noUnit.error.details as ParseFailure).expected, "a unit");
+    }
+
+    const mismatched = parser.parse("20 °C - 25 kg");
+    assertEquals(Result.isErr(mismatched), true);
+  });
+});
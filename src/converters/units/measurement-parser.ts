@@ -0,0 +1,176 @@
+import { ConversionError, ErrorCode, Result } from "../../shared/types/index.ts";
+import { MetricMeasurement } from "./types.ts";
+import { UnitRegistry } from "./unit-registry.ts";
+
+/**
+ * Leading pack multiplier: "2 x 500 ml", "3× 1 l"
+ */
+const MULTIPLIER_PATTERN = /^(\d+)\s*[x×*]\s*/i;
+
+/**
+ * Number with optional sign and grouping/decimal separators: "1,5", "-3", "1.250,75"
+ */
+const NUMBER_PATTERN = /^[-−]?\d[\d.,]*/;
+
+/**
+ * Range separator, optionally preceded by a unit repeated on the lower bound ("20 °C – 25 °C")
+ */
+const RANGE_PATTERN = /^\s*([^\d–—~]*?)\s*(?:–|—|-|~|\.\.\.?|\bto\b|\bbis\b|\bà\b)\s*(?=[-−]?\d)/i;
+
+/**
+ * Parses free-text measurements ("1,5 kg", "180cm", "2 x 500 ml", "20–25 °C")
+ */
+export class MeasurementParser {
+  /**
+   * @param convention How to read a lone comma: EU decimal comma ("1,5 kg") or US thousands
+   *   separator ("1,500 lb")
+   */
+  constructor(
+    private readonly registry: UnitRegistry = new UnitRegistry(),
+    private readonly convention: "eu" | "us" = "eu",
+  ) {}
+
+  /**
+   * Parse a measurement string into a structured measurement
+   */
+  parse(text: string): Result<MetricMeasurement, ConversionError> {
+    const source = text.normalize("NFKC");
+    let position = source.search(/\S/);
+    const rest = () => source.slice(position);
+
+    if (position === -1) {
+      return this.failure(source, 0, "a measurement");
+    }
+
+    // Pack multiplier
+    let quantity: number | undefined;
+    const multiplier = MULTIPLIER_PATTERN.exec(rest());
+    if (multiplier && NUMBER_PATTERN.test(rest().slice(multiplier[0].length))) {
+      quantity = parseInt(multiplier[1], 10);
+      position += multiplier[0].length;
+    }
+
+    // Value or lower bound of a range
+    const first = this.readNumber(rest());
+    if (first === null) {
+      return this.failure(source, position, "a number");
+    }
+    position += first.length;
+
+    // Upper bound of a range
+    let upper: number | undefined;
+    let lowerUnit: string | undefined;
+    const range = RANGE_PATTERN.exec(rest());
+    if (range) {
+      lowerUnit = range[1] || undefined;
+      position += range[0].length;
+
+      const second = this.readNumber(rest());
+      if (second === null) {
+        return this.failure(source, position, "a number");
+      }
+      upper = second.value;
+      position += second.length;
+    }
+
+    // Unit (a range may carry it on the lower bound only)
+    const unitText = rest().trim() || lowerUnit;
+    if (!unitText) {
+      return this.failure(source, source.length, "a unit");
+    }
+
+    const unit = this.registry.resolve(unitText);
+    if (!unit) {
+      const unitPosition = rest().trim()
+        ? position + rest().search(/\S/)
+        : source.indexOf(unitText);
+      return this.failure(source, unitPosition, "a known unit");
+    }
+
+    if (lowerUnit && rest().trim() && this.registry.resolve(lowerUnit)?.symbol !== unit.symbol) {
+      return this.failure(source, source.indexOf(lowerUnit), `"${unit.symbol}" on both bounds`);
+    }
+
+    const measurement: MetricMeasurement = { value: first.value, unit: unit.symbol };
+    if (upper !== undefined) {
+      measurement.value = Math.min(first.value, upper);
+      measurement.range = { min: measurement.value, max: Math.max(first.value, upper) };
+    }
+    if (quantity !== undefined) {
+      measurement.quantity = quantity;
+    }
+
+    return Result.ok(measurement);
+  }
+
+  /**
+   * Read a number at the start of the text, accepting EU decimal commas in the EU convention
+   */
+  private readNumber(text: string): { value: number; length: number } | null {
+    const match = NUMBER_PATTERN.exec(text);
+    if (!match) {
+      return null;
+    }
+
+    // A trailing separator is punctuation, not part of the number ("5, 6 kg")
+    const raw = match[0].replace(/[.,]+$/, "");
+    const normalized = this.normalizeNumber(raw.replace("−", "-"));
+    if (normalized === null) {
+      return null;
+    }
+
+    return { value: parseFloat(normalized), length: raw.length };
+  }
+
+  /**
+   * Resolve grouping and decimal separators: the last of mixed separators is the decimal
+   * point; a lone comma is a decimal comma (EU) or groups thousands (US); a lone dot before
+   * three digits groups thousands in the EU ("1.500 kg"); repeated separators group thousands
+   */
+  private normalizeNumber(raw: string): string | null {
+    const lastComma = raw.lastIndexOf(",");
+    const lastDot = raw.lastIndexOf(".");
+    let normalized: string;
+
+    if (lastComma !== -1 && lastDot !== -1) {
+      const decimal = lastComma > lastDot ? "," : ".";
+      const group = decimal === "," ? "." : ",";
+      normalized = raw.split(group).join("").replace(decimal, ".");
+    } else if (lastComma !== -1 || lastDot !== -1) {
+      const separator = lastComma !== -1 ? "," : ".";
+      const parts = raw.split(separator);
+      const grouping = this.convention === "us"
+        ? separator === ","
+        : separator === "." && parts[1].length === 3 && !/^-?0$/.test(parts[0]);
+      normalized = parts.length === 2 && !grouping
+        ? parts.join(".")
+        : parts.every((part, i) => i === 0 || part.length === 3)
+        ? parts.join("")
+        : "";
+    } else {
+      normalized = raw;
+    }
+
+    return /^-?\d+(\.\d+)?$/.test(normalized) ? normalized : null;
+  }
+
+  /**
+   * Build a parse error pointing at the unparsed part of the input
+   */
+  private failure(
+    text: string,
+    position: number,
+    expected: string,
+  ): Result<MetricMeasurement, ConversionError> {
+    const fragment = text.slice(position).trim();
+    return Result.err(
+      new ConversionError(
+        fragment
+          ? `Cannot parse measurement "${text}": expected ${expected} at "${fragment}"`
+          : `Cannot parse measurement "${text}": expected ${expected}`,
+        ErrorCode.INVALID_INPUT,
+        { input: text, position, fragment, expected },
+      ),
+    );
+  }
+}
@@ -1,6 +1,7 @@
 import { assertEquals, assertAlmostEquals } from "@std/testing";
 import { MetricToImperialConverter } from "./metric-to-imperial.ts";
 import { MetricUnit, ImperialUnit } from "./types.ts";
+import { UnitRegistry } from "./unit-registry.ts";
 import type { MetricMeasurement } from "./types.ts";
 
 Deno.test("MetricToImperialConverter", async (t) => {
@@ -267,4 +268,189 @@ Deno.test("MetricToImperialConverter", async (t) => {
       assertEquals(result.value.value > 3000000, true);
     }
   });
+  await t.step("should convert area, speed, pressure and energy units", async () => {
+    const cases: Array<[MetricMeasurement, string, number]> = [
+      [{ value: 100, unit: MetricUnit.SQUARE_METER }, ImperialUnit.SQUARE_FOOT, 1076.39],
+      [{ value: 1, unit: MetricUnit.HECTARE }, ImperialUnit.ACRE, 2.47],
+      [{ value: 100, unit: MetricUnit.KILOMETER_PER_HOUR }, ImperialUnit.MILE_PER_HOUR, 62.14],
+      [{ value: 2.5, unit: MetricUnit.BAR }, ImperialUnit.PSI, 36.26],
+      [{ value: 1, unit: MetricUnit.KILOWATT_HOUR }, ImperialUnit.BTU, 3412.14],
+      [{ value: 1000, unit: MetricUnit.KILOGRAM_PER_CUBIC_METER }, ImperialUnit.POUND_PER_CUBIC_FOOT, 62.43],
+    ];
+
+    for (const [input, unit, expected] of cases) {
+      const result = await converter.convert(input);
+
+      assertEquals(result.success, true);
+      if (result.success) {
+        assertEquals(result.value.unit, unit);
+        assertEquals(result.value.value, expected);
+      }
+    }
+  });
+
+  await t.step("should convert fuel consumption to mpg", async () => {
+    const consumption = await converter.convert({
+      value: 8,
+      unit: MetricUnit.LITER_PER_100_KILOMETERS,
+    });
+    const distance = await converter.convert({ value: 15, unit: MetricUnit.KILOMETER_PER_LITER });
+
+    assertEquals(consumption.success && consumption.value.unit, ImperialUnit.MILE_PER_GALLON);
+    assertEquals(consumption.success && consumption.value.value, 29.4);
+    assertEquals(distance.success && distance.value.value, 35.28);
+    assertEquals(consumption.success && consumption.value.dimension, "fuel-economy");
+  });
+
+  await t.step("should reject zero fuel consumption", async () => {
+    const result = await converter.convert({ value: 0, unit: "l/100km" });
+
+    assertEquals(result.success, false);
+    if (!result.success) {
+      assertEquals(result.error.code, "OUT_OF_RANGE");
+    }
+  });
+
+  await t.step("should accept unit aliases and an explicit target unit", async () => {
+    const result = await converter.convert({ value: 10, unit: "m2", targetUnit: "sq yd" });
+
+    assertEquals(result.success, true);
+    if (result.success) {
+      assertEquals(result.value.unit, ImperialUnit.SQUARE_YARD);
+      assertEquals(result.value.originalUnit, MetricUnit.SQUARE_METER);
+      assertEquals(result.value.value, 11.96);
+    }
+  });
+
+  await t.step("should reject target units of another dimension", async () => {
+    const result = await converter.convert({ value: 1, unit: MetricUnit.METER, targetUnit: "lb" });
+
+    assertEquals(result.success, false);
+    if (!result.success) {
+      assertEquals(result.error.code, "TYPE_MISMATCH");
+    }
+  });
+
+  await t.step("should convert units added to the registry", async () => {
+    const registry = new UnitRegistry();
+    registry.register({
+      symbol: "dam",
+      name: "decameter",
+      dimension: "length",
+      system: "metric",
+      factor: 10,
+      imperialUnit: ImperialUnit.FOOT,
+    });
+    const customConverter = new MetricToImperialConverter({ registry });
+
+    const result = await customConverter.convert({ value: 1, unit: "dam" });
+
+    assertEquals(result.success, true);
+    if (result.success) {
+      assertEquals(result.value.value, 32.81);
+    }
+    assertEquals(converter.validate({ value: 1, unit: "dam" }), false);
+  });
+  await t.step("should pick a readable unit in auto mode", async () => {
+    const cases: Array<[MetricMeasurement, string, number]> = [
+      [{ value: 0.3, unit: MetricUnit.KILOMETER, targetUnit: "auto", precision: 0 }, ImperialUnit.FOOT, 984],
+      [{ value: 5, unit: MetricUnit.KILOMETER, targetUnit: "auto" }, ImperialUnit.MILE, 3.11],
+      [{ value: 2, unit: MetricUnit.CENTIMETER, targetUnit: "auto" }, ImperialUnit.INCH, 0.79],
+      [{ value: 200, unit: MetricUnit.GRAM, targetUnit: "auto" }, ImperialUnit.OUNCE, 7.05],
+      [{ value: 2, unit: MetricUnit.KILOGRAM, targetUnit: "auto" }, ImperialUnit.POUND, 4.41],
+      [{ value: 20, unit: MetricUnit.LITER, targetUnit: "auto" }, ImperialUnit.GALLON, 5.28],
+    ];
+
+    for (const [input, unit, expected] of cases) {
+      const result = await converter.convert(input);
+
+      assertEquals(result.success, true);
+      if (result.success) {
+        assertEquals(result.value.unit, unit);
+        assertEquals(result.value.value, expected);
+      }
+    }
+  });
+
+  await t.step("should fall back to the default unit when auto has no candidates", async () => {
+    const result = await converter.convert({
+      value: 10,
+      unit: MetricUnit.METER_PER_SECOND,
+      targetUnit: "auto",
+    });
+
+    assertEquals(result.success && result.value.unit, ImperialUnit.MILE_PER_HOUR);
+  });
+
+  await t.step("should format mixed units for labels", async () => {
+    const height = await converter.convert({
+      value: 180,
+      unit: MetricUnit.CENTIMETER,
+      targetUnit: "auto",
+      mixedUnits: true,
+    });
+    const weight = await converter.convert({
+      value: 1.474,
+      unit: MetricUnit.KILOGRAM,
+      mixedUnits: true,
+    });
+
+    assertEquals(height.success && height.value.formatted, "5 ft 11 in");
+    assertEquals(height.success && height.value.parts, [
+      { value: 5, unit: ImperialUnit.FOOT },
+      { value: 11, unit: ImperialUnit.INCH },
+    ]);
+    assertEquals(weight.success && weight.value.formatted, "3 lb 4 oz");
+  });
+
+  await t.step("should carry rounded minor units into the major unit", async () => {
+    const result = await converter.convert({
+      value: 1.8285,
+      unit: MetricUnit.METER,
+      targetUnit: ImperialUnit.FOOT,
+      mixedUnits: true,
+    });
+
+    assertEquals(result.success && result.value.formatted, "6 ft 0 in");
+  });
+
+  await t.step("should use the minor unit alone below one major unit", async () => {
+    const result = await converter.convert({
+      value: 250,
+      unit: MetricUnit.GRAM,
+      targetUnit: ImperialUnit.POUND,
+      mixedUnits: true,
+    });
+
+    assertEquals(result.success && result.value.formatted, "9 oz");
+  });
+  await t.step("should convert free-text measurements", async () => {
+    const result = await converter.convert("2 x 500 ml");
+
+    assertEquals(result.success, true);
+    if (result.success) {
+      assertEquals(result.value.unit, ImperialUnit.FLUID_OUNCE);
+      assertEquals(result.value.value, 16.91);
+      assertEquals(result.value.quantity, 2);
+    }
+  });
+
+  await t.step("should convert both ends of a range", async () => {
+    const result = await converter.convert("20–25 °C");
+
+    assertEquals(result.success, true);
+    if (result.success) {
+      assertEquals(result.value.range, { min: 68, max: 77 });
+    }
+  });
+
+  await t.step("should report unparseable free text", async () => {
+    const result = await converter.convert("1,5 kgs approx");
+
+    assertEquals(result.success, false);
+    if (!result.success) {
+      assertEquals(result.error.code, "INVALID_INPUT");
+      assertEquals((result.error.details as { fragment: string }).fragment, "kgs approx");
+    }
+  });
 });
\ No newline at end of file
@@ -9,31 +9,50 @@ import {
 } from "../../shared/types/index.ts";
 import {
   ImperialMeasurement,
-  ImperialUnit,
   MetricMeasurement,
   MetricMeasurementSchema,
-  MetricUnit,
-  UnitConversion,
 } from "./types.ts";
+import { UnitRegistry } from "./unit-registry.ts";
+import { MeasurementParser } from "./measurement-parser.ts";
+
+/**
+ * Metric to imperial converter options
+ */
+export interface MetricToImperialConverterOptions {
+  /** Unit table; defaults to the built-in definitions */
+  registry?: UnitRegistry;
+}
 
 /**
  * Converts metric units to imperial units with precision handling
  */
-export class MetricToImperialConverter implements Converter<MetricMeasurement, ImperialMeasurement> {
-  private readonly conversions: Map<string, UnitConversion>;
+export class MetricToImperialConverter
+  implements Converter<MetricMeasurement | string, ImperialMeasurement> {
+  private readonly registry: UnitRegistry;
+  private readonly parser: MeasurementParser;
 
-  constructor() {
-    this.conversions = this.initializeConversions();
+  constructor(options: MetricToImperialConverterOptions = {}) {
+    this.registry = options.registry ?? new UnitRegistry();
+    this.parser = new MeasurementParser(this.registry);
   }
 
   /**
-   * Convert metric measurement to imperial
+   * Convert metric measurement (structured or free text such as "1,5 kg") to imperial
    */
   async convert(
-    input: MetricMeasurement,
+    measurement: MetricMeasurement | string,
     config?: ConverterConfig,
   ): Promise<Result<ImperialMeasurement, ConversionError>> {
     try {
+      // Parse free text, reporting the part that could not be read
+      const parsed: Result<MetricMeasurement, ConversionError> = typeof measurement === "string"
+        ? this.parser.parse(measurement)
+        : Result.ok(measurement);
+      if (Result.isErr(parsed)) {
+        return parsed;
+      }
+      const input = parsed.value;
+
       // Validate input if not skipped
       if (!config?.skipValidation && !this.validate(input)) {
         return Result.err(
@@ -45,65 +64,89 @@ export class MetricToImperialConverter implements Converter<MetricMeasurement, I
         );
       }
 
-      // Find appropriate conversion
-      const imperialUnit = this.getImperialUnit(input.unit);
-      if (!imperialUnit) {
+      const metricUnit = this.registry.get(input.unit);
+      if (!metricUnit) {
         return Result.err(
           new ConversionError(
-            `No imperial conversion available for ${input.unit}`,
+            `Unknown unit: ${input.unit}`,
             ErrorCode.UNSUPPORTED_FORMAT,
             { unit: input.unit },
           ),
         );
       }
 
-      const conversionKey = `${input.unit}-${imperialUnit}`;
-      const conversion = this.conversions.get(conversionKey);
-      
-      if (!conversion) {
+      // Find appropriate conversion ("auto" picks the most readable unit for the magnitude)
+      const imperialUnit = input.targetUnit === "auto"
+        ? this.registry.bestFit(new Decimal(input.value), metricUnit.symbol)
+        : input.targetUnit ?? metricUnit.imperialUnit;
+      if (!imperialUnit) {
         return Result.err(
           new ConversionError(
-            `Conversion not found: ${conversionKey}`,
-            ErrorCode.CONVERSION_FAILED,
-            { from: input.unit, to: imperialUnit },
+            `No imperial conversion available for ${input.unit}`,
+            ErrorCode.UNSUPPORTED_FORMAT,
+            { unit: input.unit },
           ),
         );
       }
 
       // Perform conversion with Decimal for precision
-      const metricDecimal = new Decimal(input.value);
-      let imperialDecimal: Decimal;
-
-      if (conversion.offset !== undefined) {
-        // Temperature conversion: (C * 9/5) + 32
-        imperialDecimal = metricDecimal.mul(conversion.factor).plus(conversion.offset);
-      } else {
-        // Regular multiplication
-        imperialDecimal = metricDecimal.mul(conversion.factor);
+      const converted = this.registry.convert(
+        new Decimal(input.value),
+        metricUnit.symbol,
+        imperialUnit,
+      );
+      if (Result.isErr(converted)) {
+        return converted;
       }
 
       // Round to specified precision
       const precision = input.precision ?? 2;
-      const roundedValue = imperialDecimal.toDecimalPlaces(
+      const roundedValue = converted.value.toDecimalPlaces(
         precision,
         Decimal.ROUND_HALF_UP,
       );
 
       const result: ImperialMeasurement = {
         value: roundedValue.toNumber(),
-        unit: imperialUnit,
+        unit: this.registry.get(imperialUnit)?.symbol ?? imperialUnit,
         precision,
         originalValue: input.value,
-        originalUnit: input.unit,
+        originalUnit: metricUnit.symbol,
+        dimension: metricUnit.dimension,
       };
 
+      if (input.range) {
+        const upper = this.registry.convert(
+          new Decimal(input.range.max),
+          metricUnit.symbol,
+          imperialUnit,
+        );
+        if (Result.isErr(upper)) {
+          return upper;
+        }
+        result.range = {
+          min: result.value,
+          max: upper.value.toDecimalPlaces(precision, Decimal.ROUND_HALF_UP).toNumber(),
+        };
+      }
+
+      if (input.quantity !== undefined) {
+        result.quantity = input.quantity;
+      }
+
+      if (input.mixedUnits) {
+        // Minor units default to whole numbers for labels
+        result.parts = this.toMixedUnits(converted.value, result.unit, input.precision ?? 0);
+        result.formatted = result.parts.map((part) => `${part.value} ${part.unit}`).join(" ");
+      }
+
       return Result.ok(result);
     } catch (error) {
       return Result.err(
         new ConversionError(
           `Unit conversion failed: ${error instanceof Error ? error.message : "Unknown error"}`,
           ErrorCode.CONVERSION_FAILED,
-          { input, error },
+          { input: measurement, error },
           false,
         ),
       );
@@ -113,9 +156,14 @@ export class MetricToImperialConverter implements Converter<MetricMeasurement, I
   /**
    * Validate input is a valid metric measurement
    */
-  validate(input: unknown): input is MetricMeasurement {
+  validate(input: unknown): input is MetricMeasurement | string {
+    if (typeof input === "string") {
+      const parsed = this.parser.parse(input);
+      return Result.isOk(parsed) && this.validate(parsed.value);
+    }
+
     const result = MetricMeasurementSchema.safeParse(input);
-    return result.success;
+    return result.success && this.registry.get(result.data.unit)?.system === "metric";
   }
 
   /**
@@ -127,7 +175,7 @@ export class MetricToImperialConverter implements Converter<MetricMeasurement, I
       version: "1.0.0",
       inputType: "MetricMeasurement",
       outputType: "ImperialMeasurement",
-      description: "Converts metric units to imperial units (length, weight, volume, temperature)",
+      description: "Converts metric units to imperial units (length, weight, volume, temperature, area, speed, pressure, energy, density, fuel economy)",
       performanceTarget: {
         p50: 2,
         p95: 3,
@@ -137,62 +185,34 @@ export class MetricToImperialConverter implements Converter<MetricMeasurement, I
   }
 
   /**
-   * Get the appropriate imperial unit for a metric unit
+   * Split a value into major and minor units (5.92 ft -> 5 ft 11 in)
    */
-  private getImperialUnit(metricUnit: MetricUnit): ImperialUnit | null {
-    const mapping: Record<MetricUnit, ImperialUnit> = {
-      // Length
-      [MetricUnit.MILLIMETER]: ImperialUnit.INCH,
-      [MetricUnit.CENTIMETER]: ImperialUnit.INCH,
-      [MetricUnit.METER]: ImperialUnit.FOOT,
-      [MetricUnit.KILOMETER]: ImperialUnit.MILE,
-      
-      // Weight
-      [MetricUnit.GRAM]: ImperialUnit.OUNCE,
-      [MetricUnit.KILOGRAM]: ImperialUnit.POUND,
-      [MetricUnit.TONNE]: ImperialUnit.TON,
-      
-      // Volume
-      [MetricUnit.MILLILITER]: ImperialUnit.FLUID_OUNCE,
-      [MetricUnit.LITER]: ImperialUnit.GALLON,
-      
-      // Temperature
-      [MetricUnit.CELSIUS]: ImperialUnit.FAHRENHEIT,
-    };
+  private toMixedUnits(
+    value: Decimal,
+    unit: string,
+    precision: number,
+  ): Array<{ value: number; unit: string }> {
+    const subunit = this.registry.get(unit)?.subunit;
+    const perMajor = subunit ? this.registry.convert(new Decimal(1), unit, subunit) : undefined;
 
-    return mapping[metricUnit] || null;
-  }
+    if (!subunit || !perMajor || Result.isErr(perMajor)) {
+      return [{ value: value.toDecimalPlaces(precision, Decimal.ROUND_HALF_UP).toNumber(), unit }];
+    }
 
-  /**
-   * Initialize conversion factors
-   */
-  private initializeConversions(): Map<string, UnitConversion> {
-    const conversions: UnitConversion[] = [
-      // Length conversions
-      { from: MetricUnit.MILLIMETER, to: ImperialUnit.INCH, factor: 0.0393701 },
-      { from: MetricUnit.CENTIMETER, to: ImperialUnit.INCH, factor: 0.393701 },
-      { from: MetricUnit.METER, to: ImperialUnit.FOOT, factor: 3.28084 },
-      { from: MetricUnit.KILOMETER, to: ImperialUnit.MILE, factor: 0.621371 },
-      
-      // Weight conversions
-      { from: MetricUnit.GRAM, to: ImperialUnit.OUNCE, factor: 0.035274 },
-      { from: MetricUnit.KILOGRAM, to: ImperialUnit.POUND, factor: 2.20462 },
-      { from: MetricUnit.TONNE, to: ImperialUnit.TON, factor: 1.10231 },
-      
-      // Volume conversions
-      { from: MetricUnit.MILLILITER, to: ImperialUnit.FLUID_OUNCE, factor: 0.033814 },
-      { from: MetricUnit.LITER, to: ImperialUnit.GALLON, factor: 0.264172 },
-      
-      // Temperature conversion (special case with offset)
-      { from: MetricUnit.CELSIUS, to: ImperialUnit.FAHRENHEIT, factor: 9/5, offset: 32 },
-    ];
+    // Round in minor units first so 5 ft 11.99 in carries to 6 ft 0 in
+    const sign = value.isNegative() ? -1 : 1;
+    const total = value.abs().mul(perMajor.value).toDecimalPlaces(precision, Decimal.ROUND_HALF_UP);
+    const major = total.divToInt(perMajor.value);
+    const minor = total.minus(major.mul(perMajor.value)).toDecimalPlaces(precision);
 
-    const map = new Map<string, UnitConversion>();
-    for (const conversion of conversions) {
-      map.set(`${conversion.from}-${conversion.to}`, conversion);
+    if (major.isZero()) {
+      return [{ value: sign * minor.toNumber(), unit: subunit }];
     }
-    
-    return map;
+
+    return [
+      { value: sign * major.toNumber(), unit },
+      { value: minor.toNumber(), unit: subunit },
+    ];
   }
 
   /**
@@ -226,4 +246,18 @@ export class MetricToImperialConverter implements Converter<MetricMeasurement, I
   litersToGallons(liters: number): number {
     return liters * 0.264172;
   }
+
+  /**
+   * Convert fuel consumption to fuel economy (convenience method)
+   */
+  litersPer100KmToMpg(litersPer100Km: number): number {
+    return 235.214583 / litersPer100Km;
+  }
+
+  /**
+   * Get the unit table used by this converter
+   */
+  getRegistry(): UnitRegistry {
+    return this.registry;
+  }
 }
\ No newline at end of file
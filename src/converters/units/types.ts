@@ -18,9 +18,38 @@ export enum MetricUnit {
   // Volume
   MILLILITER = "ml",
   LITER = "l",
+  CUBIC_METER = "m³",
   
   // Temperature
   CELSIUS = "°C",
+
+  // Area
+  SQUARE_CENTIMETER = "cm²",
+  SQUARE_METER = "m²",
+  HECTARE = "ha",
+  SQUARE_KILOMETER = "km²",
+
+  // Speed
+  METER_PER_SECOND = "m/s",
+  KILOMETER_PER_HOUR = "km/h",
+
+  // Pressure
+  HECTOPASCAL = "hPa",
+  KILOPASCAL = "kPa",
+  BAR = "bar",
+
+  // Energy
+  KILOJOULE = "kJ",
+  MEGAJOULE = "MJ",
+  KILOWATT_HOUR = "kWh",
+
+  // Density
+  KILOGRAM_PER_CUBIC_METER = "kg/m³",
+  GRAM_PER_CUBIC_CENTIMETER = "g/cm³",
+
+  // Fuel economy
+  LITER_PER_100_KILOMETERS = "l/100km",
+  KILOMETER_PER_LITER = "km/l",
 }
 
 /**
@@ -44,17 +73,62 @@ export enum ImperialUnit {
   PINT = "pt",
   QUART = "qt",
   GALLON = "gal",
+  CUBIC_FOOT = "cu ft",
   
   // Temperature
   FAHRENHEIT = "°F",
+
+  // Area
+  SQUARE_INCH = "sq in",
+  SQUARE_FOOT = "sq ft",
+  SQUARE_YARD = "sq yd",
+  ACRE = "ac",
+  SQUARE_MILE = "sq mi",
+
+  // Speed
+  FOOT_PER_SECOND = "ft/s",
+  MILE_PER_HOUR = "mph",
+
+  // Pressure
+  INCH_OF_MERCURY = "inHg",
+  PSI = "psi",
+
+  // Energy
+  BTU = "BTU",
+  THERM = "thm",
+
+  // Density
+  POUND_PER_CUBIC_FOOT = "lb/ft³",
+
+  // Fuel economy
+  MILE_PER_GALLON = "mpg",
 }
 
+/**
+ * Physical dimension a unit measures; units convert only within a dimension
+ */
+export type UnitDimension =
+  | "length"
+  | "mass"
+  | "volume"
+  | "temperature"
+  | "area"
+  | "speed"
+  | "pressure"
+  | "energy"
+  | "density"
+  | "fuel-economy";
+
 /**
  * Metric measurement schema
  */
 export const MetricMeasurementSchema = z.object({
   value: z.number().finite(),
-  unit: z.nativeEnum(MetricUnit),
+  unit: z.string().min(1), // MetricUnit or any metric unit in the registry
+  targetUnit: z.string().min(1).optional(), // Unit symbol or "auto"; defaults to the unit's imperial counterpart
+  mixedUnits: z.boolean().optional(), // Split into major and minor units ("5 ft 11 in")
+  range: z.object({ min: z.number().finite(), max: z.number().finite() }).optional(), // "20–25 °C"; value is the lower bound
+  quantity: z.number().int().positive().optional(), // Pack multiplier, e.g. 2 for "2 x 500 ml"
   precision: z.number().int().min(0).max(10).optional(),
 });
 
@@ -65,20 +139,67 @@ export type MetricMeasurement = z.infer<typeof MetricMeasurementSchema>;
  */
 export const ImperialMeasurementSchema = z.object({
   value: z.number().finite(),
-  unit: z.nativeEnum(ImperialUnit),
+  unit: z.string(),
   precision: z.number().int().min(0).max(10),
   originalValue: z.number().finite(),
-  originalUnit: z.nativeEnum(MetricUnit),
+  originalUnit: z.string(),
+  dimension: z.string().optional(),
+  parts: z.array(z.object({ value: z.number().finite(), unit: z.string() })).optional(),
+  formatted: z.string().optional(), // Mixed-unit label, e.g. "3 lb 4 oz"
+  range: z.object({ min: z.number().finite(), max: z.number().finite() }).optional(),
+  quantity: z.number().int().positive().optional(),
 });
 
 export type ImperialMeasurement = z.infer<typeof ImperialMeasurementSchema>;
 
 /**
- * Unit conversion mapping
+ * Imperial measurement input schema
  */
-export interface UnitConversion {
-  from: MetricUnit;
-  to: ImperialUnit;
+export const ImperialMeasurementInputSchema = z.object({
+  value: z.number().finite(),
+  unit: z.string().min(1), // ImperialUnit or any imperial unit in the registry
+  targetUnit: z.string().min(1).optional(), // Unit symbol or "auto"; defaults to the unit's metric counterpart
+  range: z.object({ min: z.number().finite(), max: z.number().finite() }).optional(), // "68–77 °F"; value is the lower bound
+  quantity: z.number().int().positive().optional(), // Pack multiplier, e.g. 2 for "2 x 16 fl oz"
+  precision: z.number().int().min(0).max(10).optional(),
+});
+
+export type ImperialMeasurementInput = z.infer<typeof ImperialMeasurementInputSchema>;
+
+/**
+ * Metric measurement output schema
+ */
+export const MetricMeasurementOutputSchema = z.object({
+  value: z.number().finite(),
+  unit: z.string(),
+  precision: z.number().int().min(0).max(10),
+  originalValue: z.number().finite(),
+  originalUnit: z.string(),
+  dimension: z.string().optional(),
+  range: z.object({ min: z.number().finite(), max: z.number().finite() }).optional(),
+  quantity: z.number().int().positive().optional(),
+});
+
+export type MetricMeasurementOutput = z.infer<typeof MetricMeasurementOutputSchema>;
+
+/**
+ * Unit definition in the registry
+ *
+ * Values convert through the dimension's base unit:
+ * base = value * factor + offset, or base = factor / value for inverse units
+ * (fuel economy, where mpg is inversely proportional to l/100km).
+ */
+export interface UnitDefinition {
+  symbol: string;
+  name: string;
+  dimension: UnitDimension;
+  system: "metric" | "imperial";
   factor: number;
   offset?: number; // For temperature conversions
-}
\ No newline at end of file
+  inverse?: boolean;
+  aliases?: string[];
+  imperialUnit?: string; // Default conversion target for metric units
+  metricUnit?: string; // Default conversion target for imperial units
+  autoMin?: number; // Smallest magnitude at which "auto" picks this unit
+  subunit?: string; // Minor unit for mixed output ("5 ft 11 in")
+}
@@ -0,0 +1,519 @@
+import { ImperialUnit, MetricUnit, UnitDefinition } from "./types.ts";
+
+/**
+ * Built-in unit table
+ *
+ * Base units per dimension: m, kg, l, °C, m², km/h, kPa, kJ, kg/m³, l/100km.
+ * Factors are the exact definitions where one exists (1 in = 0.0254 m).
+ * Units with `autoMin` are candidates for `targetUnit: "auto"` when converting from the other system.
+ */
+export const DEFAULT_UNIT_DEFINITIONS: UnitDefinition[] = [
+  // Length
+  {
+    symbol: MetricUnit.MILLIMETER,
+    name: "millimeter",
+    dimension: "length",
+    system: "metric",
+    factor: 0.001,
+    imperialUnit: ImperialUnit.INCH,
+    autoMin: 0,
+  },
+  {
+    symbol: MetricUnit.CENTIMETER,
+    name: "centimeter",
+    dimension: "length",
+    system: "metric",
+    factor: 0.01,
+    imperialUnit: ImperialUnit.INCH,
+    autoMin: 1,
+  },
+  {
+    symbol: MetricUnit.METER,
+    name: "meter",
+    dimension: "length",
+    system: "metric",
+    factor: 1,
+    imperialUnit: ImperialUnit.FOOT,
+    autoMin: 1,
+  },
+  {
+    symbol: MetricUnit.KILOMETER,
+    name: "kilometer",
+    dimension: "length",
+    system: "metric",
+    factor: 1000,
+    imperialUnit: ImperialUnit.MILE,
+    autoMin: 1,
+  },
+  {
+    symbol: ImperialUnit.INCH,
+    name: "inch",
+    dimension: "length",
+    system: "imperial",
+    factor: 0.0254,
+    metricUnit: MetricUnit.CENTIMETER,
+    autoMin: 0,
+  },
+  {
+    symbol: ImperialUnit.FOOT,
+    name: "foot",
+    dimension: "length",
+    system: "imperial",
+    factor: 0.3048,
+    metricUnit: MetricUnit.METER,
+    autoMin: 1,
+    subunit: ImperialUnit.INCH,
+  },
+  {
+    symbol: ImperialUnit.YARD,
+    name: "yard",
+    dimension: "length",
+    system: "imperial",
+    factor: 0.9144,
+    metricUnit: MetricUnit.METER,
+  },
+  {
+    symbol: ImperialUnit.MILE,
+    name: "mile",
+    dimension: "length",
+    system: "imperial",
+    factor: 1609.344,
+    metricUnit: MetricUnit.KILOMETER,
+    autoMin: 0.5,
+  },
+
+  // Mass
+  {
+    symbol: MetricUnit.GRAM,
+    name: "gram",
+    dimension: "mass",
+    system: "metric",
+    factor: 0.001,
+    imperialUnit: ImperialUnit.OUNCE,
+    autoMin: 0,
+  },
+  {
+    symbol: MetricUnit.KILOGRAM,
+    name: "kilogram",
+    dimension: "mass",
+    system: "metric",
+    factor: 1,
+    imperialUnit: ImperialUnit.POUND,
+    autoMin: 1,
+  },
+  {
+    symbol: MetricUnit.TONNE,
+    name: "tonne",
+    dimension: "mass",
+    system: "metric",
+    factor: 1000,
+    imperialUnit: ImperialUnit.TON,
+    autoMin: 1,
+  },
+  {
+    symbol: ImperialUnit.OUNCE,
+    name: "ounce",
+    dimension: "mass",
+    system: "imperial",
+    factor: 0.028349523125,
+    metricUnit: MetricUnit.GRAM,
+    autoMin: 0,
+  },
+  {
+    symbol: ImperialUnit.POUND,
+    name: "pound",
+    dimension: "mass",
+    system: "imperial",
+    factor: 0.45359237,
+    metricUnit: MetricUnit.KILOGRAM,
+    autoMin: 1,
+    subunit: ImperialUnit.OUNCE,
+  },
+  {
+    symbol: ImperialUnit.TON,
+    name: "short ton",
+    dimension: "mass",
+    system: "imperial",
+    factor: 907.18474,
+    metricUnit: MetricUnit.TONNE,
+    autoMin: 1,
+  },
+
+  // Volume (US customary liquid measures)
+  {
+    symbol: MetricUnit.MILLILITER,
+    name: "milliliter",
+    dimension: "volume",
+    system: "metric",
+    factor: 0.001,
+    aliases: ["mL"],
+    imperialUnit: ImperialUnit.FLUID_OUNCE,
+    autoMin: 0,
+  },
+  {
+    symbol: MetricUnit.LITER,
+    name: "liter",
+    dimension: "volume",
+    system: "metric",
+    factor: 1,
+    aliases: ["L"],
+    imperialUnit: ImperialUnit.GALLON,
+    autoMin: 1,
+  },
+  {
+    symbol: MetricUnit.CUBIC_METER,
+    name: "cubic meter",
+    dimension: "volume",
+    system: "metric",
+    factor: 1000,
+    aliases: ["m3"],
+    imperialUnit: ImperialUnit.CUBIC_FOOT,
+  },
+  {
+    symbol: ImperialUnit.FLUID_OUNCE,
+    name: "fluid ounce",
+    dimension: "volume",
+    system: "imperial",
+    factor: 0.0295735295625,
+    metricUnit: MetricUnit.MILLILITER,
+    autoMin: 0,
+  },
+  {
+    symbol: ImperialUnit.CUP,
+    name: "cup",
+    dimension: "volume",
+    system: "imperial",
+    factor: 0.2365882365,
+    metricUnit: MetricUnit.MILLILITER,
+  },
+  {
+    symbol: ImperialUnit.PINT,
+    name: "pint",
+    dimension: "volume",
+    system: "imperial",
+    factor: 0.473176473,
+    metricUnit: MetricUnit.LITER,
+  },
+  {
+    symbol: ImperialUnit.QUART,
+    name: "quart",
+    dimension: "volume",
+    system: "imperial",
+    factor: 0.946352946,
+    metricUnit: MetricUnit.LITER,
+  },
+  {
+    symbol: ImperialUnit.GALLON,
+    name: "gallon",
+    dimension: "volume",
+    system: "imperial",
+    factor: 3.785411784,
+    metricUnit: MetricUnit.LITER,
+    autoMin: 1,
+  },
+  {
+    symbol: ImperialUnit.CUBIC_FOOT,
+    name: "cubic foot",
+    dimension: "volume",
+    system: "imperial",
+    factor: 28.316846592,
+    metricUnit: MetricUnit.CUBIC_METER,
+  },
+
+  // Temperature
+  {
+    symbol: MetricUnit.CELSIUS,
+    name: "degree Celsius",
+    dimension: "temperature",
+    system: "metric",
+    factor: 1,
+    offset: 0,
+    aliases: ["celsius", "degC"],
+    imperialUnit: ImperialUnit.FAHRENHEIT,
+    autoMin: 0,
+  },
+  {
+    symbol: ImperialUnit.FAHRENHEIT,
+    name: "degree Fahrenheit",
+    dimension: "temperature",
+    system: "imperial",
+    factor: 5 / 9,
+    offset: -160 / 9, // °C = (°F - 32) * 5/9
+    metricUnit: MetricUnit.CELSIUS,
+    autoMin: 0,
+  },
+
+  // Area
+  {
+    symbol: MetricUnit.SQUARE_CENTIMETER,
+    name: "square centimeter",
+    dimension: "area",
+    system: "metric",
+    factor: 0.0001,
+    aliases: ["cm2"],
+    imperialUnit: ImperialUnit.SQUARE_INCH,
+    autoMin: 0,
+  },
+  {
+    symbol: MetricUnit.SQUARE_METER,
+    name: "square meter",
+    dimension: "area",
+    system: "metric",
+    factor: 1,
+    aliases: ["m2", "sqm"],
+    imperialUnit: ImperialUnit.SQUARE_FOOT,
+    autoMin: 1,
+  },
+  {
+    symbol: MetricUnit.HECTARE,
+    name: "hectare",
+    dimension: "area",
+    system: "metric",
+    factor: 10000,
+    imperialUnit: ImperialUnit.ACRE,
+    autoMin: 1,
+  },
+  {
+    symbol: MetricUnit.SQUARE_KILOMETER,
+    name: "square kilometer",
+    dimension: "area",
+    system: "metric",
+    factor: 1000000,
+    aliases: ["km2"],
+    imperialUnit: ImperialUnit.SQUARE_MILE,
+    autoMin: 1,
+  },
+  {
+    symbol: ImperialUnit.SQUARE_INCH,
+    name: "square inch",
+    dimension: "area",
+    system: "imperial",
+    factor: 0.00064516,
+    metricUnit: MetricUnit.SQUARE_CENTIMETER,
+    autoMin: 0,
+  },
+  {
+    symbol: ImperialUnit.SQUARE_FOOT,
+    name: "square foot",
+    dimension: "area",
+    system: "imperial",
+    factor: 0.09290304,
+    metricUnit: MetricUnit.SQUARE_METER,
+    autoMin: 1,
+  },
+  {
+    symbol: ImperialUnit.SQUARE_YARD,
+    name: "square yard",
+    dimension: "area",
+    system: "imperial",
+    factor: 0.83612736,
+    metricUnit: MetricUnit.SQUARE_METER,
+  },
+  {
+    symbol: ImperialUnit.ACRE,
+    name: "acre",
+    dimension: "area",
+    system: "imperial",
+    factor: 4046.8564224,
+    metricUnit: MetricUnit.HECTARE,
+    autoMin: 1,
+  },
+  {
+    symbol: ImperialUnit.SQUARE_MILE,
+    name: "square mile",
+    dimension: "area",
+    system: "imperial",
+    factor: 2589988.110336,
+    metricUnit: MetricUnit.SQUARE_KILOMETER,
+    autoMin: 1,
+  },
+
+  // Speed
+  {
+    symbol: MetricUnit.METER_PER_SECOND,
+    name: "meter per second",
+    dimension: "speed",
+    system: "metric",
+    factor: 3.6,
+    imperialUnit: ImperialUnit.FOOT_PER_SECOND,
+  },
+  {
+    symbol: MetricUnit.KILOMETER_PER_HOUR,
+    name: "kilometer per hour",
+    dimension: "speed",
+    system: "metric",
+    factor: 1,
+    aliases: ["kph", "km/hr"],
+    imperialUnit: ImperialUnit.MILE_PER_HOUR,
+    autoMin: 0,
+  },
+  {
+    symbol: ImperialUnit.FOOT_PER_SECOND,
+    name: "foot per second",
+    dimension: "speed",
+    system: "imperial",
+    factor: 1.09728,
+    metricUnit: MetricUnit.METER_PER_SECOND,
+  },
+  {
+    symbol: ImperialUnit.MILE_PER_HOUR,
+    name: "mile per hour",
+    dimension: "speed",
+    system: "imperial",
+    factor: 1.609344,
+    metricUnit: MetricUnit.KILOMETER_PER_HOUR,
+    autoMin: 0,
+  },
+
+  // Pressure
+  {
+    symbol: MetricUnit.HECTOPASCAL,
+    name: "hectopascal",
+    dimension: "pressure",
+    system: "metric",
+    factor: 0.1,
+    aliases: ["mbar"],
+    imperialUnit: ImperialUnit.INCH_OF_MERCURY,
+  },
+  {
+    symbol: MetricUnit.KILOPASCAL,
+    name: "kilopascal",
+    dimension: "pressure",
+    system: "metric",
+    factor: 1,
+    imperialUnit: ImperialUnit.PSI,
+  },
+  {
+    symbol: MetricUnit.BAR,
+    name: "bar",
+    dimension: "pressure",
+    system: "metric",
+    factor: 100,
+    imperialUnit: ImperialUnit.PSI,
+  },
+  {
+    symbol: ImperialUnit.INCH_OF_MERCURY,
+    name: "inch of mercury",
+    dimension: "pressure",
+    system: "imperial",
+    factor: 3.386389,
+    metricUnit: MetricUnit.HECTOPASCAL,
+  },
+  {
+    symbol: ImperialUnit.PSI,
+    name: "pound per square inch",
+    dimension: "pressure",
+    system: "imperial",
+    factor: 6.894757293168,
+    metricUnit: MetricUnit.KILOPASCAL,
+    autoMin: 0,
+  },
+
+  // Energy
+  {
+    symbol: MetricUnit.KILOJOULE,
+    name: "kilojoule",
+    dimension: "energy",
+    system: "metric",
+    factor: 1,
+    imperialUnit: ImperialUnit.BTU,
+    autoMin: 0,
+  },
+  {
+    symbol: MetricUnit.MEGAJOULE,
+    name: "megajoule",
+    dimension: "energy",
+    system: "metric",
+    factor: 1000,
+    imperialUnit: ImperialUnit.BTU,
+    autoMin: 1,
+  },
+  {
+    symbol: MetricUnit.KILOWATT_HOUR,
+    name: "kilowatt hour",
+    dimension: "energy",
+    system: "metric",
+    factor: 3600,
+    imperialUnit: ImperialUnit.BTU,
+  },
+  {
+    symbol: ImperialUnit.BTU,
+    name: "British thermal unit",
+    dimension: "energy",
+    system: "imperial",
+    factor: 1.05505585262, // International Table BTU
+    metricUnit: MetricUnit.KILOJOULE,
+    autoMin: 0,
+  },
+  {
+    symbol: ImperialUnit.THERM,
+    name: "therm",
+    dimension: "energy",
+    system: "imperial",
+    factor: 105505.585262,
+    metricUnit: MetricUnit.MEGAJOULE,
+    autoMin: 1,
+  },
+
+  // Density
+  {
+    symbol: MetricUnit.KILOGRAM_PER_CUBIC_METER,
+    name: "kilogram per cubic meter",
+    dimension: "density",
+    system: "metric",
+    factor: 1,
+    aliases: ["kg/m3"],
+    imperialUnit: ImperialUnit.POUND_PER_CUBIC_FOOT,
+    autoMin: 0,
+  },
+  {
+    symbol: MetricUnit.GRAM_PER_CUBIC_CENTIMETER,
+    name: "gram per cubic centimeter",
+    dimension: "density",
+    system: "metric",
+    factor: 1000,
+    aliases: ["g/cm3"],
+    imperialUnit: ImperialUnit.POUND_PER_CUBIC_FOOT,
+  },
+  {
+    symbol: ImperialUnit.POUND_PER_CUBIC_FOOT,
+    name: "pound per cubic foot",
+    dimension: "density",
+    system: "imperial",
+    factor: 16.018463373960138,
+    metricUnit: MetricUnit.KILOGRAM_PER_CUBIC_METER,
+    autoMin: 0,
+  },
+
+  // Fuel economy (consumption and distance-per-volume are reciprocal)
+  {
+    symbol: MetricUnit.LITER_PER_100_KILOMETERS,
+    name: "liter per 100 kilometers",
+    dimension: "fuel-economy",
+    system: "metric",
+    factor: 1,
+    aliases: ["L/100km", "l/100 km", "L/100 km"],
+    imperialUnit: ImperialUnit.MILE_PER_GALLON,
+    autoMin: 0,
+  },
+  {
+    symbol: MetricUnit.KILOMETER_PER_LITER,
+    name: "kilometer per liter",
+    dimension: "fuel-economy",
+    system: "metric",
+    factor: 100,
+    inverse: true,
+    aliases: ["km/L"],
+    imperialUnit: ImperialUnit.MILE_PER_GALLON,
+  },
+  {
+    symbol: ImperialUnit.MILE_PER_GALLON,
+    name: "mile per US gallon",
+    dimension: "fuel-economy",
+    system: "imperial",
+    factor: 235.2145833333333, // 100 * gal / mi, in l/100km
+    inverse: true,
+    metricUnit: MetricUnit.LITER_PER_100_KILOMETERS,
+    autoMin: 0,
+  },
+];
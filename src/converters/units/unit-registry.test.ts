@@ -0,0 +1,43 @@
+import { assertAlmostEquals, assertEquals } from "@std/testing";
+import { Decimal } from "decimal.js";
+import { Result } from "../../shared/types/index.ts";
+import { UnitRegistry } from "./unit-registry.ts";
+
+Deno.test("UnitRegistry", async (t) => {
+  const registry = new UnitRegistry();
+
+  await t.step("should resolve symbols and aliases", () => {
+    assertEquals(registry.get("km/h")?.dimension, "speed");
+    assertEquals(registry.get("kph")?.symbol, "km/h");
+    assertEquals(registry.has("furlong"), false);
+  });
+
+  await t.step("should list units by dimension and system", () => {
+    const symbols = registry.list("pressure", "imperial").map((unit) => unit.symbol);
+    assertEquals(symbols, ["inHg", "psi"]);
+  });
+
+  await t.step("should round-trip affine and reciprocal units", () => {
+    const fahrenheit = registry.convert(new Decimal(37), "°C", "°F");
+    const celsius = registry.convert(new Decimal(98.6), "°F", "°C");
+    const mpg = registry.convert(new Decimal(30), "mpg", "l/100km");
+
+    assertAlmostEquals(Result.isOk(fahrenheit) ? fahrenheit.value.toNumber() : NaN, 98.6, 1e-9);
+    assertAlmostEquals(Result.isOk(celsius) ? celsius.value.toNumber() : NaN, 37, 1e-9);
+    assertAlmostEquals(Result.isOk(mpg) ? mpg.value.toNumber() : NaN, 7.84, 0.01);
+  });
+
+  await t.step("should convert between imperial units", () => {
+    const result = registry.convert(new Decimal(1), "mi", "ft");
+    assertEquals(Result.isOk(result) && result.value.toNumber(), 5280);
+  });
+
+  await t.step("should report unknown units", () => {
+    const result = registry.convert(new Decimal(1), "m", "furlong");
+
+    assertEquals(Result.isErr(result), true);
+    if (Result.isErr(result)) {
+      assertEquals(result.error.code, "UNSUPPORTED_FORMAT");
+    }
+  });
+});
@@ -0,0 +1,180 @@
+import { Decimal } from "decimal.js";
+import { ConversionError, ErrorCode, Result } from "../../shared/types/index.ts";
+import { UnitDefinition, UnitDimension } from "./types.ts";
+import { DEFAULT_UNIT_DEFINITIONS } from "./unit-definitions.ts";
+
+/**
+ * Dimension-aware table of units and their conversion factors
+ */
+export class UnitRegistry {
+  private units = new Map<string, UnitDefinition>();
+  private aliases = new Map<string, string>();
+  private lookupKeys?: Map<string, string>;
+
+  constructor(definitions: UnitDefinition[] = DEFAULT_UNIT_DEFINITIONS) {
+    definitions.forEach((definition) => this.register(definition));
+  }
+
+  /**
+   * Add or replace a unit definition
+   */
+  register(definition: UnitDefinition): void {
+    this.units.set(definition.symbol, definition);
+    for (const alias of definition.aliases ?? []) {
+      this.aliases.set(alias, definition.symbol);
+    }
+    this.lookupKeys = undefined;
+  }
+
+  /**
+   * Look up a unit by symbol or alias
+   */
+  get(symbol: string): UnitDefinition | undefined {
+    return this.units.get(symbol) ?? this.units.get(this.aliases.get(symbol) ?? "");
+  }
+
+  /**
+   * Look up a unit leniently: any case, spacing, spelled-out or plural names ("Kilograms", "KM / H")
+   */
+  resolve(text: string): UnitDefinition | undefined {
+    const exact = this.get(text.trim());
+    if (exact) {
+      return exact;
+    }
+
+    const keys = this.getLookupKeys();
+    const key = toLookupKey(text);
+    const symbol = keys.get(key) ?? keys.get(key.replace(/s$/, ""));
+    return symbol ? this.units.get(symbol) : undefined;
+  }
+
+  /**
+   * Check whether a unit is registered
+   */
+  has(symbol: string): boolean {
+    return this.get(symbol) !== undefined;
+  }
+
+  /**
+   * List units, optionally filtered by dimension and system
+   */
+  list(dimension?: UnitDimension, system?: UnitDefinition["system"]): UnitDefinition[] {
+    return Array.from(this.units.values()).filter((unit) =>
+      (dimension === undefined || unit.dimension === dimension) &&
+      (system === undefined || unit.system === system)
+    );
+  }
+
+  /**
+   * Pick the largest auto-selectable unit of the other system whose magnitude reaches its `autoMin`
+   * @returns Unit symbol, or the unit's default counterpart when the dimension has no candidates
+   */
+  bestFit(value: Decimal, from: string): string | undefined {
+    const source = this.get(from);
+    if (!source) {
+      return undefined;
+    }
+
+    const target = source.system === "metric" ? "imperial" : "metric";
+    const candidates = this.list(source.dimension, target)
+      .filter((unit) => unit.autoMin !== undefined)
+      .sort((a, b) => a.factor - b.factor);
+
+    let best = candidates[0];
+    for (const candidate of candidates) {
+      const converted = this.convert(value, source.symbol, candidate.symbol);
+      if (Result.isOk(converted) && converted.value.abs().gte(candidate.autoMin ?? 0)) {
+        best = candidate;
+      }
+    }
+
+    return best?.symbol ?? (target === "imperial" ? source.imperialUnit : source.metricUnit);
+  }
+
+  /**
+   * Convert a value between two units of the same dimension
+   */
+  convert(value: Decimal, from: string, to: string): Result<Decimal, ConversionError> {
+    const source = this.get(from);
+    const target = this.get(to);
+
+    if (!source || !target) {
+      return Result.err(
+        new ConversionError(
+          `Unknown unit: ${source ? to : from}`,
+          ErrorCode.UNSUPPORTED_FORMAT,
+          { from, to },
+        ),
+      );
+    }
+
+    if (source.dimension !== target.dimension) {
+      return Result.err(
+        new ConversionError(
+          `Cannot convert ${source.dimension} (${from}) to ${target.dimension} (${to})`,
+          ErrorCode.TYPE_MISMATCH,
+          { from, to },
+        ),
+      );
+    }
+
+    // Reciprocal units have no finite value at zero
+    if ((source.inverse || target.inverse) && value.isZero()) {
+      return Result.err(
+        new ConversionError(
+          `Cannot convert zero ${from} to ${to}`,
+          ErrorCode.OUT_OF_RANGE,
+          { value: 0, from, to },
+        ),
+      );
+    }
+
+    return Result.ok(this.fromBase(this.toBase(value, source), target));
+  }
+
+  /**
+   * Express a value in the dimension's base unit
+   */
+  private toBase(value: Decimal, unit: UnitDefinition): Decimal {
+    if (unit.inverse) {
+      return new Decimal(unit.factor).div(value);
+    }
+    return value.mul(unit.factor).plus(unit.offset ?? 0);
+  }
+
+  /**
+   * Express a base-unit value in the given unit
+   */
+  private fromBase(base: Decimal, unit: UnitDefinition): Decimal {
+    if (unit.inverse) {
+      return new Decimal(unit.factor).div(base);
+    }
+    return base.minus(unit.offset ?? 0).div(unit.factor);
+  }
+
+  /**
+   * Build the lenient lookup index over symbols, aliases and names
+   */
+  private getLookupKeys(): Map<string, string> {
+    if (!this.lookupKeys) {
+      this.lookupKeys = new Map();
+      for (const unit of this.units.values()) {
+        for (const text of [unit.name, ...(unit.aliases ?? []), unit.symbol]) {
+          this.lookupKeys.set(toLookupKey(text), unit.symbol);
+        }
+      }
+    }
+    return this.lookupKeys;
+  }
+}
+
+/**
+ * Normalize unit text for lenient matching (British -tre spellings included)
+ */
+function toLookupKey(text: string): string {
+  return text
+    .normalize("NFKC")
+    .toLowerCase()
+    .replace(/\s+/g, "")
+    .replace(/tre(s?)$/, "ter$1");
+}
@@ -21,7 +21,15 @@ import { DLQManager } from "./shared/resilience/dead-letter-queue.ts";
 import { GracefulDegradation } from "./shared/resilience/graceful-degradation.ts";
 import { CacheManager } from "./shared/cache/cache-manager.ts";
 import { Result } from "./shared/types/result.ts";
-import { createPipelineRoutes } from "./api/pipeline-routes.ts";
+import {
+  createPipelineRoutes,
+  usePipelineMappings,
+  usePipelineZipRates,
+} from "./api/pipeline-routes.ts";
+import { createPrivacyRoutes, usePrivacyRequestStore } from "./api/privacy-routes.ts";
+import { MappingRegistry } from "./converters/mappings/mapping-registry.ts";
+import { ZipTaxRateTable } from "./converters/tax/zip-tax-rates.ts";
+import { PrivacyRequestStore } from "./converters/privacy/privacy-request-store.ts";
 
 // Global instances
 const metrics = new MetricsCollector();
@@ -237,6 +245,11 @@ const pipelineRoutes = createPipelineRoutes();
 app.use(pipelineRoutes.routes());
 app.use(pipelineRoutes.allowedMethods());
 
+// Add privacy request routes
+const privacyRoutes = createPrivacyRoutes();
+app.use(privacyRoutes.routes());
+app.use(privacyRoutes.allowedMethods());
+
 // Graceful shutdown
 function setupGracefulShutdown() {
   const signals: Deno.Signal[] = ["SIGTERM", "SIGINT"];
@@ -274,6 +287,39 @@ export async function main(): Promise<void> {
     // Initialize systems
     console.log("🔧 Initializing systems...");
     await cacheManager.initialize();
+
+    // Load client-specific country mappings; an invalid file stops startup
+    const mappingsFile = Deno.env.get("COUNTRY_MAPPINGS_FILE");
+    if (mappingsFile) {
+      const mappings = await MappingRegistry.fromFile(mappingsFile);
+      if (Result.isErr(mappings)) {
+        throw mappings.error;
+      }
+      usePipelineMappings(mappings.value);
+      console.log(`🗺️  Country mappings ${mappings.value.version} loaded from ${mappingsFile}`);
+    }
+
+    // Load ZIP code sales tax rates; an invalid file stops startup
+    const zipRatesFile = Deno.env.get("ZIP_TAX_RATES_FILE");
+    if (zipRatesFile) {
+      const zipRates = await ZipTaxRateTable.fromFile(zipRatesFile);
+      if (Result.isErr(zipRates)) {
+        throw zipRates.error;
+      }
+      usePipelineZipRates(zipRates.value);
+      console.log(`🧾 ZIP tax rates ${zipRates.value.version} loaded from ${zipRatesFile}`);
+    }
+
+    // Persist tracked privacy requests; an unreadable file stops startup
+    const privacyRequestsFile = Deno.env.get("PRIVACY_REQUESTS_FILE");
+    if (privacyRequestsFile) {
+      const requests = await PrivacyRequestStore.fromFile(privacyRequestsFile);
+      if (Result.isErr(requests)) {
+        throw requests.error;
+      }
+      usePrivacyRequestStore(requests.value);
+      console.log(`🔏 Privacy requests persisted to ${privacyRequestsFile}`);
+    }
     
     // Setup health checks
     degradation.registerHealthCheck("cache", async () => {
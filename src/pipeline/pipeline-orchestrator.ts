@@ -1,5 +1,11 @@
 import { Result } from "../shared/types/result.ts";
-import { Converter } from "../shared/types/converter.ts";
+import {
+  ConversionError,
+  Converter,
+  ConverterConfig,
+  ErrorCode,
+} from "../shared/types/converter.ts";
+import { ExactMoney } from "../shared/types/money.ts";
 import { CacheManager } from "../shared/cache/cache-manager.ts";
 import { MetricsCollector } from "../shared/monitoring/metrics.ts";
 import { CircuitBreaker } from "../shared/resilience/circuit-breaker.ts";
@@ -11,11 +17,32 @@ import { WorkerPool } from "../shared/workers/worker-pool.ts";
 import { EurToUsdConverter } from "../converters/currency/eur-to-usd.ts";
 import { MetricToImperialConverter } from "../converters/units/metric-to-imperial.ts";
 import { EuToUsaDateConverter } from "../converters/dates/eu-to-usa-date.ts";
+import { inferDateOrder } from "../converters/dates/date-order.ts";
 import { EuToUsaNumberConverter } from "../converters/formats/eu-to-usa-number.ts";
 import { EuToUsaAddressConverter } from "../converters/addresses/eu-to-usa-address.ts";
 import { EuToUsaPhoneConverter } from "../converters/phone/eu-to-usa-phone.ts";
 import { VatToSalesTaxConverter } from "../converters/tax/vat-to-sales-tax.ts";
+import { ProductCategory } from "../converters/tax/vat-rates.ts";
+import { ZipTaxRateTable } from "../converters/tax/zip-tax-rates.ts";
 import { GdprToCcpaConverter } from "../converters/privacy/gdpr-to-ccpa.ts";
+import { MappingRegistry } from "../converters/mappings/mapping-registry.ts";
+import { UsdToEurConverter } from "../converters/currency/usd-to-eur.ts";
+import { ImperialToMetricConverter } from "../converters/units/imperial-to-metric.ts";
+import { UsaToEuDateConverter } from "../converters/dates/usa-to-eu-date.ts";
+import { UsaToEuNumberConverter } from "../converters/formats/usa-to-eu-number.ts";
+import { UsaToEuAddressConverter } from "../converters/addresses/usa-to-eu-address.ts";
+import { UsaToEuPhoneConverter } from "../converters/phone/usa-to-eu-phone.ts";
+import {
+  SalesTaxInput,
+  SalesTaxToVatConverter,
+  VATOutput,
+} from "../converters/tax/sales-tax-to-vat.ts";
+import { CcpaToGdprConverter } from "../converters/privacy/ccpa-to-gdpr.ts";
+
+/**
+ * Which way records are converted
+ */
+export type ConversionDirection = "eu-to-usa" | "usa-to-eu";
 
 /**
  * Pipeline stage configuration
@@ -41,6 +68,10 @@ export interface PipelineConfig {
   enableDeadLetterQueue?: boolean;
   parallelism?: number;
   timeout?: number;
+  converterConfig?: ConverterConfig; // Default options passed to every converter
+  mappings?: MappingRegistry; // Country mapping tables for the address, phone and tax converters
+  zipRates?: ZipTaxRateTable; // US sales tax rates by ZIP code for the tax converter
+  direction?: ConversionDirection; // Default "eu-to-usa"; "usa-to-eu" reads US values from the record fields
 }
 
 /**
@@ -67,17 +98,20 @@ export interface StageResult {
   input: any;
   output?: any;
   error?: string;
+  errorCode?: ErrorCode; // Set when a converter reported a ConversionError
   cached?: boolean;
   retries?: number;
 }
 
 /**
- * EU to USA data record
+ * EU to USA data record. In the "usa-to-eu" direction this is the source record and holds US
+ * values: amounts in USD, US dates, numbers, addresses and phone numbers, the sales tax in
+ * `salesTax` and a CCPA request in `privacy`.
  */
 export interface EUDataRecord {
   id: string;
   currency?: { amount: number };
-  measurements?: Array<{ value: number; unit: string }>;
+  measurements?: Array<{ value: number; unit: string } | string>; // Free text such as "1,5 kg" is parsed by the units stage
   dates?: string[];
   numbers?: string[];
   address?: {
@@ -92,7 +126,11 @@ export interface EUDataRecord {
     amount: number;
     rate: number;
     country: string;
+    invoiceDate?: string; // YYYY-MM-DD; selects the VAT rates in force
+    productCategory?: ProductCategory;
+    destinationZip?: string; // US ZIP code for jurisdiction-level sales tax
   };
+  salesTax?: SalesTaxInput; // "usa-to-eu" only; converted to VAT by the tax stage
   privacy?: {
     requestType: "access" | "deletion" | "portability" | "rectification";
     dataCategories: string[];
@@ -101,11 +139,13 @@ export interface EUDataRecord {
 }
 
 /**
- * USA data record after conversion
+ * USA data record after conversion. In the "usa-to-eu" direction this is the converted record
+ * and holds EU values: amounts in EUR, EU dates, numbers, addresses and phone numbers, the VAT
+ * in `vat` and a GDPR request in `privacy`.
  */
 export interface USADataRecord {
   id: string;
-  currency?: { amount: number; currency: string };
+  currency?: { amount: number; currency: string; exactAmount?: ExactMoney };
   measurements?: Array<{ value: number; unit: string }>;
   dates?: string[];
   numbers?: string[];
@@ -122,7 +162,15 @@ export interface USADataRecord {
     taxAmount: number;
     total: number;
     state: string;
+    exact?: {
+      subtotal: ExactMoney;
+      taxAmount: ExactMoney;
+      total: ExactMoney;
+      stateTax: ExactMoney;
+      localTax?: ExactMoney;
+    };
   };
+  vat?: VATOutput; // "usa-to-eu" only; written by the tax stage instead of `salesTax`
   privacy?: {
     requestType: string;
     rights: string[];
@@ -131,7 +179,41 @@ export interface USADataRecord {
 }
 
 /**
- * Main pipeline orchestrator for EU to USA data conversion
+ * Converter for each stage in the given direction
+ */
+function createStageConverters(
+  direction: ConversionDirection,
+  options: { mappings?: MappingRegistry; zipRates?: ZipTaxRateTable },
+): Record<string, Converter<any, any>> {
+  const { mappings, zipRates } = options;
+
+  if (direction === "usa-to-eu") {
+    return {
+      currency: new UsdToEurConverter({}),
+      units: new ImperialToMetricConverter({}),
+      dates: new UsaToEuDateConverter(),
+      numbers: new UsaToEuNumberConverter(),
+      address: new UsaToEuAddressConverter({ mappings }),
+      phone: new UsaToEuPhoneConverter(),
+      tax: new SalesTaxToVatConverter({ mappings }),
+      privacy: new CcpaToGdprConverter(),
+    };
+  }
+
+  return {
+    currency: new EurToUsdConverter({}),
+    units: new MetricToImperialConverter({}),
+    dates: new EuToUsaDateConverter({}),
+    numbers: new EuToUsaNumberConverter({}),
+    address: new EuToUsaAddressConverter({ mappings }),
+    phone: new EuToUsaPhoneConverter({ mappings }),
+    tax: new VatToSalesTaxConverter({ mappings, zipRates }),
+    privacy: new GdprToCcpaConverter({}),
+  };
+}
+
+/**
+ * Main pipeline orchestrator for EU to USA data conversion, or USA to EU by `direction`
  */
 export class PipelineOrchestrator {
   private cache: CacheManager;
@@ -160,14 +242,18 @@ export class PipelineOrchestrator {
    * Initialize all converters
    */
   private initializeConverters(): void {
-    this.converters.set("currency", new EurToUsdConverter({}));
-    this.converters.set("units", new MetricToImperialConverter({}));
-    this.converters.set("dates", new EuToUsaDateConverter({}));
-    this.converters.set("numbers", new EuToUsaNumberConverter({}));
-    this.converters.set("address", new EuToUsaAddressConverter({}));
-    this.converters.set("phone", new EuToUsaPhoneConverter({}));
-    this.converters.set("tax", new VatToSalesTaxConverter({}));
-    this.converters.set("privacy", new GdprToCcpaConverter({}));
+    const { direction = "eu-to-usa", mappings, zipRates } = this.config;
+    const converters = createStageConverters(direction, { mappings, zipRates });
+    for (const [name, converter] of Object.entries(converters)) {
+      this.converters.set(name, converter);
+    }
+  }
+
+  /**
+   * Converter registered for a stage in the pipeline's direction
+   */
+  getConverter(name: string): Converter<any, any> | undefined {
+    return this.converters.get(name);
   }
 
   /**
@@ -191,7 +277,10 @@ export class PipelineOrchestrator {
   /**
    * Process a single EU data record through the pipeline
    */
-  async processRecord(record: EUDataRecord): Promise<Result<USADataRecord, string>> {
+  async processRecord(
+    record: EUDataRecord,
+    converterConfig?: ConverterConfig,
+  ): Promise<Result<USADataRecord, string>> {
     const pipelineId = `pipeline-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
     const startTime = Date.now();
     const stageResults: StageResult[] = [];
@@ -205,13 +294,17 @@ export class PipelineOrchestrator {
 
       // Convert the record
       const usaRecord: USADataRecord = { id: record.id };
+      const stageConfig = { ...this.config.converterConfig, ...converterConfig };
 
       // Process each stage
       for (const stage of this.config.stages) {
-        const stageResult = await this.processStage(stage, record, usaRecord);
+        const stageResult = await this.processStage(stage, record, usaRecord, stageConfig);
         stageResults.push(stageResult);
 
-        if (!stageResult.success && stage.required) {
+        // Ambiguous values go to the dead letter queue for review instead of being guessed
+        const needsReview = stageResult.errorCode === ErrorCode.AMBIGUOUS_INPUT;
+
+        if (!stageResult.success && (stage.required || needsReview)) {
           errors.push(`Stage ${stage.name} failed: ${stageResult.error}`);
           
           if (this.config.enableDeadLetterQueue) {
@@ -274,25 +367,27 @@ export class PipelineOrchestrator {
   private async processStage(
     stage: PipelineStage,
     euRecord: EUDataRecord,
-    usaRecord: USADataRecord
+    usaRecord: USADataRecord,
+    converterConfig: ConverterConfig = {},
   ): Promise<StageResult> {
     const startTime = Date.now();
+    const cacheKey = `stage:${stage.name}:${euRecord.id}${this.getConfigCacheSuffix(converterConfig)}`;
 
     try {
       // Check cache
       if (this.config.enableCache) {
-        const cacheKey = `stage:${stage.name}:${euRecord.id}`;
-        const cached = this.cache.get(cacheKey);
-        if (cached) {
+        const cached = await this.cache.get(cacheKey);
+        if (Result.isOk(cached) && cached.value) {
           if (this.config.enableMetrics) {
             this.metrics.incrementCounter("cache_hits_total", 1, { stage: stage.name });
           }
+          this.applyStageOutput(stage.name, usaRecord, cached.value);
           return {
             name: stage.name,
             success: true,
             duration: Date.now() - startTime,
             input: this.getStageInput(stage.name, euRecord),
-            output: cached,
+            output: cached.value,
             cached: true,
           };
         }
@@ -310,12 +405,12 @@ export class PipelineOrchestrator {
           return { skipped: true };
         }
 
-        const result = await stage.converter.convert(input);
+        const result = await stage.converter.convert(input, converterConfig);
         if (Result.isOk(result)) {
           this.applyStageOutput(stage.name, usaRecord, result.value);
           return result.value;
         } else {
-          throw new Error(result.error);
+          throw result.error;
         }
       };
 
@@ -323,11 +418,18 @@ export class PipelineOrchestrator {
       let retries = 0;
 
       if (circuitBreaker) {
-        output = await circuitBreaker.execute(executeStage);
+        const breakerResult = await circuitBreaker.execute(executeStage);
+        if (Result.isErr(breakerResult)) {
+          throw breakerResult.error;
+        }
+        output = breakerResult.value;
       } else if (stage.retryPolicy) {
         const retryResult = await stage.retryPolicy.execute(executeStage);
-        output = retryResult;
         retries = stage.retryPolicy.getMetrics().totalAttempts - 1;
+        if (Result.isErr(retryResult)) {
+          throw retryResult.error;
+        }
+        output = retryResult.value;
       } else {
         output = await executeStage();
       }
@@ -345,7 +447,6 @@ export class PipelineOrchestrator {
 
       // Cache successful result
       if (this.config.enableCache) {
-        const cacheKey = `stage:${stage.name}:${euRecord.id}`;
         this.cache.set(cacheKey, output, 300);
       }
 
@@ -371,29 +472,50 @@ export class PipelineOrchestrator {
         duration: Date.now() - startTime,
         input: this.getStageInput(stage.name, euRecord),
         error: errorMessage,
+        errorCode: error instanceof ConversionError ? error.code : undefined,
       };
     }
   }
 
+  /**
+   * Distinguish cached stage output produced with different money options
+   */
+  private getConfigCacheSuffix(config: ConverterConfig): string {
+    const parts: string[] = [];
+    if (config.moneyRepresentation || config.roundingMode) {
+      parts.push(config.moneyRepresentation ?? "number", config.roundingMode ?? "half-up");
+    }
+    if (config.dateOrder) {
+      parts.push(config.dateOrder.order, config.dateOrder.confidence.toFixed(3));
+    }
+    if (config.strict) {
+      parts.push("strict");
+    }
+    return parts.map((part) => `:${part}`).join("");
+  }
+
   /**
    * Get input data for a specific stage
    */
   private getStageInput(stageName: string, record: EUDataRecord): any {
+    const reverse = this.config.direction === "usa-to-eu";
+
     switch (stageName) {
       case "currency":
-        return record.currency;
+        return reverse && record.currency ? { ...record.currency, currency: "USD" } : record.currency;
       case "units":
         return record.measurements?.[0]; // Process first measurement
       case "dates":
         return record.dates?.[0] ? { date: record.dates[0] } : null;
       case "numbers":
-        return record.numbers?.[0] ? { number: record.numbers[0] } : null;
+        return record.numbers?.[0] ? { value: record.numbers[0] } : null;
       case "address":
         return record.address;
       case "phone":
-        return record.phone ? { phone: record.phone } : null;
+        if (!record.phone) return null;
+        return reverse ? { number: record.phone } : { phone: record.phone };
       case "tax":
-        return record.vat;
+        return reverse ? record.salesTax : record.vat;
       case "privacy":
         return record.privacy;
       default:
@@ -402,7 +524,7 @@ export class PipelineOrchestrator {
   }
 
   /**
-   * Apply stage output to USA record
+   * Apply stage output to the converted record
    */
   private applyStageOutput(stageName: string, record: USADataRecord, output: any): void {
     switch (stageName) {
@@ -419,7 +541,7 @@ export class PipelineOrchestrator {
         break;
       case "numbers":
         if (!record.numbers) record.numbers = [];
-        record.numbers.push(output.number);
+        record.numbers.push(output.value);
         break;
       case "address":
         record.address = output;
@@ -428,7 +550,11 @@ export class PipelineOrchestrator {
         record.phone = output.formatted;
         break;
       case "tax":
-        record.salesTax = output;
+        if (this.config.direction === "usa-to-eu") {
+          record.vat = output;
+        } else {
+          record.salesTax = output;
+        }
         break;
       case "privacy":
         record.privacy = output;
@@ -440,15 +566,24 @@ export class PipelineOrchestrator {
    * Process multiple records in batch
    */
   async processBatch(
-    records: EUDataRecord[]
+    records: EUDataRecord[],
+    converterConfig?: ConverterConfig,
   ): Promise<Result<USADataRecord[], string>> {
     const results: USADataRecord[] = [];
     const errors: string[] = [];
 
+    // Infer the day/month convention of the batch's numeric dates from its unambiguous values
+    const dates = records.flatMap((record) => record.dates ?? []);
+    const configuredOrder = converterConfig?.dateOrder ?? this.config.converterConfig?.dateOrder;
+    if (!configuredOrder && dates.length > 0) {
+      const { order, confidence } = inferDateOrder(dates);
+      converterConfig = { ...converterConfig, dateOrder: { order, confidence } };
+    }
+
     try {
       // Process in parallel if worker pool is available
       if (this.workerPool) {
-        const tasks = records.map(record => () => this.processRecord(record));
+        const tasks = records.map(record => () => this.processRecord(record, converterConfig));
         const batchResults = await Promise.all(
           tasks.map(task => this.workerPool!.execute(task))
         );
@@ -463,7 +598,7 @@ export class PipelineOrchestrator {
       } else {
         // Process sequentially
         for (const record of records) {
-          const result = await this.processRecord(record);
+          const result = await this.processRecord(record, converterConfig);
           if (Result.isOk(result)) {
             results.push(result.value);
           } else {
@@ -557,7 +692,15 @@ export class PipelineOrchestrator {
 /**
  * Create a default pipeline with all converters
  */
-export function createDefaultPipeline(): PipelineOrchestrator {
+export function createDefaultPipeline(
+  options: {
+    mappings?: MappingRegistry;
+    zipRates?: ZipTaxRateTable;
+    direction?: ConversionDirection;
+  } = {},
+): PipelineOrchestrator {
+  const { mappings, zipRates, direction = "eu-to-usa" } = options;
+  const converters = createStageConverters(direction, { mappings, zipRates });
   const retryPolicy = new RetryPolicy({
     strategy: "exponential",
     maxAttempts: 3,
@@ -565,49 +708,49 @@ export function createDefaultPipeline(): PipelineOrchestrator {
   });
 
   const config: PipelineConfig = {
-    name: "eu-to-usa-complete",
+    name: `${direction}-complete`,
     stages: [
       {
         name: "currency",
-        converter: new EurToUsdConverter({}),
+        converter: converters.currency,
         required: false,
         retryPolicy,
       },
       {
         name: "units",
-        converter: new MetricToImperialConverter({}),
+        converter: converters.units,
         required: false,
       },
       {
         name: "dates",
-        converter: new EuToUsaDateConverter({}),
+        converter: converters.dates,
         required: false,
       },
       {
         name: "numbers",
-        converter: new EuToUsaNumberConverter({}),
+        converter: converters.numbers,
         required: false,
       },
       {
         name: "address",
-        converter: new EuToUsaAddressConverter({}),
+        converter: converters.address,
         required: false,
         retryPolicy,
       },
       {
         name: "phone",
-        converter: new EuToUsaPhoneConverter({}),
+        converter: converters.phone,
         required: false,
       },
       {
         name: "tax",
-        converter: new VatToSalesTaxConverter({}),
+        converter: converters.tax,
         required: false,
         retryPolicy,
       },
       {
         name: "privacy",
-        converter: new GdprToCcpaConverter({}),
+        converter: converters.privacy,
         required: false,
       },
     ],
@@ -617,6 +760,9 @@ export function createDefaultPipeline(): PipelineOrchestrator {
     enableDeadLetterQueue: true,
     parallelism: 4,
     timeout: 30000,
+    mappings,
+    zipRates,
+    direction,
   };
 
   return new PipelineOrchestrator(config);
@@ -0,0 +1,76 @@
+import { ConversionError, ErrorCode, Result } from "../types/index.ts";
+import { CountryInfo, ISO_3166_COUNTRIES } from "./iso3166.ts";
+
+/**
+ * Lowercase, strip diacritics and punctuation so "ČESKO", "Cesko" and "česko" compare equal
+ */
+function normalizeName(name: string): string {
+  return name
+    .normalize("NFD")
+    .replace(/\p{Diacritic}/gu, "")
+    .toLowerCase()
+    .replace(/[.'’]/g, "")
+    .replace(/[\s-]+/g, " ")
+    .trim();
+}
+
+const BY_ALPHA3 = new Map<string, CountryInfo>();
+const BY_NUMERIC = new Map<string, CountryInfo>();
+const BY_DIALING_CODE = new Map<string, CountryInfo>();
+const BY_NAME = new Map<string, CountryInfo>();
+
+for (const country of Object.values(ISO_3166_COUNTRIES)) {
+  BY_ALPHA3.set(country.alpha3, country);
+  BY_NUMERIC.set(country.numeric, country);
+  BY_DIALING_CODE.set(country.dialingCode, country);
+  for (const name of [country.name, ...country.nativeNames, ...country.aliases]) {
+    BY_NAME.set(normalizeName(name), country);
+  }
+}
+
+/**
+ * Find a country by alpha-2, alpha-3 or numeric code, English name, native name or alias
+ * ("DE", "DEU", "276", "Germany", "Deutschland")
+ */
+export function findCountry(country: string): CountryInfo | undefined {
+  const key = country.trim();
+  if (/^[A-Za-z]{2}$/.test(key) && ISO_3166_COUNTRIES[key.toUpperCase()]) {
+    return ISO_3166_COUNTRIES[key.toUpperCase()];
+  }
+  if (/^[A-Za-z]{3}$/.test(key) && BY_ALPHA3.has(key.toUpperCase())) {
+    return BY_ALPHA3.get(key.toUpperCase());
+  }
+  if (/^\d{3}$/.test(key)) {
+    return BY_NUMERIC.get(key);
+  }
+  return BY_NAME.get(normalizeName(key));
+}
+
+/**
+ * Find a country by its international dialing code ("+49", "0049" or "49")
+ */
+export function findCountryByDialingCode(dialingCode: string): CountryInfo | undefined {
+  const code = dialingCode.trim().replace(/^(?:\+|00)/, "");
+  return BY_DIALING_CODE.get(code);
+}
+
+/**
+ * Resolve a country written in any supported form
+ * @returns The country, or an UNKNOWN_COUNTRY error naming the unrecognized value
+ */
+export function resolveCountry(
+  country: string,
+  field = "country",
+): Result<CountryInfo, ConversionError> {
+  const found = findCountry(country);
+  if (!found) {
+    return Result.err(
+      new ConversionError(
+        `Unknown country: ${country}`,
+        ErrorCode.UNKNOWN_COUNTRY,
+        { field, [field]: country },
+      ),
+    );
+  }
+  return Result.ok(found);
+}
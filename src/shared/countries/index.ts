@@ -0,0 +1,3 @@
+export { ISO_3166_COUNTRIES } from "./iso3166.ts";
+export type { CountryInfo } from "./iso3166.ts";
+export { findCountry, findCountryByDialingCode, resolveCountry } from "./country-resolver.ts";
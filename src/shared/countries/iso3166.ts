@@ -0,0 +1,431 @@
+/**
+ * ISO 3166-1 country definition
+ */
+export interface CountryInfo {
+  alpha2: string;
+  alpha3: string;
+  numeric: string;
+  name: string; // English short name used in mapping tables and messages
+  nativeNames: string[]; // Names in the country's official languages
+  aliases: string[]; // Other English names and common spellings
+  dialingCode: string; // ITU-T E.164 country calling code, without "+"
+}
+
+/**
+ * Countries recognized by the converters (EU, EEA, Switzerland, the UK, the rest of
+ * Europe and the US), by alpha-2 code
+ */
+export const ISO_3166_COUNTRIES: Record<string, CountryInfo> = {
+  // European Union
+  AT: {
+    alpha2: "AT",
+    alpha3: "AUT",
+    numeric: "040",
+    name: "Austria",
+    nativeNames: ["Österreich"],
+    aliases: [],
+    dialingCode: "43",
+  },
+  BE: {
+    alpha2: "BE",
+    alpha3: "BEL",
+    numeric: "056",
+    name: "Belgium",
+    nativeNames: ["België", "Belgique", "Belgien"],
+    aliases: [],
+    dialingCode: "32",
+  },
+  BG: {
+    alpha2: "BG",
+    alpha3: "BGR",
+    numeric: "100",
+    name: "Bulgaria",
+    nativeNames: ["България", "Balgariya"],
+    aliases: [],
+    dialingCode: "359",
+  },
+  HR: {
+    alpha2: "HR",
+    alpha3: "HRV",
+    numeric: "191",
+    name: "Croatia",
+    nativeNames: ["Hrvatska"],
+    aliases: [],
+    dialingCode: "385",
+  },
+  CY: {
+    alpha2: "CY",
+    alpha3: "CYP",
+    numeric: "196",
+    name: "Cyprus",
+    nativeNames: ["Κύπρος", "Kıbrıs"],
+    aliases: [],
+    dialingCode: "357",
+  },
+  CZ: {
+    alpha2: "CZ",
+    alpha3: "CZE",
+    numeric: "203",
+    name: "Czech Republic",
+    nativeNames: ["Česko", "Česká republika"],
+    aliases: ["Czechia"],
+    dialingCode: "420",
+  },
+  DK: {
+    alpha2: "DK",
+    alpha3: "DNK",
+    numeric: "208",
+    name: "Denmark",
+    nativeNames: ["Danmark"],
+    aliases: [],
+    dialingCode: "45",
+  },
+  EE: {
+    alpha2: "EE",
+    alpha3: "EST",
+    numeric: "233",
+    name: "Estonia",
+    nativeNames: ["Eesti"],
+    aliases: [],
+    dialingCode: "372",
+  },
+  FI: {
+    alpha2: "FI",
+    alpha3: "FIN",
+    numeric: "246",
+    name: "Finland",
+    nativeNames: ["Suomi"],
+    aliases: [],
+    dialingCode: "358",
+  },
+  FR: {
+    alpha2: "FR",
+    alpha3: "FRA",
+    numeric: "250",
+    name: "France",
+    nativeNames: ["France"],
+    aliases: [],
+    dialingCode: "33",
+  },
+  DE: {
+    alpha2: "DE",
+    alpha3: "DEU",
+    numeric: "276",
+    name: "Germany",
+    nativeNames: ["Deutschland"],
+    aliases: ["Federal Republic of Germany"],
+    dialingCode: "49",
+  },
+  GR: {
+    alpha2: "GR",
+    alpha3: "GRC",
+    numeric: "300",
+    name: "Greece",
+    nativeNames: ["Ελλάδα", "Ελλάς", "Elláda"],
+    aliases: ["Hellas"],
+    dialingCode: "30",
+  },
+  HU: {
+    alpha2: "HU",
+    alpha3: "HUN",
+    numeric: "348",
+    name: "Hungary",
+    nativeNames: ["Magyarország"],
+    aliases: [],
+    dialingCode: "36",
+  },
+  IE: {
+    alpha2: "IE",
+    alpha3: "IRL",
+    numeric: "372",
+    name: "Ireland",
+    nativeNames: ["Éire"],
+    aliases: ["Republic of Ireland"],
+    dialingCode: "353",
+  },
+  IT: {
+    alpha2: "IT",
+    alpha3: "ITA",
+    numeric: "380",
+    name: "Italy",
+    nativeNames: ["Italia"],
+    aliases: [],
+    dialingCode: "39",
+  },
+  LV: {
+    alpha2: "LV",
+    alpha3: "LVA",
+    numeric: "428",
+    name: "Latvia",
+    nativeNames: ["Latvija"],
+    aliases: [],
+    dialingCode: "371",
+  },
+  LT: {
+    alpha2: "LT",
+    alpha3: "LTU",
+    numeric: "440",
+    name: "Lithuania",
+    nativeNames: ["Lietuva"],
+    aliases: [],
+    dialingCode: "370",
+  },
+  LU: {
+    alpha2: "LU",
+    alpha3: "LUX",
+    numeric: "442",
+    name: "Luxembourg",
+    nativeNames: ["Lëtzebuerg", "Luxemburg"],
+    aliases: [],
+    dialingCode: "352",
+  },
+  MT: {
+    alpha2: "MT",
+    alpha3: "MLT",
+    numeric: "470",
+    name: "Malta",
+    nativeNames: ["Malta"],
+    aliases: [],
+    dialingCode: "356",
+  },
+  NL: {
+    alpha2: "NL",
+    alpha3: "NLD",
+    numeric: "528",
+    name: "Netherlands",
+    nativeNames: ["Nederland"],
+    aliases: ["The Netherlands", "Holland"],
+    dialingCode: "31",
+  },
+  PL: {
+    alpha2: "PL",
+    alpha3: "POL",
+    numeric: "616",
+    name: "Poland",
+    nativeNames: ["Polska"],
+    aliases: [],
+    dialingCode: "48",
+  },
+  PT: {
+    alpha2: "PT",
+    alpha3: "PRT",
+    numeric: "620",
+    name: "Portugal",
+    nativeNames: ["Portugal"],
+    aliases: [],
+    dialingCode: "351",
+  },
+  RO: {
+    alpha2: "RO",
+    alpha3: "ROU",
+    numeric: "642",
+    name: "Romania",
+    nativeNames: ["România"],
+    aliases: [],
+    dialingCode: "40",
+  },
+  SK: {
+    alpha2: "SK",
+    alpha3: "SVK",
+    numeric: "703",
+    name: "Slovakia",
+    nativeNames: ["Slovensko", "Slovenská republika"],
+    aliases: ["Slovak Republic"],
+    dialingCode: "421",
+  },
+  SI: {
+    alpha2: "SI",
+    alpha3: "SVN",
+    numeric: "705",
+    name: "Slovenia",
+    nativeNames: ["Slovenija"],
+    aliases: [],
+    dialingCode: "386",
+  },
+  ES: {
+    alpha2: "ES",
+    alpha3: "ESP",
+    numeric: "724",
+    name: "Spain",
+    nativeNames: ["España"],
+    aliases: [],
+    dialingCode: "34",
+  },
+  SE: {
+    alpha2: "SE",
+    alpha3: "SWE",
+    numeric: "752",
+    name: "Sweden",
+    nativeNames: ["Sverige"],
+    aliases: [],
+    dialingCode: "46",
+  },
+
+  // European Economic Area and Switzerland
+  IS: {
+    alpha2: "IS",
+    alpha3: "ISL",
+    numeric: "352",
+    name: "Iceland",
+    nativeNames: ["Ísland"],
+    aliases: [],
+    dialingCode: "354",
+  },
+  LI: {
+    alpha2: "LI",
+    alpha3: "LIE",
+    numeric: "438",
+    name: "Liechtenstein",
+    nativeNames: ["Liechtenstein"],
+    aliases: [],
+    dialingCode: "423",
+  },
+  NO: {
+    alpha2: "NO",
+    alpha3: "NOR",
+    numeric: "578",
+    name: "Norway",
+    nativeNames: ["Norge", "Noreg"],
+    aliases: [],
+    dialingCode: "47",
+  },
+  CH: {
+    alpha2: "CH",
+    alpha3: "CHE",
+    numeric: "756",
+    name: "Switzerland",
+    nativeNames: ["Schweiz", "Suisse", "Svizzera", "Svizra"],
+    aliases: ["Swiss Confederation"],
+    dialingCode: "41",
+  },
+
+  // Rest of Europe
+  GB: {
+    alpha2: "GB",
+    alpha3: "GBR",
+    numeric: "826",
+    name: "United Kingdom",
+    nativeNames: [],
+    aliases: ["UK", "Great Britain", "Britain", "England", "Scotland", "Wales", "Northern Ireland"],
+    dialingCode: "44",
+  },
+  AD: {
+    alpha2: "AD",
+    alpha3: "AND",
+    numeric: "020",
+    name: "Andorra",
+    nativeNames: ["Andorra"],
+    aliases: [],
+    dialingCode: "376",
+  },
+  MC: {
+    alpha2: "MC",
+    alpha3: "MCO",
+    numeric: "492",
+    name: "Monaco",
+    nativeNames: ["Monaco"],
+    aliases: [],
+    dialingCode: "377",
+  },
+  SM: {
+    alpha2: "SM",
+    alpha3: "SMR",
+    numeric: "674",
+    name: "San Marino",
+    nativeNames: ["San Marino"],
+    aliases: [],
+    dialingCode: "378",
+  },
+  VA: {
+    alpha2: "VA",
+    alpha3: "VAT",
+    numeric: "336",
+    name: "Holy See",
+    nativeNames: ["Città del Vaticano", "Santa Sede"],
+    aliases: ["Vatican City", "Vatican"],
+    dialingCode: "379",
+  },
+  AL: {
+    alpha2: "AL",
+    alpha3: "ALB",
+    numeric: "008",
+    name: "Albania",
+    nativeNames: ["Shqipëria"],
+    aliases: [],
+    dialingCode: "355",
+  },
+  BA: {
+    alpha2: "BA",
+    alpha3: "BIH",
+    numeric: "070",
+    name: "Bosnia and Herzegovina",
+    nativeNames: ["Bosna i Hercegovina"],
+    aliases: ["Bosnia"],
+    dialingCode: "387",
+  },
+  ME: {
+    alpha2: "ME",
+    alpha3: "MNE",
+    numeric: "499",
+    name: "Montenegro",
+    nativeNames: ["Crna Gora", "Црна Гора"],
+    aliases: [],
+    dialingCode: "382",
+  },
+  MK: {
+    alpha2: "MK",
+    alpha3: "MKD",
+    numeric: "807",
+    name: "North Macedonia",
+    nativeNames: ["Северна Македонија"],
+    aliases: ["Macedonia"],
+    dialingCode: "389",
+  },
+  RS: {
+    alpha2: "RS",
+    alpha3: "SRB",
+    numeric: "688",
+    name: "Serbia",
+    nativeNames: ["Србија", "Srbija"],
+    aliases: [],
+    dialingCode: "381",
+  },
+  MD: {
+    alpha2: "MD",
+    alpha3: "MDA",
+    numeric: "498",
+    name: "Moldova",
+    nativeNames: ["Moldova"],
+    aliases: ["Republic of Moldova"],
+    dialingCode: "373",
+  },
+  UA: {
+    alpha2: "UA",
+    alpha3: "UKR",
+    numeric: "804",
+    name: "Ukraine",
+    nativeNames: ["Україна"],
+    aliases: [],
+    dialingCode: "380",
+  },
+  TR: {
+    alpha2: "TR",
+    alpha3: "TUR",
+    numeric: "792",
+    name: "Türkiye",
+    nativeNames: ["Türkiye"],
+    aliases: ["Turkey"],
+    dialingCode: "90",
+  },
+
+  // Americas
+  US: {
+    alpha2: "US",
+    alpha3: "USA",
+    numeric: "840",
+    name: "United States",
+    nativeNames: [],
+    aliases: ["United States of America", "America"],
+    dialingCode: "1",
+  },
+};
@@ -1,4 +1,5 @@
 import { Result } from "./result.ts";
+import { MoneyRepresentation, RoundingMode } from "./money.ts";
 
 /**
  * Base converter interface for all EU to USA conversions
@@ -42,6 +43,22 @@ export interface ConverterConfig {
   locale?: string;
   /** Timezone for date conversions */
   timezone?: string;
+  /** Carry monetary amounts as exact decimal strings or integer minor units */
+  moneyRepresentation?: MoneyRepresentation;
+  /** Rounding mode for monetary amounts (default half-up) */
+  roundingMode?: RoundingMode;
+  /** Day/month order inferred for the batch a record belongs to */
+  dateOrder?: DateOrderHint;
+  /** Reject ambiguous input instead of guessing */
+  strict?: boolean;
+}
+
+/**
+ * Day/month order of numeric dates, with the confidence of the inference (0-1)
+ */
+export interface DateOrderHint {
+  order: "DMY" | "MDY";
+  confidence: number;
 }
 
 /**
@@ -84,6 +101,8 @@ export enum ErrorCode {
   MISSING_REQUIRED_FIELD = "MISSING_REQUIRED_FIELD",
   TYPE_MISMATCH = "TYPE_MISMATCH",
   OUT_OF_RANGE = "OUT_OF_RANGE",
+  AMBIGUOUS_INPUT = "AMBIGUOUS_INPUT",
+  UNKNOWN_COUNTRY = "UNKNOWN_COUNTRY",
 
   // Conversion errors
   CONVERSION_FAILED = "CONVERSION_FAILED",
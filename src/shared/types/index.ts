@@ -1,2 +1,3 @@
 export * from "./result.ts";
-export * from "./converter.ts";
\ No newline at end of file
+export * from "./converter.ts";
+export * from "./money.ts";
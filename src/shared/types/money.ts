@@ -0,0 +1,61 @@
+import { Decimal } from "decimal.js";
+import { z } from "zod";
+
+/**
+ * How monetary amounts are carried alongside the numeric value
+ * - "number": floating point only (default)
+ * - "decimal": exact decimal string, e.g. "1234.50"
+ * - "minor-units": integer count of the minor unit, e.g. 123450 cents
+ */
+export type MoneyRepresentation = "number" | "decimal" | "minor-units";
+
+/**
+ * Rounding applied to monetary amounts
+ */
+export type RoundingMode = "half-up" | "half-even" | "truncate";
+
+/**
+ * Exact monetary value (decimal string or integer minor units)
+ */
+export const ExactMoneySchema = z.union([
+  z.string().regex(/^-?\d+(\.\d+)?$/),
+  z.number().int(),
+]);
+
+export type ExactMoney = z.infer<typeof ExactMoneySchema>;
+
+const ROUNDING_MODES: Record<RoundingMode, Decimal.Rounding> = {
+  "half-up": Decimal.ROUND_HALF_UP,
+  "half-even": Decimal.ROUND_HALF_EVEN,
+  "truncate": Decimal.ROUND_DOWN,
+};
+
+/**
+ * Round an amount to the given number of decimal places
+ */
+export function roundMoney(
+  value: Decimal,
+  precision: number,
+  mode: RoundingMode = "half-up",
+): Decimal {
+  return value.toDecimalPlaces(precision, ROUNDING_MODES[mode]);
+}
+
+/**
+ * Express a rounded amount in the requested exact representation
+ * @returns undefined for the plain "number" representation
+ */
+export function toExactMoney(
+  value: Decimal,
+  precision: number,
+  representation: MoneyRepresentation = "number",
+): ExactMoney | undefined {
+  switch (representation) {
+    case "decimal":
+      return value.toFixed(precision);
+    case "minor-units":
+      return value.mul(new Decimal(10).pow(precision)).toDecimalPlaces(0).toNumber();
+    default:
+      return undefined;
+  }
+}
@@ -1,5 +1,6 @@
 import { assertEquals, assertExists } from "@std/assert";
-import { EuToUsaAddressConverter, type EUAddress, type USAAddress } from "../../../src/converters/addresses/eu-to-usa-address.ts";
+import { EuToUsaAddressConverter, type EUAddress } from "../../../src/converters/addresses/eu-to-usa-address.ts";
+import { ErrorCode } from "../../../src/shared/types/converter.ts";
 import { Result } from "../../../src/shared/types/result.ts";
 
 Deno.test("EuToUsaAddressConverter", async (t) => {
@@ -80,17 +81,43 @@ Deno.test("EuToUsaAddressConverter", async (t) => {
 
     const result = await converter.convert(input);
     
-    assertEquals(Result.isOk(result), true);
-    if (Result.isOk(result)) {
-      const address = result.value;
-      assertEquals(address.state, "NY"); // Default state
+    assertEquals(Result.isErr(result), true);
+    if (Result.isErr(result)) {
+      assertEquals(result.error.code, ErrorCode.UNKNOWN_COUNTRY);
+      assertEquals(result.error.details, { field: "country", country: "Unknown Country" });
     }
   });
 
+  await t.step("should accept ISO codes and native country names", async () => {
+    for (const country of ["DE", "DEU", "276", "Deutschland"]) {
+      const result = await converter.convert({
+        street: "Hauptstraße 12",
+        postalCode: "10115",
+        city: "Berlin",
+        country,
+      });
+
+      assertEquals(Result.isOk(result), true, country);
+      if (Result.isOk(result)) {
+        assertEquals(result.value.state, "TX", country);
+        assertEquals(result.value.postalCode, "10115", country);
+      }
+    }
+
+    const czech = await converter.convert({
+      street: "Václavské náměstí 1",
+      postalCode: "11000",
+      city: "Praha",
+      country: "Česko",
+    });
+    assertEquals(Result.isOk(czech) && czech.value.state, "OH");
+    assertEquals(Result.isOk(czech) && czech.value.postalCode, "110 00");
+  });
+
   await t.step("should convert postal codes correctly", async () => {
     const input: EUAddress = {
       street: "Test Street",
-      postalCode: "D-12345-AB",
+      postalCode: "D-12345",
       city: "Test City",
       country: "Germany",
     };
@@ -100,7 +127,120 @@ Deno.test("EuToUsaAddressConverter", async (t) => {
     assertEquals(Result.isOk(result), true);
     if (Result.isOk(result)) {
       const address = result.value;
-      assertEquals(address.zipCode, "D1234"); // Truncated to 5 chars
+      assertEquals(address.zipCode, "12345"); // Country prefix dropped
+      assertEquals(address.postalCode, "12345");
+    }
+  });
+
+  await t.step("should normalize postal codes to each country's format", async () => {
+    const cases: [string, string, string][] = [
+      ["Netherlands", "1012ab", "1012 AB"],
+      ["IE", "d02x285", "D02 X285"],
+      ["Poland", "00950", "00-950"],
+      ["Portugal", "1100148", "1100-148"],
+      ["Czech Republic", "11000", "110 00"],
+      ["Latvia", "LV-1050", "LV-1050"],
+    ];
+
+    for (const [country, postalCode, expected] of cases) {
+      const result = await converter.convert({ street: "Test 1", postalCode, city: "X", country });
+      assertEquals(Result.isOk(result) && result.value.postalCode, expected, country);
+    }
+  });
+
+  await t.step("should say which postal code rule failed", async () => {
+    const result = await converter.convert({
+      street: "Test Street",
+      postalCode: "D-12345-AB",
+      city: "Test City",
+      country: "Germany",
+    });
+
+    assertEquals(Result.isErr(result), true);
+    if (Result.isErr(result)) {
+      assertEquals(result.error.code, ErrorCode.INVALID_INPUT);
+      assertEquals(result.error.details, {
+        field: "postalCode",
+        postalCode: "D-12345-AB",
+        country: "DE",
+        rule: "5 digits",
+        example: "10115",
+      });
+    }
+
+    const spain = await converter.convert({
+      street: "Calle Mayor 5",
+      postalCode: "60001",
+      city: "Madrid",
+      country: "Spain",
+    });
+    assertEquals(Result.isErr(spain), true);
+  });
+
+  await t.step("should split street lines in each country's word order", async () => {
+    const cases: [string, string, string, string][] = [
+      ["Germany", "Hauptstraße 12a", "12a", "HauptStreet"],
+      ["France", "12 bis rue de la Paix", "12 bis", "Street de la Paix"],
+      ["Spain", "Calle Mayor, 5", "5", "Street Mayor"],
+      ["Austria", "Mariahilfer Straße 12/3/5", "12/3/5", "Mariahilfer Street"],
+      ["Ireland", "12 Main Street", "12", "Main Street"],
+      ["Netherlands", "Damrak 1-5", "1-5", "Damrak"],
+    ];
+    const postalCodes: Record<string, string> = {
+      Germany: "10115",
+      France: "75002",
+      Spain: "28013",
+      Austria: "1060",
+      Ireland: "D02 X285",
+      Netherlands: "1012 LG",
+    };
+
+    for (const [country, street, streetNumber, streetName] of cases) {
+      const result = await converter.convert({
+        street,
+        postalCode: postalCodes[country],
+        city: "X",
+        country,
+      });
+      assertEquals(Result.isOk(result), true, street);
+      if (Result.isOk(result)) {
+        assertEquals(result.value.streetNumber, streetNumber);
+        assertEquals(result.value.streetName, streetName);
+      }
+    }
+  });
+
+  await t.step("should standardize output for USPS on request", async () => {
+    const uspsConverter = new EuToUsaAddressConverter({ usps: true });
+    const result = await uspsConverter.convert({
+      street: "12 bis avenue des Champs-Élysées",
+      postalCode: "75008",
+      city: "Paris",
+      country: "France",
+      apartment: "4",
+    });
+
+    assertEquals(Result.isOk(result), true);
+    if (Result.isOk(result)) {
+      assertEquals(result.value.standardized?.zip4Placeholder, true);
+      assertEquals(result.value.formatted, "12 BIS AVENUE DES CHAMPS-ÉLYSÉES APT 4\nPARIS CA 75008-0000");
+    }
+  });
+
+  await t.step("should standardize alphanumeric postal codes for USPS", async () => {
+    const uspsConverter = new EuToUsaAddressConverter({ usps: true });
+    const result = await uspsConverter.convert({
+      street: "Damrak 1",
+      postalCode: "1015 CJ",
+      city: "Amsterdam",
+      country: "Netherlands",
+    });
+
+    assertEquals(Result.isOk(result), true);
+    if (Result.isOk(result)) {
+      assertEquals(result.value.zipCode, "10150");
+      assertEquals(result.value.postalCode, "1015 CJ");
+      assertEquals(result.value.standardized?.zip5, "10150");
     }
   });
 
@@ -0,0 +1,169 @@
+import { assertEquals } from "@std/assert";
+import { UsaToEuAddressConverter } from "../../../src/converters/addresses/usa-to-eu-address.ts";
+import {
+  type EUAddress,
+  EuToUsaAddressConverter,
+} from "../../../src/converters/addresses/eu-to-usa-address.ts";
+import { ErrorCode } from "../../../src/shared/types/converter.ts";
+import { Result } from "../../../src/shared/types/result.ts";
+
+Deno.test("UsaToEuAddressConverter", async (t) => {
+  const converter = new UsaToEuAddressConverter();
+
+  await t.step("should map the state back to its EU country", async () => {
+    const result = await converter.convert({
+      streetNumber: "123",
+      streetName: "HauptStreet",
+      city: "Berlin",
+      state: "TX",
+      zipCode: "10115",
+    });
+
+    assertEquals(Result.isOk(result), true);
+    if (Result.isOk(result)) {
+      assertEquals(result.value.street, "Hauptstraße");
+      assertEquals(result.value.houseNumber, "123");
+      assertEquals(result.value.country, "DE");
+      assertEquals(result.value.formatted, "Hauptstraße 123\n10115 Berlin\nGERMANY");
+    }
+  });
+
+  await t.step("should write the house number first where the country does", async () => {
+    const result = await converter.convert({
+      streetNumber: "15",
+      streetName: "Street de la Paix",
+      apartment: "3B",
+      city: "Paris",
+      state: "CA",
+      zipCode: "75001",
+    });
+
+    assertEquals(Result.isOk(result), true);
+    if (Result.isOk(result)) {
+      assertEquals(result.value.street, "Rue de la Paix");
+      assertEquals(result.value.formatted, "15 Rue de la Paix, 3B\n75001 Paris\nFRANCE");
+    }
+  });
+
+  await t.step("should pick between countries sharing a state by postal code", async () => {
+    const result = await converter.convert({
+      streetNumber: "1",
+      streetName: "Damrak",
+      city: "Amsterdam",
+      state: "MA",
+      zipCode: "10120",
+      postalCode: "1012 AB",
+    });
+
+    assertEquals(Result.isOk(result) && result.value.country, "NL");
+  });
+
+  await t.step("should report a state shared by countries it cannot tell apart", async () => {
+    const result = await converter.convert({
+      streetName: "Calle Mayor",
+      city: "Madrid",
+      state: "FL",
+      zipCode: "28013",
+    });
+
+    assertEquals(Result.isErr(result), true);
+    if (Result.isErr(result)) {
+      assertEquals(result.error.code, ErrorCode.AMBIGUOUS_INPUT);
+      assertEquals(result.error.details, { field: "state", state: "FL", countries: ["ES", "GR"] });
+    }
+  });
+
+  await t.step("should use an explicit EU country over the state", async () => {
+    const result = await converter.convert({
+      streetNumber: "5",
+      streetName: "Street Mayor",
+      city: "Madrid",
+      state: "FL",
+      zipCode: "28013",
+      country: "Spain",
+    });
+
+    assertEquals(Result.isOk(result) && result.value.street, "Calle Mayor");
+  });
+
+  await t.step("should reject states no country maps to", async () => {
+    const result = await converter.convert({
+      streetName: "Main Street",
+      city: "Honolulu",
+      state: "HI",
+      zipCode: "96813",
+    });
+
+    assertEquals(Result.isErr(result), true);
+    if (Result.isErr(result)) {
+      assertEquals(result.error.code, ErrorCode.UNKNOWN_COUNTRY);
+    }
+  });
+
+  await t.step("should round-trip addresses converted by EuToUsaAddressConverter", async () => {
+    const forward = new EuToUsaAddressConverter();
+    const addresses: Array<EUAddress & { expectedCountry: string }> = [
+      {
+        street: "Hauptstraße 12",
+        postalCode: "10115",
+        city: "Berlin",
+        country: "Germany",
+        expectedCountry: "DE",
+      },
+      {
+        street: "12 Rue de la Paix",
+        postalCode: "75002",
+        city: "Paris",
+        country: "FR",
+        expectedCountry: "FR",
+      },
+      {
+        street: "Via Roma",
+        houseNumber: "42",
+        postalCode: "00186",
+        city: "Roma",
+        country: "Italia",
+        expectedCountry: "IT",
+      },
+      {
+        street: "Storgatan 1",
+        postalCode: "111 22",
+        city: "Stockholm",
+        country: "SE",
+        expectedCountry: "SE",
+      },
+      {
+        street: "Damrak 1",
+        postalCode: "1012 LG",
+        city: "Amsterdam",
+        country: "NL",
+        expectedCountry: "NL",
+      },
+      {
+        street: "Mariahilfer Straße 1",
+        postalCode: "1060",
+        city: "Wien",
+        country: "Austria",
+        expectedCountry: "AT",
+      },
+    ];
+
+    for (const { expectedCountry, ...address } of addresses) {
+      const usa = await forward.convert(address);
+      assertEquals(Result.isOk(usa), true);
+      if (!Result.isOk(usa)) continue;
+
+      const eu = await converter.convert(usa.value);
+      assertEquals(Result.isOk(eu), true);
+      if (!Result.isOk(eu)) continue;
+
+      assertEquals(
+        eu.value.formatted.split("\n")[0],
+        [address.street, address.houseNumber].filter(Boolean).join(" "),
+      );
+      assertEquals(eu.value.postalCode, address.postalCode);
+      assertEquals(eu.value.city, address.city);
+      assertEquals(eu.value.country, expectedCountry);
+    }
+  });
+});
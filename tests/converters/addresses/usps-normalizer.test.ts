@@ -0,0 +1,92 @@
+import { assertEquals } from "@std/assert";
+import { UspsAddressNormalizer } from "../../../src/converters/addresses/usps-normalizer.ts";
+import { ErrorCode } from "../../../src/shared/types/converter.ts";
+import { Result } from "../../../src/shared/types/result.ts";
+
+Deno.test("UspsAddressNormalizer", async (t) => {
+  const normalizer = new UspsAddressNormalizer();
+
+  await t.step("should abbreviate suffixes, directionals and unit designators", async () => {
+    const result = await normalizer.convert({
+      street: "123 North Main Street, Suite 400",
+      city: "Springfield",
+      state: "il",
+      zipCode: "62704-1234",
+    });
+
+    assertEquals(Result.isOk(result), true);
+    if (Result.isOk(result)) {
+      assertEquals(result.value.primaryNumber, "123");
+      assertEquals(result.value.predirectional, "N");
+      assertEquals(result.value.streetName, "MAIN");
+      assertEquals(result.value.suffix, "ST");
+      assertEquals(result.value.secondaryDesignator, "STE");
+      assertEquals(result.value.secondaryNumber, "400");
+      assertEquals(result.value.zip4Placeholder, false);
+      assertEquals(result.value.formatted, "123 N MAIN ST STE 400\nSPRINGFIELD IL 62704-1234");
+    }
+  });
+
+  await t.step("should standardize separate components with a ZIP+4 placeholder", async () => {
+    const result = await normalizer.convert({
+      streetNumber: "42",
+      streetName: "Park Avenue Southwest",
+      apartment: "Apartment 5A",
+      city: "Washington",
+      state: "DC",
+      zipCode: "20024",
+    });
+
+    assertEquals(Result.isOk(result), true);
+    if (Result.isOk(result)) {
+      assertEquals(result.value.lines, ["42 PARK AVE SW APT 5A", "WASHINGTON DC 20024-0000"]);
+      assertEquals(result.value.zip4, "0000");
+      assertEquals(result.value.zip4Placeholder, true);
+    }
+  });
+
+  await t.step("should not mistake street names for unit designators", async () => {
+    const result = await normalizer.convert({
+      street: "9 Front Street Rear",
+      city: "Salem",
+      state: "MA",
+      zipCode: "01970",
+    });
+
+    assertEquals(Result.isOk(result) && result.value.lines[0], "9 FRONT ST REAR");
+  });
+
+  await t.step("should keep lines within the length limit", async () => {
+    const narrow = new UspsAddressNormalizer({ maxLineLength: 24 });
+    const moved = await narrow.convert({
+      street: "1600 Pennsylvania Avenue Northwest Suite 100",
+      city: "Washington",
+      state: "DC",
+      zipCode: "20500",
+    });
+    const tooLong = await narrow.convert({
+      street: "1600 Pennsylvania Avenue Northwest Extension",
+      city: "Washington",
+      state: "DC",
+      zipCode: "20500",
+    });
+
+    assertEquals(Result.isOk(moved) && moved.value.lines, [
+      "STE 100",
+      "1600 PENNSYLVANIA AVE NW",
+      "WASHINGTON DC 20500-0000",
+    ]);
+    assertEquals(Result.isErr(tooLong) && tooLong.error.code, ErrorCode.OUT_OF_RANGE);
+  });
+
+  await t.step("should reject invalid ZIP codes", async () => {
+    const result = await normalizer.convert({
+      street: "1 Main St",
+      city: "Austin",
+      state: "TX",
+      zipCode: "7870",
+    });
+
+    assertEquals(Result.isErr(result) && result.error.code, ErrorCode.INVALID_INPUT);
+  });
+});
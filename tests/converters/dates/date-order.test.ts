@@ -0,0 +1,97 @@
+import { assertEquals } from "@std/assert";
+import { inferDateOrder } from "../../../src/converters/dates/date-order.ts";
+import { EuToUsaDateConverter } from "../../../src/converters/dates/eu-to-usa-date.ts";
+import { ErrorCode } from "../../../src/shared/types/converter.ts";
+import { Result } from "../../../src/shared/types/result.ts";
+
+Deno.test("Date order detection", async (t) => {
+  const converter = new EuToUsaDateConverter();
+
+  await t.step("should flag dates valid in either order", async () => {
+    const result = await converter.convert({ date: "04/05/2024" });
+
+    assertEquals(Result.isOk(result), true);
+    if (Result.isOk(result)) {
+      assertEquals(result.value.date, "05/04/2024");
+      assertEquals(result.value.ambiguous, true);
+      assertEquals(result.value.confidence, 0.5);
+    }
+  });
+
+  await t.step("should be certain about unambiguous dates", async () => {
+    const dayFirst = await converter.convert({ date: "25/04/2024" });
+    const monthFirst = await converter.convert({ date: "04/25/2024" });
+
+    assertEquals(Result.isOk(dayFirst), true);
+    if (Result.isOk(dayFirst)) {
+      assertEquals(dayFirst.value.date, "04/25/2024");
+      assertEquals(dayFirst.value.ambiguous, false);
+      assertEquals(dayFirst.value.confidence, 1);
+    }
+
+    assertEquals(Result.isOk(monthFirst), true);
+    if (Result.isOk(monthFirst)) {
+      assertEquals(monthFirst.value.date, "04/25/2024");
+      assertEquals(monthFirst.value.ambiguous, false);
+    }
+  });
+
+  await t.step(
+    "should follow a date order hint for ambiguous dates",
+    async () => {
+      const result = await converter.convert(
+        { date: "04/05/2024" },
+        { dateOrder: { order: "MDY", confidence: 0.9 } },
+      );
+
+      assertEquals(Result.isOk(result), true);
+      if (Result.isOk(result)) {
+        assertEquals(result.value.date, "04/05/2024");
+        assertEquals(result.value.confidence, 0.9);
+      }
+    },
+  );
+
+  await t.step(
+    "should reject low-confidence ambiguous dates in strict mode",
+    async () => {
+      const ambiguous = await converter.convert({ date: "04/05/2024" }, {
+        strict: true,
+      });
+      const confident = await converter.convert(
+        { date: "04/05/2024" },
+        { strict: true, dateOrder: { order: "DMY", confidence: 0.97 } },
+      );
+      const unambiguous = await converter.convert({ date: "25/04/2024" }, {
+        strict: true,
+      });
+
+      assertEquals(
+        Result.isErr(ambiguous) && ambiguous.error.code,
+        ErrorCode.AMBIGUOUS_INPUT,
+      );
+      assertEquals(Result.isOk(confident), true);
+      assertEquals(Result.isOk(unambiguous), true);
+    },
+  );
+
+  await t.step(
+    "should infer a batch's order from its unambiguous values",
+    () => {
+      const inference = inferDateOrder([
+        "04/25/2024",
+        "12/31/2024",
+        "04/05/2024",
+        "07/07/2024",
+        "not a date",
+      ]);
+
+      assertEquals(inference.order, "MDY");
+      assertEquals(inference.monthFirst, 2);
+      assertEquals(inference.dayFirst, 0);
+      assertEquals(inference.ambiguous, 1);
+      assertEquals(inference.confidence, 0.75);
+      assertEquals(inferDateOrder([]).confidence, 0.5);
+    },
+  );
+});
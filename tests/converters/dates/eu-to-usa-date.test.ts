@@ -0,0 +1,141 @@
+import { assertEquals } from "@std/assert";
+import { EuToUsaDateConverter } from "../../../src/converters/dates/eu-to-usa-date.ts";
+import { Result } from "../../../src/shared/types/result.ts";
+import { ErrorCode } from "../../../src/shared/types/converter.ts";
+
+Deno.test("EuToUsaDateConverter", async (t) => {
+  const converter = new EuToUsaDateConverter();
+
+  await t.step("should convert DD/MM/YYYY dates", async () => {
+    const result = await converter.convert({ date: "31/12/2024" });
+
+    assertEquals(Result.isOk(result), true);
+    if (Result.isOk(result)) {
+      assertEquals(result.value.date, "12/31/2024");
+      assertEquals(result.value.time, undefined);
+    }
+  });
+
+  await t.step("should convert 24-hour datetimes between zones", async () => {
+    const result = await converter.convert({
+      date: "31.12.2024 23:30",
+      timezone: "Europe/Berlin",
+      targetTimezone: "America/New_York",
+    });
+
+    assertEquals(Result.isOk(result), true);
+    if (Result.isOk(result)) {
+      assertEquals(result.value.datetime, "12/31/2024 5:30 PM");
+      assertEquals(result.value.time, "5:30 PM");
+      assertEquals(result.value.timezone, "America/New_York");
+      assertEquals(result.value.localDateTime, "2024-12-31T17:30:00-05:00[America/New_York]");
+      assertEquals(result.value.utc, "2024-12-31T22:30:00Z");
+    }
+  });
+
+  await t.step("should move the calendar date when the zone change crosses midnight", async () => {
+    const result = await converter.convert({
+      date: "01.03.2024 03:15:45",
+      timezone: "Europe/Paris",
+      targetTimezone: "America/Los_Angeles",
+    });
+
+    assertEquals(Result.isOk(result), true);
+    if (Result.isOk(result)) {
+      assertEquals(result.value.date, "02/29/2024");
+      assertEquals(result.value.time, "6:15:45 PM");
+      assertEquals(result.value.day, 29);
+    }
+  });
+
+  await t.step("should use the configured timezone as the target", async () => {
+    const result = await converter.convert(
+      { date: "15.07.2024 12:00", timezone: "Europe/Berlin" },
+      { timezone: "America/Chicago" },
+    );
+
+    assertEquals(Result.isOk(result) && result.value.datetime, "07/15/2024 5:00 AM");
+  });
+
+  await t.step("should handle the gap between EU and US DST changes", async () => {
+    // The US switched to summer time on 10 March, the EU on 31 March
+    const result = await converter.convert({
+      date: "20.03.2024 12:00",
+      timezone: "Europe/Berlin",
+      targetTimezone: "America/New_York",
+    });
+
+    assertEquals(Result.isOk(result) && result.value.time, "7:00 AM");
+  });
+
+  await t.step("should resolve skipped wall-clock times per disambiguation", async () => {
+    const input = { date: "31.03.2024 02:30", timezone: "Europe/Berlin" };
+
+    const compatible = await converter.convert(input);
+    const rejected = await converter.convert({ ...input, disambiguation: "reject" as const });
+
+    assertEquals(
+      Result.isOk(compatible) && compatible.value.utc,
+      "2024-03-31T01:30:00Z",
+    );
+    assertEquals(Result.isErr(rejected) && rejected.error.code, ErrorCode.OUT_OF_RANGE);
+  });
+
+  await t.step("should reject unknown zones and times", async () => {
+    const zone = await converter.convert({ date: "01.01.2024 10:00", timezone: "Europe/Atlantis" });
+    const time = await converter.convert({ date: "01.01.2024 24:10" });
+
+    assertEquals(Result.isErr(zone) && zone.error.code, ErrorCode.INVALID_INPUT);
+    assertEquals(Result.isErr(time) && time.error.code, ErrorCode.OUT_OF_RANGE);
+  });
+  await t.step("should convert dates with month names in EU languages", async () => {
+    const cases: Array<[string, string]> = [
+      ["3. März 2024", "03/03/2024"],
+      ["lundi 4 mars 2024", "03/04/2024"],
+      ["1er août 2024", "08/01/2024"],
+      ["12 dicembre 2023", "12/12/2023"],
+      ["5 de mayo de 2024", "05/05/2024"],
+      ["17 maart 2024", "03/17/2024"],
+      ["Mo, 4. Mrz. 2024", "03/04/2024"],
+    ];
+
+    for (const [date, expected] of cases) {
+      const result = await converter.convert({ date });
+      assertEquals(Result.isOk(result) && result.value.date, expected, date);
+    }
+  });
+
+  await t.step("should convert ISO week and ordinal dates", async () => {
+    const week = await converter.convert({ date: "2024-W10-1" });
+    const weekStart = await converter.convert({ date: "2021-W01" });
+    const ordinal = await converter.convert({ date: "2024-064" });
+
+    assertEquals(Result.isOk(week) && week.value.date, "03/04/2024");
+    assertEquals(Result.isOk(weekStart) && weekStart.value.date, "01/04/2021");
+    assertEquals(Result.isOk(ordinal) && ordinal.value.date, "03/04/2024");
+  });
+
+  await t.step("should add a long form on request", async () => {
+    const textual = await converter.convert({ date: "3. März 2024", longForm: true });
+    const numeric = await converter.convert({ date: "03/03/2024", longForm: true });
+
+    assertEquals(Result.isOk(textual) && textual.value.longForm, "March 3, 2024");
+    assertEquals(Result.isOk(numeric) && numeric.value.longForm, "March 3, 2024");
+  });
+
+  await t.step("should restrict month names to the configured locale", async () => {
+    const result = await converter.convert({ date: "3 maart 2024" }, { locale: "de-DE" });
+
+    assertEquals(Result.isErr(result) && result.error.code, ErrorCode.INVALID_INPUT);
+  });
+
+  await t.step("should reject mismatched weekdays and weeks that do not exist", async () => {
+    const weekday = await converter.convert({ date: "mardi 4 mars 2024" });
+    const week = await converter.convert({ date: "2024-W53-1" }, { skipValidation: true });
+    const ordinal = await converter.convert({ date: "2023-366" }, { skipValidation: true });
+
+    assertEquals(Result.isErr(weekday) && weekday.error.code, ErrorCode.INVALID_INPUT);
+    assertEquals(Result.isErr(week) && week.error.code, ErrorCode.OUT_OF_RANGE);
+    assertEquals(Result.isErr(ordinal) && ordinal.error.code, ErrorCode.OUT_OF_RANGE);
+  });
+});
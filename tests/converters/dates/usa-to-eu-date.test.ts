@@ -0,0 +1,141 @@
+import { assertEquals } from "@std/assert";
+import { UsaToEuDateConverter } from "../../../src/converters/dates/usa-to-eu-date.ts";
+import { EuToUsaDateConverter } from "../../../src/converters/dates/eu-to-usa-date.ts";
+import { ErrorCode } from "../../../src/shared/types/converter.ts";
+import { Result } from "../../../src/shared/types/result.ts";
+
+Deno.test("UsaToEuDateConverter", async (t) => {
+  const converter = new UsaToEuDateConverter();
+
+  await t.step("should swap month and day", async () => {
+    const result = await converter.convert({ date: "04/05/2024" });
+
+    assertEquals(Result.isOk(result), true);
+    if (Result.isOk(result)) {
+      assertEquals(result.value.date, "05/04/2024");
+      assertEquals(result.value.day, 5);
+      assertEquals(result.value.month, 4);
+      assertEquals(result.value.isValid, true);
+    }
+  });
+
+  await t.step("should use the requested separator", async () => {
+    const result = await converter.convert({ date: "12-31-2024", separator: "." });
+
+    assertEquals(Result.isOk(result) && result.value.date, "31.12.2024");
+  });
+
+  await t.step("should reject a month above 12", async () => {
+    const result = await converter.convert({ date: "25/04/2024" });
+
+    assertEquals(Result.isErr(result), true);
+    if (Result.isErr(result)) {
+      assertEquals(result.error.code, ErrorCode.OUT_OF_RANGE);
+    }
+  });
+
+  await t.step("should flag dates that do not exist", async () => {
+    const result = await converter.convert({ date: "02/30/2024" });
+
+    assertEquals(Result.isOk(result) && result.value.isValid, false);
+  });
+
+  await t.step("should read US month names", async () => {
+    const result = await converter.convert({ date: "March 3, 2024", longForm: true, locale: "de" });
+
+    assertEquals(Result.isOk(result), true);
+    if (Result.isOk(result)) {
+      assertEquals(result.value.date, "03/03/2024");
+      assertEquals(result.value.longForm, "3. März 2024");
+    }
+  });
+
+  await t.step("should write long forms in the requested language", async () => {
+    const format = (locale?: string) => converter.formatEuLongDate(3, 3, 2024, locale);
+
+    assertEquals(format("fr-FR"), "3 mars 2024");
+    assertEquals(format("es"), "3 de marzo de 2024");
+    assertEquals(format(), "3 March 2024");
+    assertEquals(format("pl"), "3 March 2024");
+  });
+
+  await t.step("should convert a 12-hour datetime into a 24-hour EU datetime", async () => {
+    const result = await converter.convert({
+      date: "12/31/2024 5:30 PM",
+      timezone: "America/Chicago",
+    });
+
+    assertEquals(Result.isOk(result), true);
+    if (Result.isOk(result)) {
+      assertEquals(result.value.date, "01/01/2025");
+      assertEquals(result.value.time, "00:30");
+      assertEquals(result.value.datetime, "01/01/2025 00:30");
+      assertEquals(result.value.timezone, "Europe/Berlin");
+      assertEquals(result.value.utc, "2024-12-31T23:30:00Z");
+    }
+  });
+
+  await t.step("should treat 12 AM as midnight", async () => {
+    const result = await converter.convert({
+      date: "07/04/2024 12:00 AM",
+      timezone: "UTC",
+      targetTimezone: "UTC",
+    });
+
+    assertEquals(Result.isOk(result) && result.value.datetime, "04/07/2024 00:00");
+  });
+
+  await t.step("should reject a 12-hour time above 12", async () => {
+    const result = await converter.convert({ date: "07/04/2024 13:00 PM" });
+
+    assertEquals(Result.isErr(result), true);
+    if (Result.isErr(result)) {
+      assertEquals(result.error.code, ErrorCode.OUT_OF_RANGE);
+    }
+  });
+
+  await t.step("should round-trip dates converted by EuToUsaDateConverter", async () => {
+    const forward = new EuToUsaDateConverter();
+
+    for (let i = 0; i < 200; i++) {
+      const day = (i * 7) % 28 + 1;
+      const month = (i * 5) % 12 + 1;
+      const year = 1950 + (i * 13) % 150;
+      const euDate = [day, month].map((part) => part.toString().padStart(2, "0")).join("/") +
+        `/${year}`;
+
+      const usa = await forward.convert({ date: euDate });
+      assertEquals(Result.isOk(usa), true);
+      if (!Result.isOk(usa)) continue;
+
+      const eu = await converter.convert({ date: usa.value.date });
+      assertEquals(Result.isOk(eu) && eu.value.date, euDate);
+    }
+  });
+
+  await t.step("should round-trip datetimes across time zones", async () => {
+    const forward = new EuToUsaDateConverter();
+
+    // Daytime hours stay clear of both zones' DST transitions
+    for (let i = 0; i < 100; i++) {
+      const day = (i * 11) % 28 + 1;
+      const month = (i * 7) % 12 + 1;
+      const hour = 10 + (i * 3) % 13;
+      const minute = (i * 17) % 60;
+      const euDateTime = `${day.toString().padStart(2, "0")}.${
+        month.toString().padStart(2, "0")
+      }.2024 ${hour}:${minute.toString().padStart(2, "0")}`;
+
+      const usa = await forward.convert({ date: euDateTime });
+      assertEquals(Result.isOk(usa), true);
+      if (!Result.isOk(usa)) continue;
+
+      const eu = await converter.convert({
+        date: usa.value.datetime!,
+        timezone: usa.value.timezone,
+        separator: ".",
+      });
+      assertEquals(Result.isOk(eu) && eu.value.datetime, euDateTime);
+    }
+  });
+});
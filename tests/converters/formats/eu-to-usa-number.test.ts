@@ -0,0 +1,106 @@
+import { assertEquals } from "@std/assert";
+import { EuToUsaNumberConverter } from "../../../src/converters/formats/eu-to-usa-number.ts";
+import { parseLocaleNumber } from "../../../src/converters/formats/number-formats.ts";
+import { ErrorCode } from "../../../src/shared/types/converter.ts";
+import { Result } from "../../../src/shared/types/result.ts";
+
+Deno.test("EuToUsaNumberConverter", async (t) => {
+  const converter = new EuToUsaNumberConverter();
+
+  await t.step("should convert EU numbers by default", async () => {
+    const result = await converter.convert({ value: "1.234.567,89" });
+
+    assertEquals(Result.isOk(result), true);
+    if (Result.isOk(result)) {
+      assertEquals(result.value.value, "1,234,567.89");
+      assertEquals(result.value.numericValue, 1234567.89);
+      assertEquals(result.value.precision, 2);
+      assertEquals(result.value.format, "eu");
+    }
+  });
+
+  await t.step("should read an explicit source format", async () => {
+    const swiss = await converter.convert({ value: "1'234.56", sourceFormat: "swiss" });
+    const indian = await converter.convert({ value: "12,34,567.8", sourceFormat: "indian" });
+
+    assertEquals(Result.isOk(swiss) && swiss.value.value, "1,234.56");
+    assertEquals(Result.isOk(indian) && indian.value.value, "1,234,567.8");
+  });
+
+  await t.step("should pick the format from the input or config locale", async () => {
+    const french = await converter.convert({ value: "1 234,56", locale: "fr-FR" });
+    const swiss = await converter.convert({ value: "-1’234.5" }, { locale: "de-CH" });
+
+    assertEquals(Result.isOk(french) && french.value.value, "1,234.56");
+    assertEquals(Result.isOk(french) && french.value.format, "french");
+    assertEquals(Result.isOk(swiss) && swiss.value.numericValue, -1234.5);
+    assertEquals(Result.isOk(swiss) && swiss.value.format, "swiss");
+  });
+
+  await t.step("should detect the format in auto mode", async () => {
+    const cases: [string, string, string][] = [
+      ["1.234,56", "1,234.56", "eu"],
+      ["1'234.56", "1,234.56", "swiss"],
+      ["1 234 567,8", "1,234,567.8", "french"],
+      ["1 234,56", "1,234.56", "french"],
+      ["1,23,456.78", "123,456.78", "indian"],
+      ["1,234,567", "1,234,567", "us"],
+      ["1,234.56", "1,234.56", "us"],
+      ["1,5e3", "1,500", "scientific"],
+      ["2.5E-3", "0.0025", "scientific"],
+    ];
+
+    for (const [value, expected, format] of cases) {
+      const result = await converter.convert({ value, sourceFormat: "auto" });
+      assertEquals(Result.isOk(result) && [result.value.value, result.value.format], [
+        expected,
+        format,
+      ]);
+    }
+  });
+
+  await t.step("should classify percent, currency and accounting values", async () => {
+    const cases: [string, string, string, string | undefined, boolean][] = [
+      ["12,5 %", "12.5%", "percent", undefined, false],
+      ["€ 1.234,00", "€1,234.00", "currency", "EUR", false],
+      ["1.234,00 €", "€1,234.00", "currency", "EUR", false],
+      ["-1.234,00 CHF", "-CHF 1,234.00", "currency", "CHF", false],
+      ["US$ 99,90", "$99.90", "currency", "USD", false],
+      ["(1.234,00)", "(1,234.00)", "number", undefined, true],
+      ["(€ 1.234,00)", "(€1,234.00)", "currency", "EUR", true],
+    ];
+
+    for (const [value, formatted, kind, currency, accountingNegative] of cases) {
+      const result = await converter.convert({ value });
+      assertEquals(Result.isOk(result), true, value);
+      if (Result.isOk(result)) {
+        assertEquals(result.value.formatted, formatted);
+        assertEquals(result.value.kind, kind);
+        assertEquals(result.value.currency, currency);
+        assertEquals(result.value.accountingNegative, accountingNegative);
+      }
+    }
+  });
+
+  await t.step("should keep the plain value and sign of affixed numbers", async () => {
+    const result = await converter.convert({ value: "(1.234,00)" });
+
+    assertEquals(Result.isOk(result), true);
+    if (Result.isOk(result)) {
+      assertEquals(result.value.value, "-1,234.00");
+      assertEquals(result.value.numericValue, -1234);
+    }
+    assertEquals(converter.convertString("12,5 %"), "12.5%");
+    assertEquals(converter.toNumber("1.234,00 €"), 1234);
+  });
+
+  await t.step("should reject values that do not match the format", async () => {
+    const result = await converter.convert({ value: "1'234.56" });
+
+    assertEquals(Result.isErr(result) && result.error.code, ErrorCode.INVALID_INPUT);
+    assertEquals(converter.validate({ value: "1'234.56" }), false);
+    assertEquals(converter.validate({ value: "1'234.56", sourceFormat: "swiss" }), true);
+    assertEquals(Result.isErr(parseLocaleNumber("1,23,45,678.9", "indian")), false);
+    assertEquals(Result.isErr(parseLocaleNumber("123,456.7", "indian")), true);
+  });
+});
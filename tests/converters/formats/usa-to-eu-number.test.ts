@@ -0,0 +1,78 @@
+import { assertEquals } from "@std/assert";
+import { UsaToEuNumberConverter } from "../../../src/converters/formats/usa-to-eu-number.ts";
+import { EuToUsaNumberConverter } from "../../../src/converters/formats/eu-to-usa-number.ts";
+import { ErrorCode } from "../../../src/shared/types/converter.ts";
+import { Result } from "../../../src/shared/types/result.ts";
+
+Deno.test("UsaToEuNumberConverter", async (t) => {
+  const converter = new UsaToEuNumberConverter();
+
+  await t.step("should convert US numbers to EU format by default", async () => {
+    const result = await converter.convert({ value: "1,234,567.89" });
+
+    assertEquals(Result.isOk(result), true);
+    if (Result.isOk(result)) {
+      assertEquals(result.value.value, "1.234.567,89");
+      assertEquals(result.value.numericValue, 1234567.89);
+      assertEquals(result.value.precision, 2);
+      assertEquals(result.value.format, "eu");
+    }
+  });
+
+  await t.step("should write the format of the target locale", async () => {
+    const french = await converter.convert({ value: "1,234.56", locale: "fr-FR" });
+    const swiss = await converter.convert({ value: "-1234.5" }, { locale: "de-CH" });
+
+    assertEquals(Result.isOk(french) && french.value.value, "1 234,56");
+    assertEquals(Result.isOk(swiss) && swiss.value.value, "-1'234.5");
+    assertEquals(Result.isOk(swiss) && swiss.value.format, "swiss");
+  });
+
+  await t.step("should move percent and currency affixes to EU positions", async () => {
+    const percent = await converter.convert({ value: "12.5%" });
+    const amount = await converter.convert({ value: "($1,234.00)" });
+
+    assertEquals(Result.isOk(percent) && percent.value.formatted, "12,5 %");
+    assertEquals(Result.isOk(amount), true);
+    if (Result.isOk(amount)) {
+      assertEquals(amount.value.currency, "USD");
+      assertEquals(amount.value.accountingNegative, true);
+      assertEquals(amount.value.formatted, "(1.234,00 $)");
+    }
+  });
+
+  await t.step("should round to the requested precision", async () => {
+    const result = await converter.convert({ value: "2.675", precision: 2 });
+
+    assertEquals(Result.isOk(result) && result.value.value, "2,68");
+  });
+
+  await t.step("should reject EU-style grouping", async () => {
+    const result = await converter.convert({ value: "1.234.567,89" });
+
+    assertEquals(Result.isErr(result), true);
+    if (Result.isErr(result)) {
+      assertEquals(result.error.code, ErrorCode.INVALID_INPUT);
+    }
+  });
+
+  await t.step("should round-trip numbers converted by EuToUsaNumberConverter", async () => {
+    const forward = new EuToUsaNumberConverter();
+    const samples = ["1.234,56", "12,5 %", "-0,75", "1.000.000", "(1.234,00 €)"];
+
+    for (let i = 0; i < 200; i++) {
+      const integer = (i * 7919) % 10_000_000;
+      const cents = (i * 37) % 100;
+      samples.push(`${integer.toLocaleString("de-DE")},${cents.toString().padStart(2, "0")}`);
+    }
+
+    for (const euNumber of samples) {
+      const usa = await forward.convert({ value: euNumber });
+      assertEquals(Result.isOk(usa), true);
+      if (!Result.isOk(usa)) continue;
+
+      const eu = await converter.convert({ value: usa.value.formatted });
+      assertEquals(Result.isOk(eu) && eu.value.formatted, euNumber);
+    }
+  });
+});
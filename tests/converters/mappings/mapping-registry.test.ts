@@ -0,0 +1,144 @@
+import { assertEquals } from "@std/assert";
+import {
+  DEFAULT_COUNTRY_MAPPINGS,
+  MappingRegistry,
+} from "../../../src/converters/mappings/mapping-registry.ts";
+import { EuToUsaAddressConverter } from "../../../src/converters/addresses/eu-to-usa-address.ts";
+import { EuToUsaPhoneConverter } from "../../../src/converters/phone/eu-to-usa-phone.ts";
+import { VatToSalesTaxConverter } from "../../../src/converters/tax/vat-to-sales-tax.ts";
+import { ErrorCode } from "../../../src/shared/types/converter.ts";
+import { Result } from "../../../src/shared/types/result.ts";
+
+const CLIENT_MAPPINGS = {
+  version: "client-a-3",
+  defaults: { state: "CA", areaCode: "415" },
+  countryToState: { Germany: "WA" },
+  dialingCodeToAreaCode: { "49": "206" },
+};
+
+Deno.test("MappingRegistry", async (t) => {
+  await t.step("should use the built-in mappings by default", () => {
+    const registry = MappingRegistry.default();
+
+    assertEquals(registry.version, DEFAULT_COUNTRY_MAPPINGS.version);
+    assertEquals(registry.getState("Germany"), "TX");
+    assertEquals(registry.getState("Atlantis"), "NY");
+    assertEquals(registry.getAreaCode("+49"), "312");
+    assertEquals(registry.getAreaCode("999"), "212");
+  });
+
+  await t.step("should report which entries are invalid", () => {
+    const result = MappingRegistry.fromObject({
+      ...CLIENT_MAPPINGS,
+      countryToState: { Germany: "Texas" },
+    });
+
+    assertEquals(Result.isErr(result), true);
+    if (Result.isErr(result)) {
+      assertEquals(result.error.code, ErrorCode.CONFIGURATION_ERROR);
+      assertEquals(result.error.message.includes("countryToState.Germany"), true);
+    }
+  });
+
+  await t.step("should accept countries in any recognized form", () => {
+    const result = MappingRegistry.fromObject({
+      ...CLIENT_MAPPINGS,
+      countryToState: { DEU: "WA", "Česko": "OH", FR: "CA" },
+    });
+
+    assertEquals(Result.isOk(result), true);
+    if (Result.isOk(result)) {
+      assertEquals(result.value.getState("Germany"), "WA");
+      assertEquals(result.value.getState("Czech Republic"), "OH");
+      assertEquals(result.value.getState("France"), "CA");
+    }
+  });
+
+  await t.step("should reject unknown countries", () => {
+    const result = MappingRegistry.fromObject({
+      ...CLIENT_MAPPINGS,
+      countryToState: { Germany: "WA", Atlantis: "HI" },
+    });
+
+    assertEquals(Result.isErr(result), true);
+    if (Result.isErr(result)) {
+      assertEquals(result.error.code, ErrorCode.CONFIGURATION_ERROR);
+      assertEquals(result.error.details, { source: "mappings", unknownCountries: ["Atlantis"] });
+    }
+  });
+
+  await t.step("should load JSON and YAML files", async () => {
+    const jsonPath = await Deno.makeTempFile({ suffix: ".json" });
+    const yamlPath = await Deno.makeTempFile({ suffix: ".yaml" });
+    try {
+      await Deno.writeTextFile(jsonPath, JSON.stringify(CLIENT_MAPPINGS));
+      await Deno.writeTextFile(
+        yamlPath,
+        [
+          'version: "client-a-3"',
+          "defaults:",
+          "  state: CA",
+          '  areaCode: "415"',
+          "countryToState:",
+          "  Germany: WA",
+          "dialingCodeToAreaCode:",
+          '  "49": "206"',
+        ].join("\n"),
+      );
+
+      for (const path of [jsonPath, yamlPath]) {
+        const result = await MappingRegistry.fromFile(path);
+        assertEquals(Result.isOk(result), true, path);
+        if (Result.isOk(result)) {
+          assertEquals(result.value.version, "client-a-3");
+          assertEquals(result.value.getState("Germany"), "WA");
+        }
+      }
+    } finally {
+      await Deno.remove(jsonPath);
+      await Deno.remove(yamlPath);
+    }
+  });
+
+  await t.step("should fail to load missing files", async () => {
+    const result = await MappingRegistry.fromFile("/nonexistent/mappings.json");
+
+    assertEquals(Result.isErr(result) && result.error.code, ErrorCode.CONFIGURATION_ERROR);
+  });
+
+  await t.step("should be injectable into the address, phone and tax converters", async () => {
+    const mappings = MappingRegistry.fromObject(CLIENT_MAPPINGS);
+    if (Result.isErr(mappings)) throw mappings.error;
+    const registry = mappings.value;
+
+    const address = await new EuToUsaAddressConverter({ mappings: registry }).convert({
+      street: "Hauptstraße 1",
+      postalCode: "10115",
+      city: "Berlin",
+      country: "Germany",
+    });
+    const phone = await new EuToUsaPhoneConverter({ mappings: registry }).convert({
+      countryCode: "+49",
+      number: "30 1234567",
+    });
+    const tax = await new VatToSalesTaxConverter({ mappings: registry }).convert({
+      amount: 119,
+      vatRate: 19,
+      country: "France",
+      isInclusive: true,
+    });
+
+    assertEquals(Result.isOk(address) && [address.value.state, address.value.mappingVersion], [
+      "WA",
+      "client-a-3",
+    ]);
+    assertEquals(Result.isOk(phone) && [phone.value.areaCode, phone.value.mappingVersion], [
+      "206",
+      "client-a-3",
+    ]);
+    assertEquals(Result.isOk(tax) && [tax.value.state, tax.value.mappingVersion], [
+      "CA",
+      "client-a-3",
+    ]);
+  });
+});
@@ -1,5 +1,6 @@
 import { assertEquals, assertExists } from "@std/assert";
-import { EuToUsaPhoneConverter, type EUPhone, type USAPhone } from "../../../src/converters/phone/eu-to-usa-phone.ts";
+import { EuToUsaPhoneConverter, type EUPhone } from "../../../src/converters/phone/eu-to-usa-phone.ts";
+import { ErrorCode } from "../../../src/shared/types/converter.ts";
 import { Result } from "../../../src/shared/types/result.ts";
 
 Deno.test("EuToUsaPhoneConverter", async (t) => {
@@ -72,13 +73,59 @@ Deno.test("EuToUsaPhoneConverter", async (t) => {
 
     const result = await converter.convert(input);
     
+    assertEquals(Result.isErr(result), true);
+    if (Result.isErr(result)) {
+      assertEquals(result.error.code, ErrorCode.UNKNOWN_COUNTRY);
+      assertEquals(result.error.details, { field: "countryCode", countryCode: "+999" });
+    }
+  });
+
+  await t.step("should accept countries instead of dialing codes", async () => {
+    for (const countryCode of ["0049", "DE", "DEU", "Deutschland"]) {
+      const result = await converter.convert({ countryCode, number: "30 1234567" });
+
+      assertEquals(Result.isOk(result) && result.value.areaCode, "312", countryCode);
+    }
+
+    const unknown = await converter.convert({ countryCode: "Atlantis", number: "1234567" });
+    assertEquals(Result.isErr(unknown) && unknown.error.code, ErrorCode.UNKNOWN_COUNTRY);
+  });
+
+  await t.step("should keep the real number in international mode", async () => {
+    const international = new EuToUsaPhoneConverter({ international: true });
+    const result = await international.convert({
+      countryCode: "DE",
+      number: "030 1234567",
+      extension: "12",
+    });
+
     assertEquals(Result.isOk(result), true);
     if (Result.isOk(result)) {
       const phone = result.value;
-      assertEquals(phone.areaCode, "212"); // Default to NYC
+      assertEquals(phone.countryCode, "+49");
+      assertEquals(phone.e164, "+49301234567");
+      assertEquals(phone.formatted, "011 49 30 1234567 ext. 12");
+      assertEquals(phone.type, "landline");
+      assertEquals(phone.international?.nationalNumber, "301234567");
+      // No invented US components next to the real number
+      assertEquals([phone.areaCode, phone.exchangeCode, phone.lineNumber], [
+        undefined,
+        undefined,
+        undefined,
+      ]);
     }
   });
 
+  await t.step("should reject invalid numbers in international mode", async () => {
+    const international = new EuToUsaPhoneConverter({ international: true });
+
+    const tooShort = await international.convert({ countryCode: "+33", number: "06 12 34" });
+    assertEquals(Result.isErr(tooShort) && tooShort.error.code, ErrorCode.INVALID_INPUT);
+
+    const noPlan = await international.convert({ countryCode: "TR", number: "212 123 4567" });
+    assertEquals(Result.isErr(noPlan) && noPlan.error.code, ErrorCode.UNSUPPORTED_FORMAT);
+  });
+
   await t.step("should format USA phone correctly", async () => {
     const input: EUPhone = {
       countryCode: "+44",
@@ -0,0 +1,86 @@
+import { assertEquals } from "@std/assert";
+import {
+  NUMBERING_PLANS,
+  parsePhoneNumber,
+} from "../../../src/converters/phone/numbering-plans.ts";
+import { ErrorCode } from "../../../src/shared/types/converter.ts";
+import { Result } from "../../../src/shared/types/result.ts";
+
+Deno.test("parsePhoneNumber", async (t) => {
+  await t.step("should drop the trunk prefix from national numbers", () => {
+    const result = parsePhoneNumber("030 1234567", NUMBERING_PLANS.DE);
+
+    assertEquals(Result.isOk(result), true);
+    if (Result.isOk(result)) {
+      assertEquals(result.value, {
+        country: "DE",
+        countryCode: "+49",
+        nationalNumber: "301234567",
+        e164: "+49301234567",
+        national: "030 1234567",
+        internationalFormat: "+49 30 1234567",
+        usDialing: "011 49 30 1234567",
+        type: "landline",
+      });
+    }
+  });
+
+  await t.step("should accept international forms", () => {
+    for (
+      const number of ["+49 30 1234567", "0049 30 1234567", "+49 (0)30 1234567", "+49301234567"]
+    ) {
+      const result = parsePhoneNumber(number, NUMBERING_PLANS.DE);
+
+      assertEquals(Result.isOk(result) && result.value.e164, "+49301234567", number);
+    }
+  });
+
+  await t.step("should keep the leading 0 where it is part of the number", () => {
+    const result = parsePhoneNumber("06 6982 1234", NUMBERING_PLANS.IT);
+
+    assertEquals(Result.isOk(result) && result.value.e164, "+390669821234");
+    assertEquals(Result.isOk(result) && result.value.usDialing, "011 39 06 6982 1234");
+  });
+
+  await t.step("should drop multi-digit trunk prefixes", () => {
+    const result = parsePhoneNumber("06 20 123 4567", NUMBERING_PLANS.HU);
+
+    assertEquals(Result.isOk(result) && result.value.nationalNumber, "201234567");
+    assertEquals(Result.isOk(result) && result.value.type, "mobile");
+  });
+
+  await t.step("should classify mobile numbers", () => {
+    const cases: [string, keyof typeof NUMBERING_PLANS, "mobile" | "landline"][] = [
+      ["0151 23456789", "DE", "mobile"],
+      ["06 12 34 56 78", "FR", "mobile"],
+      ["01 42 68 53 00", "FR", "landline"],
+      ["07700 900123", "GB", "mobile"],
+      ["020 7946 0018", "GB", "landline"],
+      ["612 345 678", "ES", "mobile"],
+      ["347 123 4567", "IT", "mobile"],
+    ];
+
+    for (const [number, country, type] of cases) {
+      const result = parsePhoneNumber(number, NUMBERING_PLANS[country]);
+      assertEquals(Result.isOk(result) && result.value.type, type, number);
+    }
+  });
+
+  await t.step("should reject numbers outside the length rules", () => {
+    for (const number of ["01 42 68 53", "01 42 68 53 00 1", "00 42 68 53 00"]) {
+      const result = parsePhoneNumber(number, NUMBERING_PLANS.FR);
+
+      assertEquals(Result.isErr(result), true, number);
+      if (Result.isErr(result)) {
+        assertEquals(result.error.code, ErrorCode.INVALID_INPUT);
+        assertEquals(result.error.details, { field: "number", number, country: "FR" });
+      }
+    }
+  });
+
+  await t.step("should reject another country's number", () => {
+    const result = parsePhoneNumber("+44 20 7946 0018", NUMBERING_PLANS.DE);
+
+    assertEquals(Result.isErr(result) && result.error.message.includes("+49"), true);
+  });
+});
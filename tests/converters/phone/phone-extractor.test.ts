@@ -0,0 +1,82 @@
+import { assertEquals } from "@std/assert";
+import { extractPhoneNumbers } from "../../../src/converters/phone/phone-extractor.ts";
+import { EuToUsaPhoneConverter } from "../../../src/converters/phone/eu-to-usa-phone.ts";
+import { Result } from "../../../src/shared/types/result.ts";
+
+Deno.test("extractPhoneNumbers", async (t) => {
+  await t.step("should split country code, trunk notation and extension", () => {
+    assertEquals(extractPhoneNumbers("Tel.: +49 (0)30 123 456-78 Durchwahl 12"), [
+      { countryCode: "+49", number: "30 123 456-78", extension: "12" },
+    ]);
+    assertEquals(extractPhoneNumbers("0044 20 7946 0958 ext. 3"), [
+      { countryCode: "+44", number: "20 7946 0958", extension: "3" },
+    ]);
+  });
+
+  await t.step("should recognize extension keywords in several languages", () => {
+    const cases: [string, string][] = [
+      ["+33 1 42 68 53 00 poste 214", "214"],
+      ["+39 06 6982 1234 interno 22", "22"],
+      ["+31 20 123 4567 tst. 9", "9"],
+      ["+48 22 123 45 67 wewn. 105", "105"],
+      ["+44 20 7946 0958 x3", "3"],
+      ["+44 20 7946 0958 EXT 5", "5"],
+    ];
+
+    for (const [text, extension] of cases) {
+      assertEquals(extractPhoneNumbers(text)[0]?.extension, extension, text);
+    }
+  });
+
+  await t.step("should find several numbers in one string", () => {
+    const phones = extractPhoneNumbers(
+      "Büro 030/1234567, mobil 0151-23456789 App. 7; Fax: +33 1 42 68 53 00",
+      { defaultCountry: "Deutschland" },
+    );
+
+    assertEquals(phones, [
+      { countryCode: "+49", number: "030 1234567" },
+      { countryCode: "+49", number: "0151-23456789", extension: "7" },
+      { countryCode: "+33", number: "1 42 68 53 00" },
+    ]);
+  });
+
+  await t.step("should skip national numbers without a default country", () => {
+    assertEquals(extractPhoneNumbers("Büro 030/1234567, Fax +49 30 7654321"), [
+      { countryCode: "+49", number: "30 7654321" },
+    ]);
+  });
+
+  await t.step("should translate vanity numbers", () => {
+    assertEquals(extractPhoneNumbers("Call +44 800 FLOWERS now"), [
+      { countryCode: "+44", number: "800 3569377" },
+    ]);
+    assertEquals(extractPhoneNumbers("+44 800 CALL NOW"), [
+      { countryCode: "+44", number: "800 2255 669" },
+    ]);
+    assertEquals(extractPhoneNumbers("+33 1 ABC DEFG"), [
+      { countryCode: "+33", number: "1 222 3334" },
+    ]);
+  });
+
+  await t.step("should ignore dates, postal codes and unknown country codes", () => {
+    assertEquals(
+      extractPhoneNumbers("Rechnung vom 12.03.2024, PLZ 10115, +999 123 4567", {
+        defaultCountry: "DE",
+      }),
+      [],
+    );
+  });
+
+  await t.step("should produce input for the phone converter", async () => {
+    const converter = new EuToUsaPhoneConverter({ international: true });
+    const [phone] = extractPhoneNumbers("Tel.: +49 (0)30 123 456-78 Durchwahl 12");
+
+    const result = await converter.convert(phone);
+    assertEquals(Result.isOk(result), true);
+    if (Result.isOk(result)) {
+      assertEquals(result.value.e164, "+493012345678");
+      assertEquals(result.value.formatted, "011 49 30 123 456 78 ext. 12");
+    }
+  });
+});
@@ -0,0 +1,91 @@
+import { assertEquals } from "@std/assert";
+import { UsaToEuPhoneConverter } from "../../../src/converters/phone/usa-to-eu-phone.ts";
+import { EuToUsaPhoneConverter } from "../../../src/converters/phone/eu-to-usa-phone.ts";
+import { ErrorCode } from "../../../src/shared/types/converter.ts";
+import { Result } from "../../../src/shared/types/result.ts";
+
+Deno.test("UsaToEuPhoneConverter", async (t) => {
+  const converter = new UsaToEuPhoneConverter();
+
+  await t.step("should write an internationally dialed number in EU form", async () => {
+    const result = await converter.convert({ number: "011 49 30 1234567" });
+
+    assertEquals(Result.isOk(result), true);
+    if (Result.isOk(result)) {
+      assertEquals(result.value, {
+        countryCode: "+49",
+        country: "DE",
+        number: "030 1234567",
+        e164: "+49301234567",
+        euDialing: "00 49 30 1234567",
+        formatted: "+49 30 1234567",
+        type: "landline",
+      });
+    }
+  });
+
+  await t.step("should write a North American number for dialing from the EU", async () => {
+    const result = await converter.convert({ number: "(312) 555-1234 ext. 89", type: "voip" });
+
+    assertEquals(Result.isOk(result), true);
+    if (Result.isOk(result)) {
+      assertEquals(result.value.country, "US");
+      assertEquals(result.value.e164, "+13125551234");
+      assertEquals(result.value.euDialing, "00 1 312 555 1234");
+      assertEquals(result.value.extension, "89");
+      assertEquals(result.value.formatted, "+1 312 555 1234 ext. 89");
+      assertEquals(result.value.type, "voip");
+    }
+  });
+
+  await t.step("should treat +1 numbers as North American", async () => {
+    const result = await converter.convert({ number: "+1 212 555 0100" });
+
+    assertEquals(Result.isOk(result) && result.value.number, "(212) 555-0100");
+  });
+
+  await t.step("should reject invalid NANP numbers", async () => {
+    const result = await converter.convert({ number: "(312) 155-1234" });
+
+    assertEquals(Result.isErr(result), true);
+    if (Result.isErr(result)) {
+      assertEquals(result.error.code, ErrorCode.INVALID_INPUT);
+      assertEquals(result.error.details, { field: "number", number: "(312) 155-1234" });
+    }
+  });
+
+  await t.step("should reject country codes without a numbering plan", async () => {
+    const result = await converter.convert({ number: "+90 212 123 4567" });
+
+    assertEquals(Result.isErr(result) && result.error.code, ErrorCode.UNSUPPORTED_FORMAT);
+  });
+
+  await t.step("should round-trip numbers converted in international mode", async () => {
+    const forward = new EuToUsaPhoneConverter({ international: true });
+    const numbers: Array<[string, string, string?]> = [
+      ["DE", "030 1234567", "12"],
+      ["FR", "01 42 68 53 00"],
+      ["GB", "020 7946 0018", "4"],
+      ["IT", "06 6982 1234"],
+      ["HU", "06 20 123 4567"],
+      ["ES", "612 345 678"],
+      ["IE", "01 234 5678"],
+      ["PT", "912 345 678"],
+    ];
+
+    for (const [countryCode, number, extension] of numbers) {
+      const usa = await forward.convert({ countryCode, number, extension });
+      assertEquals(Result.isOk(usa), true, number);
+      if (!Result.isOk(usa)) continue;
+
+      const eu = await converter.convert({ number: usa.value.formatted });
+      assertEquals(Result.isOk(eu), true, number);
+      if (!Result.isOk(eu)) continue;
+
+      assertEquals(eu.value.country, countryCode);
+      assertEquals(eu.value.number, number);
+      assertEquals(eu.value.extension, extension);
+      assertEquals(eu.value.e164, usa.value.e164);
+    }
+  });
+});
@@ -0,0 +1,122 @@
+import { assertEquals } from "@std/assert";
+import { CcpaToGdprConverter } from "../../../src/converters/privacy/ccpa-to-gdpr.ts";
+import {
+  type GDPRRequest,
+  GdprToCcpaConverter,
+} from "../../../src/converters/privacy/gdpr-to-ccpa.ts";
+import { ErrorCode } from "../../../src/shared/types/converter.ts";
+import { Result } from "../../../src/shared/types/result.ts";
+
+Deno.test("CcpaToGdprConverter", async (t) => {
+  const converter = new CcpaToGdprConverter();
+
+  await t.step("should convert a CCPA know request to a GDPR access request", async () => {
+    const result = await converter.convert({
+      requestType: "know",
+      personalInfoCategories: ["identifiers", "contact", "online activity"],
+      businessPurposes: ["customer_service"],
+      commercialPurposes: ["targeted_advertising"],
+      thirdPartyDisclosure: true,
+      saleOfPersonalInfo: false,
+      optOutOfSale: false,
+    });
+
+    assertEquals(Result.isOk(result), true);
+    if (Result.isOk(result)) {
+      const gdpr = result.value;
+      assertEquals(gdpr.requestType, "access");
+      assertEquals(gdpr.personalDataCategories, [
+        "personal_identifiers",
+        "contact_information",
+        "online_activity",
+      ]);
+      assertEquals(gdpr.dataProcessingPurposes, ["customer_service", "targeted_advertising"]);
+      assertEquals(gdpr.legalBasis, "consent");
+      assertEquals(gdpr.consentGiven, true);
+      assertEquals(gdpr.responseTimeLimit, 30);
+    }
+  });
+
+  await t.step("should map delete and opt-out requests", async () => {
+    const base = {
+      personalInfoCategories: [],
+      businessPurposes: [],
+      thirdPartyDisclosure: false,
+      saleOfPersonalInfo: true,
+      optOutOfSale: true,
+    };
+
+    const deleted = await converter.convert({ ...base, requestType: "delete" });
+    const optOut = await converter.convert({ ...base, requestType: "opt_out" });
+
+    assertEquals(Result.isOk(deleted) && deleted.value.requestType, "erasure");
+    assertEquals(Result.isOk(optOut) && optOut.value.requestType, "objection");
+    assertEquals(Result.isOk(optOut) && optOut.value.legalBasis, "legitimate_interests");
+    assertEquals(Result.isOk(optOut) && optOut.value.rightToObject, true);
+  });
+
+  await t.step("should reject non-discrimination requests", async () => {
+    const result = await converter.convert({
+      requestType: "non_discrimination",
+      personalInfoCategories: [],
+      businessPurposes: [],
+      thirdPartyDisclosure: false,
+      saleOfPersonalInfo: false,
+      optOutOfSale: false,
+    });
+
+    assertEquals(Result.isErr(result), true);
+    if (Result.isErr(result)) {
+      assertEquals(result.error.code, ErrorCode.UNSUPPORTED_FORMAT);
+    }
+  });
+
+  await t.step("should round-trip requests converted by GdprToCcpaConverter", async () => {
+    const forward = new GdprToCcpaConverter();
+    const requestTypes = forward.getAllGDPRRequestTypes() as GDPRRequest["requestType"][];
+    const legalBases: GDPRRequest["legalBasis"][] = ["consent", "contract", "legitimate_interests"];
+    const categories = [
+      "personal_identifiers",
+      "contact_information",
+      "financial_information",
+      "biometric_data",
+      "location_data",
+      "online_activity",
+      "audio_visual_data",
+      "health_data",
+    ];
+    const purposes = ["customer_service", "marketing", "fraud_prevention", "analytics"];
+
+    for (let i = 0; i < 60; i++) {
+      const request: GDPRRequest = {
+        requestType: requestTypes[i % requestTypes.length],
+        personalDataCategories: categories.filter((_, j) => (i + j) % 3 === 0),
+        legalBasis: legalBases[i % legalBases.length],
+        consentGiven: i % 2 === 0,
+        consentWithdrawable: true,
+        dataProcessingPurposes: purposes.filter((_, j) => (i * 7 + j) % 2 === 0),
+        dataRecipients: i % 4 === 0 ? ["processor"] : undefined,
+        crossBorderTransfers: false,
+        automatedDecisionMaking: false,
+        rightToObject: false,
+      };
+
+      const ccpa = await forward.convert(request);
+      assertEquals(Result.isOk(ccpa), true);
+      if (!Result.isOk(ccpa)) continue;
+
+      const gdpr = await converter.convert(ccpa.value);
+      assertEquals(Result.isOk(gdpr), true);
+      if (!Result.isOk(gdpr)) continue;
+
+      assertEquals(gdpr.value.requestType, request.requestType);
+      assertEquals(gdpr.value.legalBasis, request.legalBasis);
+      assertEquals(gdpr.value.consentGiven, request.consentGiven);
+      assertEquals(gdpr.value.personalDataCategories, request.personalDataCategories);
+      assertEquals(
+        new Set(gdpr.value.dataProcessingPurposes),
+        new Set(request.dataProcessingPurposes),
+      );
+    }
+  });
+});
@@ -0,0 +1,132 @@
+import { assertEquals } from "@std/assert";
+import { GdprToStatePrivacyConverter } from "../../../src/converters/privacy/gdpr-to-state-privacy.ts";
+import {
+  type GDPRRequest,
+  GdprToCcpaConverter,
+} from "../../../src/converters/privacy/gdpr-to-ccpa.ts";
+import { ErrorCode } from "../../../src/shared/types/converter.ts";
+import { Result } from "../../../src/shared/types/result.ts";
+
+const REQUEST: GDPRRequest = {
+  requestType: "access",
+  personalDataCategories: ["personal_identifiers", "online_activity"],
+  legalBasis: "consent",
+  consentGiven: true,
+  consentWithdrawable: true,
+  dataProcessingPurposes: ["customer_service", "targeted_marketing"],
+  crossBorderTransfers: false,
+  automatedDecisionMaking: false,
+  rightToObject: true,
+};
+
+Deno.test("GdprToStatePrivacyConverter", async (t) => {
+  const converter = new GdprToStatePrivacyConverter();
+
+  await t.step("should map an access request onto the Virginia VCDPA", async () => {
+    const result = await converter.convert({
+      ...REQUEST,
+      jurisdiction: "VA",
+      requestDate: "2025-01-15",
+    });
+
+    assertEquals(Result.isOk(result), true);
+    if (Result.isOk(result)) {
+      const request = result.value;
+      assertEquals(request.jurisdiction, "VA");
+      assertEquals(request.law, "VCDPA");
+      assertEquals(request.requestType, "access");
+      assertEquals(request.verificationRequired, true);
+      assertEquals(request.responseTimeLimit, 45);
+      assertEquals(request.responseDeadline, "2025-03-01");
+      assertEquals(request.extendedDeadline, "2025-04-15");
+      assertEquals(request.appealResponseDays, 60);
+      assertEquals(request.optOutCategories, []);
+      assertEquals(request.categories.internetActivity, true);
+      assertEquals(request.originalGDPR.requestType, "access");
+    }
+  });
+
+  await t.step("should match GdprToCcpaConverter for California", async () => {
+    const ccpa = new GdprToCcpaConverter();
+
+    for (const requestType of ccpa.getAllGDPRRequestTypes() as GDPRRequest["requestType"][]) {
+      const expected = await ccpa.convert({ ...REQUEST, requestType });
+      const result = await converter.convert({ ...REQUEST, requestType, jurisdiction: "CA" });
+
+      assertEquals(Result.isOk(expected) && Result.isOk(result), true);
+      if (Result.isOk(expected) && Result.isOk(result)) {
+        assertEquals(result.value.requestType, expected.value.requestType);
+        assertEquals(result.value.responseTimeLimit, expected.value.responseTimeLimit);
+        assertEquals(result.value.verificationRequired, expected.value.verificationRequired);
+      }
+    }
+  });
+
+  await t.step("should map rectification only where the law has a right to correct", async () => {
+    const virginia = await converter.convert({
+      ...REQUEST,
+      requestType: "rectification",
+      jurisdiction: "VA",
+    });
+    const utah = await converter.convert({
+      ...REQUEST,
+      requestType: "rectification",
+      jurisdiction: "UT",
+    });
+
+    assertEquals(Result.isOk(virginia) && virginia.value.requestType, "correct");
+    assertEquals(Result.isErr(utah), true);
+    if (Result.isErr(utah)) {
+      assertEquals(utah.error.code, ErrorCode.UNSUPPORTED_FORMAT);
+      assertEquals(utah.error.details, {
+        field: "requestType",
+        requestType: "rectification",
+        jurisdiction: "UT",
+      });
+    }
+  });
+
+  await t.step("should pick each law's opt-out categories and deadlines", async () => {
+    const objection = { ...REQUEST, requestType: "objection" as const, requestDate: "2025-01-15" };
+
+    const colorado = await converter.convert({ ...objection, jurisdiction: "CO" });
+    const california = await converter.convert({ ...objection, jurisdiction: "CA" });
+    const virginia = await converter.convert({ ...objection, jurisdiction: "VA" });
+    const utah = await converter.convert({
+      ...objection,
+      dataProcessingPurposes: ["customer_service"],
+      automatedDecisionMaking: true, // Utah has no profiling opt-out
+      jurisdiction: "UT",
+    });
+
+    assertEquals(Result.isOk(colorado) && colorado.value.optOutCategories, [
+      "targeted_advertising",
+    ]);
+    assertEquals(Result.isOk(colorado) && colorado.value.responseDeadline, "2025-03-01");
+    assertEquals(Result.isOk(colorado) && colorado.value.extendedDeadline, "2025-04-15");
+    assertEquals(Result.isOk(virginia) && virginia.value.extendedDeadline, "2025-04-15");
+    assertEquals(Result.isOk(california) && california.value.optOutCategories, ["sharing"]);
+    assertEquals(Result.isOk(california) && california.value.responseDeadline, "2025-01-30");
+    assertEquals(Result.isOk(california) && california.value.extendedDeadline, undefined);
+    assertEquals(Result.isOk(utah) && utah.value.optOutCategories, [
+      "targeted_advertising",
+      "sale",
+    ]);
+    assertEquals(Result.isOk(utah) && utah.value.appealResponseDays, undefined);
+  });
+
+  await t.step("should reject unknown jurisdictions and impossible dates", async () => {
+    const newYork = await converter.convert({
+      ...REQUEST,
+      jurisdiction: "NY" as "VA",
+    });
+    const badDate = await converter.convert({
+      ...REQUEST,
+      jurisdiction: "TX",
+      requestDate: "2025-02-30",
+    });
+
+    assertEquals(Result.isErr(newYork) && newYork.error.code, ErrorCode.INVALID_INPUT);
+    assertEquals(Result.isErr(badDate) && badDate.error.code, ErrorCode.INVALID_INPUT);
+  });
+});
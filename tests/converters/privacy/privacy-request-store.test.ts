@@ -0,0 +1,169 @@
+import { assertEquals } from "@std/assert";
+import { PrivacyRequestStore } from "../../../src/converters/privacy/privacy-request-store.ts";
+import type { GDPRRequest } from "../../../src/converters/privacy/gdpr-to-ccpa.ts";
+import { ErrorCode } from "../../../src/shared/types/converter.ts";
+import { Result } from "../../../src/shared/types/result.ts";
+
+const REQUEST: GDPRRequest = {
+  requestType: "access",
+  personalDataCategories: ["personal_identifiers"],
+  legalBasis: "consent",
+  consentGiven: true,
+  consentWithdrawable: true,
+  dataProcessingPurposes: ["customer_service"],
+  crossBorderTransfers: false,
+  automatedDecisionMaking: false,
+  rightToObject: false,
+};
+
+const now = () => new Date("2025-02-01T09:00:00Z");
+
+Deno.test("PrivacyRequestStore", async (t) => {
+  await t.step("should compute GDPR and CCPA due dates on receipt", async () => {
+    const store = new PrivacyRequestStore({ now });
+
+    const result = await store.create(REQUEST, { receivedAt: "2025-01-31", actor: "dsar-team" });
+
+    assertEquals(Result.isOk(result), true);
+    if (Result.isOk(result)) {
+      const record = result.value;
+      assertEquals(record.status, "received");
+      assertEquals(record.request.requestType, "know");
+      assertEquals(record.dueDates, { gdpr: "2025-02-28", ccpa: "2025-03-17" });
+      assertEquals(record.dueDate, "2025-02-28");
+      assertEquals(record.history, [
+        {
+          at: "2025-02-01T09:00:00.000Z",
+          action: "received",
+          status: "received",
+          actor: "dsar-team",
+        },
+      ]);
+      assertEquals(store.get(record.id), record);
+    }
+  });
+
+  await t.step("should extend, verify and fulfil a deletion request", async () => {
+    const store = new PrivacyRequestStore({ now });
+    const created = await store.create(
+      { ...REQUEST, requestType: "erasure" },
+      { receivedAt: "2025-01-31" },
+    );
+    assertEquals(Result.isOk(created), true);
+    if (!Result.isOk(created)) return;
+    const id = created.value.id;
+
+    const unverified = await store.transition(id, "fulfilled");
+    const noReason = await store.transition(id, "extended");
+    assertEquals(Result.isErr(unverified) && unverified.error.code, ErrorCode.INVALID_INPUT);
+    assertEquals(Result.isErr(noReason) && noReason.error.code, ErrorCode.INVALID_INPUT);
+
+    const extended = await store.transition(id, "extended", { reason: "Complex request" });
+    assertEquals(Result.isOk(extended) && extended.value.dueDates, {
+      gdpr: "2025-04-30", // Two further months
+      ccpa: "2025-05-01", // 45 + 45 days
+    });
+
+    const again = await store.transition(id, "extended", { reason: "Still complex" });
+    assertEquals(Result.isErr(again), true);
+
+    const verified = await store.transition(id, "verified", { actor: "agent-7" });
+    assertEquals(Result.isOk(verified) && verified.value.status, "extended");
+
+    const fulfilled = await store.transition(id, "fulfilled");
+    assertEquals(Result.isOk(fulfilled) && fulfilled.value.closedAt, "2025-02-01T09:00:00.000Z");
+
+    const reopened = await store.transition(id, "denied", { reason: "Too late" });
+    assertEquals(Result.isErr(reopened), true);
+
+    assertEquals(store.get(id)?.history.map((event) => event.action), [
+      "received",
+      "extended",
+      "verified",
+      "fulfilled",
+    ]);
+    assertEquals(store.get(id)?.history.map((event) => event.status), [
+      "received",
+      "extended",
+      "extended",
+      "fulfilled",
+    ]);
+  });
+
+  await t.step("should not extend the CCPA deadline of opt-outs", async () => {
+    const store = new PrivacyRequestStore({ now });
+    const created = await store.create(
+      { ...REQUEST, requestType: "objection" },
+      { receivedAt: "2025-01-10" },
+    );
+    assertEquals(Result.isOk(created) && created.value.dueDates.ccpa, "2025-01-25");
+    if (!Result.isOk(created)) return;
+
+    const extended = await store.transition(created.value.id, "extended", { reason: "Backlog" });
+    assertEquals(Result.isOk(extended) && extended.value.dueDates, {
+      gdpr: "2025-04-10",
+      ccpa: "2025-01-25",
+    });
+  });
+
+  await t.step("should list requests by status and overdue date", async () => {
+    const store = new PrivacyRequestStore({ now });
+    await store.create(REQUEST, { receivedAt: "2025-01-02" });
+    const denied = await store.create(REQUEST, { receivedAt: "2025-01-01" });
+    if (Result.isOk(denied)) {
+      await store.transition(denied.value.id, "denied", { reason: "Identity not confirmed" });
+    }
+    await store.create(REQUEST, { receivedAt: "2025-03-01" });
+
+    assertEquals(store.list().map((r) => r.receivedAt), ["2025-01-01", "2025-01-02", "2025-03-01"]);
+    assertEquals(store.list({ status: "denied" }).length, 1);
+    assertEquals(store.list({ overdueOn: "2025-02-15" }).map((r) => r.receivedAt), ["2025-01-02"]);
+  });
+
+  await t.step("should persist requests to a file", async () => {
+    const dir = await Deno.makeTempDir();
+    const path = `${dir}/privacy-requests.json`;
+    try {
+      const opened = await PrivacyRequestStore.fromFile(path, { now });
+      assertEquals(Result.isOk(opened), true);
+      if (!Result.isOk(opened)) return;
+
+      const created = await opened.value.create(REQUEST, { receivedAt: "2025-01-31" });
+      if (!Result.isOk(created)) throw new Error("create failed");
+      await opened.value.transition(created.value.id, "verified");
+
+      const reloaded = await PrivacyRequestStore.fromFile(path);
+      assertEquals(Result.isOk(reloaded), true);
+      if (Result.isOk(reloaded)) {
+        assertEquals(reloaded.value.get(created.value.id)?.status, "verified");
+        assertEquals(reloaded.value.get(created.value.id)?.history.length, 2);
+      }
+
+      await Deno.writeTextFile(path, JSON.stringify({ requests: [{ id: 1 }] }));
+      const invalid = await PrivacyRequestStore.fromFile(path);
+      assertEquals(Result.isErr(invalid) && invalid.error.code, ErrorCode.CONFIGURATION_ERROR);
+    } finally {
+      await Deno.remove(dir, { recursive: true });
+    }
+  });
+
+  await t.step("should persist concurrent creates", async () => {
+    const dir = await Deno.makeTempDir();
+    const path = `${dir}/privacy-requests.json`;
+    try {
+      const opened = await PrivacyRequestStore.fromFile(path, { now });
+      if (!Result.isOk(opened)) throw new Error("open failed");
+
+      const created = await Promise.all(
+        Array.from({ length: 5 }, () => opened.value.create(REQUEST, { receivedAt: "2025-01-31" })),
+      );
+      assertEquals(created.every((result) => Result.isOk(result)), true);
+      assertEquals(opened.value.list().length, 5);
+
+      const reloaded = await PrivacyRequestStore.fromFile(path);
+      assertEquals(Result.isOk(reloaded) && reloaded.value.list().length, 5);
+    } finally {
+      await Deno.remove(dir, { recursive: true });
+    }
+  });
+});
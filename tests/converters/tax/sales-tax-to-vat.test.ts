@@ -0,0 +1,117 @@
+import { assertAlmostEquals, assertEquals } from "@std/assert";
+import { SalesTaxToVatConverter } from "../../../src/converters/tax/sales-tax-to-vat.ts";
+import { VatToSalesTaxConverter } from "../../../src/converters/tax/vat-to-sales-tax.ts";
+import { ErrorCode } from "../../../src/shared/types/converter.ts";
+import { Result } from "../../../src/shared/types/result.ts";
+
+Deno.test("SalesTaxToVatConverter", async (t) => {
+  const converter = new SalesTaxToVatConverter();
+
+  await t.step("should convert Texas sales tax to German VAT", async () => {
+    const result = await converter.convert({
+      amount: 108.2,
+      isInclusive: true,
+      state: "TX",
+      invoiceDate: "2024-06-01",
+    });
+
+    assertEquals(Result.isOk(result), true);
+    if (Result.isOk(result)) {
+      assertAlmostEquals(result.value.netAmount, 100, 1e-9);
+      assertEquals(result.value.country, "DE");
+      assertEquals(result.value.vatRate, 19);
+      assertEquals(result.value.kind, "standard");
+      assertAlmostEquals(result.value.grossAmount, 119, 1e-9);
+      assertEquals(result.value.originalSalesTax, {
+        amount: 108.2,
+        rate: 8.2,
+        state: "TX",
+        isInclusive: true,
+      });
+    }
+  });
+
+  await t.step("should treat amounts as excluding sales tax by default", async () => {
+    const result = await converter.convert({ amount: 100, country: "France", vatRate: 20 });
+
+    assertEquals(Result.isOk(result), true);
+    if (Result.isOk(result)) {
+      assertEquals(result.value.netAmount, 100);
+      assertEquals(result.value.vatAmount, 20);
+      assertEquals(result.value.grossAmount, 120);
+    }
+  });
+
+  await t.step("should use the country's rate for the product category", async () => {
+    const result = await converter.convert({
+      amount: 10,
+      country: "DE",
+      productCategory: "books",
+      invoiceDate: "2024-06-01",
+    });
+
+    assertEquals(Result.isOk(result) && result.value.vatRate, 7);
+  });
+
+  await t.step("should settle amounts to cents for exact representations", async () => {
+    const result = await converter.convert(
+      { amount: 10.99, isInclusive: true, taxRate: 8.875, country: "IT", vatRate: 22 },
+      { moneyRepresentation: "decimal" },
+    );
+
+    assertEquals(Result.isOk(result), true);
+    if (Result.isOk(result)) {
+      assertEquals(result.value.exact, {
+        netAmount: "10.09",
+        vatAmount: "2.22",
+        grossAmount: "12.31",
+      });
+    }
+  });
+
+  await t.step("should require the EU country for states shared by several", async () => {
+    const result = await converter.convert({ amount: 100, state: "MA", vatRate: 21 });
+
+    assertEquals(Result.isErr(result) && result.error.code, ErrorCode.AMBIGUOUS_INPUT);
+  });
+
+  await t.step("should reject input without a state or country", async () => {
+    const result = await converter.convert({ amount: 100 });
+
+    assertEquals(Result.isErr(result) && result.error.code, ErrorCode.INVALID_INPUT);
+  });
+
+  await t.step("should round-trip amounts converted by VatToSalesTaxConverter", async () => {
+    const forward = new VatToSalesTaxConverter();
+    const countries = ["Germany", "France", "Italy", "Poland", "Sweden", "Austria", "Portugal"];
+
+    for (let i = 0; i < 140; i++) {
+      const country = countries[i % countries.length];
+      const amount = ((i * 7919) % 100_000) / 100 + 1;
+      const isInclusive = i % 2 === 0;
+
+      const usa = await forward.convert({
+        amount,
+        country,
+        isInclusive,
+        invoiceDate: "2024-06-01",
+      });
+      assertEquals(Result.isOk(usa), true);
+      if (!Result.isOk(usa)) continue;
+
+      const eu = await converter.convert({
+        amount: usa.value.total,
+        isInclusive: true,
+        taxRate: usa.value.taxRate,
+        state: usa.value.state,
+        invoiceDate: "2024-06-01",
+      });
+      assertEquals(Result.isOk(eu), true);
+      if (!Result.isOk(eu)) continue;
+
+      assertEquals(eu.value.vatRate, usa.value.originalVAT.rate);
+      assertAlmostEquals(eu.value.netAmount, usa.value.subtotal, 0.01);
+      assertAlmostEquals(isInclusive ? eu.value.grossAmount : eu.value.netAmount, amount, 0.01);
+    }
+  });
+});
@@ -0,0 +1,54 @@
+import { assertEquals } from "@std/assert";
+import { parseVatId, VAT_ID_FORMATS } from "../../../src/converters/tax/vat-ids.ts";
+import { ErrorCode } from "../../../src/shared/types/converter.ts";
+import { Result } from "../../../src/shared/types/result.ts";
+
+Deno.test("parseVatId", async (t) => {
+  await t.step("should normalize VAT IDs and split off the member state", () => {
+    assertEquals(
+      parseVatId("de 123.456-789"),
+      Result.ok({
+        country: "DE",
+        number: "123456789",
+        vatId: "DE123456789",
+      }),
+    );
+    const dutch = parseVatId("NL123456789B01");
+    assertEquals(Result.isOk(dutch) && dutch.value.number, "123456789B01");
+  });
+
+  await t.step("should accept GR as well as EL for Greece", () => {
+    const el = parseVatId("EL123456789");
+    const gr = parseVatId("GR123456789");
+
+    assertEquals(Result.isOk(el) && el.value.country, "GR");
+    assertEquals(Result.isOk(gr) && gr.value.vatId, "EL123456789");
+  });
+
+  await t.step("should accept every member state's example", () => {
+    for (const format of Object.values(VAT_ID_FORMATS)) {
+      const result = parseVatId(format.example);
+      assertEquals(Result.isOk(result) && result.value.country, format.country, format.example);
+    }
+  });
+
+  await t.step("should reject malformed VAT IDs", () => {
+    const short = parseVatId("DE12345678", "buyerVatId");
+    const unknown = parseVatId("US123456789");
+
+    assertEquals(Result.isErr(short) && short.error.code, ErrorCode.INVALID_INPUT);
+    assertEquals(Result.isErr(short) && short.error.details, {
+      field: "buyerVatId",
+      vatId: "DE12345678",
+      country: "DE",
+      rule: "9 digits",
+      example: "DE123456789",
+    });
+    assertEquals(Result.isErr(unknown) && unknown.error.details, {
+      field: "vatId",
+      vatId: "US123456789",
+    });
+    assertEquals(Result.isOk(parseVatId("ATU1234567")), false);
+    assertEquals(Result.isOk(parseVatId("SE123456789012")), false);
+  });
+});
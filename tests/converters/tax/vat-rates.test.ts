@@ -0,0 +1,99 @@
+import { assertEquals } from "@std/assert";
+import { DEFAULT_VAT_RATES, VatRateTable } from "../../../src/converters/tax/vat-rates.ts";
+import { ErrorCode } from "../../../src/shared/types/converter.ts";
+import { Result } from "../../../src/shared/types/result.ts";
+
+Deno.test("VatRateTable", async (t) => {
+  const table = VatRateTable.default();
+
+  await t.step("should pick the period in force on a date", () => {
+    const cases: [string, string, number][] = [
+      ["DE", "2020-06-30", 19],
+      ["DE", "2020-07-01", 16],
+      ["DE", "2020-12-31", 16],
+      ["DE", "2021-01-01", 19],
+      ["IE", "2020-10-15", 21],
+      ["LU", "2023-06-01", 16],
+      ["LU", "2024-06-01", 17],
+      ["FI", "2024-08-31", 24],
+      ["FI", "2024-09-01", 25.5],
+      ["EE", "2025-06-30", 22],
+      ["EE", "2025-07-01", 24],
+      ["RO", "2025-07-31", 19],
+      ["RO", "2025-08-01", 21],
+    ];
+
+    for (const [country, date, rate] of cases) {
+      const result = table.getRate(country, date);
+      assertEquals(Result.isOk(result) && result.value.rate, rate, `${country} ${date}`);
+    }
+  });
+
+  await t.step("should map product categories to the country's rates", () => {
+    const cases: [string, "food" | "books" | "medicine" | "restaurants", number][] = [
+      ["DE", "food", 7],
+      ["DE", "medicine", 19],
+      ["FR", "books", 5.5],
+      ["FR", "medicine", 2.1],
+      ["IE", "food", 0],
+      ["IT", "food", 4],
+      ["DK", "food", 25],
+    ];
+
+    for (const [country, productCategory, rate] of cases) {
+      const result = table.getRate(country, "2024-06-01", { productCategory });
+      assertEquals(Result.isOk(result) && result.value.rate, rate, `${country} ${productCategory}`);
+    }
+  });
+
+  await t.step("should follow temporary category changes", () => {
+    const during = table.getRate("DE", "2022-05-01", { productCategory: "restaurants" });
+    const after = table.getRate("DE", "2024-05-01", { productCategory: "restaurants" });
+
+    assertEquals(Result.isOk(during) && during.value.kind, "reduced");
+    assertEquals(Result.isOk(after) && after.value.kind, "standard");
+  });
+
+  await t.step("should let an explicit kind override the product category", () => {
+    const result = table.getRate("FR", "2024-06-01", { kind: "zero", productCategory: "food" });
+
+    assertEquals(Result.isOk(result) && result.value.rate, 0);
+  });
+
+  await t.step("should report dates outside the table", () => {
+    const result = table.getRate("DE", "2019-12-31");
+
+    assertEquals(Result.isErr(result) && result.error.code, ErrorCode.OUT_OF_RANGE);
+  });
+
+  await t.step("should report rate kinds a country does not have", () => {
+    const result = table.getRate("DK", "2024-06-01", { kind: "reduced" });
+
+    assertEquals(Result.isErr(result) && result.error.code, ErrorCode.INVALID_INPUT);
+  });
+
+  await t.step("should not overlap periods in the built-in table", () => {
+    const byCountry = Map.groupBy(DEFAULT_VAT_RATES.periods, (period) => period.country);
+
+    for (const [country, periods] of byCountry) {
+      const sorted = periods.toSorted((a, b) => a.effectiveFrom.localeCompare(b.effectiveFrom));
+      for (let i = 1; i < sorted.length; i++) {
+        const previousEnd = sorted[i - 1].effectiveTo;
+        assertEquals(
+          previousEnd !== undefined && previousEnd < sorted[i].effectiveFrom,
+          true,
+          country,
+        );
+      }
+    }
+  });
+
+  await t.step("should validate rate table data", () => {
+    const result = VatRateTable.fromObject({
+      version: "test",
+      periods: [{ country: "DE", effectiveFrom: "2024-01-01", standard: 190 }],
+    });
+
+    assertEquals(Result.isErr(result) && result.error.code, ErrorCode.CONFIGURATION_ERROR);
+  });
+});
@@ -1,5 +1,7 @@
 import { assertEquals, assertExists } from "@std/assert";
-import { VatToSalesTaxConverter, type EUVAT, type USASalesTax } from "../../../src/converters/tax/vat-to-sales-tax.ts";
+import { VatToSalesTaxConverter, type EUVAT, type EUVATInvoice } from "../../../src/converters/tax/vat-to-sales-tax.ts";
+import { ZipTaxRateTable } from "../../../src/converters/tax/zip-tax-rates.ts";
+import { ErrorCode } from "../../../src/shared/types/converter.ts";
 import { Result } from "../../../src/shared/types/result.ts";
 
 Deno.test("VatToSalesTaxConverter", async (t) => {
@@ -57,6 +59,20 @@ Deno.test("VatToSalesTaxConverter", async (t) => {
 
     const result = await converter.convert(input);
     
+    assertEquals(Result.isErr(result), true);
+    if (Result.isErr(result)) {
+      assertEquals(result.error.code, ErrorCode.UNKNOWN_COUNTRY);
+    }
+  });
+
+  await t.step("should map EU countries without a state mapping to the default state", async () => {
+    const result = await converter.convert({
+      amount: 100.00,
+      vatRate: 20,
+      country: "Bulgaria",
+      isInclusive: true,
+    });
+
     assertEquals(Result.isOk(result), true);
     if (Result.isOk(result)) {
       const tax = result.value;
@@ -65,11 +81,25 @@ Deno.test("VatToSalesTaxConverter", async (t) => {
     }
   });
 
+  await t.step("should accept ISO codes and native country names", async () => {
+    for (const [country, state] of [["DE", "TX"], ["Czechia", "OH"], ["Magyarország", "NJ"]]) {
+      const result = await converter.convert({
+        amount: 100.00,
+        vatRate: 20,
+        country,
+        isInclusive: true,
+      });
+
+      assertEquals(Result.isOk(result) && result.value.state, state, country);
+      assertEquals(Result.isOk(result) && result.value.originalVAT.country, country);
+    }
+  });
+
   await t.step("should use default VAT rate when not provided", async () => {
     const input: EUVAT = {
       amount: 100.00,
       vatRate: 25, // Provide explicit rate for validation
-      country: "Unknown Country",
+      country: "Sweden",
       isInclusive: true,
     };
 
@@ -190,6 +220,470 @@ Deno.test("VatToSalesTaxConverter", async (t) => {
     }
   });
 
+  await t.step("should return exact decimal amounts when requested", async () => {
+    const input: EUVAT = {
+      amount: 119.00,
+      vatRate: 19,
+      country: "Germany",
+      isInclusive: true,
+    };
+
+    const result = await converter.convert(input, { moneyRepresentation: "decimal" });
+
+    assertEquals(Result.isOk(result), true);
+    if (Result.isOk(result)) {
+      assertEquals(result.value.exact, {
+        subtotal: "100.00",
+        taxAmount: "8.20",
+        total: "108.20",
+        stateTax: "6.25",
+        localTax: "1.95",
+      });
+    }
+  });
+
+  await t.step("should return integer minor units when requested", async () => {
+    const input: EUVAT = {
+      amount: 119.00,
+      vatRate: 19,
+      country: "Germany",
+      isInclusive: true,
+    };
+
+    const result = await converter.convert(input, { moneyRepresentation: "minor-units" });
+
+    assertEquals(Result.isOk(result), true);
+    if (Result.isOk(result)) {
+      assertEquals(result.value.exact?.total, 10820);
+      assertEquals(result.value.exact?.stateTax, 625);
+    }
+  });
+
+  await t.step("should apply the requested rounding mode to tax components", async () => {
+    const input: EUVAT = {
+      amount: 2.00, // TX state tax: 6.25% of $2.00 = $0.125
+      vatRate: 19,
+      country: "Germany",
+      isInclusive: false,
+    };
+
+    const halfUp = await converter.convert(input, { moneyRepresentation: "decimal" });
+    const halfEven = await converter.convert(input, {
+      moneyRepresentation: "decimal",
+      roundingMode: "half-even",
+    });
+
+    assertEquals(Result.isOk(halfUp) && halfUp.value.exact?.stateTax, "0.13");
+    assertEquals(Result.isOk(halfEven) && halfEven.value.exact?.stateTax, "0.12");
+    assertEquals(Result.isOk(halfEven) && halfEven.value.exact?.total, "2.16");
+  });
+
+  await t.step("should omit exact amounts by default", async () => {
+    const result = await converter.convert({
+      amount: 100,
+      vatRate: 20,
+      country: "France",
+      isInclusive: false,
+    });
+
+    assertEquals(Result.isOk(result) && result.value.exact, undefined);
+  });
+
+  await t.step("should look up the VAT rate in force on the invoice date", async () => {
+    const result = await converter.convert({
+      amount: 116.00,
+      country: "DE",
+      isInclusive: true,
+      invoiceDate: "2020-09-15",
+    });
+
+    assertEquals(Result.isOk(result), true);
+    if (Result.isOk(result)) {
+      const tax = result.value;
+      assertEquals(tax.originalVAT.rate, 16); // Temporary reduction
+      assertEquals(tax.originalVAT.effectiveFrom, "2020-07-01");
+      assertEquals(Math.round(tax.subtotal * 100) / 100, 100.00);
+      assertEquals(tax.vatRateVersion, "eu-vat-2025-08");
+    }
+  });
+
+  await t.step("should pick rates by product and VAT category", async () => {
+    const food = await converter.convert({
+      amount: 100.00,
+      country: "France",
+      isInclusive: true,
+      productCategory: "food",
+      invoiceDate: "2024-03-01",
+    });
+    assertEquals(Result.isOk(food) && food.value.originalVAT.rate, 5.5);
+    assertEquals(Result.isOk(food) && food.value.originalVAT.kind, "secondReduced");
+
+    const reduced = await converter.convert({
+      amount: 100.00,
+      country: "France",
+      isInclusive: true,
+      category: "reduced",
+      invoiceDate: "2024-03-01",
+    });
+    assertEquals(Result.isOk(reduced) && reduced.value.originalVAT.rate, 10);
+
+    const exempt = await converter.convert({
+      amount: 100.00,
+      country: "France",
+      isInclusive: true,
+      category: "exempt",
+      productCategory: "food",
+    });
+    assertEquals(Result.isOk(exempt) && exempt.value.originalVAT.rate, 0);
+  });
+
+  await t.step("should prefer an explicit VAT rate over the table", async () => {
+    const result = await converter.convert({
+      amount: 100.00,
+      vatRate: 19,
+      country: "DE",
+      isInclusive: true,
+      invoiceDate: "2020-09-15",
+    });
+
+    assertEquals(Result.isOk(result) && result.value.originalVAT.rate, 19);
+    assertEquals(Result.isOk(result) && result.value.vatRateVersion, undefined);
+  });
+
+  await t.step("should reject invoice dates without VAT rates", async () => {
+    const result = await converter.convert({
+      amount: 100.00,
+      country: "DE",
+      isInclusive: true,
+      invoiceDate: "1999-01-01",
+    });
+
+    assertEquals(Result.isErr(result) && result.error.code, ErrorCode.OUT_OF_RANGE);
+  });
+
+  await t.step("should itemize jurisdictions for a destination ZIP code", async () => {
+    const zipRates = ZipTaxRateTable.fromCsv(
+      [
+        "zipCode,state,stateRate,county,countyRate,city,cityRate,district,districtRate",
+        "60601,IL,6.25,Cook County,1.75,Chicago,1.25,Regional Transportation Authority,1",
+      ].join("\n"),
+      "test-zip-1",
+    );
+    assertEquals(Result.isOk(zipRates), true);
+    if (!Result.isOk(zipRates)) return;
+    const zipConverter = new VatToSalesTaxConverter({ zipRates: zipRates.value });
+
+    const result = await zipConverter.convert({
+      amount: 100.00,
+      vatRate: 19,
+      country: "Germany",
+      isInclusive: false,
+      destinationZip: "60601-1234",
+    }, { moneyRepresentation: "decimal" });
+
+    assertEquals(Result.isOk(result), true);
+    if (Result.isOk(result)) {
+      const tax = result.value;
+      assertEquals(tax.state, "IL"); // From the ZIP code, not the country mapping
+      assertEquals(tax.zipCode, "60601");
+      assertEquals(tax.locality, "Chicago");
+      assertEquals(tax.taxRate, 10.25);
+      assertEquals(tax.jurisdictions, [
+        { type: "state", name: "IL", rate: 6.25, amount: 6.25 },
+        { type: "county", name: "Cook County", rate: 1.75, amount: 1.75 },
+        { type: "city", name: "Chicago", rate: 1.25, amount: 1.25 },
+        { type: "district", name: "Regional Transportation Authority", rate: 1, amount: 1 },
+      ]);
+      assertEquals(tax.stateTax, 6.25);
+      assertEquals(tax.localTax, 4);
+      assertEquals(tax.total, 110.25);
+      assertEquals(tax.zipRateVersion, "test-zip-1");
+    }
+
+    // A converted US address works as the destination
+    const address = { streetName: "Michigan Ave", city: "Chicago", state: "IL", zipCode: "60601" };
+    const fromAddress = await zipConverter.convert({
+      amount: 100.00,
+      vatRate: 19,
+      country: "Germany",
+      isInclusive: false,
+      destinationAddress: address,
+    });
+    assertEquals(Result.isOk(fromAddress) && fromAddress.value.taxRate, 10.25);
+
+    const unknownZip = await zipConverter.convert({
+      amount: 100.00,
+      vatRate: 19,
+      country: "Germany",
+      isInclusive: false,
+      destinationZip: "99999",
+    });
+    assertEquals(Result.isErr(unknownZip) && unknownZip.error.code, ErrorCode.INVALID_INPUT);
+  });
+
+  await t.step("should require a ZIP rate table for destination ZIP codes", async () => {
+    const result = await converter.convert({
+      amount: 100.00,
+      vatRate: 19,
+      country: "Germany",
+      isInclusive: false,
+      destinationZip: "60601",
+    });
+
+    assertEquals(Result.isErr(result) && result.error.code, ErrorCode.CONFIGURATION_ERROR);
+  });
+
+  await t.step("should convert a multi-line invoice with discounts and shipping", async () => {
+    const invoice: EUVATInvoice = {
+      country: "Germany",
+      invoiceDate: "2024-06-01",
+      lines: [
+        { description: "Laptop", unitPrice: 1190.00 },
+        { description: "Manual", quantity: 2, unitPrice: 10.70, productCategory: "books" },
+        { description: "Delivery", kind: "shipping", unitPrice: 11.90, vatRate: 19 },
+      ],
+      discounts: [{ description: "Spring sale", percent: 10 }], // Items only: €121.14
+    };
+
+    const result = await converter.convertInvoice(invoice);
+
+    assertEquals(Result.isOk(result), true);
+    if (Result.isOk(result)) {
+      const tax = result.value;
+      assertEquals(tax.state, "TX");
+      assertEquals(tax.rounding, "line");
+      assertEquals(tax.lines.map((l) => [l.discount, l.netAmount, l.vatRate, l.vatAmount]), [
+        [119, 900, 19, 171],
+        [2.14, 18, 7, 1.26],
+        [0, 10, 19, 1.9],
+      ]);
+      assertEquals(tax.lines[1].vatKind, "reduced");
+      assertEquals(tax.lines[2].vatKind, undefined); // Explicit rate
+      assertEquals(tax.lines.map((l) => l.salesTax), [73.8, 1.48, 0.83]);
+      assertEquals(tax.subtotal, 928);
+      assertEquals(tax.discountTotal, 121.14);
+      assertEquals(tax.stateTax, 58.01);
+      assertEquals(tax.localTax, 18.1);
+      assertEquals(tax.taxAmount, 76.11);
+      assertEquals(tax.total, 1004.11);
+      assertEquals(tax.reconciliation, {
+        euTotal: 1102.16,
+        vatRemoved: 174.16,
+        salesTaxAdded: 76.11,
+        difference: -98.05,
+        usTotal: 1004.11,
+      });
+      assertEquals(tax.vatRateVersion, "eu-vat-2025-08");
+    }
+
+    // Rounding once per invoice taxes the unrounded subtotal
+    const perInvoice = await converter.convertInvoice({ ...invoice, rounding: "invoice" });
+    assertEquals(Result.isOk(perInvoice), true);
+    if (Result.isOk(perInvoice)) {
+      assertEquals(perInvoice.value.rounding, "invoice");
+      assertEquals(perInvoice.value.stateTax, 58);
+      assertEquals(perInvoice.value.taxAmount, 76.1);
+      assertEquals(perInvoice.value.total, 1004.1);
+      assertEquals(perInvoice.value.reconciliation.vatRemoved, 174.16);
+    }
+  });
+
+  await t.step("should itemize invoice jurisdictions for a destination ZIP code", async () => {
+    const zipRates = ZipTaxRateTable.fromCsv(
+      [
+        "zipCode,state,stateRate,county,countyRate,city,cityRate,district,districtRate",
+        "60601,IL,6.25,Cook County,1.75,Chicago,1.25,Regional Transportation Authority,1",
+      ].join("\n"),
+      "test-zip-1",
+    );
+    assertEquals(Result.isOk(zipRates), true);
+    if (!Result.isOk(zipRates)) return;
+    const zipConverter = new VatToSalesTaxConverter({ zipRates: zipRates.value });
+
+    const result = await zipConverter.convertInvoice({
+      country: "Germany",
+      isInclusive: false,
+      lines: [{ unitPrice: 100.00, vatRate: 19 }, { unitPrice: 33.33, vatRate: 7 }],
+      destinationZip: "60601",
+    }, { moneyRepresentation: "decimal" });
+
+    assertEquals(Result.isOk(result), true);
+    if (Result.isOk(result)) {
+      const tax = result.value;
+      assertEquals(tax.state, "IL");
+      assertEquals(tax.jurisdictions?.map((j) => j.amount), [8.33, 2.33, 1.67, 1.33]);
+      assertEquals(tax.localTax, 5.33);
+      assertEquals(tax.taxAmount, 13.66);
+      assertEquals(tax.exact?.total, "146.99");
+      assertEquals(tax.reconciliation.euTotal, 154.66);
+      assertEquals(tax.reconciliation.vatRemoved, 21.33);
+      assertEquals(tax.vatRateVersion, undefined);
+    }
+  });
+
+  await t.step("should reject invalid invoices", async () => {
+    const lines = [{ unitPrice: 50.00, vatRate: 19 }];
+
+    const empty = await converter.convertInvoice({ country: "Germany", lines: [] });
+    const bothKinds = await converter.convertInvoice({
+      country: "Germany",
+      lines,
+      discounts: [{ amount: 5, percent: 5 }],
+    });
+    const tooLarge = await converter.convertInvoice({
+      country: "Germany",
+      lines: [...lines, { kind: "shipping", unitPrice: 20.00, vatRate: 19 }],
+      discounts: [{ amount: 60 }], // Shipping cannot be discounted
+    });
+    const unknown = await converter.convertInvoice({ country: "Atlantis", lines });
+
+    assertEquals(Result.isErr(empty) && empty.error.code, ErrorCode.INVALID_INPUT);
+    assertEquals(Result.isErr(bothKinds) && bothKinds.error.code, ErrorCode.INVALID_INPUT);
+    assertEquals(Result.isErr(tooLarge) && tooLarge.error.code, ErrorCode.INVALID_INPUT);
+    assertEquals(Result.isErr(tooLarge) && tooLarge.error.details, {
+      field: "discounts",
+      discount: 60,
+      itemTotal: 50,
+    });
+    assertEquals(Result.isErr(unknown) && unknown.error.code, ErrorCode.UNKNOWN_COUNTRY);
+  });
+
+  await t.step("should reconcile line-rounded invoices to the cent", async () => {
+    for (let i = 0; i < 50; i++) {
+      const lineCount = 1 + (i % 4);
+      const result = await converter.convertInvoice({
+        country: ["Germany", "France", "Italy", "Spain"][i % 4],
+        isInclusive: i % 3 !== 0,
+        lines: Array.from({ length: lineCount }, (_, j) => ({
+          quantity: 1 + ((i + j) % 3),
+          unitPrice: ((i * 7919 + j * 104729) % 100000) / 100,
+          vatRate: [0, 5.5, 10, 19, 21][(i + j) % 5],
+        })),
+        discounts: i % 2 === 0 ? [{ percent: 1 + (i % 15) }] : undefined,
+      });
+
+      assertEquals(Result.isOk(result), true);
+      if (!Result.isOk(result)) continue;
+
+      const tax = result.value;
+      const cents = (values: number[]) => values.reduce((sum, v) => sum + Math.round(v * 100), 0);
+      assertEquals(cents(tax.lines.map((l) => l.total)), cents([tax.total]));
+      assertEquals(cents(tax.lines.map((l) => l.vatAmount)), cents([tax.reconciliation.vatRemoved]));
+      assertEquals(
+        cents([tax.reconciliation.euTotal, -tax.reconciliation.vatRemoved, tax.taxAmount]),
+        cents([tax.reconciliation.usTotal]),
+      );
+    }
+  });
+
+  await t.step("should not strip VAT from reverse-charged B2B sales", async () => {
+    const result = await converter.convert({
+      amount: 1000.00,
+      country: "Germany",
+      isInclusive: true,
+      sellerVatId: "DE 123 456 789",
+      buyerVatId: "FR12345678901",
+    });
+
+    assertEquals(Result.isOk(result), true);
+    if (Result.isOk(result)) {
+      const tax = result.value;
+      assertEquals(tax.subtotal, 1000); // No VAT was charged
+      assertEquals(tax.originalVAT.rate, 0);
+      assertEquals(tax.vatRateVersion, undefined);
+      assertEquals(tax.vatTreatment, {
+        transactionType: "reverse_charge",
+        vatCharged: false,
+        vatCountry: "DE",
+        sellerVatId: "DE123456789",
+        buyerVatId: "FR12345678901",
+      });
+      assertEquals(tax.total, 1082); // TX: 8.2%
+    }
+  });
+
+  await t.step("should charge the buyer's VAT rate on OSS distance sales", async () => {
+    const result = await converter.convert({
+      amount: 120.00,
+      country: "Germany",
+      isInclusive: true,
+      buyerCountry: "FR",
+      invoiceDate: "2024-06-01",
+    });
+
+    assertEquals(Result.isOk(result), true);
+    if (Result.isOk(result)) {
+      const tax = result.value;
+      assertEquals(tax.originalVAT.rate, 20); // France, not Germany
+      assertEquals(tax.subtotal, 100);
+      assertEquals(tax.state, "TX"); // Still the seller's mapping
+      assertEquals(tax.vatTreatment.transactionType, "oss");
+      assertEquals(tax.vatTreatment.vatCountry, "FR");
+    }
+  });
+
+  await t.step("should keep exempt and domestic B2B transactions apart", async () => {
+    const exempt = await converter.convert({
+      amount: 500.00,
+      vatRate: 19,
+      country: "Germany",
+      isInclusive: true,
+      transactionType: "exempt",
+    });
+    const domestic = await converter.convert({
+      amount: 119.00,
+      vatRate: 19,
+      country: "Germany",
+      isInclusive: true,
+      buyerVatId: "DE987654321",
+    });
+
+    assertEquals(Result.isOk(exempt) && exempt.value.subtotal, 500);
+    assertEquals(Result.isOk(exempt) && exempt.value.vatTreatment.vatCharged, false);
+    assertEquals(Result.isOk(domestic) && domestic.value.vatTreatment.transactionType, "standard");
+    assertEquals(Result.isOk(domestic) && Math.round(domestic.value.subtotal * 100) / 100, 100);
+  });
+
+  await t.step("should validate VAT IDs and transaction types", async () => {
+    const base = { amount: 100.00, vatRate: 19, country: "Germany", isInclusive: true };
+
+    const noBuyer = await converter.convert({ ...base, transactionType: "reverse_charge" });
+    const foreignSeller = await converter.convert({ ...base, sellerVatId: "ATU12345678" });
+    const malformed = await converter.convert({ ...base, buyerVatId: "FR123" });
+    const ossToBusiness = await converter.convert({
+      ...base,
+      transactionType: "oss",
+      buyerVatId: "FR12345678901",
+    });
+
+    assertEquals(Result.isErr(noBuyer) && noBuyer.error.code, ErrorCode.MISSING_REQUIRED_FIELD);
+    assertEquals(Result.isErr(foreignSeller) && foreignSeller.error.code, ErrorCode.INVALID_INPUT);
+    assertEquals(
+      Result.isErr(malformed) && (malformed.error.details as { field: string }).field,
+      "buyerVatId",
+    );
+    assertEquals(Result.isErr(ossToBusiness) && ossToBusiness.error.code, ErrorCode.INVALID_INPUT);
+  });
+
+  await t.step("should apply reverse charge to every invoice line", async () => {
+    const result = await converter.convertInvoice({
+      country: "Germany",
+      buyerVatId: "NL123456789B01",
+      lines: [{ unitPrice: 200.00 }, { unitPrice: 50.00, productCategory: "books" }],
+    });
+
+    assertEquals(Result.isOk(result), true);
+    if (Result.isOk(result)) {
+      const tax = result.value;
+      assertEquals(tax.lines.map((l) => [l.netAmount, l.vatRate, l.vatAmount]), [
+        [200, 0, 0],
+        [50, 0, 0],
+      ]);
+      assertEquals(tax.reconciliation.vatRemoved, 0);
+      assertEquals(tax.vatTreatment.transactionType, "reverse_charge");
+    }
+  });
+
   await t.step("should return metadata", () => {
     const metadata = converter.getMetadata();
     
@@ -0,0 +1,89 @@
+import { assertEquals } from "@std/assert";
+import { ZipTaxRateTable } from "../../../src/converters/tax/zip-tax-rates.ts";
+import { ErrorCode } from "../../../src/shared/types/converter.ts";
+import { Result } from "../../../src/shared/types/result.ts";
+
+const CSV = [
+  "# Test rates",
+  "zipCode,state,stateRate,county,countyRate,city,cityRate,district,districtRate",
+  '60601,IL,6.25,Cook County,1.75,Chicago,1.25,"Regional Transportation Authority, Chicago",1',
+  "97201,OR,0,,,,,,",
+].join("\n");
+
+Deno.test("ZipTaxRateTable", async (t) => {
+  await t.step("should parse CSV rate tables", () => {
+    const result = ZipTaxRateTable.fromCsv(CSV, "test-1");
+
+    assertEquals(Result.isOk(result), true);
+    if (Result.isOk(result)) {
+      assertEquals(result.value.version, "test-1");
+      assertEquals(result.value.getRate("60601"), {
+        zipCode: "60601",
+        state: "IL",
+        stateRate: 6.25,
+        county: "Cook County",
+        countyRate: 1.75,
+        city: "Chicago",
+        cityRate: 1.25,
+        district: "Regional Transportation Authority, Chicago",
+        districtRate: 1,
+      });
+      assertEquals(result.value.getRate("97201-1234")?.countyRate, 0);
+      assertEquals(result.value.getRate("12345"), undefined);
+    }
+  });
+
+  await t.step("should report invalid rows and columns", () => {
+    const badRate = ZipTaxRateTable.fromCsv(
+      "zipCode,state,stateRate\n60601,IL,six",
+      "test",
+    );
+    assertEquals(Result.isErr(badRate) && badRate.error.code, ErrorCode.CONFIGURATION_ERROR);
+    assertEquals(
+      Result.isErr(badRate) && badRate.error.message.includes("rates.0.stateRate"),
+      true,
+    );
+
+    const badColumn = ZipTaxRateTable.fromCsv("zip,state,stateRate\n60601,IL,6.25", "test");
+    assertEquals(Result.isErr(badColumn) && badColumn.error.details, {
+      source: "CSV",
+      unknownColumns: ["zip"],
+    });
+
+    const duplicate = ZipTaxRateTable.fromCsv(
+      "zipCode,state,stateRate\n60601,IL,6.25\n60601,IL,6.25",
+      "test",
+    );
+    assertEquals(Result.isErr(duplicate) && duplicate.error.code, ErrorCode.CONFIGURATION_ERROR);
+  });
+
+  await t.step("should load CSV and JSON files", async () => {
+    const csvPath = await Deno.makeTempFile({ prefix: "rates-2024q3-", suffix: ".csv" });
+    const jsonPath = await Deno.makeTempFile({ suffix: ".json" });
+    try {
+      await Deno.writeTextFile(csvPath, CSV);
+      await Deno.writeTextFile(
+        jsonPath,
+        JSON.stringify({
+          version: "json-1",
+          rates: [{ zipCode: "60601", state: "IL", stateRate: 6.25 }],
+        }),
+      );
+
+      const csv = await ZipTaxRateTable.fromFile(csvPath);
+      assertEquals(Result.isOk(csv) && csv.value.version.startsWith("rates-2024q3-"), true);
+
+      const json = await ZipTaxRateTable.fromFile(jsonPath);
+      assertEquals(Result.isOk(json) && json.value.getRate("60601")?.cityRate, 0);
+    } finally {
+      await Deno.remove(csvPath);
+      await Deno.remove(jsonPath);
+    }
+  });
+
+  await t.step("should fail to load missing files", async () => {
+    const result = await ZipTaxRateTable.fromFile("/nonexistent/rates.csv");
+
+    assertEquals(Result.isErr(result) && result.error.code, ErrorCode.CONFIGURATION_ERROR);
+  });
+});
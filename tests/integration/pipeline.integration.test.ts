@@ -6,6 +6,10 @@ import {
   PipelineConfig,
 } from "../../src/pipeline/pipeline-orchestrator.ts";
 import { RetryPolicy } from "../../src/shared/resilience/retry-policy.ts";
+import { Result } from "../../src/shared/types/result.ts";
+import { UsdToEurConverter } from "../../src/converters/currency/usd-to-eur.ts";
+import { UsaToEuPhoneConverter } from "../../src/converters/phone/usa-to-eu-phone.ts";
+import { EurToUsdConverter } from "../../src/converters/currency/eur-to-usd.ts";
 
 // Test data factory
 function createTestRecord(id: string): EUDataRecord {
@@ -474,4 +478,97 @@ Deno.test("Pipeline Integration - End-to-End Complex Record", async () => {
   await pipeline.cleanup();
 });
 
+Deno.test("Pipeline Integration - USA to EU Direction", async () => {
+  const forward = new PipelineOrchestrator({ name: "forward", stages: [] });
+  const reverse = new PipelineOrchestrator({ name: "reverse", stages: [], direction: "usa-to-eu" });
+
+  assertEquals(forward.getConverter("currency") instanceof EurToUsdConverter, true);
+  assertEquals(reverse.getConverter("currency") instanceof UsdToEurConverter, true);
+  assertEquals(reverse.getConverter("phone") instanceof UsaToEuPhoneConverter, true);
+
+  const pipeline = new PipelineOrchestrator({
+    name: "usa-to-eu",
+    stages: ["currency", "phone", "numbers", "tax"].map((name) => ({
+      name,
+      converter: reverse.getConverter(name)!,
+      required: true,
+    })),
+    direction: "usa-to-eu",
+  });
+  const result = await pipeline.processRecord({
+    id: "reverse-001",
+    phone: "011 49 30 1234567",
+    numbers: ["1,234.56"],
+    salesTax: { amount: 100, country: "DE", vatRate: 19 },
+  });
+
+  assertEquals(Result.isOk(result), true);
+  if (Result.isOk(result)) {
+    assertEquals(result.value.phone, "+49 30 1234567");
+    assertEquals(result.value.numbers, ["1.234,56"]);
+    assertEquals(result.value.vat?.country, "DE");
+    assertEquals(result.value.vat?.vatRate, 19);
+    assertEquals(result.value.salesTax, undefined);
+  }
+
+  await pipeline.cleanup();
+});
+
+Deno.test("Pipeline Integration - Cached Stages Fill The Record", async () => {
+  const converters = new PipelineOrchestrator({ name: "converters", stages: [] });
+  const pipeline = new PipelineOrchestrator({
+    name: "cached-record",
+    stages: ["dates", "numbers"].map((name) => ({
+      name,
+      converter: converters.getConverter(name)!,
+      required: true,
+    })),
+    enableCache: true,
+  });
+  const record = { id: "cache-record-001", dates: ["24/08/2025"], numbers: ["1.234,5"] };
+
+  const first = await pipeline.processRecord(record);
+  const second = await pipeline.processRecord(record);
+
+  assertEquals(Result.isOk(first), true);
+  assertEquals(Result.isOk(second), true);
+  if (Result.isOk(first) && Result.isOk(second)) {
+    assertEquals(first.value.dates, ["08/24/2025"]);
+    assertEquals(second.value.dates, first.value.dates);
+    assertEquals(second.value.numbers, first.value.numbers);
+  }
+
+  await pipeline.cleanup();
+});
+
+Deno.test("Pipeline Integration - Cached Stages With Retries", async () => {
+  const converters = new PipelineOrchestrator({ name: "converters", stages: [] });
+  const pipeline = new PipelineOrchestrator({
+    name: "cached-retries",
+    stages: [
+      {
+        name: "dates",
+        converter: converters.getConverter("dates")!,
+        required: true,
+        retryPolicy: new RetryPolicy("dates", { maxAttempts: 2, initialDelay: 1 }),
+      },
+    ],
+    enableCache: true,
+  });
+  const record = { id: "cache-retry-001", dates: ["24/08/2025"] };
+
+  const first = await pipeline.processRecord(record);
+  const second = await pipeline.processRecord(record);
+
+  assertEquals(Result.isOk(first) && first.value.dates, ["08/24/2025"]);
+  assertEquals(Result.isOk(second) && second.value.dates, ["08/24/2025"]);
+
+  // Failed retries are not cached as successes
+  const invalid = { id: "cache-retry-002", dates: ["not a date"] };
+  assertEquals(Result.isErr(await pipeline.processRecord(invalid)), true);
+  assertEquals(Result.isErr(await pipeline.processRecord(invalid)), true);
+
+  await pipeline.cleanup();
+});
+
 console.log("✅ Pipeline integration tests completed");
\ No newline at end of file
@@ -0,0 +1,57 @@
+import { assertEquals } from "@std/assert";
+import {
+  findCountry,
+  findCountryByDialingCode,
+  resolveCountry,
+} from "../../../src/shared/countries/index.ts";
+import { ErrorCode } from "../../../src/shared/types/converter.ts";
+import { Result } from "../../../src/shared/types/result.ts";
+
+Deno.test("Country resolver", async (t) => {
+  await t.step("should find countries by ISO code", () => {
+    assertEquals(findCountry("DE")?.name, "Germany");
+    assertEquals(findCountry("de")?.name, "Germany");
+    assertEquals(findCountry("DEU")?.name, "Germany");
+    assertEquals(findCountry("276")?.name, "Germany");
+    assertEquals(findCountry("040")?.alpha2, "AT");
+  });
+
+  await t.step("should find countries by native name and alias", () => {
+    assertEquals(findCountry("Deutschland")?.alpha2, "DE");
+    assertEquals(findCountry("Česko")?.alpha2, "CZ");
+    assertEquals(findCountry("Czechia")?.alpha2, "CZ");
+    assertEquals(findCountry("Czech Republic")?.alpha2, "CZ");
+    assertEquals(findCountry("Ελλάδα")?.alpha2, "GR");
+    assertEquals(findCountry("Schweiz")?.alpha2, "CH");
+    assertEquals(findCountry("The Netherlands")?.alpha2, "NL");
+    assertEquals(findCountry("UK")?.alpha2, "GB");
+  });
+
+  await t.step("should ignore case, accents and punctuation in names", () => {
+    assertEquals(findCountry("  ČESKO ")?.alpha2, "CZ");
+    assertEquals(findCountry("cesko")?.alpha2, "CZ");
+    assertEquals(findCountry("osterreich")?.alpha2, "AT");
+    assertEquals(findCountry("U.K.")?.alpha2, "GB");
+    assertEquals(findCountry("north-macedonia")?.alpha2, "MK");
+    assertEquals(findCountry("Bosnia and Herzegovina")?.alpha2, "BA");
+  });
+
+  await t.step("should find countries by dialing code", () => {
+    assertEquals(findCountryByDialingCode("+49")?.alpha2, "DE");
+    assertEquals(findCountryByDialingCode("0049")?.alpha2, "DE");
+    assertEquals(findCountryByDialingCode("420")?.alpha2, "CZ");
+    assertEquals(findCountryByDialingCode("+999"), undefined);
+  });
+
+  await t.step("should return UNKNOWN_COUNTRY for unrecognized countries", () => {
+    for (const country of ["Atlantis", "XX", "XYZ", "999", ""]) {
+      const result = resolveCountry(country);
+
+      assertEquals(Result.isErr(result), true, country);
+      if (Result.isErr(result)) {
+        assertEquals(result.error.code, ErrorCode.UNKNOWN_COUNTRY);
+        assertEquals(result.error.details, { field: "country", country });
+      }
+    }
+  });
+});